@@ -119,6 +119,36 @@ export const errors = {
 		status: 412,
 	},
 
+	/**
+	 * Error to return when a script fails to load or run.
+	 *
+	 * @typedef {object} ScriptError
+	 *
+	 * @property {string} code.required - The error code. - enum:script-error
+	 * @property {string} message.required - The error message, including the error raised by the script.
+	 * @property {number} status.required - The HTTP error code. - enum:422
+	 * @property {number} line - The line of the script the error occurred on.
+	 */
+	'script-error': {
+		message: `The script could not be run as it contains an error. Please fix the script and try again.`,
+		status: 422,
+	},
+
+	/**
+	 * Error to return when a script runs for too long or uses too much memory.
+	 *
+	 * @typedef {object} ScriptTimeoutError
+	 *
+	 * @property {string} code.required - The error code. - enum:script-timeout
+	 * @property {string} message.required - The error message, including the limit the script exceeded.
+	 * @property {number} status.required - The HTTP error code. - enum:422
+	 * @property {number} line - The line of the script that was running when it was stopped.
+	 */
+	'script-timeout': {
+		message: `The script was stopped as it exceeded its resource limits. Please make sure the script does not loop forever and try again.`,
+		status: 422,
+	},
+
 	/**
 	 * Error to return when the user gets rate limited.
 	 *
@@ -188,3 +218,23 @@ export class ServerError extends Error {
 		this.message = message ?? errors[code].message
 	}
 }
+
+/**
+ * An error raised while running a script, with the line of the script the
+ * error occurred on.
+ *
+ * @property {number} line - The line of the script the error occurred on, if known.
+ */
+export class ScriptExecutionError extends ServerError {
+	line?: number
+
+	constructor(
+		code: 'script-error' | 'script-timeout',
+		message?: string,
+		line?: number,
+	) {
+		super(code, message)
+
+		this.line = line
+	}
+}
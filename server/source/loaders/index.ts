@@ -7,6 +7,7 @@ import { load as loadProvider } from '@/loaders/provider'
 import { load as loadMiddleware } from '@/loaders/express/middleware'
 import { load as loadDocumentation } from '@/loaders/express/docs'
 import { load as loadRoutes } from '@/loaders/express/routes'
+import { load as loadJobs } from '@/loaders/jobs'
 import { logger } from '@/utilities/logger'
 
 /**
@@ -26,6 +27,8 @@ export const load = async (app: Application): Promise<void> => {
 	await loadDocumentation(app)
 	// Register API endpoints
 	await loadRoutes(app)
+	// Start running background jobs
+	await loadJobs(app)
 
 	logger.info('[loaders] all loaders succeeded')
 }
@@ -0,0 +1,35 @@
+// @/loaders/jobs/index.ts
+// Loader that starts running background jobs.
+
+import type { Application } from 'express'
+
+import { queue } from '@/provider/queue'
+import { service as jobs } from '@/services/jobs'
+import { logger, stringify } from '@/utilities/logger'
+
+/**
+ * Starts running queued jobs, and, if the queue does not outlive the server's
+ * process, queues the jobs that had not finished when the server last stopped.
+ *
+ * @param {Application} _app - The Express application instance.
+ */
+export const load = async (_app: Application): Promise<void> => {
+	queue.process(async (jobId: string): Promise<void> => {
+		const result = await jobs.run({ data: { jobId } })
+		if (result.error)
+			logger.warn(
+				'[loaders/jobs] received error while running job %s - %s',
+				jobId,
+				stringify(result.error),
+			)
+	})
+	if (queue.durable) return
+
+	const result = await jobs.resume({ data: {} })
+	if (result.error)
+		logger.warn(
+			'[loaders/jobs] received error while resuming jobs - %s',
+			stringify(result.error),
+		)
+	else logger.info('[loaders/jobs] resumed %d jobs', result.data!.jobs.length)
+}
@@ -267,14 +267,18 @@ export const permit = (context: AuthorizationContext): RequestHandler =>
 						value: request.params.userId,
 					})
 
-				const foundGroups = await groups.find(query as Array<Query<Group>>)
+				// A group report is rendered for the group in the URL, so only that
+				// group can allow the user to view it
+				const foundGroups = request.params.groupId
+					? [await groups.get(request.params.groupId)]
+					: await groups.find(query as Array<Query<Group>>)
 
 				// Within a group, it is possible to restrict the ability to view the
 				// report to certain roles. Check if the user has the correct role to
 				// view the report
 				if (
 					foundGroups.some((group) =>
-						group.reports[request.params.reportId].includes(
+						group.reports?.[request.params.reportId]?.includes(
 							group.participants[request.user!.id],
 						),
 					)
@@ -49,6 +49,11 @@ export class UserAttribute {
 	) {}
 }
 
+/**
+ * The type of values an attribute holds.
+ */
+export type AttributeType = 'string' | 'number' | 'boolean'
+
 /**
  * A class representing an attribute.
  *
@@ -58,6 +63,7 @@ export class UserAttribute {
  * @property {string} description.required - The attribute's description.
  * @property {array<string>} tags.required - Tags to enhance the attribute's searchability.
  * @property {array<string>} conversations.required - A list of conversations that might set this attribute.
+ * @property {string} type - The type of values the attribute holds. Values of any type are allowed if not specified. - enum:string,number,boolean
  */
 export class Attribute {
 	constructor(
@@ -66,5 +72,6 @@ export class Attribute {
 		public description: string,
 		public tags: string[],
 		public conversations: string[],
+		public type?: AttributeType,
 	) {}
 }
@@ -1,6 +1,18 @@
 // @/models/conversation.ts
 // Class that represents a conversation.
 
+/**
+ * The name and description of a conversation in another language.
+ *
+ * @typedef {object} ConversationTranslation
+ * @property {string} name - The conversation's name.
+ * @property {string} description - The conversation's description.
+ */
+export type ConversationTranslation = {
+	name?: string
+	description?: string
+}
+
 /**
  * A class representing a conversation.
  *
@@ -10,6 +22,8 @@
  * @property {string} description.required - The conversation's description.
  * @property {boolean} once.required - Whether a user can go through the conversation again.
  * @property {array<string>} tags.required - Tags to enhance searchability of the conversation.
+ * @property {object} translations - The conversation's name and description in other languages, keyed by locale (e.g. `hi` or `pt-BR`). Each value is a `ConversationTranslation`.
+ * @property {number} version - The version of the conversation's questions shown to users. Not set until the conversation is published, until which users are shown the draft questions.
  */
 export class Conversation {
 	constructor(
@@ -18,5 +32,7 @@ export class Conversation {
 		public description: string,
 		public once: boolean,
 		public tags: string[],
+		public version?: number,
+		public translations?: Record<string, ConversationTranslation>,
 	) {}
 }
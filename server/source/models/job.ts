@@ -0,0 +1,102 @@
+// @/models/job.ts
+// Class that represents a background job.
+
+/**
+ * The users a job runs a script for. Exactly one of the fields must be set.
+ *
+ * @typedef {object} JobTarget
+ * @property {array<string>} users - The IDs of the users to run the script for.
+ * @property {string} group - The ID of a group whose participants to run the script for.
+ * @property {string} tag - A tag, the participants of all groups with which to run the script for.
+ * @property {boolean} all - Whether to run the script for every user.
+ */
+export type JobTarget = {
+	users?: string[]
+	group?: string
+	tag?: string
+	all?: boolean
+}
+
+/**
+ * How far along the latest run of a job is.
+ *
+ * @typedef {object} JobProgress
+ * @property {number} total.required - The number of users to run the script for.
+ * @property {number} done.required - The number of users the script ran successfully for.
+ * @property {number} failed.required - The number of users the script failed to run for.
+ */
+export type JobProgress = {
+	total: number
+	done: number
+	failed: number
+}
+
+/**
+ * A user the script failed to run for, even after retrying.
+ *
+ * @typedef {object} JobFailure
+ * @property {string} user.required - The ID of the user.
+ * @property {number} attempts.required - The number of times the script was run for the user.
+ * @property {string} code.required - The code of the error the last attempt ended with.
+ * @property {string} message.required - A description of the error.
+ */
+export type JobFailure = {
+	user: string
+	attempts: number
+	code: string
+	message: string
+}
+
+/**
+ * The state of a job. A scheduled job waits for its next run once it
+ * finishes, while a job that is not scheduled finishes only once.
+ */
+export type JobStatus =
+	| 'queued'
+	| 'running'
+	| 'scheduled'
+	| 'finished'
+	| 'failed'
+
+/**
+ * A class representing a job that runs a script for many users in the
+ * background.
+ *
+ * @typedef {object} Job
+ * @property {string} id.required - The job ID.
+ * @property {string} script.required - The ID of the script to run.
+ * @property {JobTarget} target.required - The users to run the script for.
+ * @property {string} schedule - A cron expression (in UTC) for when to run the job, if it should run repeatedly.
+ * @property {string} status.required - The state of the job. - enum:queued,running,scheduled,finished,failed
+ * @property {JobProgress} progress.required - How far along the latest run of the job is.
+ * @property {array<JobFailure>} failures.required - The users the script failed to run for in the latest run of the job.
+ * @property {string} error - Why the latest run of the job failed as a whole, if it did.
+ * @property {string} creator.required - The ID of the user who created the job.
+ * @property {string} created.required - When the job was created. - date
+ * @property {string} started - When the latest run of the job started. - date
+ * @property {string} finished - When the latest run of the job finished. - date
+ * @property {string} next - When the job will next run, if it is scheduled. - date
+ * @property {string} owner - The ID of the run that claimed the job, while it is running.
+ * @property {string} heartbeat - When the run that claimed the job last saved its progress, while it is running. - date
+ * @property {string} cursor - The ID of the last user the latest run got through (empty before the first), until it finishes. Users are run in order of their IDs, so a job that is queued with a cursor continues with the users after it.
+ */
+export class Job {
+	constructor(
+		public id: string,
+		public script: string,
+		public target: JobTarget,
+		public schedule: string | undefined,
+		public status: JobStatus,
+		public progress: JobProgress,
+		public failures: JobFailure[],
+		public creator: string,
+		public created: Date,
+		public started?: Date,
+		public finished?: Date,
+		public next?: Date,
+		public error?: string,
+		public owner?: string,
+		public heartbeat?: Date,
+		public cursor?: string,
+	) {}
+}
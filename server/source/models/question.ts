@@ -1,6 +1,9 @@
 // @/models/question.ts
 // Class that represents a question.
 
+import type { Query } from '@/types'
+import type { TemplateEngine } from '@/models/report'
+
 /**
  * An object that contains the data about the attribute to set when a user
  * answers a question with a given option.
@@ -27,24 +30,98 @@ export type NextQuestion = {
 	question: string
 }
 
+/**
+ * A condition on the value of one of the user's attributes.
+ *
+ * @typedef {object} BranchCondition
+ * @property {string} attribute.required - The ID of the attribute whose value to check.
+ * @property {string} operator.required - How to compare the attribute's value with the given value. - enum:==,!=,>,<,>=,<=,includes
+ * @property {string | number | boolean} value.required - The value to compare the attribute's value with.
+ */
+export type BranchCondition = {
+	attribute: string
+	operator: Query<unknown>['operator']
+	value: string | number | boolean
+}
+
+/**
+ * A question to show the user next, provided the user's attributes satisfy all
+ * the given conditions.
+ *
+ * @typedef {object} Branch
+ * @property {array<BranchCondition>} conditions.required - The conditions that must all be satisfied for this branch to be taken.
+ * @property {NextQuestion} next.required - The next question to show the user if this branch is taken.
+ */
+export type Branch = {
+	conditions: BranchCondition[]
+	next: NextQuestion
+}
+
+/**
+ * The range of values a user can pick from if the option is a scale.
+ *
+ * @typedef {object} Scale
+ * @property {number} min.required - The smallest value the user can pick.
+ * @property {number} max.required - The largest value the user can pick.
+ * @property {number} step.required - The difference between two consecutive values on the scale.
+ */
+export type Scale = {
+	min: number
+	max: number
+	step: number
+}
+
+/**
+ * The rules the input entered by a user must satisfy if the option is of type
+ * `input`.
+ *
+ * @typedef {object} InputRules
+ * @property {boolean} required - Whether the user must enter something.
+ * @property {number} minLength - The minimum number of characters the input must have.
+ * @property {number} maxLength - The maximum number of characters the input can have.
+ * @property {string} pattern - A regular expression the input must match. It can be at most 200 characters long, and cannot repeat a group that contains a repetition (e.g., `(a+)+`), as such patterns can take too long to match. Input longer than 1000 characters, or that takes too long to match, fails the rule.
+ * @property {number} min - The smallest number the input can be.
+ * @property {number} max - The largest number the input can be.
+ * @property {array<string>} values - The only values the input can be.
+ */
+export type InputRules = {
+	required?: boolean
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	min?: number
+	max?: number
+	values?: string[]
+}
+
 /**
  * An option a user can select to answer a question.
  *
  * @typedef {object} Option
  * @property {number} position.required - The position to show the option in if `randomizeOptionOrder` is `false`.
- * @property {string} type.required - The type of option. If it is `input`, the user can enter text as their answer - enum:select,input
+ * @property {string} type.required - The type of option. If it is `multi-select`, the user can select it along with other `multi-select` options. If it is `scale`, the user can pick a number on the `scale`. If it is `input`, the user can enter text as their answer - enum:select,multi-select,scale,input
  * @property {string} text.required - The question text. Should be shown as a hint for the textbox if `type` is `input`.
+ * @property {object} translations - The option text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} format - The kind of value the user must enter if `type` is `input`. Defaults to `text`. - enum:text,number,date,email
+ * @property {Scale} scale - The range of values the user can pick from if `type` is `scale`.
+ * @property {InputRules} rules - The rules the user's input must satisfy if `type` is `input`.
  * @property {AttributeToSet} attribute - The attribute to set when a user answers the question with this option.
  * @property {string} script - The script to run if they select this option.
  * @property {NextQuestion} next - The next question to show the user if they select this option.
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes. The first branch whose conditions are satisfied is taken; if none are, the user is shown the `next` question.
  */
 export type Option = {
 	position: number
-	type: 'select' | 'input'
+	type: 'select' | 'multi-select' | 'scale' | 'input'
 	text: string
+	translations?: Record<string, string>
+	format?: 'text' | 'number' | 'date' | 'email'
+	scale?: Scale
+	rules?: InputRules
 	attribute?: AttributeToSet
 	script?: string
 	next?: NextQuestion
+	branches?: Branch[]
 }
 
 /**
@@ -53,11 +130,14 @@ export type Option = {
  * @typedef {object} Question
  * @property {string} id.required - The question ID.
  * @property {string} text.required - The question text.
+ * @property {object} translations - The question text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
  * @property {array<Option>} options.required - The options to the question.
  * @property {boolean} first.required - Whether this is the first question in the conversation.
  * @property {boolean} last.required - Whether this is the last question in the conversation.
  * @property {boolean} randomizeOptionOrder.required - Whether to randomize the order of the options.
  * @property {array<string>} tags.required - Tags to enhance searchability of the question.
+ * @property {string} engine - The language the question's text template is written in. Questions saved without one use `ejs`. - enum:liquid,ejs
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes, whichever option they select. These are checked after the selected option's own branches; if none are satisfied, the user is shown the option's `next` question.
  */
 export class Question {
 	constructor(
@@ -68,6 +148,9 @@ export class Question {
 		public last: boolean,
 		public randomizeOptionOrder: boolean,
 		public tags: string[],
+		public translations: Record<string, string> | undefined,
 		public readonly _conversationId: string,
+		public engine?: TemplateEngine,
+		public branches?: Branch[],
 	) {}
 }
@@ -6,6 +6,19 @@ import { DependentAttribute } from '@/models/script'
 // Re-export the type
 export { DependentAttribute } from '@/models/script'
 
+/**
+ * Who a report is rendered for: a single user, or all the participants of a
+ * group.
+ */
+export type ReportKind = 'user' | 'group'
+
+/**
+ * The language a template is written in: `liquid` templates are rendered in a
+ * sandbox, while `ejs` templates can run any javascript on the server and are
+ * only supported for templates written before sandboxing was introduced.
+ */
+export type TemplateEngine = 'liquid' | 'ejs'
+
 /**
  * A class representing a report.
  *
@@ -14,8 +27,11 @@ export { DependentAttribute } from '@/models/script'
  * @property {string} name.required - The report name.
  * @property {string} description.required - The report description.
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the report.
- * @property {string} template.required - The EJS template used to generate the report.
+ * @property {string} template.required - The template used to generate the report.
  * @property {array<DependentAttribute>} input.required - The list of attribute IDs required to generate the report.
+ * @property {object} translations - The template in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} engine - The language the template is written in. Reports saved without one use `ejs`. - enum:liquid,ejs
+ * @property {string} kind - Whether the report is rendered for a single user, or for all the participants of a group. Defaults to `user`. - enum:user,group
  */
 export class Report {
 	constructor(
@@ -25,5 +41,37 @@ export class Report {
 		public tags: string[],
 		public template: string,
 		public input: DependentAttribute[],
+		public translations?: Record<string, string>,
+		public kind?: ReportKind,
+		public engine?: TemplateEngine,
+	) {}
+}
+
+/**
+ * A class representing a report as it was rendered for a user, saved so that
+ * it can be read and compared with other snapshots later. Snapshots are never
+ * changed once saved.
+ *
+ * @typedef {object} ReportSnapshot
+ * @property {string} id.required - The snapshot ID.
+ * @property {string} report.required - The ID of the report that was rendered.
+ * @property {string} name.required - The name of the report when the snapshot was saved.
+ * @property {string} asOf.required - The time the user's attributes were rendered as of. - date
+ * @property {string} created.required - When the snapshot was saved. - date
+ * @property {string} creator.required - The ID of the user who saved the snapshot.
+ * @property {object} input.required - The values of the attributes the report was rendered with, keyed by attribute ID.
+ * @property {string} html.required - The rendered report.
+ */
+export class ReportSnapshot {
+	constructor(
+		public id: string,
+		public report: string,
+		public name: string,
+		public asOf: Date,
+		public created: Date,
+		public creator: string,
+		public input: Record<string, string | number | boolean>,
+		public html: string,
+		public readonly _userId: string,
 	) {}
 }
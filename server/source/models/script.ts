@@ -1,5 +1,5 @@
 // @/models/script.ts
-// Class that represents an script.
+// Classes that represent a script and a record of it being run.
 
 /**
  * An interface representing a dependency for a script.
@@ -25,6 +25,26 @@ export interface ComputedAttribute {
 	optional: boolean
 }
 
+/**
+ * A test case for a script: the input to run it with, and the values it
+ * should compute.
+ *
+ * @typedef {object} ScriptTestCase
+ * @property {string} name.required - What the test case checks.
+ * @property {object} input.required - The values of the input attributes to run the script with, keyed by attribute ID.
+ * @property {object} expected.required - The values the script should compute, keyed by attribute ID.
+ */
+export interface ScriptTestCase {
+	name: string
+	input: Record<string, string | number | boolean>
+	expected: Record<string, string | number | boolean>
+}
+
+/**
+ * The languages a script can be written in.
+ */
+export type ScriptLanguage = 'lua' | 'javascript'
+
 /**
  * A class representing a script.
  *
@@ -35,7 +55,9 @@ export interface ComputedAttribute {
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the script.
  * @property {array<DependentAttribute>} input.required - The list of attributes required to run the script.
  * @property {array<ComputedAttribute>} computed.required - The list of attributes computed and set by this script.
- * @property {string} content.required - The base64 encoded lua code to run.
+ * @property {string} content.required - The base64 encoded code to run.
+ * @property {array<ScriptTestCase>} tests - The test cases the script must pass whenever its code is updated.
+ * @property {string} language - The language the script is written in. Defaults to `lua`. - enum:lua,javascript
  */
 export class Script {
 	constructor(
@@ -46,5 +68,73 @@ export class Script {
 		public input: DependentAttribute[],
 		public computed: ComputedAttribute[],
 		public content: string,
+		public tests?: ScriptTestCase[],
+		public language?: ScriptLanguage,
+	) {}
+}
+
+/**
+ * What caused a script to run. Scripts run when a user answers a question
+ * with an option that specifies the script, when they are run manually or by
+ * a background job, or when an attribute they use changes.
+ *
+ * @typedef {object} ScriptRunTrigger
+ * @property {string} user.required - The ID of the user who answered the question or ran the script.
+ * @property {string} conversation - The ID of the conversation the question is a part of.
+ * @property {string} question - The ID of the question that was answered.
+ * @property {number} option - The position of the option that was chosen.
+ * @property {array<string>} attributes - The IDs of the changed attributes that caused the script to re-run.
+ * @property {string} job - The ID of the background job that ran the script.
+ */
+export type ScriptRunTrigger = {
+	user: string
+	conversation?: string
+	question?: string
+	option?: number
+	attributes?: string[]
+	job?: string
+}
+
+/**
+ * The error a script run ended with.
+ *
+ * @typedef {object} ScriptRunError
+ * @property {string} code.required - The error code.
+ * @property {string} message.required - A description of the error.
+ * @property {number} line - The line of the script the error occurred on, if the script itself failed.
+ */
+export type ScriptRunError = {
+	code: string
+	message: string
+	line?: number
+}
+
+/**
+ * A class representing a record of a script being run for a user.
+ *
+ * @typedef {object} ScriptRun
+ * @property {string} id.required - The run ID.
+ * @property {string} script.required - The ID of the script that was run.
+ * @property {string} hash.required - The SHA-256 hash of the code that was run, to tell apart runs of different versions of the script.
+ * @property {string} user.required - The ID of the user the script was run for.
+ * @property {ScriptRunTrigger} trigger.required - What caused the script to run.
+ * @property {object} input.required - The values of the input attributes the script was run with, keyed by attribute ID.
+ * @property {object} output - The values the script computed, keyed by attribute ID. Not set if the script raised an error.
+ * @property {string} started.required - When the script started running. - date
+ * @property {number} duration.required - How long the run took, in milliseconds.
+ * @property {ScriptRunError} error - The error the run ended with. Not set if the run succeeded.
+ */
+export class ScriptRun {
+	constructor(
+		public id: string,
+		public script: string,
+		public hash: string,
+		public user: string,
+		public trigger: ScriptRunTrigger,
+		public input: Record<string, string | number | boolean>,
+		public output: Record<string, string | number | boolean> | undefined,
+		public started: Date,
+		public duration: number,
+		public error?: ScriptRunError,
 	) {}
 }
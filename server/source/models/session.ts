@@ -0,0 +1,54 @@
+// @/models/session.ts
+// Class that represents a user's session in a conversation.
+
+import { NextQuestion } from '@/models/question'
+
+/**
+ * A question answered by the user during a session, and the option they chose
+ * to answer it with.
+ *
+ * @typedef {object} SessionStep
+ * @property {string} conversation.required - The ID of the conversation the question is a part of.
+ * @property {string} question.required - The ID of the question that was answered.
+ * @property {number} position.required - The position of the option chosen by the user.
+ * @property {array<number>} positions - The positions of all the options chosen by the user, if they chose several `multi-select` options.
+ * @property {array<string>} attributes - The IDs of the attributes set by the user's answer.
+ * @property {number} version - The published version of the conversation the question was answered in. Not set if the conversation had not been published.
+ * @property {string} timestamp.required - When the user answered the question. - date
+ */
+export type SessionStep = {
+	conversation: string
+	question: string
+	position: number
+	positions?: number[]
+	attributes?: string[]
+	version?: number
+	timestamp: Date
+}
+
+/**
+ * A class representing a user's progress through a conversation.
+ *
+ * @typedef {object} ConversationSession
+ * @property {string} id.required - The session ID.
+ * @property {string} conversation.required - The ID of the conversation the session was started in.
+ * @property {string} started.required - When the user started taking the conversation. - date
+ * @property {string} finished - When the user finished taking the conversation. Not set while the user is still taking it. - date
+ * @property {array<SessionStep>} path.required - The questions answered by the user, in the order they were answered.
+ * @property {NextQuestion} next - The question the user should answer to continue the conversation. Not set once the session has finished.
+ * @property {number} version - The published version of the conversation the session was started on. Not set if the conversation had not been published.
+ * @property {string} firstFinished - When the user first finished taking the conversation. Kept when a finished session is reopened, as a conversation that can be taken only once can be reopened only for a short while after it. - date
+ */
+export class ConversationSession {
+	constructor(
+		public id: string,
+		public conversation: string,
+		public started: Date,
+		public finished: Date | undefined,
+		public path: SessionStep[],
+		public next: NextQuestion | undefined,
+		public version: number | undefined,
+		public readonly _userId: string,
+		public firstFinished?: Date,
+	) {}
+}
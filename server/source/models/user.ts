@@ -10,6 +10,7 @@
  * @property {string} email - The user's email address. - email
  * @property {string} phone - The user's phone number.
  * @property {string} lastSignedIn.required - The time the user last signed in to their account. - date
+ * @property {string} locale - The locale the user would like to see conversations and reports in (e.g. `hi` or `pt-BR`).
  */
 export class User {
 	constructor(
@@ -18,5 +19,6 @@ export class User {
 		public email: string | undefined,
 		public phone: string | undefined,
 		public lastSignedIn: Date,
+		public locale?: string,
 	) {}
 }
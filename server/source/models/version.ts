@@ -0,0 +1,27 @@
+// @/models/version.ts
+// Class that represents a published version of a conversation.
+
+import { Question } from '@/models/question'
+
+/**
+ * A class representing a published version of a conversation's questions.
+ *
+ * @typedef {object} ConversationVersion
+ * @property {string} id.required - The version ID. The same as the version number.
+ * @property {number} version.required - The version number, starting from 1.
+ * @property {string} published.required - When the version was published. - date
+ * @property {string} publisher.required - The ID of the user who published the version.
+ * @property {array<Question>} questions.required - The questions in the conversation, as they were when the version was published.
+ * @property {number} restored - The version that was rolled back to, if this version was published by rolling back.
+ */
+export class ConversationVersion {
+	constructor(
+		public id: string,
+		public version: number,
+		public published: Date,
+		public publisher: string,
+		public questions: Question[],
+		public restored: number | undefined,
+		public readonly _conversationId: string,
+	) {}
+}
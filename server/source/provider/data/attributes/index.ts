@@ -140,6 +140,63 @@ class AttributeProvider implements DataProvider<Attribute> {
 		})
 	}
 
+	/**
+	 * Retrieves several attributes from the database in a single batched read.
+	 * Attributes that do not exist are skipped.
+	 *
+	 * @param {string[]} ids - The IDs of the attributes to retrieve.
+	 *
+	 * @returns {Attribute[]} - The attributes that exist.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async getMany(ids: string[]): Promise<Attribute[]> {
+		logger.info(
+			'[firebase/attributes/get-many] fetching %d attributes',
+			ids.length,
+		)
+		if (ids.length === 0) return []
+
+		// Fetch all the attributes from Firestore at once
+		let docs
+		try {
+			logger.silly('[firebase/attributes/get-many] calling get all on refs')
+			docs = await firestore.getAll(
+				...ids.map((id) => firestore.collection('attributes').doc(id)),
+			)
+			logger.silly(
+				'[firebase/attributes/get-many] received docs from firestore',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/attributes/get-many] received error while fetching attributes from firestore - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `Attribute` class
+		const attributes = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly(
+					'[firebase/attributes/get-many] received empty doc - discarding',
+				)
+				continue
+			}
+
+			attributes.push(
+				plainToInstance(Attribute, data as Record<string, any>, {
+					excludePrefixes: ['__'],
+				}),
+			)
+		}
+
+		logger.info('[firebase/attributes/get-many] fetched attributes succesfully')
+		return attributes
+	}
+
 	/**
 	 * Stores a attribute in the database.
 	 *
@@ -211,7 +211,9 @@ class ConversationProvider implements DataProvider<Conversation> {
 	}
 
 	/**
-	 * Updates a conversation in the database.
+	 * Updates a conversation in the database. Only the given fields are changed,
+	 * so leaving out a field (such as `translations`) keeps its old value instead
+	 * of clearing it. The published version is never changed here.
 	 *
 			
 	 * @param {Partial<Conversation>} data - A list of properties to update and the value to set.
@@ -255,12 +257,15 @@ class ConversationProvider implements DataProvider<Conversation> {
 			serializedConversation.__tags = {}
 			for (const tag of serializedConversation.tags)
 				serializedConversation.__tags[tag] = true
+			// The published version is only changed by publishing or rolling back,
+			// in a transaction, so never write it back here
+			delete serializedConversation.version
 			// Merge the data with the existing data in the database
-			logger.silly('[firebase/conversations/update] calling merge set on ref')
+			logger.silly('[firebase/conversations/update] calling update on ref')
 			await firestore
 				.collection('conversations')
 				.doc(data.id!)
-				.set(serializedConversation)
+				.update(serializedConversation)
 
 			// If the transaction was successful, return the updated conversation
 			logger.info(
@@ -271,6 +276,7 @@ class ConversationProvider implements DataProvider<Conversation> {
 				{
 					...existingConversationDoc.data(),
 					...data,
+					version: existingConversationDoc.data().version,
 				} as Record<string, any>,
 				{ excludePrefixes: ['__'] },
 			)
@@ -293,7 +299,7 @@ class ConversationProvider implements DataProvider<Conversation> {
 	}
 
 	/**
-	 * Deletes a conversation in the database.
+	 * Deletes a conversation in the database, along with its published versions.
 	 *
 	 * @param {string} id - The ID of the conversation to delete.
 	 *
@@ -304,8 +310,21 @@ class ConversationProvider implements DataProvider<Conversation> {
 		logger.info('[firebase/conversations/delete] deleting conversation %s', id)
 		// Delete the document
 		try {
+			const conversationRef = firestore.collection('conversations').doc(id)
+			logger.silly(
+				'[firebase/conversations/delete] deleting the published versions',
+			)
+			const versions = await conversationRef.collection('versions').get()
+			for (let start = 0; start < versions.docs.length; start += 500) {
+				// A batch can hold at most 500 writes
+				const batch = firestore.batch()
+				for (const doc of versions.docs.slice(start, start + 500))
+					batch.delete(doc.ref)
+				await batch.commit()
+			}
+
 			logger.silly('[firebase/conversations/delete] calling delete on ref')
-			await firestore.collection('conversations').doc(id).delete()
+			await conversationRef.delete()
 			logger.info(
 				'[firebase/conversations/delete] sucessfully deleted conversation',
 			)
@@ -15,9 +15,12 @@ import type { Query, DataProvider } from '@/types'
  */
 class QuestionProvider implements DataProvider<Question> {
 	/**
-	 * Questions are specific to a certain conversation.
+	 * Questions are specific to a certain conversation, so each provider
+	 * manages the questions of a single conversation.
+	 *
+	 * @param {string} conversationId - The ID of the conversation.
 	 */
-	conversationId?: string
+	constructor(readonly conversationId: string) {}
 
 	/**
 	 * Lists/searches through all questions.
@@ -32,15 +35,6 @@ class QuestionProvider implements DataProvider<Question> {
 			'[firebase/conversations/questions/find] finding questions by query',
 		)
 
-		if (!this.conversationId) {
-			logger.warn(
-				'[firebase/conversations/questions/find] conversation id was not set for provider beforehand',
-			)
-			throw new Error(
-				'Finding a question can only be done for a certain conversation.',
-			)
-		}
-
 		// Build the query
 		logger.silly(
 			'[firebase/conversations/questions/find] parsing query - %s',
@@ -146,15 +140,6 @@ class QuestionProvider implements DataProvider<Question> {
 			id,
 		)
 
-		if (!this.conversationId) {
-			logger.warn(
-				'[firebase/conversations/questions/logger] conversation id was not set for provider beforehand',
-			)
-			throw new Error(
-				'Retrieving a question can only be done for a certain conversation.',
-			)
-		}
-
 		// Fetch the question from Firestore
 		let doc
 		try {
@@ -218,15 +203,6 @@ class QuestionProvider implements DataProvider<Question> {
 			data.id,
 		)
 
-		if (!this.conversationId) {
-			logger.warn(
-				'[firebase/conversations/questions/logger] conversation id was not set for provider beforehand',
-			)
-			throw new Error(
-				'Creating a question can only be done for a certain conversation.',
-			)
-		}
-
 		// Convert the `Question` instance to a firebase document and save it
 		try {
 			// Check if the document exists
@@ -301,15 +277,6 @@ class QuestionProvider implements DataProvider<Question> {
 			data.id,
 		)
 
-		if (!this.conversationId) {
-			logger.warn(
-				'[firebase/conversations/questions/logger] conversation id was not set for provider beforehand',
-			)
-			throw new Error(
-				'Updating a question can only be done for a certain conversation.',
-			)
-		}
-
 		// Update given fields for the question in Firestore
 		try {
 			// First retrieve the question
@@ -401,14 +368,6 @@ class QuestionProvider implements DataProvider<Question> {
 			'[firebase/conversations/questions/delete] deleting question %s',
 			id,
 		)
-		if (!this.conversationId) {
-			logger.warn(
-				'[firebase/conversations/questions/delete] conversation id was not set for provider beforehand',
-			)
-			throw new Error(
-				'Deleting a question can only be done for a certain conversation.',
-			)
-		}
 
 		// Delete the document
 
@@ -443,4 +402,13 @@ class QuestionProvider implements DataProvider<Question> {
 	}
 }
 
-export const provider = new QuestionProvider()
+/**
+ * Creates a provider for the questions of a certain conversation. Services create one
+ * for every request, so concurrent requests never share any state.
+ *
+ * @param {string} conversationId - The ID of the conversation.
+ *
+ * @returns {QuestionProvider} - The provider.
+ */
+export const provider = (conversationId: string): QuestionProvider =>
+	new QuestionProvider(conversationId)
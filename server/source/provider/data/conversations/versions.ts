@@ -0,0 +1,440 @@
+// @/provider/data/conversations/versions.ts
+// Retrieves, creates, updates and deletes the published versions of a conversation in Firebase.
+
+import { instanceToPlain, plainToInstance } from 'class-transformer'
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore'
+
+import { ServerError } from '@/errors'
+import { ConversationVersion } from '@/models/version'
+import { logger, stringify } from '@/utilities/logger'
+import { firestore } from '@/provider/data/firestore'
+
+import type { Query, DataProvider } from '@/types'
+
+/**
+ * Converts a timestamp returned by Firestore into a `Date`.
+ *
+ * @param {any} timestamp - The Firestore timestamp.
+ *
+ * @returns {Date} - The parsed date.
+ */
+const parseTimestamp = (timestamp: any): Date => {
+	const time = new Date(Date.UTC(1970, 0, 1))
+	time.setSeconds(timestamp._seconds)
+
+	return time
+}
+
+/**
+ * Converts a Firestore document into an instance of a `ConversationVersion`.
+ *
+ * @param {Record<string, any>} data - The document's data.
+ *
+ * @returns {ConversationVersion} - The parsed version.
+ */
+const parseVersion = (data: Record<string, any>): ConversationVersion => {
+	data.published = parseTimestamp(data.published)
+
+	return plainToInstance(ConversationVersion, data, {
+		excludePrefixes: ['__'],
+	})
+}
+
+/**
+ * A interface that a data provider must implement.
+ */
+class ConversationVersionProvider implements DataProvider<ConversationVersion> {
+	/**
+	 * Versions are specific to a certain conversation, so each provider
+	 * manages the versions of a single conversation.
+	 *
+	 * @param {string} conversationId - The ID of the conversation.
+	 */
+	constructor(readonly conversationId: string) {}
+
+	/**
+	 * Lists/searches through all versions.
+	 *
+	 * @param {Array<Query>} queries - A list of queries to filter the versions.
+	 *
+	 * @returns {ConversationVersion[]} - Array of versions matching the query.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async find(
+		queries: Array<Query<ConversationVersion>>,
+	): Promise<ConversationVersion[]> {
+		logger.info(
+			'[firebase/conversations/versions/find] finding versions by query',
+		)
+
+		// Build the query
+		logger.silly(
+			'[firebase/conversations/versions/find] parsing query - %s',
+			stringify(queries),
+		)
+		const versionsRef = firestore
+			.collection('conversations')
+			.doc(this.conversationId)
+			.collection('versions')
+		let foundVersions = versionsRef.orderBy('version')
+		for (const query of queries) {
+			foundVersions = foundVersions.where(
+				query.field,
+				query.operator as '<' | '<=' | '==' | '!=' | '>=' | '>',
+				query.value as any,
+			)
+		}
+
+		// Execute the query
+		let docs
+		try {
+			logger.silly(
+				'[firebase/conversations/versions/find] calling get on query ref',
+			)
+			;({ docs } = await foundVersions.get())
+			logger.silly(
+				'[firebase/conversations/versions/find] received docs from firestore',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/conversations/versions/find] received error while querying docs - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `ConversationVersion` class
+		const versions = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly(
+					'[firebase/conversations/versions/find] received empty doc - discarding',
+				)
+				continue
+			}
+
+			// Add it to the array
+			versions.push(parseVersion(data))
+		}
+
+		logger.info(
+			'[firebase/conversations/versions/find] returning list of found versions',
+		)
+		return versions
+	}
+
+	/**
+	 * Retrieves a version from the database.
+	 *
+	 * @param {string} id - The ID of the version to retrieve.
+	 *
+	 * @returns {ConversationVersion} - The requested version.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async get(id: string): Promise<ConversationVersion> {
+		logger.info('[firebase/conversations/versions/get] fetching version %s', id)
+
+		// Fetch the version from Firestore
+		let doc
+		try {
+			doc = await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(id)
+				.get()
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/conversations/versions/get] received error while fetching version from firestore - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+
+		// If the document does not exist, return an error
+		const data = doc.data()
+		if (!doc.exists || !data) {
+			logger.silly(
+				'[firebase/conversations/versions/get] received empty doc - returning entity-not-found error',
+			)
+			throw new ServerError('entity-not-found')
+		}
+
+		// Return the object as an instance of the `ConversationVersion` class
+		logger.info(
+			'[firebase/conversations/versions/get] fetched version succesfully',
+		)
+		return parseVersion(data)
+	}
+
+	/**
+	 * Stores a version in the database.
+	 *
+	 * @param {ConversationVersion} data - The data to store in the version.
+	 *
+	 * @returns {ConversationVersion} - The created version.
+	 * @throws {ServerError} - 'already-exists' | 'backend-error'
+	 */
+	async create(data: ConversationVersion): Promise<ConversationVersion> {
+		logger.info(
+			'[firebase/conversations/versions/create] create version %s',
+			data.id,
+		)
+
+		// Convert the `ConversationVersion` instance to a firebase document and save it
+		try {
+			// Check if the document exists
+			const versionDocument = await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(data.id)
+				.get()
+
+			// If it does, then return an 'already-exists' error
+			if (versionDocument.exists) {
+				logger.info(
+					'[firebase/conversations/versions/create] a version with the same id already exists',
+				)
+				throw new ServerError('entity-already-exists')
+			}
+
+			// Else insert away!
+			const serializedVersion = instanceToPlain(data)
+			serializedVersion._conversationId = this.conversationId
+			// Add the data into the database
+			await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(data.id)
+				.set(serializedVersion)
+
+			// If the transaction was successful, return the created version
+			logger.info(
+				'[firebase/conversations/versions/create] successfully created version',
+			)
+			return data
+		} catch (error: unknown) {
+			// Pass on any error as a backend error
+			logger.warn(
+				'[firebase/conversations/versions/create] received error while creating version - %s',
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	/**
+	 * Updates a version in the database.
+	 *
+	 * @param {Partial<ConversationVersion>} data - A list of properties to update and the value to set.
+	 *
+	 * @returns {ConversationVersion} - The updated version.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async update(
+		data: Partial<ConversationVersion>,
+	): Promise<ConversationVersion> {
+		logger.info(
+			'[firebase/conversations/versions/update] updating version %s',
+			data.id,
+		)
+
+		// Update given fields for the version in Firestore
+		try {
+			// First retrieve the version
+			const existingVersionDoc = await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(data.id!)
+				.get()
+
+			// If it does not exist, then return a 'not-found' error
+			const existingData = existingVersionDoc.data()
+			if (!existingVersionDoc.exists || !existingData) {
+				logger.warn(
+					'[firebase/conversations/versions/update] failed to update non-existent version',
+				)
+				throw new ServerError('entity-not-found')
+			}
+
+			// Else update away!
+			const serializedVersion = instanceToPlain({
+				...parseVersion(existingData),
+				...data,
+			})
+			serializedVersion._conversationId = this.conversationId
+			// Replace the existing data in the database, so that fields that are
+			// no longer set (such as `restored`) are removed
+			await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(data.id!)
+				.set(serializedVersion)
+
+			// If the transaction was successful, return the updated version
+			logger.info(
+				'[firebase/conversations/versions/update] successfully updated version',
+			)
+			return plainToInstance(ConversationVersion, serializedVersion, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/conversations/versions/update] received error while updating version - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Deletes a version in the database.
+	 *
+	 * @param {string} id - The ID of the version to delete.
+	 *
+	 * @returns {void}
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async delete(id: string): Promise<void> {
+		logger.info(
+			'[firebase/conversations/versions/delete] deleting version %s',
+			id,
+		)
+
+		// Delete the document
+		try {
+			await firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+				.collection('versions')
+				.doc(id)
+				.delete()
+			logger.info(
+				'[firebase/conversations/versions/delete] sucessfully deleted version',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/conversations/versions/delete] received error while deleting version - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Stores a new version in the database, numbered one after the latest
+	 * version of the conversation, and makes it the version shown to users. The
+	 * number is allocated in a transaction on the conversation, so two versions
+	 * published at once never get the same number.
+	 *
+	 * @param {(number: number) => ConversationVersion} build - Creates the version, given its number.
+	 *
+	 * @returns {ConversationVersion} - The published version.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async publish(
+		build: (number: number) => ConversationVersion,
+	): Promise<ConversationVersion> {
+		logger.info(
+			'[firebase/conversations/versions/publish] publishing new version of conversation %s',
+			this.conversationId,
+		)
+
+		try {
+			const conversationRef: DocumentReference = firestore
+				.collection('conversations')
+				.doc(this.conversationId)
+			const version = await firestore.runTransaction(
+				async (transaction: Transaction) => {
+					// First retrieve the conversation
+					const conversationDoc = await transaction.get(conversationRef)
+					const data = conversationDoc.data()
+					if (!conversationDoc.exists || !data) {
+						logger.warn(
+							'[firebase/conversations/versions/publish] failed to publish non-existent conversation',
+						)
+						throw new ServerError('entity-not-found')
+					}
+
+					// The conversation always points to the latest version, since
+					// rolling back publishes the old version again
+					const number = Number(data.version ?? 0) + 1
+					const version = build(number)
+					const serializedVersion = instanceToPlain(version)
+					serializedVersion._conversationId = this.conversationId
+
+					// Store the version and point the conversation to it together
+					transaction.create(
+						conversationRef.collection('versions').doc(version.id),
+						serializedVersion,
+					)
+					transaction.update(conversationRef, { version: number })
+
+					return version
+				},
+			)
+
+			logger.info(
+				'[firebase/conversations/versions/publish] successfully published version %s',
+				version.id,
+			)
+			return version
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/conversations/versions/publish] received error while publishing version - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+}
+
+/**
+ * Creates a provider for the versions of a certain conversation. Services create one
+ * for every request, so concurrent requests never share any state.
+ *
+ * @param {string} conversationId - The ID of the conversation.
+ *
+ * @returns {ConversationVersionProvider} - The provider.
+ */
+export const provider = (conversationId: string): ConversationVersionProvider =>
+	new ConversationVersionProvider(conversationId)
@@ -0,0 +1,430 @@
+// @/provider/data/jobs/index.ts
+// Retrieves, creates, updates and deletes background jobs in Firebase.
+
+import { instanceToPlain, plainToInstance } from 'class-transformer'
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore'
+
+import { ServerError } from '@/errors'
+import { Job } from '@/models/job'
+import { logger, stringify } from '@/utilities/logger'
+import { firestore } from '@/provider/data/firestore'
+
+import type { Query, DataProvider } from '@/types'
+
+/**
+ * Converts a timestamp returned by Firestore into a `Date`.
+ *
+ * @param {any} timestamp - The Firestore timestamp.
+ *
+ * @returns {Date} - The parsed date.
+ */
+const parseTimestamp = (timestamp: any): Date => {
+	const time = new Date(Date.UTC(1970, 0, 1))
+	time.setSeconds(timestamp._seconds)
+
+	return time
+}
+
+/**
+ * Converts a Firestore document into an instance of a `Job`.
+ *
+ * @param {Record<string, any>} data - The document's data.
+ *
+ * @returns {Job} - The parsed job.
+ */
+const parseJob = (data: Record<string, any>): Job => {
+	data.created = parseTimestamp(data.created)
+	for (const field of ['started', 'finished', 'next', 'heartbeat'])
+		if (data[field]) data[field] = parseTimestamp(data[field])
+
+	return plainToInstance(Job, data, {
+		excludePrefixes: ['__'],
+	})
+}
+
+/**
+ * A interface that a data provider must implement.
+ */
+class JobProvider implements DataProvider<Job> {
+	/**
+	 * Lists/searches through all jobs.
+	 *
+	 * @param {Array<Query>} queries - A list of queries to filter the jobs.
+	 *
+	 * @returns {Job[]} - Array of jobs matching the query.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async find(queries: Array<Query<Job>>): Promise<Job[]> {
+		logger.info('[firebase/jobs/find] finding jobs by query')
+
+		// Build the query
+		logger.silly('[firebase/jobs/find] parsing query - %s', stringify(queries))
+		const jobsRef = firestore.collection('jobs')
+		let foundJobs = jobsRef.orderBy('created', 'desc')
+		for (const query of queries) {
+			foundJobs = foundJobs.where(
+				query.field,
+				query.operator as '<' | '<=' | '==' | '!=' | '>=' | '>',
+				query.value as any,
+			)
+		}
+
+		// Execute the query
+		let docs
+		try {
+			logger.silly('[firebase/jobs/find] calling get on query ref')
+			;({ docs } = await foundJobs.get())
+			logger.silly('[firebase/jobs/find] received docs from firestore')
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/find] received error while querying docs - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `Job` class
+		const jobs = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly('[firebase/jobs/find] received empty doc - discarding')
+				continue
+			}
+
+			// Add it to the array
+			jobs.push(parseJob(data))
+		}
+
+		logger.info('[firebase/jobs/find] returning list of found jobs')
+		return jobs
+	}
+
+	/**
+	 * Retrieves a job from the database.
+	 *
+	 * @param {string} id - The ID of the job to retrieve.
+	 *
+	 * @returns {Job} - The requested job.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async get(id: string): Promise<Job> {
+		logger.info('[firebase/jobs/get] fetching job %s', id)
+
+		// Fetch the job from Firestore
+		let doc
+		try {
+			doc = await firestore.collection('jobs').doc(id).get()
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/get] received error while fetching job from firestore - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+
+		// If the document does not exist, return an error
+		const data = doc.data()
+		if (!doc.exists || !data) {
+			logger.silly(
+				'[firebase/jobs/get] received empty doc - returning entity-not-found error',
+			)
+			throw new ServerError('entity-not-found')
+		}
+
+		// Return the object as an instance of the `Job` class
+		logger.info('[firebase/jobs/get] fetched job succesfully')
+		return parseJob(data)
+	}
+
+	/**
+	 * Stores a job in the database.
+	 *
+	 * @param {Job} data - The data to store in the job.
+	 *
+	 * @returns {Job} - The created job.
+	 * @throws {ServerError} - 'already-exists' | 'backend-error'
+	 */
+	async create(data: Job): Promise<Job> {
+		logger.info('[firebase/jobs/create] create job %s', data.id)
+
+		// Convert the `Job` instance to a firebase document and save it
+		try {
+			// Check if the document exists
+			const jobDocument = await firestore.collection('jobs').doc(data.id).get()
+
+			// If it does, then return an 'already-exists' error
+			if (jobDocument.exists) {
+				logger.info(
+					'[firebase/jobs/create] a job with the same id already exists',
+				)
+				throw new ServerError('entity-already-exists')
+			}
+
+			// Else insert away!
+			const serializedJob = instanceToPlain(data)
+			// Add the data into the database
+			await firestore.collection('jobs').doc(data.id).set(serializedJob)
+
+			// If the transaction was successful, return the created job
+			logger.info('[firebase/jobs/create] successfully created job')
+			return data
+		} catch (error: unknown) {
+			// Pass on any error as a backend error
+			logger.warn(
+				'[firebase/jobs/create] received error while creating job - %s',
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	/**
+	 * Updates a job in the database.
+	 *
+	 * @param {Partial<Job>} data - A list of properties to update and the value to set.
+	 *
+	 * @returns {Job} - The updated job.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async update(data: Partial<Job>): Promise<Job> {
+		logger.info('[firebase/jobs/update] updating job %s', data.id)
+
+		// Update given fields for the job in Firestore
+		try {
+			// First retrieve the job
+			const existingJobDoc = await firestore
+				.collection('jobs')
+				.doc(data.id!)
+				.get()
+
+			// If it does not exist, then return a 'not-found' error
+			const existingData = existingJobDoc.data()
+			if (!existingJobDoc.exists || !existingData) {
+				logger.warn('[firebase/jobs/update] failed to update non-existent job')
+				throw new ServerError('entity-not-found')
+			}
+
+			// Else update away!
+			const serializedJob = instanceToPlain({
+				...parseJob(existingData),
+				...data,
+			})
+			// Replace the existing data in the database, so that fields that are
+			// no longer set (such as `next`) are removed
+			await firestore.collection('jobs').doc(data.id!).set(serializedJob)
+
+			// If the transaction was successful, return the updated job
+			logger.info('[firebase/jobs/update] successfully updated job')
+			return plainToInstance(Job, serializedJob, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/update] received error while updating job - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Marks a job as running, if it can be run, in a transaction, so that only
+	 * one run can claim a job at a time even if several try at once.
+	 *
+	 * @param {string} id - The ID of the job to claim.
+	 * @param {string} owner - The ID of the run claiming the job.
+	 * @param {(job: Job) => boolean} claimable - Whether the job, as it is right now, can be claimed.
+	 *
+	 * @returns {Job | undefined} - The claimed job, or `undefined` if it could not be claimed.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async claim(
+		id: string,
+		owner: string,
+		claimable: (job: Job) => boolean,
+	): Promise<Job | undefined> {
+		logger.info('[firebase/jobs/claim] claiming job %s for run %s', id, owner)
+
+		try {
+			const jobRef: DocumentReference = firestore.collection('jobs').doc(id)
+			const claimed = await firestore.runTransaction(
+				async (transaction: Transaction) => {
+					// First retrieve the job
+					const jobDoc = await transaction.get(jobRef)
+					const data = jobDoc.data()
+					if (!jobDoc.exists || !data) {
+						logger.warn(
+							'[firebase/jobs/claim] failed to claim non-existent job',
+						)
+						throw new ServerError('entity-not-found')
+					}
+
+					// Leave it be if it is already running, or not due to run yet
+					const job = parseJob(data)
+					if (!claimable(job)) return undefined
+
+					// Else mark it as ours. A run that picks up where another left off
+					// keeps the time the job started.
+					const now = new Date()
+					const claimedJob = plainToInstance(Job, {
+						...job,
+						status: 'running',
+						owner,
+						started:
+							typeof job.cursor === 'undefined' ? now : job.started ?? now,
+						heartbeat: now,
+					})
+					transaction.set(jobRef, instanceToPlain(claimedJob))
+
+					return claimedJob
+				},
+			)
+
+			logger.info(
+				'[firebase/jobs/claim] %s job',
+				claimed ? 'successfully claimed' : 'could not claim',
+			)
+			return claimed
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/claim] received error while claiming job - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Replaces a job in the database, in a transaction, only if the given run
+	 * still owns it. A run that was thought to have stopped, and was taken over
+	 * by another, must not overwrite the new run's progress.
+	 *
+	 * @param {Job} data - The job to save.
+	 * @param {string} owner - The ID of the run that claimed the job.
+	 *
+	 * @returns {Job} - The saved job.
+	 * @throws {ServerError} - 'not-found' | 'precondition-failed' | 'backend-error'
+	 */
+	async updateClaimed(data: Job, owner: string): Promise<Job> {
+		logger.info(
+			'[firebase/jobs/update-claimed] updating job %s for run %s',
+			data.id,
+			owner,
+		)
+
+		try {
+			const jobRef: DocumentReference = firestore
+				.collection('jobs')
+				.doc(data.id)
+			const serializedJob = instanceToPlain(data)
+			await firestore.runTransaction(async (transaction: Transaction) => {
+				// First retrieve the job
+				const jobDoc = await transaction.get(jobRef)
+				const existingData = jobDoc.data()
+				if (!jobDoc.exists || !existingData) {
+					logger.warn(
+						'[firebase/jobs/update-claimed] failed to update non-existent job',
+					)
+					throw new ServerError('entity-not-found')
+				}
+
+				// Stop if another run has taken the job over
+				if (existingData.owner !== owner) {
+					logger.warn(
+						'[firebase/jobs/update-claimed] job was taken over by run %s',
+						existingData.owner,
+					)
+					throw new ServerError(
+						'precondition-failed',
+						'The job was taken over by another run.',
+					)
+				}
+
+				// Replace the existing data in the database, so that fields that are
+				// no longer set (such as `owner`) are removed
+				transaction.set(jobRef, serializedJob)
+			})
+
+			// If the transaction was successful, return the updated job
+			logger.info('[firebase/jobs/update-claimed] successfully updated job')
+			return plainToInstance(Job, serializedJob, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/update-claimed] received error while updating job - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Deletes a job in the database.
+	 *
+	 * @param {string} id - The ID of the job to delete.
+	 *
+	 * @returns {void}
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async delete(id: string): Promise<void> {
+		logger.info('[firebase/jobs/delete] deleting job %s', id)
+
+		// Delete the document
+		try {
+			await firestore.collection('jobs').doc(id).delete()
+			logger.info('[firebase/jobs/delete] sucessfully deleted job')
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/jobs/delete] received error while deleting job - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+}
+
+export const provider = new JobProvider()
@@ -0,0 +1,289 @@
+// @/provider/data/scripts/runs.ts
+// Retrieves, creates, updates and deletes the records of scripts being run in Firebase.
+
+import { instanceToPlain, plainToInstance } from 'class-transformer'
+
+import { ServerError } from '@/errors'
+import { ScriptRun } from '@/models/script'
+import { logger, stringify } from '@/utilities/logger'
+import { firestore } from '@/provider/data/firestore'
+
+import type { Query, DataProvider } from '@/types'
+
+/**
+ * Converts a timestamp returned by Firestore into a `Date`.
+ *
+ * @param {any} timestamp - The Firestore timestamp.
+ *
+ * @returns {Date} - The parsed date.
+ */
+const parseTimestamp = (timestamp: any): Date => {
+	const time = new Date(Date.UTC(1970, 0, 1))
+	time.setSeconds(timestamp._seconds)
+
+	return time
+}
+
+/**
+ * Converts a Firestore document into an instance of a `ScriptRun`.
+ *
+ * @param {Record<string, any>} data - The document's data.
+ *
+ * @returns {ScriptRun} - The parsed run.
+ */
+const parseRun = (data: Record<string, any>): ScriptRun => {
+	data.started = parseTimestamp(data.started)
+
+	return plainToInstance(ScriptRun, data, {
+		excludePrefixes: ['__'],
+	})
+}
+
+/**
+ * A interface that a data provider must implement.
+ */
+class ScriptRunProvider implements DataProvider<ScriptRun> {
+	/**
+	 * Lists/searches through all runs.
+	 *
+	 * @param {Array<Query>} queries - A list of queries to filter the runs.
+	 *
+	 * @returns {ScriptRun[]} - Array of runs matching the query.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async find(queries: Array<Query<ScriptRun>>): Promise<ScriptRun[]> {
+		logger.info('[firebase/scripts/runs/find] finding runs by query')
+
+		// Build the query
+		logger.silly(
+			'[firebase/scripts/runs/find] parsing query - %s',
+			stringify(queries),
+		)
+		const runsRef = firestore.collection('script-runs')
+		let foundRuns = runsRef.orderBy('started', 'desc')
+		for (const query of queries) {
+			foundRuns = foundRuns.where(
+				query.field,
+				query.operator as '<' | '<=' | '==' | '!=' | '>=' | '>',
+				query.value as any,
+			)
+		}
+
+		// Execute the query
+		let docs
+		try {
+			logger.silly('[firebase/scripts/runs/find] calling get on query ref')
+			;({ docs } = await foundRuns.get())
+			logger.silly('[firebase/scripts/runs/find] received docs from firestore')
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/scripts/runs/find] received error while querying docs - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `ScriptRun` class
+		const runs = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly(
+					'[firebase/scripts/runs/find] received empty doc - discarding',
+				)
+				continue
+			}
+
+			// Add it to the array
+			runs.push(parseRun(data))
+		}
+
+		logger.info('[firebase/scripts/runs/find] returning list of found runs')
+		return runs
+	}
+
+	/**
+	 * Retrieves a run from the database.
+	 *
+	 * @param {string} id - The ID of the run to retrieve.
+	 *
+	 * @returns {ScriptRun} - The requested run.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async get(id: string): Promise<ScriptRun> {
+		logger.info('[firebase/scripts/runs/get] fetching run %s', id)
+
+		// Fetch the run from Firestore
+		let doc
+		try {
+			doc = await firestore.collection('script-runs').doc(id).get()
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/scripts/runs/get] received error while fetching run from firestore - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+
+		// If the document does not exist, return an error
+		const data = doc.data()
+		if (!doc.exists || !data) {
+			logger.silly(
+				'[firebase/scripts/runs/get] received empty doc - returning entity-not-found error',
+			)
+			throw new ServerError('entity-not-found')
+		}
+
+		// Return the object as an instance of the `ScriptRun` class
+		logger.info('[firebase/scripts/runs/get] fetched run succesfully')
+		return parseRun(data)
+	}
+
+	/**
+	 * Stores a run in the database.
+	 *
+	 * @param {ScriptRun} data - The data to store in the run.
+	 *
+	 * @returns {ScriptRun} - The created run.
+	 * @throws {ServerError} - 'already-exists' | 'backend-error'
+	 */
+	async create(data: ScriptRun): Promise<ScriptRun> {
+		logger.info('[firebase/scripts/runs/create] create run %s', data.id)
+
+		// Convert the `ScriptRun` instance to a firebase document and save it
+		try {
+			// Check if the document exists
+			const runDocument = await firestore
+				.collection('script-runs')
+				.doc(data.id)
+				.get()
+
+			// If it does, then return an 'already-exists' error
+			if (runDocument.exists) {
+				logger.info(
+					'[firebase/scripts/runs/create] a run with the same id already exists',
+				)
+				throw new ServerError('entity-already-exists')
+			}
+
+			// Else insert away!
+			const serializedRun = instanceToPlain(data)
+			// Add the data into the database
+			await firestore.collection('script-runs').doc(data.id).set(serializedRun)
+
+			// If the transaction was successful, return the created run
+			logger.info('[firebase/scripts/runs/create] successfully created run')
+			return data
+		} catch (error: unknown) {
+			// Pass on any error as a backend error
+			logger.warn(
+				'[firebase/scripts/runs/create] received error while creating run - %s',
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	/**
+	 * Updates a run in the database.
+	 *
+	 * @param {Partial<ScriptRun>} data - A list of properties to update and the value to set.
+	 *
+	 * @returns {ScriptRun} - The updated run.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async update(data: Partial<ScriptRun>): Promise<ScriptRun> {
+		logger.info('[firebase/scripts/runs/update] updating run %s', data.id)
+
+		// Update given fields for the run in Firestore
+		try {
+			// First retrieve the run
+			const existingRunDoc = await firestore
+				.collection('script-runs')
+				.doc(data.id!)
+				.get()
+
+			// If it does not exist, then return a 'not-found' error
+			const existingData = existingRunDoc.data()
+			if (!existingRunDoc.exists || !existingData) {
+				logger.warn(
+					'[firebase/scripts/runs/update] failed to update non-existent run',
+				)
+				throw new ServerError('entity-not-found')
+			}
+
+			// Else update away!
+			const serializedRun = instanceToPlain({
+				...parseRun(existingData),
+				...data,
+			})
+			// Replace the existing data in the database, so that fields that are
+			// no longer set (such as `error`) are removed
+			await firestore.collection('script-runs').doc(data.id!).set(serializedRun)
+
+			// If the transaction was successful, return the updated run
+			logger.info('[firebase/scripts/runs/update] successfully updated run')
+			return plainToInstance(ScriptRun, serializedRun, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/scripts/runs/update] received error while updating run - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Deletes a run in the database.
+	 *
+	 * @param {string} id - The ID of the run to delete.
+	 *
+	 * @returns {void}
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async delete(id: string): Promise<void> {
+		logger.info('[firebase/scripts/runs/delete] deleting run %s', id)
+
+		// Delete the document
+		try {
+			await firestore.collection('script-runs').doc(id).delete()
+			logger.info('[firebase/scripts/runs/delete] sucessfully deleted run')
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/scripts/runs/delete] received error while deleting run - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+}
+
+export const provider = new ScriptRunProvider()
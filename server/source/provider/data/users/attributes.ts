@@ -14,9 +14,12 @@ import type { Query, DataProvider } from '@/types'
  */
 class UserAttributeProvider implements DataProvider<UserAttribute> {
 	/**
-	 * Attributes are specific to a certain user.
+	 * Attributes are specific to a certain user, so each provider
+	 * manages the attributes of a single user.
+	 *
+	 * @param {string} userId - The ID of the user.
 	 */
-	userId?: string
+	constructor(readonly userId: string) {}
 
 	/**
 	 * Lists/searches through all attributes.
@@ -27,11 +30,6 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	 * @throws {ServerError} - 'backend-error'
 	 */
 	async find(queries: Array<Query<UserAttribute>>): Promise<UserAttribute[]> {
-		if (!this.userId)
-			throw new Error(
-				'Finding an attribute can only be done for a certain user.',
-			)
-
 		// Build the query
 		const attributesRef = firestore
 			.collection('users')
@@ -91,11 +89,6 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	 * @throws {ServerError} - 'not-found' | 'backend-error'
 	 */
 	async get(id: string): Promise<UserAttribute> {
-		if (!this.userId)
-			throw new Error(
-				'Retrieving an attribute can only be done for a certain user.',
-			)
-
 		// Fetch the attribute from Firestore
 		let doc
 		try {
@@ -136,6 +129,57 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 		})
 	}
 
+	/**
+	 * Retrieves several attributes from the database in a single batched read.
+	 * Attributes the user does not have are skipped.
+	 *
+	 * @param {string[]} ids - The IDs of the attributes to retrieve.
+	 *
+	 * @returns {UserAttribute[]} - The attributes that exist.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async getMany(ids: string[]): Promise<UserAttribute[]> {
+		if (ids.length === 0) return []
+
+		// Fetch all the attributes from Firestore at once
+		let docs
+		try {
+			const attributesRef = firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('attributes')
+			docs = await firestore.getAll(...ids.map((id) => attributesRef.doc(id)))
+		} catch (error: unknown) {
+			console.trace(error)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `UserAttribute` class
+		const attributes = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				continue
+			}
+
+			for (const snapshot of data.history) {
+				const time = new Date(Date.UTC(1970, 0, 1))
+				time.setSeconds(snapshot.timestamp._seconds)
+
+				snapshot.timestamp = time
+			}
+
+			attributes.push(
+				plainToInstance(UserAttribute, data as Record<string, any>, {
+					excludePrefixes: ['__'],
+				}),
+			)
+		}
+
+		return attributes
+	}
+
 	/**
 	 * Stores a attribute in the database.
 	 *
@@ -145,11 +189,6 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	 * @throws {ServerError} - 'already-exists' | 'backend-error'
 	 */
 	async create(data: UserAttribute): Promise<UserAttribute> {
-		if (!this.userId)
-			throw new Error(
-				'Creating an attribute can only be done for a certain user.',
-			)
-
 		// Check if the attribute is a valid attribute
 		try {
 			const doc = await firestore.collection('attributes').doc(data.id).get()
@@ -205,11 +244,6 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	 * @throws {ServerError} - 'not-found' | 'backend-error'
 	 */
 	async update(data: Partial<UserAttribute>): Promise<UserAttribute> {
-		if (!this.userId)
-			throw new Error(
-				'Updating an attribute can only be done for a certain user.',
-			)
-
 		// Update given fields for the attribute in Firestore
 		try {
 			// First retrieve the attribute
@@ -277,11 +311,6 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	 * @throws {ServerError} - 'not-found' | 'backend-error'
 	 */
 	async delete(id: string): Promise<void> {
-		if (!this.userId)
-			throw new Error(
-				'Deleting an attribute can only be done for a certain user.',
-			)
-
 		// Delete the document
 		try {
 			await firestore
@@ -303,4 +332,13 @@ class UserAttributeProvider implements DataProvider<UserAttribute> {
 	}
 }
 
-export const provider = new UserAttributeProvider()
+/**
+ * Creates a provider for the attributes of a certain user. Services create one
+ * for every request, so concurrent requests never share any state.
+ *
+ * @param {string} userId - The ID of the user.
+ *
+ * @returns {UserAttributeProvider} - The provider.
+ */
+export const provider = (userId: string): UserAttributeProvider =>
+	new UserAttributeProvider(userId)
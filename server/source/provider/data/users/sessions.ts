@@ -0,0 +1,353 @@
+// @/provider/data/users/sessions.ts
+// Retrieves, creates, updates and deletes a user's conversation sessions in Firebase.
+
+import { instanceToPlain, plainToInstance } from 'class-transformer'
+
+import { ServerError } from '@/errors'
+import { ConversationSession } from '@/models/session'
+import { logger, stringify } from '@/utilities/logger'
+import { firestore } from '@/provider/data/firestore'
+
+import type { Query, DataProvider } from '@/types'
+
+/**
+ * Converts a timestamp returned by Firestore into a `Date`.
+ *
+ * @param {any} timestamp - The Firestore timestamp.
+ *
+ * @returns {Date} - The parsed date.
+ */
+const parseTimestamp = (timestamp: any): Date => {
+	const time = new Date(Date.UTC(1970, 0, 1))
+	time.setSeconds(timestamp._seconds)
+
+	return time
+}
+
+/**
+ * Converts a Firestore document into an instance of a `ConversationSession`.
+ *
+ * @param {Record<string, any>} data - The document's data.
+ *
+ * @returns {ConversationSession} - The parsed session.
+ */
+const parseSession = (data: Record<string, any>): ConversationSession => {
+	data.started = parseTimestamp(data.started)
+	if (data.finished) data.finished = parseTimestamp(data.finished)
+	if (data.firstFinished)
+		data.firstFinished = parseTimestamp(data.firstFinished)
+	for (const step of data.path) step.timestamp = parseTimestamp(step.timestamp)
+
+	return plainToInstance(ConversationSession, data, {
+		excludePrefixes: ['__'],
+	})
+}
+
+/**
+ * A interface that a data provider must implement.
+ */
+class ConversationSessionProvider implements DataProvider<ConversationSession> {
+	/**
+	 * Sessions are specific to a certain user, so each provider
+	 * manages the sessions of a single user.
+	 *
+	 * @param {string} userId - The ID of the user.
+	 */
+	constructor(readonly userId: string) {}
+
+	/**
+	 * Lists/searches through all sessions.
+	 *
+	 * @param {Array<Query>} queries - A list of queries to filter the sessions.
+	 *
+	 * @returns {ConversationSession[]} - Array of sessions matching the query.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async find(
+		queries: Array<Query<ConversationSession>>,
+	): Promise<ConversationSession[]> {
+		logger.info('[firebase/users/sessions/find] finding sessions by query')
+
+		// Build the query
+		logger.silly(
+			'[firebase/users/sessions/find] parsing query - %s',
+			stringify(queries),
+		)
+		const sessionsRef = firestore
+			.collection('users')
+			.doc(this.userId)
+			.collection('sessions')
+		let foundSessions = sessionsRef.orderBy('started')
+		for (const query of queries) {
+			foundSessions = foundSessions.where(
+				query.field,
+				query.operator as '<' | '<=' | '==' | '!=' | '>=' | '>',
+				query.value as any,
+			)
+		}
+
+		// Execute the query
+		let docs
+		try {
+			logger.silly('[firebase/users/sessions/find] calling get on query ref')
+			;({ docs } = await foundSessions.get())
+			logger.silly(
+				'[firebase/users/sessions/find] received docs from firestore',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/sessions/find] received error while querying docs - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `ConversationSession` class
+		const sessions = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly(
+					'[firebase/users/sessions/find] received empty doc - discarding',
+				)
+				continue
+			}
+
+			// Add it to the array
+			sessions.push(parseSession(data))
+		}
+
+		logger.info(
+			'[firebase/users/sessions/find] returning list of found sessions',
+		)
+		return sessions
+	}
+
+	/**
+	 * Retrieves a session from the database.
+	 *
+	 * @param {string} id - The ID of the session to retrieve.
+	 *
+	 * @returns {ConversationSession} - The requested session.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async get(id: string): Promise<ConversationSession> {
+		logger.info('[firebase/users/sessions/get] fetching session %s', id)
+
+		// Fetch the session from Firestore
+		let doc
+		try {
+			doc = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(id)
+				.get()
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/sessions/get] received error while fetching session from firestore - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+
+		// If the document does not exist, return an error
+		const data = doc.data()
+		if (!doc.exists || !data) {
+			logger.silly(
+				'[firebase/users/sessions/get] received empty doc - returning entity-not-found error',
+			)
+			throw new ServerError('entity-not-found')
+		}
+
+		// Return the object as an instance of the `ConversationSession` class
+		logger.info('[firebase/users/sessions/get] fetched session succesfully')
+		return parseSession(data)
+	}
+
+	/**
+	 * Stores a session in the database.
+	 *
+	 * @param {ConversationSession} data - The data to store in the session.
+	 *
+	 * @returns {ConversationSession} - The created session.
+	 * @throws {ServerError} - 'already-exists' | 'backend-error'
+	 */
+	async create(data: ConversationSession): Promise<ConversationSession> {
+		logger.info('[firebase/users/sessions/create] create session %s', data.id)
+
+		// Convert the `ConversationSession` instance to a firebase document and save it
+		try {
+			// Check if the document exists
+			const sessionDocument = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(data.id)
+				.get()
+
+			// If it does, then return an 'already-exists' error
+			if (sessionDocument.exists) {
+				logger.info(
+					'[firebase/users/sessions/create] a session with the same id already exists',
+				)
+				throw new ServerError('entity-already-exists')
+			}
+
+			// Else insert away!
+			const serializedSession = instanceToPlain(data)
+			serializedSession._userId = this.userId
+			// Add the data into the database
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(data.id)
+				.set(serializedSession)
+
+			// If the transaction was successful, return the created session
+			logger.info(
+				'[firebase/users/sessions/create] successfully created session',
+			)
+			return data
+		} catch (error: unknown) {
+			// Pass on any error as a backend error
+			logger.warn(
+				'[firebase/users/sessions/create] received error while creating session - %s',
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	/**
+	 * Updates a session in the database.
+	 *
+	 * @param {Partial<ConversationSession>} data - A list of properties to update and the value to set.
+	 *
+	 * @returns {ConversationSession} - The updated session.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async update(
+		data: Partial<ConversationSession>,
+	): Promise<ConversationSession> {
+		logger.info('[firebase/users/sessions/update] updating session %s', data.id)
+
+		// Update given fields for the session in Firestore
+		try {
+			// First retrieve the session
+			const existingSessionDoc = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(data.id!)
+				.get()
+
+			// If it does not exist, then return a 'not-found' error
+			const existingData = existingSessionDoc.data()
+			if (!existingSessionDoc.exists || !existingData) {
+				logger.warn(
+					'[firebase/users/sessions/update] failed to update non-existent session',
+				)
+				throw new ServerError('entity-not-found')
+			}
+
+			// Else update away!
+			const serializedSession = instanceToPlain({
+				...parseSession(existingData),
+				...data,
+			})
+			serializedSession._userId = this.userId
+			// Replace the existing data in the database, so that fields that are
+			// no longer set (such as `next`) are removed
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(data.id!)
+				.set(serializedSession)
+
+			// If the transaction was successful, return the updated session
+			logger.info(
+				'[firebase/users/sessions/update] successfully updated session',
+			)
+			return plainToInstance(ConversationSession, serializedSession, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/sessions/update] received error while updating session - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Deletes a session in the database.
+	 *
+	 * @param {string} id - The ID of the session to delete.
+	 *
+	 * @returns {void}
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async delete(id: string): Promise<void> {
+		logger.info('[firebase/users/sessions/delete] deleting session %s', id)
+
+		// Delete the document
+		try {
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('sessions')
+				.doc(id)
+				.delete()
+			logger.info(
+				'[firebase/users/sessions/delete] sucessfully deleted session',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/sessions/delete] received error while deleting session - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+}
+
+/**
+ * Creates a provider for the sessions of a certain user. Services create one
+ * for every request, so concurrent requests never share any state.
+ *
+ * @param {string} userId - The ID of the user.
+ *
+ * @returns {ConversationSessionProvider} - The provider.
+ */
+export const provider = (userId: string): ConversationSessionProvider =>
+	new ConversationSessionProvider(userId)
@@ -0,0 +1,348 @@
+// @/provider/data/users/snapshots.ts
+// Retrieves, creates, updates and deletes a user's report snapshots in Firebase.
+
+import { instanceToPlain, plainToInstance } from 'class-transformer'
+
+import { ServerError } from '@/errors'
+import { ReportSnapshot } from '@/models/report'
+import { logger, stringify } from '@/utilities/logger'
+import { firestore } from '@/provider/data/firestore'
+
+import type { Query, DataProvider } from '@/types'
+
+/**
+ * Converts a timestamp returned by Firestore into a `Date`.
+ *
+ * @param {any} timestamp - The Firestore timestamp.
+ *
+ * @returns {Date} - The parsed date.
+ */
+const parseTimestamp = (timestamp: any): Date => {
+	const time = new Date(Date.UTC(1970, 0, 1))
+	time.setSeconds(timestamp._seconds)
+
+	return time
+}
+
+/**
+ * Converts a Firestore document into an instance of a `ReportSnapshot`.
+ *
+ * @param {Record<string, any>} data - The document's data.
+ *
+ * @returns {ReportSnapshot} - The parsed snapshot.
+ */
+const parseSnapshot = (data: Record<string, any>): ReportSnapshot => {
+	data.asOf = parseTimestamp(data.asOf)
+	data.created = parseTimestamp(data.created)
+
+	return plainToInstance(ReportSnapshot, data, {
+		excludePrefixes: ['__'],
+	})
+}
+
+/**
+ * A interface that a data provider must implement.
+ */
+class ReportSnapshotProvider implements DataProvider<ReportSnapshot> {
+	/**
+	 * Snapshots are specific to a certain user, so each provider
+	 * manages the snapshots of a single user.
+	 *
+	 * @param {string} userId - The ID of the user.
+	 */
+	constructor(readonly userId: string) {}
+
+	/**
+	 * Lists/searches through all snapshots.
+	 *
+	 * @param {Array<Query>} queries - A list of queries to filter the snapshots.
+	 *
+	 * @returns {ReportSnapshot[]} - Array of snapshots matching the query.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async find(queries: Array<Query<ReportSnapshot>>): Promise<ReportSnapshot[]> {
+		logger.info('[firebase/users/snapshots/find] finding snapshots by query')
+
+		// Build the query
+		logger.silly(
+			'[firebase/users/snapshots/find] parsing query - %s',
+			stringify(queries),
+		)
+		const snapshotsRef = firestore
+			.collection('users')
+			.doc(this.userId)
+			.collection('report-snapshots')
+		let foundSnapshots = snapshotsRef.orderBy('created', 'desc')
+		for (const query of queries) {
+			foundSnapshots = foundSnapshots.where(
+				query.field,
+				query.operator as '<' | '<=' | '==' | '!=' | '>=' | '>',
+				query.value as any,
+			)
+		}
+
+		// Execute the query
+		let docs
+		try {
+			logger.silly('[firebase/users/snapshots/find] calling get on query ref')
+			;({ docs } = await foundSnapshots.get())
+			logger.silly(
+				'[firebase/users/snapshots/find] received docs from firestore',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/snapshots/find] received error while querying docs - %s',
+				stringify(error),
+			)
+			throw new ServerError('backend-error')
+		}
+
+		// Convert the documents retrieved into instances of a `ReportSnapshot` class
+		const snapshots = []
+		for (const doc of docs) {
+			// If the document does not exist, skip it
+			const data = doc.data()
+			if (!doc.exists || !data) {
+				logger.silly(
+					'[firebase/users/snapshots/find] received empty doc - discarding',
+				)
+				continue
+			}
+
+			// Add it to the array
+			snapshots.push(parseSnapshot(data))
+		}
+
+		logger.info(
+			'[firebase/users/snapshots/find] returning list of found snapshots',
+		)
+		return snapshots
+	}
+
+	/**
+	 * Retrieves a snapshot from the database.
+	 *
+	 * @param {string} id - The ID of the snapshot to retrieve.
+	 *
+	 * @returns {ReportSnapshot} - The requested snapshot.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async get(id: string): Promise<ReportSnapshot> {
+		logger.info('[firebase/users/snapshots/get] fetching snapshot %s', id)
+
+		// Fetch the snapshot from Firestore
+		let doc
+		try {
+			doc = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(id)
+				.get()
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/snapshots/get] received error while fetching snapshot from firestore - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+
+		// If the document does not exist, return an error
+		const data = doc.data()
+		if (!doc.exists || !data) {
+			logger.silly(
+				'[firebase/users/snapshots/get] received empty doc - returning entity-not-found error',
+			)
+			throw new ServerError('entity-not-found')
+		}
+
+		// Return the object as an instance of the `ReportSnapshot` class
+		logger.info('[firebase/users/snapshots/get] fetched snapshot succesfully')
+		return parseSnapshot(data)
+	}
+
+	/**
+	 * Stores a snapshot in the database.
+	 *
+	 * @param {ReportSnapshot} data - The data to store in the snapshot.
+	 *
+	 * @returns {ReportSnapshot} - The created snapshot.
+	 * @throws {ServerError} - 'already-exists' | 'backend-error'
+	 */
+	async create(data: ReportSnapshot): Promise<ReportSnapshot> {
+		logger.info('[firebase/users/snapshots/create] create snapshot %s', data.id)
+
+		// Convert the `ReportSnapshot` instance to a firebase document and save it
+		try {
+			// Check if the document exists
+			const snapshotDocument = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(data.id)
+				.get()
+
+			// If it does, then return an 'already-exists' error
+			if (snapshotDocument.exists) {
+				logger.info(
+					'[firebase/users/snapshots/create] a snapshot with the same id already exists',
+				)
+				throw new ServerError('entity-already-exists')
+			}
+
+			// Else insert away!
+			const serializedSnapshot = instanceToPlain(data)
+			serializedSnapshot._userId = this.userId
+			// Add the data into the database
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(data.id)
+				.set(serializedSnapshot)
+
+			// If the transaction was successful, return the created snapshot
+			logger.info(
+				'[firebase/users/snapshots/create] successfully created snapshot',
+			)
+			return data
+		} catch (error: unknown) {
+			// Pass on any error as a backend error
+			logger.warn(
+				'[firebase/users/snapshots/create] received error while creating snapshot - %s',
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	/**
+	 * Updates a snapshot in the database.
+	 *
+	 * @param {Partial<ReportSnapshot>} data - A list of properties to update and the value to set.
+	 *
+	 * @returns {ReportSnapshot} - The updated snapshot.
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async update(data: Partial<ReportSnapshot>): Promise<ReportSnapshot> {
+		logger.info(
+			'[firebase/users/snapshots/update] updating snapshot %s',
+			data.id,
+		)
+
+		// Update given fields for the snapshot in Firestore
+		try {
+			// First retrieve the snapshot
+			const existingSnapshotDoc = await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(data.id!)
+				.get()
+
+			// If it does not exist, then return a 'not-found' error
+			const existingData = existingSnapshotDoc.data()
+			if (!existingSnapshotDoc.exists || !existingData) {
+				logger.warn(
+					'[firebase/users/snapshots/update] failed to update non-existent snapshot',
+				)
+				throw new ServerError('entity-not-found')
+			}
+
+			// Else update away!
+			const serializedSnapshot = instanceToPlain({
+				...parseSnapshot(existingData),
+				...data,
+			})
+			serializedSnapshot._userId = this.userId
+			// Replace the existing data in the database
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(data.id!)
+				.set(serializedSnapshot)
+
+			// If the transaction was successful, return the updated snapshot
+			logger.info(
+				'[firebase/users/snapshots/update] successfully updated snapshot',
+			)
+			return plainToInstance(ReportSnapshot, serializedSnapshot, {
+				excludePrefixes: ['__'],
+			})
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/snapshots/update] received error while updating snapshot - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+
+	/**
+	 * Deletes a snapshot in the database.
+	 *
+	 * @param {string} id - The ID of the snapshot to delete.
+	 *
+	 * @returns {void}
+	 * @throws {ServerError} - 'not-found' | 'backend-error'
+	 */
+	async delete(id: string): Promise<void> {
+		logger.info('[firebase/users/snapshots/delete] deleting snapshot %s', id)
+
+		// Delete the document
+		try {
+			await firestore
+				.collection('users')
+				.doc(this.userId)
+				.collection('report-snapshots')
+				.doc(id)
+				.delete()
+			logger.info(
+				'[firebase/users/snapshots/delete] sucessfully deleted snapshot',
+			)
+		} catch (error: unknown) {
+			logger.warn(
+				'[firebase/users/snapshots/delete] received error while deleting snapshot - %s',
+				stringify(error),
+			)
+
+			// Handle a not found error, but pass on the rest as a backend error
+			const error_ =
+				error instanceof ServerError
+					? error
+					: (error as any).code === 'not-found'
+					? new ServerError('entity-not-found')
+					: new ServerError('backend-error')
+			throw error_
+		}
+	}
+}
+
+/**
+ * Creates a provider for the snapshots of a certain user. Services create one
+ * for every request, so concurrent requests never share any state.
+ *
+ * @param {string} userId - The ID of the user.
+ *
+ * @returns {ReportSnapshotProvider} - The provider.
+ */
+export const provider = (userId: string): ReportSnapshotProvider =>
+	new ReportSnapshotProvider(userId)
@@ -1,12 +1,36 @@
 // @/provider/init/startup.ts
 // Exports the server so it can be accessed by Firebase Functions.
 
-import { https } from 'firebase-functions'
+import { https, pubsub, runWith } from 'firebase-functions'
 
 import { server } from '@/app'
+import { service as jobs } from '@/services/jobs'
 
 const registerHandlers = https.onRequest
 
 // This type of export is required for Firebase Functions to detect the
 // function and deploy it
 export const app = registerHandlers(server)
+
+// Runs a background job sent to Cloud Tasks. The name of the export must match
+// `taskQueueName` in `@/provider/queue`. A job that is already running, or was
+// deleted, is not retried. A run stops well before the nine minute timeout,
+// and queues the job to continue where it left off.
+export const runJob = runWith({ timeoutSeconds: 540 })
+	.tasks.taskQueue({
+		retryConfig: { maxAttempts: 5, minBackoffSeconds: 60 },
+		rateLimits: { maxConcurrentDispatches: 6 },
+	})
+	.onDispatch(async (data: { jobId: string }): Promise<void> => {
+		const result = await jobs.run({ data: { jobId: data.jobId } })
+		if (result.error && result.error.status >= 500) throw result.error
+	})
+
+// Queues scheduled jobs that have become due, and takes over jobs whose run
+// stopped part way through
+export const sweepJobs = pubsub
+	.schedule('every 1 minutes')
+	.onRun(async (): Promise<void> => {
+		const result = await jobs.resume({ data: {} })
+		if (result.error) throw result.error
+	})
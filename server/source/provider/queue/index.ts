@@ -0,0 +1,180 @@
+// @/provider/queue/index.ts
+// The queues that run background jobs: Cloud Tasks in production, and an
+// in-process queue during development and testing.
+
+import process from 'node:process'
+
+import { getFunctions } from 'firebase-admin/functions'
+
+import { ServerError } from '@/errors'
+import { logger, stringify } from '@/utilities/logger'
+
+/**
+ * A interface that a job queue must implement.
+ */
+export interface JobQueue {
+	/**
+	 * Whether queued jobs outlive the server's process. If they do not, the
+	 * jobs that had not finished must be queued again on startup.
+	 */
+	readonly durable: boolean
+
+	/**
+	 * Sets the function that runs a job, and starts running queued jobs.
+	 *
+	 * @param {(jobId: string) => Promise<void>} handler - The function that runs a job.
+	 */
+	process(handler: (jobId: string) => Promise<void>): void
+
+	/**
+	 * Queues a job to run, right away or at a certain time. A job that is
+	 * already waiting to run is rescheduled.
+	 *
+	 * @param {string} jobId - The ID of the job to run.
+	 * @param {Date} at - When to run the job. Defaults to as soon as possible.
+	 *
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	enqueue(jobId: string, at?: Date): Promise<void>
+
+	/**
+	 * Removes a job that is waiting to run from the queue.
+	 *
+	 * @param {string} jobId - The ID of the job.
+	 */
+	cancel(jobId: string): void
+}
+
+/**
+ * The longest a timer can wait before Node fires it right away.
+ */
+const maxDelay = 2 ** 31 - 1
+
+/**
+ * A queue that keeps jobs in memory and runs them in the server's process.
+ * Jobs waiting to run are lost when the process exits, so the loader queues
+ * unfinished jobs again on startup.
+ */
+export class LocalQueue implements JobQueue {
+	get durable() {
+		return false
+	}
+
+	private handler?: (jobId: string) => Promise<void>
+	private readonly pending: string[] = []
+	private readonly timers = new Map<string, ReturnType<typeof setTimeout>>()
+	private draining = false
+
+	process(handler: (jobId: string) => Promise<void>): void {
+		this.handler = handler
+		void this.drain()
+	}
+
+	async enqueue(jobId: string, at?: Date): Promise<void> {
+		this.cancel(jobId)
+
+		const delay = at ? at.getTime() - Date.now() : 0
+		if (delay > 0) {
+			// Check again once the timer fires, in case the job is due further in
+			// the future than a timer can wait
+			const timer = setTimeout(() => {
+				this.timers.delete(jobId)
+				void this.enqueue(jobId, at)
+			}, Math.min(delay, maxDelay))
+			// Do not keep the process alive just to run a scheduled job
+			timer.unref()
+			this.timers.set(jobId, timer)
+
+			logger.silly('[queue/enqueue] scheduled job %s for %s', jobId, at)
+			return
+		}
+
+		this.pending.push(jobId)
+		logger.silly('[queue/enqueue] queued job %s', jobId)
+		void this.drain()
+	}
+
+	cancel(jobId: string): void {
+		clearTimeout(this.timers.get(jobId))
+		this.timers.delete(jobId)
+
+		const index = this.pending.indexOf(jobId)
+		if (index !== -1) this.pending.splice(index, 1)
+	}
+
+	/**
+	 * Runs the queued jobs one at a time, until there are none left.
+	 */
+	private async drain(): Promise<void> {
+		if (this.draining || !this.handler) return
+
+		this.draining = true
+		while (this.pending.length > 0) {
+			const jobId = this.pending.shift()!
+			try {
+				await this.handler(jobId)
+			} catch (error: unknown) {
+				logger.warn(
+					'[queue/drain] received error while running job %s - %s',
+					jobId,
+					stringify(error),
+				)
+			}
+		}
+
+		this.draining = false
+	}
+}
+
+/**
+ * The name of the function that Cloud Tasks calls to run a job.
+ */
+export const taskQueueName = 'runJob'
+
+/**
+ * A queue that sends each job to Cloud Tasks, which calls the `runJob`
+ * function with it and retries it if the function fails.
+ *
+ * Jobs are only sent once they are due: the `sweepJobs` function, which runs
+ * every minute, queues scheduled jobs that have become due and jobs whose run
+ * stopped part way through. For the same reason, cancelling a job does
+ * nothing; a deleted job cannot be run.
+ */
+export class CloudTasksQueue implements JobQueue {
+	get durable() {
+		return true
+	}
+
+	process(_handler: (jobId: string) => Promise<void>): void {
+		// Cloud Tasks calls the `runJob` function instead
+	}
+
+	async enqueue(jobId: string, at?: Date): Promise<void> {
+		if (at && at.getTime() > Date.now()) {
+			logger.silly('[queue/enqueue] leaving job %s to the sweep', jobId)
+			return
+		}
+
+		try {
+			await getFunctions().taskQueue(taskQueueName).enqueue({ jobId })
+			logger.silly('[queue/enqueue] queued job %s', jobId)
+		} catch (error: unknown) {
+			logger.warn(
+				'[queue/enqueue] received error while queueing job %s - %s',
+				jobId,
+				stringify(error),
+			)
+
+			throw new ServerError('backend-error')
+		}
+	}
+
+	cancel(_jobId: string): void {
+		// A deleted job cannot be run, so there is nothing to do
+	}
+}
+
+export const queue: JobQueue =
+	process.env.NODE_ENV === 'production'
+		? new CloudTasksQueue()
+		: new LocalQueue()
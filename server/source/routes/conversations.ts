@@ -3,10 +3,16 @@
 
 import { Router as createRouter } from 'express'
 import type { Request, Response } from 'express'
+import { stringify as stringifyYaml } from 'yaml'
 
 import { permit } from '@/middleware/authorization'
 import { service as conversations } from '@/services/conversations'
 import { service as questions } from '@/services/conversations/questions'
+import { service as sessions } from '@/services/conversations/sessions'
+import { service as validation } from '@/services/conversations/validation'
+import { service as bundles } from '@/services/conversations/bundles'
+import { service as versions } from '@/services/conversations/versions'
+import { service as translations } from '@/services/conversations/translations'
 
 // Create a router for the endpoint
 const endpoint = createRouter()
@@ -20,6 +26,7 @@ const endpoint = createRouter()
  * @security bearer
  *
  * @param {ListOrFindConversationsPayload} request.query - The query to run and find conversations.
+ * @param {string} accept-language.header - The languages to show the conversations in, most preferred first. A locale set in the user's profile takes precedence.
  *
  * @returns {ListOrFindConversationsResponse} 200 - The conversations that the user is allowed to take.
  * @returns {ImproperPayloadError} 400 - The query was invalid.
@@ -41,7 +48,11 @@ endpoint.get(
 	// => permit('anyone'),
 	async (request: Request, response: Response): Promise<void> => {
 		const result = await conversations.find({
-			context: { user: request.user!, rate: request.rateLimit },
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
 			data: {
 				...request.body,
 				...request.params,
@@ -100,6 +111,52 @@ endpoint.post(
 	},
 )
 
+/**
+ * POST /conversations/import
+ *
+ * @summary Import a conversation bundle
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {ImportConversationPayload} request.body.required - The bundle to import, and how to import it.
+ *
+ * @returns {ImportConversationResponse} 201 - The imported conversation, the IDs everything was imported with and the conflicts found. You must be Groot to import a conversation.
+ * @returns {ImportConversationResponse} 200 - The conversation, IDs and conflicts that the import would result in, if it was a dry run.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid, or the bundle could not be understood.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that checks what importing a YAML bundle would do
+ * {
+ * 	"content": "version: 1\nconversation:\n  ...",
+ * 	"format": "yaml",
+ * 	"dryRun": true
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/import',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await bundles.import({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 /**
  * GET /conversations/{conversationId}
  *
@@ -109,6 +166,7 @@ endpoint.post(
  * @security bearer
  *
  * @param {string} conversationId.path.required - The ID of the conversation to return.
+ * @param {string} accept-language.header - The languages to show the conversation in, most preferred first. A locale set in the user's profile takes precedence.
  *
  * @returns {RetrieveConversationResponse} 200 - The requested conversation. You must be a part of the group that is allowed to take this conversation.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
@@ -127,7 +185,11 @@ endpoint.get(
 	}),
 	async (request: Request, response: Response): Promise<void> => {
 		const result = await conversations.get({
-			context: { user: request.user!, rate: request.rateLimit },
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
 			data: {
 				...request.body,
 				...request.params,
@@ -216,6 +278,383 @@ endpoint.delete(
 	},
 )
 
+/**
+ * GET /conversations/{conversationId}/export
+ *
+ * @summary Export a conversation, its questions, and the attributes and scripts they refer to as a bundle
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation to export.
+ * @param {ExportConversationPayload} request.query - The format to export the bundle in.
+ *
+ * @returns {ExportConversationResponse} 200 - The bundle. If the format requested is `yaml`, the bundle is returned as YAML text instead. You must be Groot to export a conversation.
+ * @returns {ImproperPayloadError} 400 - The query was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:conversationId/export',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const data = {
+			...request.body,
+			...request.params,
+			...(request.query.request as any),
+		}
+		const result = await bundles.export({
+			context: { user: request.user!, rate: request.rateLimit },
+			data,
+		})
+
+		if (result.error) response.sendError(result.error)
+		else if (data.format === 'yaml')
+			response
+				.status(result.status!)
+				.type('yaml')
+				.send(stringifyYaml(result.data!.bundle))
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /conversations/{conversationId}/validate
+ *
+ * @summary Check a conversation's questions for mistakes
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation to validate.
+ *
+ * @returns {ValidateConversationResponse} 200 - The errors and warnings found in the conversation's question graph. You must be Groot to validate a conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:conversationId/validate',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await validation.validate({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /conversations/{conversationId}/versions
+ *
+ * @summary List the published versions of a conversation
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation whose versions to list.
+ *
+ * @returns {ListConversationVersionsResponse} 200 - The version history of the conversation, oldest first. You must be Groot to list the versions of a conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:conversationId/versions',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await versions.find({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * POST /conversations/{conversationId}/versions
+ *
+ * @summary Publish the draft questions of a conversation as a new version
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation to publish.
+ *
+ * @returns {PublishConversationResponse} 201 - The published version. Users who have not started the conversation yet will be shown this version. You must be Groot to publish a conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation does not exist.
+ * @returns {PreconditionFailedError} 412 - The conversation has no questions to publish.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/:conversationId/versions',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await versions.publish({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * PUT /conversations/{conversationId}/versions/{versionId}/rollback
+ *
+ * @summary Roll a conversation back to a previously published version
+ * @description Publishes the questions of the old version again, as a new version. This also overwrites the draft questions with them: draft questions that are not in the old version are deleted, and changes to the rest that have not been published are lost. Publish the draft first to keep those changes in the version history.
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation to roll back.
+ * @param {string} versionId.path.required - The ID of the version to roll back to.
+ *
+ * @returns {PublishConversationResponse} 200 - The new version, with the questions of the version rolled back to. The draft questions are overwritten with them too. You must be Groot to roll back a conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation or version does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.put(
+	'/:conversationId/versions/:versionId/rollback',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await versions.rollback({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /conversations/{conversationId}/translations
+ *
+ * @summary List the text in a conversation that has not been translated yet
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation to check.
+ * @param {CheckTranslationsPayload} request.query - The locales to check.
+ *
+ * @returns {CheckTranslationsResponse} 200 - The translations missing from the conversation and its draft questions. You must be Groot to check a conversation's translations.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The conversation does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example query that checks the Hindi and Brazilian Portuguese translations.
+ * {
+ * 	"locales": ["hi", "pt-BR"]
+ * }
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:conversationId/translations',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await translations.check({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /conversations/{conversationId}/sessions/current
+ *
+ * @summary Retrieve the requesting user's unfinished session in a conversation
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation whose session to return.
+ *
+ * @returns {RetrieveCurrentSessionResponse} 200 - The session the user can resume. You must be a part of the group that is allowed to take this conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The user has no unfinished session in the conversation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:conversationId/sessions/current',
+	permit({
+		subject: 'conversation',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await sessions.current({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * PUT /conversations/{conversationId}/sessions/current/back
+ *
+ * @summary Undo the requesting user's last answer in their unfinished session
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation whose session to rewind.
+ * @param {string} accept-language.header - The languages to show the question in, most preferred first. A locale set in the user's profile takes precedence.
+ *
+ * @returns {GoBackResponse} 200 - The question the user answered last, with the attributes it set reverted. If the user had finished their latest session, it is reopened. You must be a part of the group that is allowed to take this conversation.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The user has no session in the conversation.
+ * @returns {PreconditionFailedError} 412 - The user has not answered any question in the session yet, or finished a conversation that can be taken only once too long ago to change their answers.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.put(
+	'/:conversationId/sessions/current/back',
+	permit({
+		subject: 'conversation',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await sessions.back({
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * PUT /conversations/{conversationId}/sessions/reset
+ *
+ * @summary Reset a user's sessions in a conversation so they can take it again
+ * @tags conversations - Conversation related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} conversationId.path.required - The ID of the conversation whose sessions to reset.
+ * @param {ResetSessionsPayload} request.body.required - The user whose sessions to reset.
+ *
+ * @returns {object} 204 - You must be Groot to reset a user's sessions.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that lets a user retake the conversation
+ * {
+ * 	"user": "LZfXLFzPPR4NNrgjlWDxn"
+ * }
+ *
+ * @endpoint
+ */
+endpoint.put(
+	'/:conversationId/sessions/reset',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await sessions.reset({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 /**
  * GET /conversations/{conversationId}/questions
  *
@@ -226,11 +665,13 @@ endpoint.delete(
  *
  * @param {string} conversationId.path.required - The ID of the user whose questions to list.
  * @param {ListOrFindQuestionsPayload} request.query - The query to run and find questions.
+ * @param {string} accept-language.header - The languages to show the questions in, most preferred first. A locale set in the user's profile takes precedence.
  *
  * @returns {ListOrFindQuestionsResponse} 200 - The questions returned from the query. If no parameters are passed, then it returns all the questions part of the conversation.
  * @returns {ImproperPayloadError} 400 - The query was invalid.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {PreconditionFailedError} 412 - The conversation can be taken only once, and the user has already taken it.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
  * @returns {BackendError} 500 - An error occurred while interacting with the backend.
  * @returns {ServerCrashError} 500 - The server crashed.
@@ -250,7 +691,11 @@ endpoint.get(
 	}),
 	async (request: Request, response: Response): Promise<void> => {
 		const result = await questions.find({
-			context: { user: request.user!, rate: request.rateLimit },
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
 			data: {
 				...request.body,
 				...request.params,
@@ -331,6 +776,7 @@ endpoint.post(
  *
  * @param {string} conversationId.path.required - The ID of the user whose question to return.
  * @param {string} questionId.path.required - The ID of the question to return.
+ * @param {string} accept-language.header - The languages to show the question in, most preferred first. A locale set in the user's profile takes precedence.
  *
  * @returns {RetrieveQuestionResponse} 200 - The requested question. You must be part of a group that is allowed to take the conversation.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
@@ -349,7 +795,11 @@ endpoint.get(
 	}),
 	async (request: Request, response: Response): Promise<void> => {
 		const result = await questions.get({
-			context: { user: request.user!, rate: request.rateLimit },
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
 			data: {
 				...request.body,
 				...request.params,
@@ -449,15 +899,27 @@ endpoint.delete(
  * @security bearer
  *
  * @param {AnswerQuestionPayload} request.body.required - The details required for joining a group.
+ * @param {string} accept-language.header - The languages to show the next question in, most preferred first. A locale set in the user's profile takes precedence.
  *
- * @returns {AnswerQuestionResponse} 200 - The next question the user should answer.
+ * @returns {AnswerQuestionResponse} 200 - The next question the user should answer, and their progress through the conversation.
  * @returns {ImproperPayloadError} 400 - The payload was invalid.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {EntityNotFoundError} 404 - There was no group that can be joined using the passed code.
+ * @returns {PreconditionFailedError} 412 - The conversation can be taken only once, and the user has already taken it.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
  * @returns {BackendError} 500 - An error occurred while interacting with the backend.
  * @returns {ServerCrashError} 500 - The server crashed.
  *
+ * @example request - An example payload that answers a question with an option of type `input`
+ * {
+ * 	"position": 1,
+ * 	"input": "someone@example.com"
+ * }
+ * @example request - An example payload that answers a question with several `multi-select` options
+ * {
+ * 	"positions": [1, 3]
+ * }
+ *
  * @endpoint
  */
 endpoint.put(
@@ -468,7 +930,11 @@ endpoint.put(
 	}),
 	async (request: Request, response: Response): Promise<void> => {
 		const result = await questions.answer({
-			context: { user: request.user!, rate: request.rateLimit },
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
 			data: {
 				...request.body,
 				...request.params,
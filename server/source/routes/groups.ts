@@ -6,6 +6,7 @@ import type { Request, Response } from 'express'
 
 import { permit } from '@/middleware/authorization'
 import { service as groups } from '@/services/groups'
+import { service as reports } from '@/services/groups/reports'
 
 // Create a router for the endpoint
 const endpoint = createRouter()
@@ -264,5 +265,58 @@ endpoint.delete(
 	},
 )
 
+/**
+ * GET /groups/{groupId}/reports/{reportId}
+ *
+ * @summary Render a group report using the report template, for all the participants of a group
+ * @tags groups - Group related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} groupId.path.required - The ID of the group to render the report for.
+ * @param {string} reportId.path.required - The ID of the report to render.
+ * @param {RetrieveGroupReportPayload} request.query - The participants to include in the report.
+ * @param {string} accept-language.header - The languages to show the report in, most preferred first. A locale set in the user's profile takes precedence.
+ *
+ * @returns {string} 200 - The requested report, as HTML. The group must allow you to view the report.
+ * @returns {ImproperPayloadError} 400 - The query was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {PreconditionFailedError} 412 - The report can only be rendered for a single user.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:groupId/reports/:reportId',
+	permit({
+		subject: 'report',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await reports.get({
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else
+			response
+				.status(result.status!)
+				.header('content-type', 'text/html')
+				.send(result.data)
+	},
+)
+
 // Export the router
 export { endpoint }
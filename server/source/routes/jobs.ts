@@ -0,0 +1,134 @@
+// @/routes/jobs.ts
+// Request handlers for background job related endpoints.
+
+import { Router as createRouter } from 'express'
+import type { Request, Response } from 'express'
+
+import { permit } from '@/middleware/authorization'
+import { service as jobs } from '@/services/jobs'
+
+// Create a router for the endpoint
+const endpoint = createRouter()
+
+/**
+ * POST /jobs
+ *
+ * @summary Run a script for many users in the background, once or on a schedule
+ * @tags jobs - Background job related endpoints
+ *
+ * @security bearer
+ *
+ * @param {CreateJobPayload} request.body - The script to run, who to run it for, and when.
+ *
+ * @returns {CreateJobResponse} 202 - The created job. Its progress can be checked using the `GET /jobs/{jobId}` endpoint. You must be Groot to create a job.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid, e.g., it specified more than one target or an invalid schedule.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The script does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that recomputes a script for all participants of a group every night
+ * {
+ * 	"script": "LZfXLFzPPR4NNrgjlWDxn",
+ * 	"target": { "group": "MsLMSlHjUoEKh6t3oO5nV" },
+ * 	"schedule": "0 2 * * *"
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await jobs.create({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /jobs/{jobId}
+ *
+ * @summary Retrieve a specified job, and the progress it has made
+ * @tags jobs - Background job related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} jobId.path.required - The ID of the job to return.
+ *
+ * @returns {RetrieveJobResponse} 200 - The requested job. You must be Groot to retrieve a job.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:jobId',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await jobs.get({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * DELETE /jobs/{jobId}
+ *
+ * @summary Delete a job, stopping it if it is running or scheduled
+ * @tags jobs - Background job related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} jobId.path.required - The ID of the job to delete.
+ *
+ * @returns {object} 204 - You must be Groot to delete a job.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.delete(
+	'/:jobId',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await jobs.delete({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+// Export the router
+export { endpoint }
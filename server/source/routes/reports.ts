@@ -103,6 +103,53 @@ endpoint.post(
 	},
 )
 
+/**
+ * POST /reports/preview
+ *
+ * @summary Preview a report template that has not been saved, for a user or group, or with made up attributes
+ * @tags reports - Report related endpoints
+ *
+ * @security bearer
+ *
+ * @param {PreviewReportPayload} request.body.required - The template to render, and who to render it for.
+ *
+ * @returns {PreviewReportResponse} 200 - The rendered report, or the error the template raised. You must be Groot to preview a report.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {EntityNotFoundError} 404 - The user or group to render the report for does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that previews a report with a made up attribute
+ * {
+ * 	"template": "<base64 encoded template>",
+ * 	"input": {
+ * 		"LZfXLFzPPR4NNrgjlWDxn": 42
+ * 	}
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/preview',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await reports.preview({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 /**
  * GET /reports/{reportId}
  *
@@ -67,6 +67,7 @@ endpoint.get(
  * @returns {ImproperPayloadError} 400 - The query was invalid.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {PreconditionFailedError} 412 - The script would be part of a cycle of scripts that re-run each other.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
  * @returns {BackendError} 500 - An error occurred while interacting with the backend.
  * @returns {ServerCrashError} 500 - The server crashed.
@@ -107,6 +108,53 @@ endpoint.post(
 	},
 )
 
+/**
+ * POST /scripts/test
+ *
+ * @summary Test code that has not been saved as a script yet
+ * @tags scripts - Script related endpoints
+ *
+ * @security bearer
+ *
+ * @param {TestScriptPayload} request.body - The user and input to run the script with.
+ *
+ * @returns {TestScriptResponse} 200 - The script's output and logs, or the error it raised. You must be Groot to test a script.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid, or did not contain the code to test.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that tests a script
+ * {
+ * 	"user": { "name": "Test User" },
+ * 	"input": {
+ * 		"LZfXLFzPPR4NNrgjlWDxn": 1
+ * 	},
+ * 	"content": "<base64 encoded script>"
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/test',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await scripts.test({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 /**
  * GET /scripts/{scriptId}
  *
@@ -159,6 +207,7 @@ endpoint.get(
  * @returns {ImproperPayloadError} 400 - The payload was invalid.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {PreconditionFailedError} 412 - The updated script failed some of its test cases and `force` was not set, or it would be part of a cycle of scripts that re-run each other.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
  * @returns {BackendError} 500 - An error occurred while interacting with the backend.
  * @returns {ServerCrashError} 500 - The server crashed.
@@ -231,7 +280,7 @@ endpoint.delete(
  * @param {string} scriptId.path.required - The ID of the script to run.
  * @param {RunScriptPayload} request.body - The user ID for whom to run the script.
  *
- * @returns {RunScriptResponse} 204 - You must be Groot to run a script.
+ * @returns {RunScriptResponse} 200 - The attributes computed for each user, or the problems with what the script computed, or the error the run ended with for that user (e.g., a required input attribute was not found, or the script raised an error or exceeded its resource limits). You must be Groot to run a script.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
@@ -258,5 +307,96 @@ endpoint.put(
 	},
 )
 
+/**
+ * POST /scripts/{scriptId}/test
+ *
+ * @summary Test a certain script without storing what it computes
+ * @tags scripts - Script related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} scriptId.path.required - The ID of the script to test.
+ * @param {TestScriptPayload} request.body - The user and input to run the script with.
+ *
+ * @returns {TestScriptResponse} 200 - The script's output and logs, or the error it raised. You must be Groot to test a script.
+ * @returns {ImproperPayloadError} 400 - The payload was invalid, or a required input attribute was not given a value.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that tests a script
+ * {
+ * 	"user": { "name": "Test User" },
+ * 	"input": {
+ * 		"LZfXLFzPPR4NNrgjlWDxn": 1
+ * 	}
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/:scriptId/test',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await scripts.test({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /scripts/{scriptId}/runs
+ *
+ * @summary List/find the records of a certain script being run
+ * @tags scripts - Script related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} scriptId.path.required - The ID of the script whose runs to list.
+ * @param {ListOrFindScriptRunsPayload} request.query - The query to run and find runs.
+ *
+ * @returns {ListOrFindScriptRunsResponse} 200 - The runs returned from the query, latest first. You must be Groot.
+ * @returns {ImproperPayloadError} 400 - The query was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example query that returns all the runs of the script that failed
+ * {
+ * 	"failed": true
+ * }
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:scriptId/runs',
+	permit('groot'),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await scripts.listRuns({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 // Export the router
 export { endpoint }
@@ -8,6 +8,9 @@ import { permit } from '@/middleware/authorization'
 import { service as users } from '@/services/users'
 import { service as attributes } from '@/services/users/attributes'
 import { service as reports } from '@/services/users/reports'
+import { service as runs } from '@/services/users/runs'
+import { service as sessions } from '@/services/users/sessions'
+import { negotiateFormat } from '@/utilities/pdf'
 
 // Create a router for the endpoint
 const endpoint = createRouter()
@@ -355,6 +358,101 @@ endpoint.delete(
 	},
 )
 
+/**
+ * GET /users/{userId}/sessions
+ *
+ * @summary List/find a user's conversation sessions
+ * @tags users - User related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} userId.path.required - The ID of the user whose sessions to list.
+ * @param {ListOrFindUserSessionsPayload} request.query - The query to run and find sessions.
+ *
+ * @returns {ListOrFindUserSessionsResponse} 200 - The sessions returned from the query. If no parameters are passed, then it returns all the sessions of the user.
+ * @returns {ImproperPayloadError} 400 - The query was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example query that returns all unfinished sessions.
+ * {
+ * 	"finished": false
+ * }
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:userId/sessions',
+	permit({
+		subject: 'user',
+		roles: ['self', 'mentor', 'supermentor'],
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await sessions.find({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /users/{userId}/script-runs
+ *
+ * @summary List/find the records of scripts being run for a user
+ * @tags users - User related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} userId.path.required - The ID of the user whose script runs to list.
+ * @param {ListOrFindUserScriptRunsPayload} request.query - The query to run and find runs.
+ *
+ * @returns {ListOrFindUserScriptRunsResponse} 200 - The runs returned from the query, latest first. If no parameters are passed, then it returns all the scripts run for the user.
+ * @returns {ImproperPayloadError} 400 - The query was invalid.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example query that returns all the runs of a certain script that failed
+ * {
+ * 	"script": "LZfXLFzPPR4NNrgjlWDxn",
+ * 	"failed": true
+ * }
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:userId/script-runs',
+	permit({
+		subject: 'user',
+		roles: ['self', 'mentor', 'supermentor'],
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await runs.find({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 /**
  * GET /users/{userId}/reports/{reportId}
  *
@@ -365,10 +463,15 @@ endpoint.delete(
  *
  * @param {string} userId.path.required - The ID of the user whose report to return.
  * @param {string} reportId.path.required - The ID of the report to return.
+ * @param {RetrieveUserReportPayload} request.query - The format to render the report in, and the time to render it as of.
+ * @param {string} accept-language.header - The languages to show the report in, most preferred first. A locale set in the user's profile takes precedence.
+ * @param {string} accept.header - Pass `application/pdf` to download the report as a PDF document instead of HTML.
  *
- * @returns {string} 200 - The requested report, as HTML. You must be allowed to view the report to render it.
+ * @returns {string} 200 - The requested report, as HTML, or as a PDF document if the `format` is `pdf` or the `Accept` header prefers `application/pdf`. You must be allowed to view the report to render it.
+ * @returns {ImproperPayloadError} 400 - The time to render the report as of was invalid, or in the future.
  * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
  * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {PreconditionFailedError} 412 - The user does not have (or did not have, at the time to render the report as of) an attribute the report requires, or the report can only be rendered for a group.
  * @returns {TooManyRequestsError} 429 - The client was rate-limited.
  * @returns {BackendError} 500 - An error occurred while interacting with the backend.
  * @returns {ServerCrashError} 500 - The server crashed.
@@ -382,16 +485,30 @@ endpoint.get(
 		roles: 'dynamic',
 	}),
 	async (request: Request, response: Response): Promise<void> => {
+		const data = {
+			...request.body,
+			...request.params,
+			...(request.query.request as any),
+		}
+		// Render the report as a PDF if the format is not specified, but the
+		// client prefers one
+		data.format ??= negotiateFormat(request)
 		const result = await reports.get({
-			context: { user: request.user!, rate: request.rateLimit },
-			data: {
-				...request.body,
-				...request.params,
-				...(request.query.request as any),
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
 			},
+			data,
 		})
 
 		if (result.error) response.sendError(result.error)
+		else if (data.format === 'pdf')
+			response
+				.status(result.status!)
+				.header('content-type', 'application/pdf')
+				.attachment(`${data.reportId as string}.pdf`)
+				.send(result.data)
 		else
 			response
 				.status(result.status!)
@@ -400,5 +517,143 @@ endpoint.get(
 	},
 )
 
+/**
+ * POST /users/{userId}/reports/{reportId}/snapshots
+ *
+ * @summary Render a report for a user and save it as a snapshot
+ * @tags users - User related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} userId.path.required - The ID of the user to render the report for.
+ * @param {string} reportId.path.required - The ID of the report to render.
+ * @param {CreateReportSnapshotPayload} request.body - The time to render the report as of.
+ * @param {string} accept-language.header - The languages to show the report in, most preferred first. A locale set in the user's profile takes precedence.
+ *
+ * @returns {CreateReportSnapshotResponse} 201 - The saved snapshot. You must be allowed to view the report to save a snapshot of it.
+ * @returns {ImproperPayloadError} 400 - The time to render the report as of was invalid, or in the future.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {PreconditionFailedError} 412 - The user did not have an attribute the report requires at the time to render the report as of, or the report can only be rendered for a group.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @example request - An example payload that saves the report as it was at midnight (UTC) on 1st July, 2026.
+ * {
+ * 	"asOf": "2026-07-01T00:00:00Z"
+ * }
+ *
+ * @endpoint
+ */
+endpoint.post(
+	'/:userId/reports/:reportId/snapshots',
+	permit({
+		subject: 'report',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await reports.createSnapshot({
+			context: {
+				user: request.user!,
+				rate: request.rateLimit,
+				locale: request.get('accept-language'),
+			},
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /users/{userId}/reports/{reportId}/snapshots
+ *
+ * @summary List the snapshots saved of a report for a user
+ * @tags users - User related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} userId.path.required - The ID of the user whose snapshots to list.
+ * @param {string} reportId.path.required - The ID of the report whose snapshots to list.
+ *
+ * @returns {ListReportSnapshotsResponse} 200 - The snapshots saved of the report, latest first. You must be allowed to view the report to list its snapshots.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:userId/reports/:reportId/snapshots',
+	permit({
+		subject: 'report',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await reports.findSnapshots({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
+/**
+ * GET /users/{userId}/reports/{reportId}/snapshots/{snapshotId}
+ *
+ * @summary Retrieve a snapshot saved of a report for a user
+ * @tags users - User related endpoints
+ *
+ * @security bearer
+ *
+ * @param {string} userId.path.required - The ID of the user whose snapshot to return.
+ * @param {string} reportId.path.required - The ID of the report whose snapshot to return.
+ * @param {string} snapshotId.path.required - The ID of the snapshot to return.
+ *
+ * @returns {RetrieveReportSnapshotResponse} 200 - The requested snapshot. You must be allowed to view the report to retrieve its snapshots.
+ * @returns {InvalidTokenError} 401 - The bearer token passed was invalid.
+ * @returns {NotAllowedError} 403 - The client lacked sufficient authorization to perform the operation OR the entity does not exist.
+ * @returns {EntityNotFoundError} 404 - The snapshot was not found.
+ * @returns {TooManyRequestsError} 429 - The client was rate-limited.
+ * @returns {BackendError} 500 - An error occurred while interacting with the backend.
+ * @returns {ServerCrashError} 500 - The server crashed.
+ *
+ * @endpoint
+ */
+endpoint.get(
+	'/:userId/reports/:reportId/snapshots/:snapshotId',
+	permit({
+		subject: 'report',
+		roles: 'dynamic',
+	}),
+	async (request: Request, response: Response): Promise<void> => {
+		const result = await reports.getSnapshot({
+			context: { user: request.user!, rate: request.rateLimit },
+			data: {
+				...request.body,
+				...request.params,
+				...(request.query.request as any),
+			},
+		})
+
+		if (result.error) response.sendError(result.error)
+		else response.status(result.status!).send(result.data)
+	},
+)
+
 // Export the router
 export { endpoint }
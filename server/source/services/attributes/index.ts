@@ -4,7 +4,7 @@
 import type { ServiceRequest, ServiceResponse, Query } from '@/types'
 
 import { ServerError } from '@/errors'
-import { Attribute } from '@/models/attribute'
+import { Attribute, AttributeType } from '@/models/attribute'
 import { provider as attributes } from '@/provider/data/attributes'
 import { generateId } from '@/utilities'
 
@@ -74,12 +74,14 @@ const find = async (
  * @property {string} description.required - The attribute description.
  * @property {array<string>} conversations.required - The attribute should be set by these conversations.
  * @property {array<string>} tags.required - Tags to enhance the searchability of the attribute.
+ * @property {string} type - The type of values the attribute holds. Values of any type are allowed if not specified. - enum:string,number,boolean
  */
 export type CreateAttributePayload = {
 	name: string
 	description: string
 	conversations: string[]
 	tags: string[]
+	type?: AttributeType
 }
 
 /**
@@ -165,12 +167,14 @@ const get = async (
  * @property {string} description.required - The attribute description.
  * @property {array<string>} conversations.required - The attribute should be set by these conversations.
  * @property {array<string>} tags.required - Tags to enhance the searchability of the attribute.
+ * @property {string} type - The type of values the attribute holds. Values of any type are allowed if not specified. - enum:string,number,boolean
  */
 export type UpdateAttributePayload = {
 	name: string
 	description: string
 	conversations: string[]
 	tags: string[]
+	type?: AttributeType
 }
 
 /**
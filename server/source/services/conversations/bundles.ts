@@ -0,0 +1,719 @@
+// @/services/conversations/bundles.ts
+// Service that exports conversations as portable bundles, and imports them.
+
+import { parse as parseYaml } from 'yaml'
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { Attribute } from '@/models/attribute'
+import { Conversation } from '@/models/conversation'
+import { Question, Branch } from '@/models/question'
+import { Script } from '@/models/script'
+import { provider as conversations } from '@/provider/data/conversations'
+import { provider as questions } from '@/provider/data/conversations/questions'
+import { provider as attributes } from '@/provider/data/attributes'
+import { provider as scripts } from '@/provider/data/scripts'
+import { generateId } from '@/utilities'
+import { compilePattern } from '@/utilities/patterns'
+import { referencedAttributes } from '@/utilities/templates'
+
+const json = JSON
+
+/**
+ * The version of the bundle format exported by this server. Bundles of other
+ * versions cannot be imported.
+ */
+const bundleVersion = 1
+
+/**
+ * A conversation, along with all its questions and the attributes and scripts
+ * they refer to, that can be moved from one deployment to another.
+ *
+ * @typedef {object} ConversationBundle
+ * @property {number} version.required - The version of the bundle format.
+ * @property {Conversation} conversation.required - The conversation.
+ * @property {array<Question>} questions.required - The questions in the conversation.
+ * @property {array<Attribute>} attributes.required - The attributes set, checked or shown by the questions and scripts.
+ * @property {array<Script>} scripts.required - The scripts run by the questions.
+ */
+export type ConversationBundle = {
+	version: number
+	conversation: Conversation
+	questions: Array<Omit<Question, '_conversationId'>>
+	attributes: Attribute[]
+	scripts: Script[]
+}
+
+/**
+ * Returns the texts of a question that are rendered as templates, i.e., its
+ * text in every language.
+ *
+ * @param {Question} question - The question.
+ *
+ * @returns {string[]} - The texts.
+ */
+const templatesIn = (
+	question: Pick<Question, 'text' | 'translations'>,
+): string[] => [question.text, ...Object.values(question.translations ?? {})]
+
+/**
+ * Replaces the IDs in a text that were given new IDs on import.
+ *
+ * @param {string} text - The text, e.g., a question's template.
+ * @param {(id: string) => string} remap - Returns the new ID for an ID.
+ *
+ * @returns {string} - The text with the new IDs.
+ */
+const remapText = (text: string, remap: (id: string) => string): string => {
+	for (const id of referencedAttributes(text)) {
+		if (remap(id) === id) continue
+
+		const escaped = id.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&')
+		text = text.replace(
+			new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, 'g'),
+			() => remap(id),
+		)
+	}
+
+	return text
+}
+
+/**
+ * Replaces the IDs in a set of translations that were given new IDs on import.
+ *
+ * @param {Record<string, string> | undefined} translations - The text in other languages, keyed by locale.
+ * @param {(id: string) => string} remap - Returns the new ID for an ID.
+ *
+ * @returns {Record<string, string> | undefined} - The translations with the new IDs.
+ */
+const remapTranslations = (
+	translations: Record<string, string> | undefined,
+	remap: (id: string) => string,
+): Record<string, string> | undefined =>
+	translations &&
+	Object.fromEntries(
+		Object.entries(translations).map(([locale, text]) => [
+			locale,
+			remapText(text, remap),
+		]),
+	)
+
+/**
+ * The fields each kind of entity in a bundle must have, and their types. The
+ * types of fields that may be left out end with a `?`.
+ */
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object'
+type Shape = Record<string, FieldType | `${FieldType}?`>
+const shapes: Record<string, Shape> = {
+	conversation: {
+		id: 'string',
+		name: 'string',
+		description: 'string',
+		once: 'boolean',
+		tags: 'array',
+	},
+	attribute: {
+		id: 'string',
+		name: 'string',
+		description: 'string',
+		tags: 'array',
+		conversations: 'array',
+	},
+	script: {
+		id: 'string',
+		name: 'string',
+		description: 'string',
+		tags: 'array',
+		input: 'array',
+		computed: 'array',
+		content: 'string',
+		tests: 'array?',
+	},
+	dependency: { id: 'string' },
+	question: {
+		id: 'string',
+		text: 'string',
+		options: 'array',
+		first: 'boolean',
+		last: 'boolean',
+		randomizeOptionOrder: 'boolean',
+		tags: 'array',
+		branches: 'array?',
+	},
+	option: {
+		position: 'number',
+		type: 'string',
+		text: 'string',
+		attribute: 'object?',
+		script: 'string?',
+		next: 'object?',
+		branches: 'array?',
+		rules: 'object?',
+	},
+	attributeToSet: { id: 'string' },
+	next: { conversation: 'string', question: 'string' },
+	branch: { conditions: 'array', next: 'object' },
+	condition: { attribute: 'string', operator: 'string' },
+}
+
+/**
+ * Makes sure an entity in a bundle has the fields it must have, with the right
+ * types, so that it can be imported.
+ *
+ * @param {unknown} entity - The entity to check.
+ * @param {Shape} shape - The fields it must have.
+ * @param {string} name - What to call the entity in the error message.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'improper-payload'
+ */
+const checkShape = (entity: unknown, shape: Shape, name: string): void => {
+	const isObject = (value: unknown): value is Record<string, unknown> =>
+		typeof value === 'object' && value !== null && !Array.isArray(value)
+
+	if (!isObject(entity))
+		throw new ServerError(
+			'improper-payload',
+			`The ${name} in the bundle must be an object.`,
+		)
+
+	for (const [field, expected] of Object.entries(shape)) {
+		const type = expected.replace(/\?$/, '')
+		const value = entity[field]
+		if (expected.endsWith('?') && typeof value === 'undefined') continue
+
+		const valid =
+			type === 'array'
+				? Array.isArray(value)
+				: type === 'object'
+				? isObject(value)
+				: typeof value === type
+		if (!valid)
+			throw new ServerError(
+				'improper-payload',
+				`The \`${field}\` field of the ${name} in the bundle must be ${
+					type === 'array' || type === 'object' ? 'an' : 'a'
+				} ${type}.`,
+			)
+	}
+}
+
+/**
+ * Makes sure a branch in a bundle can be imported.
+ *
+ * @param {Branch} branch - The branch to check.
+ * @param {string} name - What to call the branch in error messages.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'improper-payload'
+ */
+const checkBranch = (branch: Branch, name: string): void => {
+	checkShape(branch, shapes.branch, name)
+	for (const [index, condition] of branch.conditions.entries())
+		checkShape(condition, shapes.condition, `condition ${index + 1} of ${name}`)
+	checkShape(branch.next, shapes.next, `next question of ${name}`)
+}
+
+/**
+ * Makes sure every entity in a bundle has what is needed to import it, before
+ * anything is imported.
+ *
+ * @param {ConversationBundle} bundle - The bundle to check.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'improper-payload'
+ */
+const checkBundle = (bundle: ConversationBundle): void => {
+	checkShape(bundle.conversation, shapes.conversation, 'conversation')
+
+	for (const [index, attribute] of bundle.attributes.entries())
+		checkShape(attribute, shapes.attribute, `attribute ${index + 1}`)
+
+	for (const [index, script] of bundle.scripts.entries()) {
+		const name = `script ${index + 1}`
+		checkShape(script, shapes.script, name)
+		for (const [position, dependency] of script.input.entries())
+			checkShape(
+				dependency,
+				shapes.dependency,
+				`input attribute ${position + 1} of ${name}`,
+			)
+		for (const [position, dependency] of script.computed.entries())
+			checkShape(
+				dependency,
+				shapes.dependency,
+				`computed attribute ${position + 1} of ${name}`,
+			)
+	}
+
+	for (const [index, question] of bundle.questions.entries()) {
+		const name = `question ${index + 1}`
+		checkShape(question, shapes.question, name)
+		for (const [position, branch] of (question.branches ?? []).entries())
+			checkBranch(branch, `branch ${position + 1} of ${name}`)
+
+		for (const [position, option] of question.options.entries()) {
+			const optionName = `option ${position + 1} of ${name}`
+			checkShape(option, shapes.option, optionName)
+			if (option.attribute)
+				checkShape(
+					option.attribute,
+					shapes.attributeToSet,
+					`attribute set by ${optionName}`,
+				)
+			if (option.next)
+				checkShape(option.next, shapes.next, `next question of ${optionName}`)
+			for (const [count, branch] of (option.branches ?? []).entries())
+				checkBranch(branch, `branch ${count + 1} of ${optionName}`)
+
+			if (typeof option.rules?.pattern === 'undefined') continue
+			try {
+				compilePattern(option.rules.pattern)
+			} catch (error: unknown) {
+				throw new ServerError(
+					'improper-payload',
+					`The pattern for ${optionName} in the bundle is invalid: ${
+						(error as Error).message
+					}.`,
+				)
+			}
+		}
+	}
+}
+
+/**
+ * The payload needed to export a conversation.
+ *
+ * @typedef {object} ExportConversationPayload
+ * @property {string} format - The format to export the bundle in. Defaults to `json`. - enum:json,yaml
+ */
+export type ExportConversationPayload = {
+	format?: 'json' | 'yaml'
+}
+
+/**
+ * The response from the export conversation endpoint.
+ *
+ * @typedef {object} ExportConversationResponse
+ * @property {ConversationBundle} bundle.required - The conversation, its questions, and the attributes and scripts they refer to.
+ */
+export type ExportConversationResponse = {
+	bundle: ConversationBundle
+}
+
+/**
+ * Method to export a conversation, along with its questions and the attributes
+ * and scripts they refer to, as a bundle.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the bundle.
+ */
+const exportBundle = async (
+	request: ServiceRequest<
+		ExportConversationPayload & { conversationId: string }
+	>,
+): Promise<ServiceResponse<ExportConversationResponse>> => {
+	try {
+		const conversation = await conversations.get(request.data.conversationId)
+		const foundQuestions = await questions(request.data.conversationId).find([])
+
+		// Gather everything the questions refer to
+		const attributeIds = new Set<string>()
+		const scriptIds = new Set<string>()
+		for (const question of foundQuestions) {
+			// Look up the attributes the templates read, and leave out what is not
+			// found
+			for (const text of templatesIn(question))
+				for (const id of referencedAttributes(text)) attributeIds.add(id)
+			for (const { conditions } of question.branches ?? [])
+				for (const { attribute } of conditions) attributeIds.add(attribute)
+			for (const option of question.options) {
+				if (option.attribute) attributeIds.add(option.attribute.id)
+				if (option.script) scriptIds.add(option.script)
+				for (const branch of option.branches ?? [])
+					for (const condition of branch.conditions)
+						attributeIds.add(condition.attribute)
+			}
+		}
+
+		// Fetch the scripts, and the attributes they need and compute. Anything
+		// that no longer exists is left out of the bundle.
+		const foundScripts = []
+		for (const id of scriptIds) {
+			try {
+				const script = await scripts.get(id)
+				for (const { id } of [...script.input, ...script.computed])
+					attributeIds.add(id)
+
+				foundScripts.push(script)
+			} catch (error: unknown) {
+				if ((error as ServerError).code !== 'entity-not-found') throw error
+			}
+		}
+
+		const foundAttributes = []
+		for (const id of attributeIds) {
+			try {
+				foundAttributes.push(await attributes.get(id))
+			} catch (error: unknown) {
+				if ((error as ServerError).code !== 'entity-not-found') throw error
+			}
+		}
+
+		const bundle = {
+			version: bundleVersion,
+			conversation,
+			questions: foundQuestions.map(
+				({ _conversationId, ...question }) => question,
+			),
+			attributes: foundAttributes,
+			scripts: foundScripts,
+		}
+
+		const data = { bundle }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * A problem found while importing a bundle.
+ *
+ * @typedef {object} ImportConflict
+ * @property {string} entity.required - The type of entity the conflict is about. - enum:conversation,question,attribute,script
+ * @property {string} id.required - The ID of the entity in the bundle.
+ * @property {string} message.required - A human-readable description of the conflict and how it was resolved.
+ */
+export type ImportConflict = {
+	entity: 'conversation' | 'question' | 'attribute' | 'script'
+	id: string
+	message: string
+}
+
+/**
+ * The payload needed to import a conversation.
+ *
+ * @typedef {object} ImportConversationPayload
+ * @property {string} content.required - The exported bundle, as JSON or YAML.
+ * @property {string} format - The format the bundle is in. Defaults to `json`. - enum:json,yaml
+ * @property {string} mode - Whether to create everything anew with new IDs (reusing attributes and scripts with the same name), or create/overwrite everything with the IDs in the bundle. Defaults to `create`. - enum:create,upsert
+ * @property {boolean} dryRun - Whether to only report what would be imported and the conflicts found, without saving anything.
+ */
+export type ImportConversationPayload = {
+	content: string
+	format?: 'json' | 'yaml'
+	mode?: 'create' | 'upsert'
+	dryRun?: boolean
+}
+
+/**
+ * The response from the import conversation endpoint.
+ *
+ * @typedef {object} ImportConversationResponse
+ * @property {Conversation} conversation.required - The imported conversation.
+ * @property {object} ids.required - A map of the IDs in the bundle to the IDs they were imported with.
+ * @property {array<ImportConflict>} conflicts.required - The conflicts found while importing the bundle.
+ * @property {boolean} dryRun.required - Whether this was a dry run, in which case nothing was saved.
+ */
+export type ImportConversationResponse = {
+	conversation: Conversation
+	ids: Record<string, string>
+	conflicts: ImportConflict[]
+	dryRun: boolean
+}
+
+/**
+ * Method to import a bundle exported by this (or another) deployment.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the imported conversation and the IDs everything was imported with.
+ */
+const importBundle = async (
+	request: ServiceRequest<ImportConversationPayload>,
+): Promise<ServiceResponse<ImportConversationResponse>> => {
+	try {
+		// Parse the bundle, and make sure we understand it
+		let bundle: ConversationBundle
+		try {
+			bundle =
+				request.data.format === 'yaml'
+					? parseYaml(request.data.content)
+					: json.parse(request.data.content)
+		} catch {
+			throw new ServerError(
+				'improper-payload',
+				'The bundle could not be parsed.',
+			)
+		}
+
+		if (bundle?.version !== bundleVersion)
+			throw new ServerError(
+				'improper-payload',
+				`Bundles of version ${String(
+					bundle?.version,
+				)} cannot be imported, only bundles of version ${bundleVersion} can.`,
+			)
+		if (
+			typeof bundle.conversation?.id !== 'string' ||
+			!Array.isArray(bundle.questions) ||
+			!Array.isArray(bundle.attributes) ||
+			!Array.isArray(bundle.scripts)
+		)
+			throw new ServerError(
+				'improper-payload',
+				'The bundle must contain a conversation, and lists of questions, attributes and scripts.',
+			)
+		// Check everything in it before remapping or saving any of it
+		checkBundle(bundle)
+
+		const upsert = request.data.mode === 'upsert'
+		const ids = new Map<string, string>()
+		const conflicts: ImportConflict[] = []
+		const remap = (id: string): string => ids.get(id) ?? id
+
+		// Work out which attributes to create, update or reuse
+		const existingAttributes = await attributes.find([])
+		const attributesToSave: Array<{ attribute: Attribute; exists: boolean }> =
+			[]
+		for (const attribute of bundle.attributes) {
+			const sameId = existingAttributes.find(({ id }) => id === attribute.id)
+			const sameName = existingAttributes.find(
+				({ name }) => name === attribute.name,
+			)
+
+			if (upsert) {
+				ids.set(attribute.id, attribute.id)
+				attributesToSave.push({ attribute, exists: Boolean(sameId) })
+				if (sameId)
+					conflicts.push({
+						entity: 'attribute',
+						id: attribute.id,
+						message:
+							'An attribute with the same ID exists, and is overwritten by the import.',
+					})
+			} else if (sameName) {
+				ids.set(attribute.id, sameName.id)
+				if (sameName.description !== attribute.description)
+					conflicts.push({
+						entity: 'attribute',
+						id: attribute.id,
+						message: `A different attribute with the same name (${sameName.id}) exists, and is used instead.`,
+					})
+			} else {
+				ids.set(attribute.id, generateId())
+				attributesToSave.push({ attribute, exists: false })
+			}
+		}
+
+		// Do the same for the scripts
+		const existingScripts = await scripts.find([])
+		const scriptsToSave: Array<{ script: Script; exists: boolean }> = []
+		for (const script of bundle.scripts) {
+			const sameId = existingScripts.find(({ id }) => id === script.id)
+			const sameName = existingScripts.find(({ name }) => name === script.name)
+
+			if (upsert) {
+				ids.set(script.id, script.id)
+				scriptsToSave.push({ script, exists: Boolean(sameId) })
+				if (sameId)
+					conflicts.push({
+						entity: 'script',
+						id: script.id,
+						message:
+							'A script with the same ID exists, and is overwritten by the import.',
+					})
+			} else if (sameName) {
+				ids.set(script.id, sameName.id)
+				if (sameName.content !== script.content)
+					conflicts.push({
+						entity: 'script',
+						id: script.id,
+						message: `A different script with the same name (${sameName.id}) exists, and is used instead.`,
+					})
+			} else {
+				ids.set(script.id, generateId())
+				scriptsToSave.push({ script, exists: false })
+			}
+		}
+
+		// The conversation and its questions get new IDs, unless they are to be
+		// overwritten
+		let conversationExists = false
+		try {
+			await conversations.get(bundle.conversation.id)
+			conversationExists = upsert
+		} catch (error: unknown) {
+			if ((error as ServerError).code !== 'entity-not-found') throw error
+		}
+
+		ids.set(
+			bundle.conversation.id,
+			upsert ? bundle.conversation.id : generateId(),
+		)
+		if (conversationExists)
+			conflicts.push({
+				entity: 'conversation',
+				id: bundle.conversation.id,
+				message:
+					'A conversation with the same ID exists, and is overwritten by the import along with its questions.',
+			})
+		for (const question of bundle.questions)
+			ids.set(question.id, upsert ? question.id : generateId())
+
+		// Replace the IDs everywhere they are referred to. The published versions
+		// of the conversation are not part of the bundle, so the imported
+		// conversation starts out with only a draft (or keeps the version it
+		// has, if it is overwritten).
+		const conversation = {
+			...bundle.conversation,
+			id: remap(bundle.conversation.id),
+			version: undefined,
+		}
+		const remapNext = (next: { conversation: string; question: string }) => {
+			if (next.conversation !== bundle.conversation.id) {
+				conflicts.push({
+					entity: 'question',
+					id: next.question,
+					message: `A question leads to a conversation (${next.conversation}) outside the bundle, which must exist in this deployment too.`,
+				})
+
+				return next
+			}
+
+			return { conversation: conversation.id, question: remap(next.question) }
+		}
+
+		const remapBranches = (branches: Branch[]): Branch[] =>
+			branches.map((branch) => ({
+				conditions: branch.conditions.map((condition) => ({
+					...condition,
+					attribute: remap(condition.attribute),
+				})),
+				next: remapNext(branch.next),
+			}))
+
+		const questionsToSave = bundle.questions.map((question) => {
+			const options = question.options.map((option) => ({
+				...option,
+				translations: remapTranslations(option.translations, remap),
+				attribute: option.attribute && {
+					...option.attribute,
+					id: remap(option.attribute.id),
+				},
+				script: option.script && remap(option.script),
+				next: option.next && remapNext(option.next),
+				branches: option.branches && remapBranches(option.branches),
+			}))
+
+			return {
+				...question,
+				id: remap(question.id),
+				text: remapText(question.text, remap),
+				translations: remapTranslations(question.translations, remap),
+				options,
+				branches: question.branches && remapBranches(question.branches),
+			}
+		})
+
+		// Overwriting a conversation replaces all its questions, so the ones that
+		// are not in the bundle are deleted
+		const conversationQuestions = questions(conversation.id)
+		const existingQuestions = conversationExists
+			? await conversationQuestions.find([])
+			: []
+		const questionsToDelete = existingQuestions.filter(
+			({ id }) => !questionsToSave.some((question) => question.id === id),
+		)
+		for (const { id } of questionsToDelete)
+			conflicts.push({
+				entity: 'question',
+				id,
+				message:
+					'A question in the conversation is not in the bundle, and is deleted by the import.',
+			})
+
+		// Save everything, unless this is a dry run
+		if (!request.data.dryRun) {
+			for (const { attribute, exists } of attributesToSave) {
+				const remapped = {
+					...attribute,
+					id: remap(attribute.id),
+					conversations: [
+						...new Set([
+							...attribute.conversations.map((id) => remap(id)),
+							conversation.id,
+						]),
+					],
+				}
+
+				await (exists
+					? attributes.update(remapped)
+					: attributes.create(remapped))
+			}
+
+			for (const { script, exists } of scriptsToSave) {
+				const remapped = {
+					...script,
+					id: remap(script.id),
+					input: script.input.map((dependency) => ({
+						...dependency,
+						id: remap(dependency.id),
+					})),
+					computed: script.computed.map((dependency) => ({
+						...dependency,
+						id: remap(dependency.id),
+					})),
+				}
+
+				await (exists ? scripts.update(remapped) : scripts.create(remapped))
+			}
+
+			await (conversationExists
+				? conversations.update(conversation)
+				: conversations.create(conversation))
+
+			for (const question of questionsToSave) {
+				const remapped = { ...question, _conversationId: conversation.id }
+				const exists = existingQuestions.some(({ id }) => id === question.id)
+				await (exists
+					? conversationQuestions.update(remapped)
+					: conversationQuestions.create(remapped))
+			}
+
+			for (const { id } of questionsToDelete)
+				await conversationQuestions.delete(id)
+		}
+
+		const data = {
+			conversation,
+			ids: Object.fromEntries(ids),
+			conflicts,
+			dryRun: Boolean(request.data.dryRun),
+		}
+		return {
+			status: request.data.dryRun ? 200 : 201,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	export: exportBundle,
+	import: importBundle,
+}
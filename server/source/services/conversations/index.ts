@@ -4,11 +4,44 @@
 import type { ServiceRequest, ServiceResponse, Query } from '@/types'
 
 import { ServerError } from '@/errors'
-import { Conversation } from '@/models/conversation'
+import { Conversation, ConversationTranslation } from '@/models/conversation'
 import { provider as groups } from '@/provider/data/groups'
 import { provider as conversations } from '@/provider/data/conversations'
 import { provider as questions } from '@/provider/data/conversations/questions'
 import { generateId } from '@/utilities'
+import { parseLocales, translate } from '@/utilities/locale'
+
+/**
+ * Shows a conversation's name and description in the language the user would
+ * most like to see them in.
+ *
+ * @param {Conversation} conversation - The conversation to translate.
+ * @param {string[]} locales - The locales the user would like to see the conversation in, most preferred first.
+ *
+ * @returns {Conversation} - The translated conversation.
+ */
+const translateConversation = (
+	conversation: Conversation,
+	locales: string[],
+): Conversation => {
+	const translations = Object.entries(conversation.translations ?? {})
+
+	return {
+		...conversation,
+		name: translate(
+			conversation.name,
+			Object.fromEntries(translations.map(([key, { name }]) => [key, name])),
+			locales,
+		),
+		description: translate(
+			conversation.description,
+			Object.fromEntries(
+				translations.map(([key, { description }]) => [key, description]),
+			),
+			locales,
+		),
+	}
+}
 
 /**
  * The payload needed to make a request to list/find conversations.
@@ -87,10 +120,15 @@ const find = async (
 			}
 		}
 
-		// Fetch the conversations
+		// Fetch the conversations, and show them in the user's language
+		const locales = parseLocales(
+			request.context!.locale,
+			request.context!.user.locale,
+		)
 		const foundConversations = []
 		for (const conversationId of conversationIds) {
-			foundConversations.push(await conversations.get(conversationId))
+			const conversation = await conversations.get(conversationId)
+			foundConversations.push(translateConversation(conversation, locales))
 		}
 
 		// Return the conversations
@@ -115,12 +153,14 @@ const find = async (
  * @property {string} description.required - The description of the conversation.
  * @property {boolean} once.required - Whether the conversation should be taken only once.
  * @property {array<string>} tags.required - The tags of the conversation.
+ * @property {object} translations - The name and description of the conversation in other languages, keyed by locale (e.g. `hi` or `pt-BR`). Each value is a `ConversationTranslation`.
  */
 export type CreateConversationPayload = {
 	name: string
 	description: string
 	once: boolean
 	tags: string[]
+	translations?: Record<string, ConversationTranslation>
 }
 
 /**
@@ -183,7 +223,18 @@ const get = async (
 	request: ServiceRequest<{ conversationId: string }>,
 ): Promise<ServiceResponse<RetrieveConversationResponse>> => {
 	try {
-		const conversation = await conversations.get(request.data.conversationId)
+		const foundConversation = await conversations.get(
+			request.data.conversationId,
+		)
+
+		// Groot edits the conversation in every language, so show them the
+		// untranslated conversation, and everyone else the translated one
+		const conversation = request.context!.user.isGroot
+			? foundConversation
+			: translateConversation(
+					foundConversation,
+					parseLocales(request.context!.locale, request.context!.user.locale),
+			  )
 
 		const data = { conversation }
 		return {
@@ -206,12 +257,14 @@ const get = async (
  * @property {string} description.required - The description of the conversation.
  * @property {boolean} once.required - Whether the conversation should be taken only once.
  * @property {array<string>} tags.required - The tags of the conversation.
+ * @property {object} translations - The name and description of the conversation in other languages, keyed by locale (e.g. `hi` or `pt-BR`). Each value is a `ConversationTranslation`.
  */
 export type UpdateConversationPayload = {
 	name: string
 	description: string
 	once: boolean
 	tags: string[]
+	translations?: Record<string, ConversationTranslation>
 }
 
 /**
@@ -237,6 +290,8 @@ const update = async (
 	>,
 ): Promise<ServiceResponse<UpdateConversationResponse>> => {
 	try {
+		// The published version can only be changed by publishing or rolling
+		// back, so the data provider leaves it as it is
 		const conversation = await conversations.update({
 			...request.data,
 			id: request.data.conversationId,
@@ -268,10 +323,11 @@ const _delete = async (
 	try {
 		await conversations.delete(request.data.conversationId)
 
-		questions.conversationId = request.data.conversationId
-		const questionsToDelete = await questions.find([])
+		const questionsToDelete = await questions(request.data.conversationId).find(
+			[],
+		)
 		for (const question of questionsToDelete) {
-			await questions.delete(question.id)
+			await questions(request.data.conversationId).delete(question.id)
 		}
 
 		const data = {}
@@ -1,19 +1,320 @@
 // @/services/conversations/questions.ts
 // Service that handles question search, creation, modification, deletion operations.
 
-import { render } from 'ejs'
-
 import type { ServiceRequest, ServiceResponse, Query } from '@/types'
 
 import { ServerError } from '@/errors'
-import { Question, Option } from '@/models/question'
-import { Attribute, UserAttribute } from '@/models/attribute'
-import { provider as users } from '@/provider/data/users'
-import { provider as attributes } from '@/provider/data/attributes'
+import {
+	Question,
+	Option,
+	Branch,
+	BranchCondition,
+	NextQuestion,
+	InputRules,
+} from '@/models/question'
+import { TemplateEngine } from '@/models/report'
+import { UserAttribute } from '@/models/attribute'
+import { ConversationSession } from '@/models/session'
 import { provider as userAttributes } from '@/provider/data/users/attributes'
+import { provider as sessions } from '@/provider/data/users/sessions'
+import { provider as conversations } from '@/provider/data/conversations'
 import { provider as questions } from '@/provider/data/conversations/questions'
+import { provider as versions } from '@/provider/data/conversations/versions'
 import { service as scripts } from '@/services/scripts'
 import { generateId, shuffle } from '@/utilities'
+import { parseLocales, translate } from '@/utilities/locale'
+import { compilePattern, matchPattern } from '@/utilities/patterns'
+import {
+	renderTemplate,
+	resolveEngine,
+	TemplateContextBuilder,
+} from '@/utilities/templates'
+
+/**
+ * Ensures that a user can take a conversation. If the conversation can be taken
+ * only once, the user must not have finished a session in it already.
+ *
+ * @param {string} conversationId - The ID of the conversation the user wants to take.
+ * @param {string} userId - The ID of the user taking the conversation.
+ *
+ * @throws {ServerError} - 'precondition-failed' | 'entity-not-found' | 'backend-error'
+ */
+const ensureConversationCanBeTaken = async (
+	conversationId: string,
+	userId: string,
+): Promise<void> => {
+	const conversation = await conversations.get(conversationId)
+	if (!conversation.once) return
+
+	const foundSessions = await sessions(userId).find([
+		{ field: 'conversation', operator: '==', value: conversationId },
+	])
+	if (foundSessions.some((session) => session.finished))
+		throw new ServerError(
+			'precondition-failed',
+			'You have already taken this conversation, and it can be taken only once.',
+		)
+}
+
+/**
+ * Works out which version of a conversation a user should be shown. Users who
+ * are in the middle of a conversation keep seeing the version they started
+ * with, everyone else sees the published version.
+ *
+ * @param {string} conversationId - The ID of the conversation.
+ * @param {string} userId - The ID of the user taking the conversation.
+ *
+ * @returns {number | undefined} - The version number, or `undefined` if the conversation has never been published, in which case the draft is shown.
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+const resolveVersion = async (
+	conversationId: string,
+	userId: string,
+): Promise<number | undefined> => {
+	const foundSessions = await sessions(userId).find([
+		{ field: 'conversation', operator: '==', value: conversationId },
+	])
+	const session = foundSessions
+		.filter((session) => !session.finished)
+		.find((session) => typeof session.version !== 'undefined')
+	if (session) return session.version
+
+	const conversation = await conversations.get(conversationId)
+	return conversation.version
+}
+
+/**
+ * Retrieves the questions of a conversation that match the given queries, from
+ * the given version of the conversation, or the draft if no version is given.
+ *
+ * @param {string} conversationId - The ID of the conversation.
+ * @param {number | undefined} version - The version to retrieve the questions from.
+ * @param {Array<Query>} queries - A list of queries to filter the questions.
+ *
+ * @returns {Question[]} - The questions matching the query.
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+const findVersionedQuestions = async (
+	conversationId: string,
+	version: number | undefined,
+	queries: Array<Query<Question>>,
+): Promise<Question[]> => {
+	if (typeof version === 'undefined') {
+		const draftQuestions = await questions(conversationId).find(queries)
+		return draftQuestions
+	}
+
+	const { questions: versionedQuestions } = await versions(conversationId).get(
+		version.toString(),
+	)
+	return versionedQuestions.filter((question) =>
+		queries.every(({ field, operator, value }) => {
+			const actual = question[field as keyof Question]
+			return operator === 'includes'
+				? Array.isArray(actual) && (actual as unknown[]).includes(value)
+				: actual === value
+		}),
+	)
+}
+
+/**
+ * Retrieves a question from the given version of a conversation, or the draft
+ * if no version is given.
+ *
+ * @param {string} conversationId - The ID of the conversation.
+ * @param {number | undefined} version - The version to retrieve the question from.
+ * @param {string} questionId - The ID of the question to retrieve.
+ *
+ * @returns {Question} - The requested question.
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+export const getVersionedQuestion = async (
+	conversationId: string,
+	version: number | undefined,
+	questionId: string,
+): Promise<Question> => {
+	if (typeof version === 'undefined') {
+		return questions(conversationId).get(questionId)
+	}
+
+	const { questions: versionedQuestions } = await versions(conversationId).get(
+		version.toString(),
+	)
+	const question = versionedQuestions.find(({ id }) => id === questionId)
+	if (!question) throw new ServerError('entity-not-found')
+
+	return question
+}
+
+/**
+ * Shows a question and its options in the language the user would most like
+ * to see them in. This must be done before rendering the question's template,
+ * since the translations are templates too.
+ *
+ * @param {Question} question - The question to translate.
+ * @param {string[]} locales - The locales the user would like to see the question in, most preferred first.
+ *
+ * @returns {void}
+ */
+const translateQuestion = (question: Question, locales: string[]): void => {
+	question.text = translate(question.text, question.translations, locales)
+	for (const option of question.options)
+		option.text = translate(option.text, option.translations, locales)
+}
+
+/**
+ * Prepares questions to be shown to a user: translates them into the user's
+ * language, sorts (or shuffles) their options, and renders their templates.
+ *
+ * @param {Question[]} questionsToShow - The questions to prepare.
+ * @param {TemplateContextBuilder} templates - The context builder for the user the questions are shown to.
+ * @param {string | undefined} header - The value of the `Accept-Language` header sent by the user's client.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+export const prepareQuestions = async (
+	questionsToShow: Question[],
+	templates: TemplateContextBuilder,
+	header: string | undefined,
+): Promise<void> => {
+	const user = await templates.user()
+	const locales = parseLocales(header, user.locale)
+	for (const question of questionsToShow) translateQuestion(question, locales)
+
+	// Load the attributes all the questions refer to at once
+	const context = await templates.context(
+		...questionsToShow.map((question) => question.text),
+	)
+	for (const question of questionsToShow) {
+		question.options = question.randomizeOptionOrder
+			? shuffle(question.options)
+			: question.options.sort((a, b) => a.position - b.position)
+		question.text = await renderTemplate(
+			question.text,
+			question.engine,
+			context,
+		)
+	}
+}
+
+/**
+ * Checks whether the value of an attribute satisfies a branch condition.
+ *
+ * @param {BranchCondition} condition - The condition to check.
+ * @param {string | number | boolean | undefined} value - The value of the attribute, if the user has it.
+ *
+ * @returns {boolean} - Whether the condition is satisfied.
+ */
+const satisfies = (
+	condition: BranchCondition,
+	value?: string | number | boolean,
+): boolean => {
+	// If the user does not have the attribute, the condition cannot be met
+	if (typeof value === 'undefined') return false
+
+	// Free-text input is stored as a string, so compare it with numbers as a
+	// number, and with anything else as a string
+	const [actual, expected] =
+		typeof condition.value === 'number'
+			? [Number(value), condition.value]
+			: [String(value), String(condition.value)]
+	switch (condition.operator) {
+		case '==':
+			return actual === expected
+		case '!=':
+			return actual !== expected
+		case '>':
+			return actual > expected
+		case '<':
+			return actual < expected
+		case '>=':
+			return actual >= expected
+		case '<=':
+			return actual <= expected
+		case 'includes':
+			return String(value).includes(String(condition.value))
+		default:
+			return false
+	}
+}
+
+/**
+ * Picks the next question to show a user after they select an option, based on
+ * the branches of the option and the question, and the user's attributes.
+ *
+ * @param {Question} question - The question answered by the user.
+ * @param {Option} option - The option selected by the user.
+ * @param {string} userId - The ID of the user answering the question.
+ *
+ * @returns {NextQuestion | undefined} - The next question to show the user, if any.
+ * @throws {ServerError} - 'backend-error'
+ */
+const pickNextQuestion = async (
+	question: Question,
+	option: Option,
+	userId: string,
+): Promise<NextQuestion | undefined> => {
+	// The option's own branches take precedence over the question's
+	const branches: Branch[] = [
+		...(option.branches ?? []),
+		...(question.branches ?? []),
+	]
+	if (branches.length === 0) return option.next
+
+	// Fetch the values of all the attributes the branches depend on
+	const values: Record<string, string | number | boolean | undefined> = {}
+	for (const branch of branches) {
+		for (const { attribute: id } of branch.conditions) {
+			if (id in values) continue
+
+			try {
+				const { value } = await userAttributes(userId).get(id)
+				values[id] = value
+			} catch (error: unknown) {
+				if ((error as ServerError).code !== 'entity-not-found') throw error
+
+				values[id] = undefined
+			}
+		}
+	}
+
+	// Take the first branch whose conditions are all satisfied
+	const branch = branches.find((branch) =>
+		branch.conditions.every((condition) =>
+			satisfies(condition, values[condition.attribute]),
+		),
+	)
+
+	return branch?.next ?? option.next
+}
+
+/**
+ * Makes sure the patterns that the input entered for a question's options must
+ * match are valid, before the question is saved.
+ *
+ * @param {Option[]} options - The options of the question.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'improper-payload'
+ */
+const checkPatterns = (options: Option[]): void => {
+	for (const option of options) {
+		const pattern = option.rules?.pattern
+		if (typeof pattern !== 'string') continue
+
+		try {
+			compilePattern(pattern)
+		} catch (error: unknown) {
+			throw new ServerError(
+				'improper-payload',
+				`The pattern for option ${option.position} is invalid: ${
+					(error as Error).message
+				}.`,
+			)
+		}
+	}
+}
 
 /**
  * The payload needed to make a request to list/find questions.
@@ -23,7 +324,7 @@ import { generateId, shuffle } from '@/utilities'
  * @property {boolean} last - Whether the question should be the last one in the conversation.
  * @property {boolean} randomizeOptionOrder - Whether the options for that question should be randomized.
  * @property {array<string>} tags - The question should have all the given tags.
- * @property {boolean} raw - Whether or not to render the question text template.
+ * @property {boolean} raw - Whether or not to render the question text template. Ignored unless the user is Groot.
  */
 export type ListOrFindQuestionsPayload = {
 	first?: boolean
@@ -68,38 +369,35 @@ const find = async (
 			else query.push({ field, operator: '==', value })
 		}
 
-		questions.conversationId = request.data.conversationId
-		const foundQuestions = await questions.find(query)
-
-		// Prepare to render the template by fetching the user and their attributes
-		if (!request.data.raw) {
-			userAttributes.userId = request.context!.user.id
-			const fetchedUserAttributes = await userAttributes.find([])
-			const user = await users.get(request.context!.user.id)
-			const input: Record<
-				string,
-				Attribute & { value: string | number | boolean }
-			> = {}
-
-			for (const fetchedUserAttribute of fetchedUserAttributes) {
-				const attribute = await attributes.get(fetchedUserAttribute.id)
-				input[fetchedUserAttribute.id] = {
-					...attribute,
-					...fetchedUserAttribute,
-				}
-			}
+		// Raw questions are fetched by Groot while editing the conversation, not
+		// while taking it, so only check whether the user can take it otherwise
+		const raw = request.data.raw && request.context!.user.isGroot
+		if (!raw)
+			await ensureConversationCanBeTaken(
+				request.data.conversationId,
+				request.context!.user.id,
+			)
 
-			// Sort the options and render the template.
-			for (const question of foundQuestions) {
-				question.options = question.randomizeOptionOrder
-					? shuffle(question.options)
-					: question.options.sort((a, b) => a.position - b.position)
+		// Users taking the conversation see the version they started with, while
+		// raw questions always come from the draft
+		const version = raw
+			? undefined
+			: await resolveVersion(
+					request.data.conversationId,
+					request.context!.user.id,
+			  )
+		const foundQuestions = await findVersionedQuestions(
+			request.data.conversationId,
+			version,
+			query,
+		)
 
-				question.text = render(question.text, {
-					context: { input, user },
-				})
-			}
-		}
+		if (!raw)
+			await prepareQuestions(
+				foundQuestions,
+				new TemplateContextBuilder(request.context!.user.id),
+				request.context!.locale,
+			)
 
 		const data = { questions: foundQuestions }
 		return {
@@ -124,6 +422,9 @@ const find = async (
  * @property {boolean} last.required - Whether this is the last question in the conversation.
  * @property {boolean} randomizeOptionOrder.required - Whether to randomize the order of the options.
  * @property {array<string>} tags.required - Tags to enhance searchability of the conversation.
+ * @property {object} translations - The question text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} engine - The language the question's text template is written in. EJS is only supported for questions written in it before liquid was introduced. - enum:liquid,ejs
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes, whichever option they select. These are checked after the selected option's own branches.
  */
 export type CreateQuestionPayload = {
 	text: string
@@ -132,6 +433,9 @@ export type CreateQuestionPayload = {
 	last: boolean
 	randomizeOptionOrder: boolean
 	tags: string[]
+	translations?: Record<string, string>
+	engine?: TemplateEngine
+	branches?: Branch[]
 }
 
 /**
@@ -155,10 +459,12 @@ const create = async (
 	request: ServiceRequest<CreateQuestionPayload & { conversationId: string }>,
 ): Promise<ServiceResponse<CreateQuestionResponse>> => {
 	try {
-		questions.conversationId = request.data.conversationId
-		const question = await questions.create({
+		checkPatterns(request.data.options)
+		const question = await questions(request.data.conversationId).create({
 			...request.data,
 			id: generateId(),
+			translations: request.data.translations,
+			engine: resolveEngine(request.data.engine),
 			_conversationId: request.data.conversationId,
 		})
 
@@ -179,7 +485,7 @@ const create = async (
  * The payload needed to retrieve a question.
  *
  * @typedef {object} RetrieveQuestionPayload
- * @property {boolean} raw - Whether or not to render the question text template.
+ * @property {boolean} raw - Whether or not to render the question text template. Ignored unless the user is Groot.
  */
 export type RetrieveQuestionsPayload = {
 	raw?: boolean
@@ -210,35 +516,26 @@ const get = async (
 	}>,
 ): Promise<ServiceResponse<RetrieveQuestionResponse>> => {
 	try {
-		questions.conversationId = request.data.conversationId
-		const question = await questions.get(request.data.questionId)
-
-		// Prepare to render the template by fetching the user and their attributes
-		if (!request.data.raw) {
-			const user = await users.get(request.context!.user.id)
-			const input: Record<
-				string,
-				Attribute & { value: string | number | boolean }
-			> = {}
-
-			userAttributes.userId = request.context!.user.id
-			const fetchedUserAttributes = await userAttributes.find([])
-			for (const fetchedUserAttribute of fetchedUserAttributes) {
-				const attribute = await attributes.get(fetchedUserAttribute.id)
-				input[fetchedUserAttribute.id] = {
-					...attribute,
-					...fetchedUserAttribute,
-				}
-			}
+		// Only Groot may see the untranslated draft, while editing it
+		const raw = request.data.raw && request.context!.user.isGroot
+		const version = raw
+			? undefined
+			: await resolveVersion(
+					request.data.conversationId,
+					request.context!.user.id,
+			  )
+		const question = await getVersionedQuestion(
+			request.data.conversationId,
+			version,
+			request.data.questionId,
+		)
 
-			// Sort the options and render the template.
-			question.options = question.randomizeOptionOrder
-				? shuffle(question.options)
-				: question.options.sort((a, b) => a.position - b.position)
-			question.text = render(question.text, {
-				context: { input, user },
-			})
-		}
+		if (!raw)
+			await prepareQuestions(
+				[question],
+				new TemplateContextBuilder(request.context!.user.id),
+				request.context!.locale,
+			)
 
 		const data = { question }
 		return {
@@ -263,6 +560,9 @@ const get = async (
  * @property {boolean} last.required - Whether this is the last question in the conversation.
  * @property {boolean} randomizeOptionOrder.required - Whether to randomize the order of the options.
  * @property {array<string>} tags.required - Tags to enhance searchability of the conversation.
+ * @property {object} translations - The question text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} engine - The language the question's text template is written in. EJS is only supported for questions written in it before liquid was introduced. - enum:liquid,ejs
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes, whichever option they select. These are checked after the selected option's own branches.
  */
 export type UpdateQuestionPayload = {
 	text: string
@@ -271,6 +571,9 @@ export type UpdateQuestionPayload = {
 	last: boolean
 	randomizeOptionOrder: boolean
 	tags: string[]
+	translations?: Record<string, string>
+	engine?: TemplateEngine
+	branches?: Branch[]
 }
 
 /**
@@ -296,9 +599,13 @@ const update = async (
 	>,
 ): Promise<ServiceResponse<UpdateQuestionResponse>> => {
 	try {
-		questions.conversationId = request.data.conversationId
-		const question = await questions.update({
+		checkPatterns(request.data.options)
+		const existing = await questions(request.data.conversationId).get(
+			request.data.questionId,
+		)
+		const question = await questions(request.data.conversationId).update({
 			...request.data,
+			engine: resolveEngine(request.data.engine, existing),
 			id: request.data.questionId,
 		})
 
@@ -326,8 +633,7 @@ const _delete = async (
 	request: ServiceRequest<{ conversationId: string; questionId: string }>,
 ): Promise<ServiceResponse<unknown>> => {
 	try {
-		questions.conversationId = request.data.conversationId
-		await questions.delete(request.data.questionId)
+		await questions(request.data.conversationId).delete(request.data.questionId)
 
 		const data = {}
 		return {
@@ -342,15 +648,215 @@ const _delete = async (
 	}
 }
 
+/**
+ * Checks that the input entered by a user satisfies the rules declared on an
+ * option.
+ *
+ * @param {InputRules} rules - The rules to check.
+ * @param {string | undefined} input - The input provided by the user, if any.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'improper-payload' | 'precondition-failed'
+ */
+const checkRules = (rules: InputRules, input?: string): void => {
+	const fail = (rule: keyof InputRules, reason: string) => {
+		throw new ServerError(
+			'improper-payload',
+			`The answer failed the \`${rule}\` rule: ${reason}`,
+		)
+	}
+
+	if (typeof input === 'undefined' || input === '') {
+		if (rules.required) fail('required', 'an answer must be entered.')
+		// Nothing else to check if the user has not entered anything
+		return
+	}
+
+	if (typeof rules.minLength === 'number' && input.length < rules.minLength)
+		fail('minLength', `it must be at least ${rules.minLength} characters long.`)
+	if (typeof rules.maxLength === 'number' && input.length > rules.maxLength)
+		fail('maxLength', `it must be at most ${rules.maxLength} characters long.`)
+	if (typeof rules.pattern === 'string') {
+		// Patterns are checked when the question is saved, but questions saved
+		// before that may still have one that is invalid or too slow to match
+		let pattern: RegExp
+		try {
+			pattern = compilePattern(rules.pattern)
+		} catch {
+			throw new ServerError(
+				'precondition-failed',
+				'The pattern the answer must match is invalid. Please ask the authors of the conversation to fix it.',
+			)
+		}
+
+		// Matching is stopped once it takes too long, so no pattern or input can
+		// hold up the server
+		let matches = false
+		try {
+			matches = matchPattern(pattern, input)
+		} catch (error: unknown) {
+			fail('pattern', `${(error as Error).message}.`)
+		}
+
+		if (!matches) fail('pattern', `it must match the pattern ${rules.pattern}.`)
+	}
+
+	if (typeof rules.min === 'number' && !(Number(input) >= rules.min))
+		fail('min', `it must be a number no smaller than ${rules.min}.`)
+	if (typeof rules.max === 'number' && !(Number(input) <= rules.max))
+		fail('max', `it must be a number no larger than ${rules.max}.`)
+	if (rules.values && !rules.values.includes(input))
+		fail('values', `it must be one of ${rules.values.join(', ')}.`)
+}
+
+/**
+ * Works out the value to set as the attribute when a user answers a question
+ * with a given option, and checks that the user's input is valid.
+ *
+ * @param {Option} option - The option chosen by the user.
+ * @param {string | undefined} input - The input provided by the user, if any.
+ *
+ * @returns {string | number | boolean | undefined} - The value to set as the attribute.
+ * @throws {ServerError} - 'improper-payload' | 'precondition-failed'
+ */
+const parseAnswer = (
+	option: Option,
+	input?: string,
+): string | number | boolean | undefined => {
+	// Options that can only be selected set the value as given
+	if (option.type === 'select' || option.type === 'multi-select')
+		return option.attribute?.value
+	// Make sure the user's input satisfies the rules set by Groot
+	if (option.type === 'input' && option.rules) checkRules(option.rules, input)
+	// Fall back to the default if the user hasn't provided any input
+	if (typeof input === 'undefined' || input === '')
+		return option.attribute?.value
+
+	if (option.type === 'scale') {
+		const value = Number(input)
+		if (!Number.isFinite(value))
+			throw new ServerError('improper-payload', 'The answer must be a number.')
+		if (!option.scale) return value
+
+		const { min, max, step } = option.scale
+		const steps = (value - min) / step
+		if (
+			value < min ||
+			value > max ||
+			Math.abs(steps - Math.round(steps)) > 1e-9
+		)
+			throw new ServerError(
+				'improper-payload',
+				`The answer must be a number from ${min} to ${max}, in steps of ${step}.`,
+			)
+
+		return value
+	}
+
+	switch (option.format) {
+		case 'number': {
+			const value = Number(input)
+			if (!Number.isFinite(value))
+				throw new ServerError(
+					'improper-payload',
+					'The answer must be a number.',
+				)
+
+			return value
+		}
+
+		case 'date': {
+			const value = new Date(input)
+			if (Number.isNaN(value.getTime()))
+				throw new ServerError(
+					'improper-payload',
+					'The answer must be a valid date.',
+				)
+
+			return value.toISOString()
+		}
+
+		case 'email':
+			if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input))
+				throw new ServerError(
+					'improper-payload',
+					'The answer must be a valid email address.',
+				)
+
+			return input
+		default:
+			return input
+	}
+}
+
+/**
+ * Sets the value of one of the user's attributes, recording the change in the
+ * attribute's history.
+ *
+ * @param {string} userId - The ID of the user answering the question.
+ * @param {string} attributeId - The ID of the attribute to set.
+ * @param {string | number | boolean} value - The value to set.
+ * @param {string} conversationId - The ID of the conversation the question is a part of.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'backend-error'
+ */
+const saveAnswer = async (
+	userId: string,
+	attributeId: string,
+	value: string | number | boolean,
+	conversationId: string,
+): Promise<void> => {
+	try {
+		// Retrieve the attribute, check if it exists
+		const attribute = await userAttributes(userId).get(attributeId)
+		// If it does, update the value
+		attribute.value = value
+		attribute.history.push({
+			value,
+			observer: 'questioner',
+			timestamp: new Date(),
+			message: {
+				in: 'conversation',
+				id: conversationId,
+			},
+		})
+		// Save the attribute
+		await userAttributes(userId).update(attribute)
+	} catch {
+		// If the attribute does not exist, create it.
+		const attribute = new UserAttribute(
+			attributeId,
+			value,
+			[
+				{
+					value,
+					observer: 'questioner',
+					timestamp: new Date(),
+					message: {
+						in: 'conversation',
+						id: conversationId,
+					},
+				},
+			],
+			userId,
+		)
+		// Save the attribute
+		await userAttributes(userId).create(attribute)
+	}
+}
+
 /**
  * The payload needed to answer a question.
  *
  * @typedef {object} AnswerQuestionPayload
- * @property {number} position.required - The position of the answer selected by the user.
- * @property {string} input - The input provided by the user if the option was of type `input`.
+ * @property {number} position - The position of the answer selected by the user.
+ * @property {array<number>} positions - The positions of the answers selected by the user, if they selected several `multi-select` options.
+ * @property {string} input - The input provided by the user if the option was of type `scale` or `input`.
  */
 export type AnswerQuestionPayload = {
-	position: number
+	position?: number
+	positions?: number[]
 	input?: string
 }
 
@@ -359,9 +865,11 @@ export type AnswerQuestionPayload = {
  *
  * @typedef {object} AnswerQuestionResponse
  * @property {Question} next - The next question the user should answer.
+ * @property {ConversationSession} session.required - The user's progress through the conversation.
  */
 export type AnswerQuestionResponse = {
 	next?: Question
+	session: ConversationSession
 }
 
 /**
@@ -377,110 +885,217 @@ const answer = async (
 	>,
 ): Promise<ServiceResponse<AnswerQuestionResponse>> => {
 	try {
-		// Retrieve the question
-		questions.conversationId = request.data.conversationId
-		const question = await questions.get(request.data.questionId)
+		// Make sure the user is allowed to take the conversation (again)
+		await ensureConversationCanBeTaken(
+			request.data.conversationId,
+			request.context!.user.id,
+		)
 
-		// Check if the option chosen by the user exists
-		const selectedOption = question.options.find(
-			(option) => option.position === request.data.position,
+		// Retrieve the question from the version of the conversation the user
+		// is taking
+		const version = await resolveVersion(
+			request.data.conversationId,
+			request.context!.user.id,
 		)
-		if (!selectedOption)
+		const question = await getVersionedQuestion(
+			request.data.conversationId,
+			version,
+			request.data.questionId,
+		)
+
+		// Check if the option(s) chosen by the user exist
+		const positions = [
+			...new Set(
+				request.data.positions ??
+					(typeof request.data.position === 'undefined'
+						? []
+						: [request.data.position]),
+			),
+		]
+		if (positions.length === 0)
 			throw new ServerError(
-				'entity-not-found',
-				'Could not find that option in the question.',
+				'improper-payload',
+				'An option must be chosen to answer the question.',
 			)
 
-		// If it does and has an attribute to set, get the value to set as the attribute
-		if (selectedOption.attribute) {
-			const answer =
-				selectedOption.type === 'input' // If the option was of type `input`, then set whatever the user has written
-					? request.data.input ?? selectedOption.attribute.value // Fall back to the default if the user hasn't provided any input
-					: selectedOption.attribute.value // Else set the value as given
+		const selectedOptions = []
+		for (const position of positions) {
+			const option = question.options.find(
+				(option) => option.position === position,
+			)
+			if (!option)
+				throw new ServerError(
+					'entity-not-found',
+					'Could not find that option in the question.',
+				)
 
-			userAttributes.userId = request.context!.user.id
-			try {
-				// Retrieve the attribute, check if it exists
-				const attribute = await userAttributes.get(selectedOption.attribute.id)
-				// If it does, update the value
-				attribute.value = answer
-				attribute.history.push({
-					value: answer,
-					observer: 'questioner',
-					timestamp: new Date(),
-					message: {
-						in: 'conversation',
-						id: request.data.conversationId,
-					},
-				})
-				// Save the attribute
-				await userAttributes.update(attribute)
-			} catch {
-				// If the attribute does not exist, create it.
-				const attribute = new UserAttribute(
-					selectedOption.attribute.id,
-					answer,
-					[
-						{
-							value: answer,
-							observer: 'questioner',
-							timestamp: new Date(),
-							message: {
-								in: 'conversation',
-								id: request.data.conversationId,
+			selectedOptions.push(option)
+		}
+
+		// Only `multi-select` options can be chosen together
+		if (
+			selectedOptions.length > 1 &&
+			selectedOptions.some((option) => option.type !== 'multi-select')
+		)
+			throw new ServerError(
+				'improper-payload',
+				'Only `multi-select` options can be chosen together.',
+			)
+
+		selectedOptions.sort((a, b) => a.position - b.position)
+		const [selectedOption] = selectedOptions
+
+		// Work out the values of the attributes to set before setting any of them,
+		// so an invalid answer does not leave the user's attributes half-updated.
+		// If several options set the same attribute, set it to a comma-separated
+		// list of their values.
+		const answers = new Map<string, Array<string | number | boolean>>()
+		for (const option of selectedOptions) {
+			const value = parseAnswer(option, request.data.input)
+			if (!option.attribute || typeof value === 'undefined') continue
+
+			answers.set(option.attribute.id, [
+				...(answers.get(option.attribute.id) ?? []),
+				value,
+			])
+		}
+
+		for (const [attributeId, values] of answers) {
+			await saveAnswer(
+				request.context!.user.id,
+				attributeId,
+				values.length === 1 ? values[0] : values.join(', '),
+				request.data.conversationId,
+			)
+		}
+
+		// Re-run the scripts that use the attributes just set.
+		const dependents =
+			answers.size > 0
+				? await scripts.runDependents({
+						context: request.context,
+						data: {
+							userId: request.context!.user.id,
+							attributes: [...answers.keys()],
+							trigger: {
+								conversation: request.data.conversationId,
+								question: request.data.questionId,
 							},
 						},
-					],
-					request.context!.user.id,
-				)
-				// Save the attribute
-				await userAttributes.create(attribute)
-			}
-		}
+				  })
+				: undefined
+		const reran = new Set(dependents?.data?.scripts)
 
-		// If there is a script specified, run it.
-		if (selectedOption.script) {
+		// If there are scripts specified, run them, noting the first option that
+		// specified each script as what caused it to run. Skip the ones that were
+		// just re-run.
+		const scriptsToRun = new Map<string, number>()
+		for (const option of selectedOptions)
+			if (
+				option.script &&
+				!reran.has(option.script) &&
+				!scriptsToRun.has(option.script)
+			)
+				scriptsToRun.set(option.script, option.position)
+		for (const [scriptId, position] of scriptsToRun) {
 			// Run the script for the current user.
 			await scripts.run({
 				context: request.context,
-				data: { scriptId: selectedOption.script },
+				data: {
+					scriptId,
+					trigger: {
+						conversation: request.data.conversationId,
+						question: request.data.questionId,
+						option: position,
+					},
+				},
 			})
 		}
 
-		// If there is a next question specified, return that to the user
-		questions.conversationId = selectedOption.next?.conversation
-		const next = selectedOption.next
-			? await questions.get(selectedOption.next.question)
-			: undefined
+		// Figure out which question to show the user next, using the first of
+		// the options chosen. This is done after setting the attributes and
+		// running the scripts, so the branches can depend on what was just
+		// computed.
+		const nextQuestion = await pickNextQuestion(
+			question,
+			selectedOption,
+			request.context!.user.id,
+		)
 
-		if (next) {
-			// Prepare to render the template by fetching the user and their attributes
-			const user = await users.get(request.context!.user.id)
-			const input: Record<
-				string,
-				Attribute & { value: string | number | boolean }
-			> = {}
-
-			userAttributes.userId = request.context!.user.id
-			const fetchedUserAttributes = await userAttributes.find([])
-			for (const fetchedUserAttribute of fetchedUserAttributes) {
-				const attribute = await attributes.get(fetchedUserAttribute.id)
-				input[fetchedUserAttribute.id] = {
-					...attribute,
-					...fetchedUserAttribute,
-				}
-			}
+		// Record the user's progress through the conversation. Continue the
+		// session that is waiting for this question to be answered, else the
+		// unfinished session for this conversation, else start a new one.
+		const userSessions = sessions(request.context!.user.id)
+		const foundSessions = await userSessions.find([])
+		const unfinishedSessions = foundSessions.filter(
+			(session) => !session.finished,
+		)
+		const existingSession =
+			unfinishedSessions.find(
+				(session) =>
+					session.next?.conversation === request.data.conversationId &&
+					session.next?.question === request.data.questionId,
+			) ??
+			unfinishedSessions.find(
+				(session) => session.conversation === request.data.conversationId,
+			)
+		const session =
+			existingSession ??
+			new ConversationSession(
+				generateId(),
+				request.data.conversationId,
+				new Date(),
+				undefined,
+				[],
+				undefined,
+				version,
+				request.context!.user.id,
+			)
 
-			// Sort the options and render the template.
-			next.options = next.randomizeOptionOrder
-				? shuffle(next.options)
-				: next.options.sort((a, b) => a.position - b.position)
-			next.text = render(next.text, {
-				context: { input, user },
-			})
+		session.path.push({
+			conversation: request.data.conversationId,
+			question: request.data.questionId,
+			position: selectedOption.position,
+			positions:
+				selectedOptions.length > 1
+					? selectedOptions.map((option) => option.position)
+					: undefined,
+			attributes: [...answers.keys()],
+			version,
+			timestamp: new Date(),
+		})
+		session.next = nextQuestion
+		// If there is no question to answer after this one, the user is done
+		if (!nextQuestion) {
+			session.finished = new Date()
+			session.firstFinished ??= session.finished
 		}
 
-		const data = { next }
+		const savedSession = existingSession
+			? await userSessions.update(session)
+			: await userSessions.create(session)
+
+		// If there is a next question specified, return that to the user, from
+		// the version of its conversation the user should see
+		const next = nextQuestion
+			? await getVersionedQuestion(
+					nextQuestion.conversation,
+					await resolveVersion(
+						nextQuestion.conversation,
+						request.context!.user.id,
+					),
+					nextQuestion.question,
+			  )
+			: undefined
+
+		if (next)
+			await prepareQuestions(
+				[next],
+				new TemplateContextBuilder(request.context!.user.id),
+				request.context!.locale,
+			)
+
+		const data = { next, session: savedSession }
 		return {
 			status: 200,
 			data,
@@ -0,0 +1,315 @@
+// @/services/conversations/sessions.ts
+// Service that handles operations on a user's sessions in a conversation.
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { Question } from '@/models/question'
+import { ConversationSession } from '@/models/session'
+import { provider as sessions } from '@/provider/data/users/sessions'
+import { provider as userAttributes } from '@/provider/data/users/attributes'
+import { provider as conversations } from '@/provider/data/conversations'
+import {
+	getVersionedQuestion,
+	prepareQuestions,
+} from '@/services/conversations/questions'
+import { service as scripts } from '@/services/scripts'
+import { TemplateContextBuilder } from '@/utilities/templates'
+
+/**
+ * How long (in milliseconds) after finishing a conversation that can only be
+ * taken once the user can still go back and change their last answer.
+ */
+const reopenWindow = 5 * 60 * 1000
+
+/**
+ * The response from the retrieve current session endpoint.
+ *
+ * @typedef {object} RetrieveCurrentSessionResponse
+ * @property {ConversationSession} session.required - The user's unfinished session in the conversation.
+ */
+export type RetrieveCurrentSessionResponse = {
+	session: ConversationSession
+}
+
+/**
+ * Method to retrieve the requesting user's unfinished session in a
+ * conversation, so they can resume it.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the most recently started unfinished session.
+ */
+const current = async (
+	request: ServiceRequest<{ conversationId: string }>,
+): Promise<ServiceResponse<RetrieveCurrentSessionResponse>> => {
+	try {
+		const foundSessions = await sessions(request.context!.user.id).find([
+			{
+				field: 'conversation',
+				operator: '==',
+				value: request.data.conversationId,
+			},
+		])
+
+		// The sessions are sorted by the time they were started, so pick the
+		// latest one that has not been finished yet
+		const session = foundSessions.filter((session) => !session.finished).pop()
+		if (!session)
+			throw new ServerError(
+				'entity-not-found',
+				'You have no unfinished session in this conversation.',
+			)
+
+		const data = { session }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * Ensures that a user can go back from a session, reopening it if they have
+ * finished it. Otherwise the user could take a conversation that can be taken
+ * only once again and again, by reopening the session each time. The window is
+ * measured from when the session was first finished, so that going back and
+ * finishing it again does not keep it open.
+ *
+ * @param {ConversationSession} session - The session to go back from.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'precondition-failed' | 'entity-not-found' | 'backend-error'
+ */
+const ensureSessionCanBeReopened = async (
+	session: ConversationSession,
+): Promise<void> => {
+	// Sessions finished before `firstFinished` was recorded only have `finished`
+	const firstFinished = session.firstFinished ?? session.finished
+	if (!firstFinished) return
+
+	const conversation = await conversations.get(session.conversation)
+	if (
+		conversation.once &&
+		Date.now() - new Date(firstFinished).getTime() > reopenWindow
+	)
+		throw new ServerError(
+			'precondition-failed',
+			'You finished this conversation a while ago, and it can be taken only once, so your answers can no longer be changed.',
+		)
+}
+
+/**
+ * The response from the go back endpoint.
+ *
+ * @typedef {object} GoBackResponse
+ * @property {Question} question.required - The question the user answered last, which they can now answer again.
+ * @property {ConversationSession} session.required - The user's progress through the conversation, without their last answer.
+ */
+export type GoBackResponse = {
+	question: Question
+	session: ConversationSession
+}
+
+/**
+ * Method to undo the requesting user's last answer in their unfinished session
+ * in a conversation. The attributes set by the answer are reverted to their
+ * previous values, and the question is returned so the user can answer it
+ * again. If the user has just finished the conversation, their last answer can
+ * be undone too, which reopens the session. Conversations that can be taken
+ * only once can be reopened only for a short while after they are finished.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the question the user answered last.
+ */
+const back = async (
+	request: ServiceRequest<{ conversationId: string }>,
+): Promise<ServiceResponse<GoBackResponse>> => {
+	try {
+		const foundSessions = await sessions(request.context!.user.id).find([
+			{
+				field: 'conversation',
+				operator: '==',
+				value: request.data.conversationId,
+			},
+		])
+		// Pick the latest unfinished session, or else the session the user
+		// finished last, so they can change the answer that finished it
+		const session =
+			foundSessions.filter((session) => !session.finished).pop() ??
+			foundSessions[foundSessions.length - 1]
+		if (!session)
+			throw new ServerError(
+				'entity-not-found',
+				'You have no session in this conversation.',
+			)
+
+		await ensureSessionCanBeReopened(session)
+
+		const step = session.path.pop()
+		if (!step)
+			throw new ServerError(
+				'precondition-failed',
+				'You have not answered any question in this conversation yet.',
+			)
+
+		// Load the question from the version of its conversation it was answered
+		// in. Steps recorded before the version was stored on them are assumed to
+		// be from the session's version, or else the published version of the
+		// conversation they jumped to.
+		let version = step.version ?? session.version
+		if (
+			typeof step.version === 'undefined' &&
+			step.conversation !== session.conversation
+		)
+			({ version } = await conversations.get(step.conversation))
+		const question = await getVersionedQuestion(
+			step.conversation,
+			version,
+			step.question,
+		)
+
+		// Figure out which attributes were set by the answer. Sessions recorded
+		// before this was stored on the step are worked out using the options the
+		// user chose.
+		let attributeIds = step.attributes
+		if (!attributeIds) {
+			const positions = step.positions ?? [step.position]
+			attributeIds = question.options
+				.filter((option) => positions.includes(option.position))
+				.map((option) => option.attribute?.id)
+				.filter((id): id is string => typeof id === 'string')
+		}
+
+		// Revert each attribute to the value it had before the answer, if the
+		// latest change to it was made by answering a question in the conversation
+		const attributesOfUser = userAttributes(request.context!.user.id)
+		const reverted = []
+		for (const id of new Set(attributeIds)) {
+			let attribute
+			try {
+				attribute = await attributesOfUser.get(id)
+			} catch (error: unknown) {
+				if ((error as ServerError).code === 'entity-not-found') continue
+				throw error
+			}
+
+			const latest = attribute.history[attribute.history.length - 1]
+			if (
+				latest?.message?.in !== 'conversation' ||
+				latest.message.id !== step.conversation
+			)
+				continue
+
+			attribute.history.pop()
+			const previous = attribute.history[attribute.history.length - 1]
+			if (previous) {
+				attribute.value = previous.value
+				await attributesOfUser.update(attribute)
+			} else {
+				// The answer created the attribute, so remove it
+				await attributesOfUser.delete(id)
+			}
+
+			reverted.push(id)
+		}
+
+		// Re-run the scripts that use the reverted attributes, so what they
+		// compute no longer depends on the answer
+		if (reverted.length > 0)
+			await scripts.runDependents({
+				context: request.context,
+				data: {
+					userId: request.context!.user.id,
+					attributes: reverted,
+					trigger: {
+						conversation: step.conversation,
+						question: step.question,
+					},
+				},
+			})
+
+		// Let the user answer the question again
+		session.next = { conversation: step.conversation, question: step.question }
+		session.finished = undefined
+		const savedSession = await sessions(request.context!.user.id).update(
+			session,
+		)
+
+		await prepareQuestions(
+			[question],
+			new TemplateContextBuilder(request.context!.user.id),
+			request.context!.locale,
+		)
+
+		const data = { question, session: savedSession }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The payload needed to reset a user's sessions in a conversation.
+ *
+ * @typedef {object} ResetSessionsPayload
+ * @property {string} user.required - The ID of the user whose sessions to reset.
+ */
+export type ResetSessionsPayload = {
+	user: string
+}
+
+/**
+ * Method to reset a user's sessions in a conversation, so they can take a
+ * conversation that can be taken only once again.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return nothing.
+ */
+const reset = async (
+	request: ServiceRequest<ResetSessionsPayload & { conversationId: string }>,
+): Promise<ServiceResponse<unknown>> => {
+	try {
+		const sessionsToDelete = await sessions(request.data.user).find([
+			{
+				field: 'conversation',
+				operator: '==',
+				value: request.data.conversationId,
+			},
+		])
+		for (const session of sessionsToDelete) {
+			await sessions(request.data.user).delete(session.id)
+		}
+
+		const data = {}
+		return {
+			status: 204,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	current,
+	back,
+	reset,
+}
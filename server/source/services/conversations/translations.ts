@@ -0,0 +1,130 @@
+// @/services/conversations/translations.ts
+// Service that checks whether a conversation has been translated completely.
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { provider as conversations } from '@/provider/data/conversations'
+import { provider as questions } from '@/provider/data/conversations/questions'
+import { defaultLocale } from '@/utilities/locale'
+
+/**
+ * A piece of text in a conversation that has not been translated into a
+ * locale.
+ *
+ * @typedef {object} MissingTranslation
+ * @property {string} locale.required - The locale the text has not been translated into.
+ * @property {string} field.required - The text that has not been translated. - enum:name,description,question,option
+ * @property {string} question - The ID of the question whose text or option has not been translated.
+ * @property {number} option - The position of the option that has not been translated.
+ */
+export type MissingTranslation = {
+	locale: string
+	field: 'name' | 'description' | 'question' | 'option'
+	question?: string
+	option?: number
+}
+
+/**
+ * The payload needed to check a conversation's translations.
+ *
+ * @typedef {object} CheckTranslationsPayload
+ * @property {array<string>} locales - The locales to check. Defaults to every locale the conversation has been (partly) translated into.
+ */
+export type CheckTranslationsPayload = {
+	locales?: string[]
+}
+
+/**
+ * The response from the check translations endpoint.
+ *
+ * @typedef {object} CheckTranslationsResponse
+ * @property {string} defaultLocale.required - The locale the untranslated text is written in. Users are shown the untranslated text when there is no translation in their language.
+ * @property {array<string>} locales.required - The locales that were checked.
+ * @property {boolean} complete.required - Whether the conversation has been translated into all the locales checked.
+ * @property {array<MissingTranslation>} missing.required - The text that has not been translated yet.
+ */
+export type CheckTranslationsResponse = {
+	defaultLocale: string
+	locales: string[]
+	complete: boolean
+	missing: MissingTranslation[]
+}
+
+/**
+ * Method to find the text in a conversation and its (draft) questions that
+ * has not been translated into a set of locales.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the translations that are missing.
+ */
+const check = async (
+	request: ServiceRequest<
+		CheckTranslationsPayload & { conversationId: string }
+	>,
+): Promise<ServiceResponse<CheckTranslationsResponse>> => {
+	try {
+		const conversation = await conversations.get(request.data.conversationId)
+		const foundQuestions = await questions(request.data.conversationId).find([])
+
+		// Unless told which locales to check, check every locale that some text
+		// in the conversation has been translated into
+		const used = [
+			...Object.keys(conversation.translations ?? {}),
+			...foundQuestions.flatMap((question) => [
+				...Object.keys(question.translations ?? {}),
+				...question.options.flatMap((option) =>
+					Object.keys(option.translations ?? {}),
+				),
+			]),
+		]
+		const locales = [...new Set(request.data.locales ?? used)].filter(
+			(locale) => locale !== defaultLocale,
+		)
+
+		const missing: MissingTranslation[] = []
+		for (const locale of locales) {
+			const translation = conversation.translations?.[locale]
+			if (!translation?.name) missing.push({ locale, field: 'name' })
+			if (conversation.description && !translation?.description)
+				missing.push({ locale, field: 'description' })
+
+			for (const question of foundQuestions) {
+				if (!question.translations?.[locale])
+					missing.push({ locale, field: 'question', question: question.id })
+
+				// Options without text (such as scales) need no translation
+				for (const option of question.options)
+					if (option.text && !option.translations?.[locale])
+						missing.push({
+							locale,
+							field: 'option',
+							question: question.id,
+							option: option.position,
+						})
+			}
+		}
+
+		const data = {
+			defaultLocale,
+			locales,
+			complete: missing.length === 0,
+			missing,
+		}
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	check,
+}
@@ -0,0 +1,309 @@
+// @/services/conversations/validation.ts
+// Service that checks a conversation's question graph for mistakes.
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import type { Question, NextQuestion } from '@/models/question'
+import { provider as conversations } from '@/provider/data/conversations'
+import { provider as questions } from '@/provider/data/conversations/questions'
+import { provider as attributes } from '@/provider/data/attributes'
+import { provider as scripts } from '@/provider/data/scripts'
+
+/**
+ * A problem found in a conversation's question graph.
+ *
+ * @typedef {object} ValidationIssue
+ * @property {string} code.required - The type of problem. - enum:no-first-question,several-first-questions,no-options,dangling-next,attribute-not-found,script-not-found,unreachable-question,no-exit
+ * @property {string} message.required - A human-readable description of the problem.
+ * @property {string} question - The ID of the question with the problem.
+ * @property {number} option - The position of the option with the problem.
+ */
+export type ValidationIssue = {
+	code:
+		| 'no-first-question'
+		| 'several-first-questions'
+		| 'no-options'
+		| 'dangling-next'
+		| 'attribute-not-found'
+		| 'script-not-found'
+		| 'unreachable-question'
+		| 'no-exit'
+	message: string
+	question?: string
+	option?: number
+}
+
+/**
+ * The response from the validate conversation endpoint.
+ *
+ * @typedef {object} ValidateConversationResponse
+ * @property {boolean} valid.required - Whether the conversation has no errors. It may still have warnings.
+ * @property {array<ValidationIssue>} errors.required - Problems that will break the conversation for the users taking it.
+ * @property {array<ValidationIssue>} warnings.required - Problems that will not break the conversation, but are most likely mistakes.
+ */
+export type ValidateConversationResponse = {
+	valid: boolean
+	errors: ValidationIssue[]
+	warnings: ValidationIssue[]
+}
+
+/**
+ * Returns the key used to identify a question in the graph.
+ *
+ * @param {NextQuestion} next - The conversation and question IDs.
+ *
+ * @returns {string} - The key.
+ */
+const keyOf = (next: NextQuestion): string =>
+	`${next.conversation}/${next.question}`
+
+/**
+ * Returns all the questions a question's options can lead to, including the
+ * ones in the branches of the options and the question itself.
+ *
+ * @param {Question} question - The question whose options to look at.
+ *
+ * @returns {Array<{ option?: number, next: NextQuestion }>} - The questions the options lead to. The option is not set for the question's own branches.
+ */
+const edgesOf = (
+	question: Question,
+): Array<{ option?: number; next: NextQuestion }> => {
+	const edges: Array<{ option?: number; next: NextQuestion }> = []
+	for (const option of question.options) {
+		if (option.next) edges.push({ option: option.position, next: option.next })
+		for (const branch of option.branches ?? [])
+			edges.push({ option: option.position, next: branch.next })
+	}
+
+	for (const branch of question.branches ?? [])
+		edges.push({ next: branch.next })
+
+	return edges
+}
+
+/**
+ * Method to validate a conversation's question graph, including the questions
+ * in other conversations that it jumps to.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the errors and warnings found.
+ */
+const validate = async (
+	request: ServiceRequest<{ conversationId: string }>,
+): Promise<ServiceResponse<ValidateConversationResponse>> => {
+	try {
+		const { conversationId } = request.data
+		// Make sure the conversation exists before checking it
+		await conversations.get(conversationId)
+
+		// Cache the questions in every conversation we come across, so we fetch
+		// them only once. A conversation that does not exist has no questions.
+		const graph = new Map<string, Question>()
+		const loaded = new Map<string, boolean>()
+		const load = async (id: string): Promise<boolean> => {
+			if (loaded.has(id)) return loaded.get(id)!
+
+			try {
+				await conversations.get(id)
+			} catch (error: unknown) {
+				if ((error as ServerError).code !== 'entity-not-found') throw error
+
+				loaded.set(id, false)
+				return false
+			}
+
+			const foundQuestions = await questions(id).find([])
+			for (const question of foundQuestions)
+				graph.set(keyOf({ conversation: id, question: question.id }), question)
+
+			loaded.set(id, true)
+			return true
+		}
+
+		await load(conversationId)
+		const ownQuestions = [...graph.values()]
+		const foundAttributes = await attributes.find([])
+		const knownAttributes = new Set(
+			foundAttributes.map((attribute) => attribute.id),
+		)
+		const foundScripts = await scripts.find([])
+		const knownScripts = new Set(foundScripts.map((script) => script.id))
+
+		const errors: ValidationIssue[] = []
+		const warnings: ValidationIssue[] = []
+
+		// There should be exactly one question to start the conversation with
+		const firstQuestions = ownQuestions.filter((question) => question.first)
+		if (firstQuestions.length === 0)
+			errors.push({
+				code: 'no-first-question',
+				message: 'No question is marked as the first question.',
+			})
+		if (firstQuestions.length > 1)
+			errors.push({
+				code: 'several-first-questions',
+				message: `${firstQuestions.length} questions are marked as the first question.`,
+			})
+
+		// Check that everything the options refer to exists
+		for (const question of ownQuestions) {
+			if (question.options.length === 0)
+				warnings.push({
+					code: 'no-options',
+					message: 'The question has no options to answer it with.',
+					question: question.id,
+				})
+
+			const branchedOn = (question.branches ?? []).flatMap((branch) =>
+				branch.conditions.map((condition) => condition.attribute),
+			)
+			for (const id of branchedOn)
+				if (!knownAttributes.has(id))
+					errors.push({
+						code: 'attribute-not-found',
+						message: `The question branches on an attribute (${id}) that does not exist.`,
+						question: question.id,
+					})
+
+			for (const option of question.options) {
+				const referencedAttributes = [
+					option.attribute?.id,
+					...(option.branches ?? []).flatMap((branch) =>
+						branch.conditions.map((condition) => condition.attribute),
+					),
+				]
+				for (const id of referencedAttributes)
+					if (id && !knownAttributes.has(id))
+						errors.push({
+							code: 'attribute-not-found',
+							message: `The option refers to an attribute (${id}) that does not exist.`,
+							question: question.id,
+							option: option.position,
+						})
+
+				if (option.script && !knownScripts.has(option.script))
+					errors.push({
+						code: 'script-not-found',
+						message: `The option refers to a script (${option.script}) that does not exist.`,
+						question: question.id,
+						option: option.position,
+					})
+			}
+
+			for (const { option, next } of edgesOf(question)) {
+				const exists = await load(next.conversation)
+				if (!exists || !graph.has(keyOf(next)))
+					errors.push({
+						code: 'dangling-next',
+						message: `${
+							typeof option === 'undefined'
+								? 'A branch of the question'
+								: 'The option'
+						} leads to a ${
+							exists
+								? `question (${next.question})`
+								: `conversation (${next.conversation})`
+						} that does not exist.`,
+						question: question.id,
+						option,
+					})
+			}
+		}
+
+		// Walk the graph from the first question(s), following jumps into other
+		// conversations too, to find out which questions can be reached
+		const walk = async (start: string[]): Promise<Set<string>> => {
+			const visited = new Set<string>()
+			const queue = [...start]
+			while (queue.length > 0) {
+				const key = queue.shift()!
+				if (visited.has(key)) continue
+				visited.add(key)
+
+				for (const { next } of edgesOf(graph.get(key)!)) {
+					await load(next.conversation)
+					if (graph.has(keyOf(next))) queue.push(keyOf(next))
+				}
+			}
+
+			return visited
+		}
+
+		const reachable = await walk(
+			firstQuestions.map((question) =>
+				keyOf({ conversation: conversationId, question: question.id }),
+			),
+		)
+		for (const question of ownQuestions)
+			if (
+				firstQuestions.length > 0 &&
+				!reachable.has(
+					keyOf({ conversation: conversationId, question: question.id }),
+				)
+			)
+				warnings.push({
+					code: 'unreachable-question',
+					message: 'The question cannot be reached from the first question.',
+					question: question.id,
+				})
+
+		// A question can end the conversation if it is marked as the last one, or
+		// if one of its options does not lead anywhere. Work backwards from those
+		// to find the questions from which there is no way to finish. Make sure
+		// every question that can follow this conversation's questions is loaded
+		// first.
+		await walk(
+			ownQuestions.map((question) =>
+				keyOf({ conversation: conversationId, question: question.id }),
+			),
+		)
+		const canExit = new Set<string>()
+		let changed = true
+		while (changed) {
+			changed = false
+			for (const [key, question] of graph) {
+				if (canExit.has(key)) continue
+
+				const exits =
+					question.last ||
+					question.options.some((option) => !option.next) ||
+					edgesOf(question).some(({ next }) => canExit.has(keyOf(next)))
+				if (exits) {
+					canExit.add(key)
+					changed = true
+				}
+			}
+		}
+
+		for (const question of ownQuestions)
+			if (
+				!canExit.has(
+					keyOf({ conversation: conversationId, question: question.id }),
+				)
+			)
+				errors.push({
+					code: 'no-exit',
+					message:
+						'There is no way to finish the conversation once this question is reached.',
+					question: question.id,
+				})
+
+		const data = { valid: errors.length === 0, errors, warnings }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	validate,
+}
@@ -0,0 +1,181 @@
+// @/services/conversations/versions.ts
+// Service that handles publishing a conversation and rolling it back.
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { Question } from '@/models/question'
+import { ConversationVersion } from '@/models/version'
+import { provider as questions } from '@/provider/data/conversations/questions'
+import { provider as versions } from '@/provider/data/conversations/versions'
+
+/**
+ * Publishes a list of questions as the next version of a conversation, and
+ * makes it the version shown to users.
+ *
+ * @param {string} conversationId - The ID of the conversation to publish.
+ * @param {Question[]} publishedQuestions - The questions to publish.
+ * @param {string} publisher - The ID of the user publishing the version.
+ * @param {number | undefined} restored - The version being rolled back to, if any.
+ *
+ * @returns {ConversationVersion} - The published version.
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+const publishQuestions = async (
+	conversationId: string,
+	publishedQuestions: Question[],
+	publisher: string,
+	restored?: number,
+): Promise<ConversationVersion> =>
+	// The version is stored as a single document, so users either see all the
+	// changes or none of them
+	versions(conversationId).publish(
+		(number) =>
+			new ConversationVersion(
+				number.toString(),
+				number,
+				new Date(),
+				publisher,
+				publishedQuestions,
+				restored,
+				conversationId,
+			),
+	)
+
+/**
+ * The response from the list versions endpoint.
+ *
+ * @typedef {object} ListConversationVersionsResponse
+ * @property {array<ConversationVersion>} versions.required - The published versions of the conversation, oldest first.
+ */
+export type ListConversationVersionsResponse = {
+	versions: ConversationVersion[]
+}
+
+/**
+ * Method to list the published versions of a conversation.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the version history of the conversation.
+ */
+const find = async (
+	request: ServiceRequest<{ conversationId: string }>,
+): Promise<ServiceResponse<ListConversationVersionsResponse>> => {
+	try {
+		const foundVersions = await versions(request.data.conversationId).find([])
+
+		const data = { versions: foundVersions }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The response from the publish and rollback endpoints.
+ *
+ * @typedef {object} PublishConversationResponse
+ * @property {ConversationVersion} version.required - The newly published version.
+ */
+export type PublishConversationResponse = {
+	version: ConversationVersion
+}
+
+/**
+ * Method to publish the draft questions of a conversation as a new version.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the published version.
+ */
+const publish = async (
+	request: ServiceRequest<{ conversationId: string }>,
+): Promise<ServiceResponse<PublishConversationResponse>> => {
+	try {
+		const draftQuestions = await questions(request.data.conversationId).find([])
+		if (draftQuestions.length === 0)
+			throw new ServerError(
+				'precondition-failed',
+				'The conversation has no questions to publish.',
+			)
+
+		const version = await publishQuestions(
+			request.data.conversationId,
+			draftQuestions,
+			request.context!.user.id,
+		)
+
+		const data = { version }
+		return {
+			status: 201,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * Method to roll a conversation back to a previously published version. The
+ * old version is published again as a new version, and the draft questions are
+ * overwritten with its questions, so unpublished changes to the draft are lost.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the published version.
+ */
+const rollback = async (
+	request: ServiceRequest<{ conversationId: string; versionId: string }>,
+): Promise<ServiceResponse<PublishConversationResponse>> => {
+	try {
+		const oldVersion = await versions(request.data.conversationId).get(
+			request.data.versionId,
+		)
+
+		const version = await publishQuestions(
+			request.data.conversationId,
+			oldVersion.questions,
+			request.context!.user.id,
+			oldVersion.version,
+		)
+
+		// Replace the draft with the questions from the old version
+		const draft = questions(request.data.conversationId)
+		const draftQuestions = await draft.find([])
+		for (const question of draftQuestions)
+			if (!oldVersion.questions.some(({ id }) => id === question.id))
+				await draft.delete(question.id)
+		for (const question of oldVersion.questions) {
+			const exists = draftQuestions.some(({ id }) => id === question.id)
+			await (exists ? draft.update(question) : draft.create(question))
+		}
+
+		const data = { version }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	find,
+	publish,
+	rollback,
+}
@@ -0,0 +1,102 @@
+// @/services/groups/reports.ts
+// Service that renders reports for a group as a whole.
+
+import { Buffer } from 'node:buffer'
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { provider as groups } from '@/provider/data/groups'
+import { provider as reports } from '@/provider/data/reports'
+import { parseLocales, translate } from '@/utilities/locale'
+import {
+	aggregate,
+	loadParticipants,
+	renderTemplate,
+} from '@/utilities/templates'
+
+import type { GroupTemplateParticipant } from '@/utilities/templates'
+
+/**
+ * The payload needed to render a report for a group.
+ *
+ * @typedef {object} RetrieveGroupReportPayload
+ * @property {string} role - Only include participants with this role in the group. Defaults to including everyone. - enum:mentee,mentor,supermentor
+ */
+export type RetrieveGroupReportPayload = {
+	role?: GroupTemplateParticipant['role']
+}
+
+/**
+ * The HTML report rendered by the retrieve group report endpoint.
+ *
+ * @typedef {string} RetrieveGroupReportResponse
+ */
+export type RetrieveGroupReportResponse = string
+
+/**
+ * Method to render a group report, with the attributes of every participant in
+ * the group. Participants that do not have an attribute the report needs are
+ * still included, and counted as missing in the attribute's aggregate.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the rendered report as HTML.
+ */
+const get = async (
+	request: ServiceRequest<
+		RetrieveGroupReportPayload & { groupId: string; reportId: string }
+	>,
+): Promise<ServiceResponse<RetrieveGroupReportResponse>> => {
+	try {
+		// Fetch the report to render, and make sure it is meant for groups
+		const report = await reports.get(request.data.reportId)
+		if (report.kind !== 'group')
+			throw new ServerError(
+				'precondition-failed',
+				'This report can only be rendered for a single user.',
+			)
+
+		// Fetch the participants the report covers, along with the attributes the
+		// report needs, skipping users that no longer exist
+		const group = await groups.get(request.data.groupId)
+		const ids = report.input.map(({ id }) => id)
+		const participants = await loadParticipants(
+			group.participants,
+			ids,
+			request.data.role,
+		)
+
+		// Pick the template in the language the requesting user would like to
+		// read the report in, and decode it (it is stored in base64)
+		const template = translate(
+			report.template,
+			report.translations,
+			parseLocales(request.context?.locale, request.context?.user.locale),
+		)
+		report.template = Buffer.from(template, 'base64').toString('utf8')
+
+		// Render the report HTML
+		const html = await renderTemplate(report.template, report.engine, {
+			group: { id: group.id, name: group.name },
+			participants,
+			aggregates: aggregate(participants, ids),
+		})
+
+		const data = html
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	get,
+}
@@ -0,0 +1,478 @@
+// @/services/jobs/index.ts
+// Service that handles creating, running and deleting background jobs.
+
+import process from 'node:process'
+import { setTimeout as sleep } from 'node:timers/promises'
+
+import type { ServiceRequest, ServiceResponse } from '@/types'
+
+import { ServerError } from '@/errors'
+import { Job, JobFailure, JobTarget } from '@/models/job'
+import { provider as jobs } from '@/provider/data/jobs'
+import { provider as groups } from '@/provider/data/groups'
+import { provider as users } from '@/provider/data/users'
+import { provider as scripts } from '@/provider/data/scripts'
+import { queue } from '@/provider/queue'
+import { service as scriptService } from '@/services/scripts'
+import { generateId } from '@/utilities'
+import { nextRun, parseCron } from '@/utilities/cron'
+
+/**
+ * How many times to try running a script for a user before giving up, and how
+ * long to wait before trying again, unless overridden through the environment.
+ * Only errors that might go away on their own (e.g., the database being
+ * unavailable) are retried.
+ */
+const retries = {
+	attempts: Number(process.env.JOB_MAX_ATTEMPTS ?? 3),
+	delay: Number(process.env.JOB_RETRY_DELAY ?? 1000),
+	codes: ['backend-error', 'server-crash'],
+}
+
+/**
+ * How long a running job can go without saving its progress before it is
+ * assumed that the run stopped part way through (e.g., the server was
+ * restarted), and another run can take it over.
+ */
+const staleAfter = Number(process.env.JOB_STALE_AFTER ?? 10 * 60 * 1000)
+
+/**
+ * How long a run can spend on a job before it stops and queues the job to
+ * continue where it left off, so that it finishes well within the function's
+ * nine minute timeout.
+ */
+const chunkTime = Number(process.env.JOB_CHUNK_TIME ?? 7 * 60 * 1000)
+
+/**
+ * Works out when a job can next be claimed by a run: right away if it is
+ * queued, when it is due if it is scheduled, and once its run goes stale if
+ * it is running.
+ *
+ * @param {Job} job - The job.
+ *
+ * @returns {Date | undefined} - When the job can be claimed, or `undefined` if it has finished.
+ */
+const claimableAt = (job: Job): Date | undefined => {
+	if (job.status === 'queued') return new Date(0)
+	if (job.status === 'scheduled') return job.next ?? new Date(0)
+	if (job.status === 'running') {
+		const heartbeat = job.heartbeat ?? job.started ?? new Date(0)
+		return new Date(heartbeat.getTime() + staleAfter)
+	}
+
+	return undefined
+}
+
+/**
+ * Works out which users a job should run its script for.
+ *
+ * @param {JobTarget} target - The users the job targets.
+ *
+ * @returns {string[]} - The IDs of the users.
+ * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+ */
+const resolveTarget = async (target: JobTarget): Promise<string[]> => {
+	if (target.users) return [...new Set(target.users)]
+	if (target.group) {
+		const group = await groups.get(target.group)
+		return Object.keys(group.participants ?? {})
+	}
+
+	if (target.tag) {
+		const tagged = await groups.find([])
+		const participants = tagged
+			.filter((group) => group.tags.includes(target.tag!))
+			.flatMap((group) => Object.keys(group.participants ?? {}))
+		return [...new Set(participants)]
+	}
+
+	const everyone = await users.find([])
+	return everyone.map(({ id }) => id)
+}
+
+/**
+ * Runs a job's script for a single user, retrying if it fails in a way that
+ * might go away on its own.
+ *
+ * @param {Job} job - The job being run.
+ * @param {string} userId - The ID of the user to run the script for.
+ *
+ * @returns {JobFailure | undefined} - Why the script failed to run for the user, if it did.
+ */
+const runForUser = async (
+	job: Job,
+	userId: string,
+): Promise<JobFailure | undefined> => {
+	let failure: JobFailure | undefined
+	for (let attempts = 1; attempts <= retries.attempts; attempts++) {
+		const result = await scriptService.run({
+			data: {
+				scriptId: job.script,
+				users: [userId],
+				trigger: { job: job.id },
+			},
+		})
+
+		// The script ran, but what it computed was not stored
+		const violations = result.data?.[userId]?.violations ?? []
+		if (violations.length > 0)
+			return {
+				user: userId,
+				attempts,
+				code: 'script-output-invalid',
+				message: violations.map(({ message }) => message).join(' '),
+			}
+		const error = result.error ?? result.data?.[userId]?.error
+		if (!error) return undefined
+
+		failure = {
+			user: userId,
+			attempts,
+			code: error.code,
+			message: error.message,
+		}
+		if (!retries.codes.includes(error.code)) break
+
+		await sleep(retries.delay * attempts)
+	}
+
+	return failure
+}
+
+/**
+ * The payload needed to create a job.
+ *
+ * @typedef {object} CreateJobPayload
+ * @property {string} script.required - The ID of the script to run.
+ * @property {JobTarget} target.required - The users to run the script for.
+ * @property {string} schedule - A cron expression (in UTC) for when to run the job, if it should run repeatedly (e.g., `0 2 * * *` to run it every night at 2 AM). If not set, the job runs once, right away.
+ */
+export type CreateJobPayload = {
+	script: string
+	target: JobTarget
+	schedule?: string
+}
+
+/**
+ * The response from the create job endpoint.
+ *
+ * @typedef {object} CreateJobResponse
+ * @property {Job} job.required - The created job.
+ */
+export type CreateJobResponse = {
+	job: Job
+}
+
+/**
+ * Method to create a job, and queue it to run.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the newly created job.
+ */
+const create = async (
+	request: ServiceRequest<CreateJobPayload>,
+): Promise<ServiceResponse<CreateJobResponse>> => {
+	try {
+		const { script, target, schedule } = request.data
+
+		// Make sure exactly one set of users is targeted
+		const targets = [target.users, target.group, target.tag, target.all]
+		if (
+			targets.filter((field) => typeof field !== 'undefined').length !== 1 ||
+			target.users?.length === 0 ||
+			target.all === false
+		)
+			throw new ServerError(
+				'improper-payload',
+				'Please specify exactly one of `users`, `group`, `tag` or `all: true` as the target of the job.',
+			)
+
+		// And that the schedule, if any, is valid
+		let next: Date | undefined
+		if (schedule)
+			try {
+				next = nextRun(parseCron(schedule), new Date())
+			} catch (error: unknown) {
+				throw new ServerError(
+					'improper-payload',
+					`The schedule is invalid: ${(error as Error).message}`,
+				)
+			}
+
+		// Make sure the script exists
+		await scripts.get(script)
+
+		const job = await jobs.create(
+			new Job(
+				generateId(),
+				script,
+				target,
+				schedule,
+				schedule ? 'scheduled' : 'queued',
+				{ total: 0, done: 0, failed: 0 },
+				[],
+				request.context!.user.id,
+				new Date(),
+				undefined,
+				undefined,
+				next,
+			),
+		)
+		await queue.enqueue(job.id, next)
+
+		const data = { job }
+		return {
+			status: 202,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The response from the retrieve job endpoint.
+ *
+ * @typedef {object} RetrieveJobResponse
+ * @property {Job} job.required - The requested job.
+ */
+export type RetrieveJobResponse = {
+	job: Job
+}
+
+/**
+ * Method to retrieve a job.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the requested job.
+ */
+const get = async (
+	request: ServiceRequest<{ jobId: string }>,
+): Promise<ServiceResponse<RetrieveJobResponse>> => {
+	try {
+		const job = await jobs.get(request.data.jobId)
+
+		const data = { job }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * Method to delete a job. A job that is running stops once it finishes running
+ * the script for the current user, and a scheduled job does not run again.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return nothing.
+ */
+const _delete = async (
+	request: ServiceRequest<{ jobId: string }>,
+): Promise<ServiceResponse<unknown>> => {
+	try {
+		queue.cancel(request.data.jobId)
+		await jobs.delete(request.data.jobId)
+
+		const data = {}
+		return {
+			status: 204,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * Method to run a job, i.e., run its script for each user it targets, saving
+ * its progress as it goes. A scheduled job is queued to run again once it
+ * finishes. Called by the queue, not through an endpoint.
+ *
+ * The job is first claimed in a transaction, so that a job queued more than
+ * once (e.g., by the sweep and on startup) only runs once at a time. Each time
+ * the progress is saved, the run's heartbeat is updated, so that a run that
+ * stops part way through can be taken over once it goes stale. Saving checks
+ * that the run still owns the job, and stops the run if another has taken it
+ * over.
+ *
+ * A run only works on the job for a while, after which it queues the job to
+ * continue after the last user it got through. The users are run in order of
+ * their IDs, so that the next run neither skips nor repeats anyone if users
+ * were added or removed in between. A run that takes over a job also picks up
+ * from there, instead of starting over.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The finished job.
+ */
+const run = async (
+	request: ServiceRequest<{ jobId: string }>,
+): Promise<ServiceResponse<RetrieveJobResponse>> => {
+	try {
+		const owner = generateId()
+		const job = await jobs.claim(request.data.jobId, owner, (current) => {
+			const at = claimableAt(current)
+			return typeof at !== 'undefined' && at.getTime() <= Date.now()
+		})
+		if (!job)
+			throw new ServerError(
+				'precondition-failed',
+				'The job is already running, or is not due to run yet.',
+			)
+
+		/**
+		 * Saves the job's progress, and lets other runs know this one is alive.
+		 */
+		const save = async (): Promise<void> => {
+			job.heartbeat = new Date()
+			await jobs.updateClaimed(job, owner)
+		}
+
+		// Start over, unless an earlier run got part way through
+		if (typeof job.cursor === 'undefined') {
+			job.progress = { total: 0, done: 0, failed: 0 }
+			job.failures = []
+			job.finished = undefined
+			job.next = undefined
+			job.error = undefined
+			job.cursor = ''
+		}
+
+		await save()
+
+		// Work out who to run the script for, in order of their IDs. If that fails
+		// (say, the group was deleted), the job fails as a whole.
+		let targets: string[] = []
+		try {
+			await scripts.get(job.script)
+			targets = await resolveTarget(job.target)
+			targets.sort()
+		} catch (error: unknown) {
+			job.error = (
+				error instanceof ServerError ? error : new ServerError('server-crash')
+			).message
+		}
+
+		// Run the script for each user the earlier runs did not get to, saving
+		// the progress made after each one. Saving fails if the job was deleted
+		// or taken over, which stops it.
+		const remaining = targets.filter((userId) => userId > job.cursor!)
+		job.progress.total =
+			job.progress.done + job.progress.failed + remaining.length
+		await save()
+		const deadline = Date.now() + chunkTime
+		for (const userId of remaining) {
+			if (Date.now() > deadline) break
+
+			const failure = await runForUser(job, userId)
+			if (failure) {
+				job.failures.push(failure)
+				job.progress.failed++
+			} else {
+				job.progress.done++
+			}
+
+			job.cursor = userId
+			await save()
+		}
+
+		// If the run ran out of time, queue the job to continue where it left off
+		if (remaining.some((userId) => userId > job.cursor!)) {
+			job.status = 'queued'
+			job.owner = undefined
+			job.heartbeat = undefined
+			await jobs.updateClaimed(job, owner)
+			await queue.enqueue(job.id)
+
+			const data = { job }
+			return {
+				status: 200,
+				data,
+			}
+		}
+
+		// Queue the job to run again if it is scheduled
+		job.cursor = undefined
+		job.finished = new Date()
+		if (job.schedule) {
+			job.status = 'scheduled'
+			job.next = nextRun(parseCron(job.schedule), job.finished)
+		} else {
+			job.status = job.error ? 'failed' : 'finished'
+		}
+
+		job.owner = undefined
+		job.heartbeat = undefined
+		await jobs.updateClaimed(job, owner)
+		if (job.next) await queue.enqueue(job.id, job.next)
+
+		const data = { job }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * Method to queue the jobs that have not finished, for when they can next be
+ * run. Called on startup when the queue does not outlive the server's process,
+ * and every minute by the `sweepJobs` function otherwise. A job that is still
+ * running is only queued for when its run goes stale, so that a restart does
+ * not run it twice.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The IDs of the jobs queued.
+ */
+const resume = async (
+	_request: ServiceRequest<unknown>,
+): Promise<ServiceResponse<{ jobs: string[] }>> => {
+	try {
+		const found = await jobs.find([])
+		const unfinished = found.filter(
+			(job) => typeof claimableAt(job) !== 'undefined',
+		)
+		for (const job of unfinished) await queue.enqueue(job.id, claimableAt(job))
+
+		const data = { jobs: unfinished.map(({ id }) => id) }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	create,
+	get,
+	delete: _delete,
+	run,
+	resume,
+}
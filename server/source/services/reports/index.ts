@@ -1,13 +1,40 @@
 // @/services/reports/index.ts
 // Service that handles report search, creation, modification, deletion operations.
 
+import { Buffer } from 'node:buffer'
+
 import type { ServiceRequest, ServiceResponse, Query } from '@/types'
 
 import { ServerError } from '@/errors'
-import { Report, DependentAttribute } from '@/models/report'
+import { UserAttribute } from '@/models/attribute'
+import {
+	Report,
+	ReportKind,
+	TemplateEngine,
+	DependentAttribute,
+} from '@/models/report'
+import { User } from '@/models/user'
+import { provider as attributes } from '@/provider/data/attributes'
 import { provider as reports } from '@/provider/data/reports'
 import { provider as groups } from '@/provider/data/groups'
 import { generateId } from '@/utilities'
+import {
+	aggregate,
+	describeTemplateError,
+	loadParticipants,
+	referencedAttributes,
+	renderTemplate,
+	resolveEngine,
+	TemplateContextBuilder,
+} from '@/utilities/templates'
+
+import type {
+	GroupTemplateContext,
+	GroupTemplateParticipant,
+	TemplateContext,
+	TemplateError,
+	TemplateInput,
+} from '@/utilities/templates'
 
 /**
  * The payload needed to make a request to list/find reports.
@@ -109,8 +136,11 @@ const find = async (
  * @property {string} name.required - The report name.
  * @property {string} description.required - The report description.
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the report.
- * @property {string} template.required - The EJS template used to generate the report.
+ * @property {string} template.required - The template used to generate the report.
  * @property {array<DependentAttribute>} input.required - The list of attribute IDs required to generate the report.
+ * @property {object} translations - The template in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} kind - Whether the report is rendered for a single user, or for all the participants of a group. Defaults to `user`. - enum:user,group
+ * @property {string} engine - The language the template is written in. Defaults to `liquid` for new reports, and to the existing language for reports being updated. EJS is only supported for reports written in it before liquid was introduced. - enum:liquid,ejs
  */
 export type CreateReportPayload = {
 	name: string
@@ -118,6 +148,9 @@ export type CreateReportPayload = {
 	tags: string[]
 	template: string
 	input: DependentAttribute[]
+	translations?: Record<string, string>
+	kind?: ReportKind
+	engine?: TemplateEngine
 }
 
 /**
@@ -141,7 +174,11 @@ const create = async (
 	request: ServiceRequest<CreateReportPayload>,
 ): Promise<ServiceResponse<CreateReportResponse>> => {
 	try {
-		const report = await reports.create({ ...request.data, id: generateId() })
+		const report = await reports.create({
+			...request.data,
+			engine: resolveEngine(request.data.engine),
+			id: generateId(),
+		})
 
 		const data = { report }
 		return {
@@ -199,8 +236,11 @@ const get = async (
  * @property {string} name.required - The report name.
  * @property {string} description.required - The report description.
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the report.
- * @property {string} template.required - The EJS template used to generate the report.
+ * @property {string} template.required - The template used to generate the report.
  * @property {array<DependentAttribute>} input.required - The list of attribute IDs required to generate the report.
+ * @property {object} translations - The template in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} kind - Whether the report is rendered for a single user, or for all the participants of a group. Defaults to `user`. - enum:user,group
+ * @property {string} engine - The language the template is written in. Defaults to `liquid` for new reports, and to the existing language for reports being updated. EJS is only supported for reports written in it before liquid was introduced. - enum:liquid,ejs
  */
 export type UpdateReportPayload = {
 	name: string
@@ -208,6 +248,9 @@ export type UpdateReportPayload = {
 	tags: string[]
 	template: string
 	input: DependentAttribute[]
+	translations?: Record<string, string>
+	kind?: ReportKind
+	engine?: TemplateEngine
 }
 
 /**
@@ -231,8 +274,10 @@ const update = async (
 	request: ServiceRequest<UpdateReportPayload & { reportId: string }>,
 ): Promise<ServiceResponse<UpdateReportResponse>> => {
 	try {
+		const existing = await reports.get(request.data.reportId)
 		const report = await reports.update({
 			...request.data,
+			engine: resolveEngine(request.data.engine, existing),
 			id: request.data.reportId,
 		})
 
@@ -275,6 +320,152 @@ const _delete = async (
 	}
 }
 
+/**
+ * An error raised while rendering a report's template.
+ *
+ * @typedef {object} TemplateError
+ * @property {string} message.required - A description of the error.
+ * @property {number} line - The line of the template the error occurred on, if known.
+ */
+export type { TemplateError } from '@/utilities/templates'
+
+/**
+ * The payload needed to preview a report.
+ *
+ * @typedef {object} PreviewReportPayload
+ * @property {string} template.required - The base64 encoded template to render.
+ * @property {string} engine - The language the template is written in. Defaults to `liquid`. - enum:liquid,ejs
+ * @property {string} kind - Whether the template is rendered for a single user, or for all the participants of a group. Defaults to `user`. - enum:user,group
+ * @property {string} userId - The ID of the user to render a user report for. If not set, the report is rendered for a made up user.
+ * @property {string} groupId - The ID of the group to render a group report for. If not set, the report is rendered for a made up group.
+ * @property {object} input - Made up values of the attributes the template uses, keyed by attribute ID. For user reports, they take precedence over the user's own values. For group reports, they are the values of a made up participant added to the group. Values of attributes that do not exist are ignored.
+ */
+export type PreviewReportPayload = {
+	template: string
+	engine?: TemplateEngine
+	kind?: ReportKind
+	userId?: string
+	groupId?: string
+	input?: Record<string, string | number | boolean>
+}
+
+/**
+ * The response from the preview report endpoint.
+ *
+ * @typedef {object} PreviewReportResponse
+ * @property {string} html - The rendered report, if the template rendered successfully.
+ * @property {TemplateError} error - The error the template raised, if it failed to render.
+ */
+export type PreviewReportResponse = {
+	html?: string
+	error?: TemplateError
+}
+
+/**
+ * Method to preview a report by rendering a template that has not been saved,
+ * for a chosen user or group, or with made up attributes. Errors in the template are
+ * returned in the response rather than as an error, so the editor can show
+ * them next to the template.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the rendered report, or the error the template raised.
+ */
+const preview = async (
+	request: ServiceRequest<PreviewReportPayload>,
+): Promise<ServiceResponse<PreviewReportResponse>> => {
+	try {
+		const template = Buffer.from(request.data.template, 'base64').toString(
+			'utf8',
+		)
+		const values = request.data.input ?? {}
+
+		// Find the definitions of the attributes given made up values, so they
+		// can be added to the context
+		const definitions = await attributes.getMany(Object.keys(values))
+		const madeUp = (userId: string): TemplateInput => {
+			const input: TemplateInput = {}
+			for (const [id, value] of Object.entries(values)) {
+				const definition = definitions.find((attribute) => attribute.id === id)
+				if (definition)
+					input[id] = {
+						...definition,
+						...new UserAttribute(id, value, [], userId),
+					}
+			}
+
+			return input
+		}
+
+		// Build the context the same way as when the report is rendered for real,
+		// making up a user or group if none was chosen
+		let user: User = {
+			id: 'preview-user',
+			name: 'Preview User',
+			email: undefined,
+			phone: undefined,
+			lastSignedIn: new Date(),
+		}
+		let context: TemplateContext | GroupTemplateContext
+		if (request.data.kind === 'group') {
+			// Render it for the chosen group's participants, along with a made up
+			// participant that has the made up values
+			const ids = [...referencedAttributes(template), ...Object.keys(values)]
+			let group: GroupTemplateContext['group'] = {
+				id: 'preview-group',
+				name: 'Preview Group',
+			}
+			let participants: GroupTemplateParticipant[] = []
+			if (request.data.groupId) {
+				const found = await groups.get(request.data.groupId)
+				group = { id: found.id, name: found.name }
+				participants = await loadParticipants(found.participants, ids)
+			}
+
+			if (definitions.length > 0)
+				participants.push({ user, role: 'mentee', input: madeUp(user.id) })
+			context = {
+				group,
+				participants,
+				aggregates: aggregate(participants, ids),
+			}
+		} else {
+			// Render it for the chosen user, with the made up values taking
+			// precedence over their own
+			let input: TemplateInput = {}
+			if (request.data.userId)
+				({ user, input } = await new TemplateContextBuilder(
+					request.data.userId,
+				).context(template))
+
+			context = { input: { ...input, ...madeUp(user.id) }, user }
+		}
+
+		let html
+		let error
+		try {
+			html = await renderTemplate(
+				template,
+				request.data.engine ?? 'liquid',
+				context,
+			)
+		} catch (renderError: unknown) {
+			error = describeTemplateError(renderError)
+		}
+
+		const data = { html, error }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
 // Export the functions
 export const service = {
 	find,
@@ -282,4 +473,5 @@ export const service = {
 	get,
 	update,
 	delete: _delete,
+	preview,
 }
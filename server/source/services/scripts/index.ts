@@ -2,17 +2,43 @@
 // Service that handles script search, creation, modification, deletion operations.
 
 import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
 
-import { ServerError } from '@/errors'
-import { Script, DependentAttribute, ComputedAttribute } from '@/models/script'
-import { UserAttribute } from '@/models/attribute'
+import { ScriptExecutionError, ServerError } from '@/errors'
+import {
+	Script,
+	DependentAttribute,
+	ComputedAttribute,
+	ScriptTestCase,
+	ScriptLanguage,
+	ScriptRun,
+	ScriptRunError,
+	ScriptRunTrigger,
+} from '@/models/script'
+import { Attribute, UserAttribute } from '@/models/attribute'
+import { User } from '@/models/user'
 import { provider as scripts } from '@/provider/data/scripts'
+import { provider as runs } from '@/provider/data/scripts/runs'
 import { provider as users } from '@/provider/data/users'
 import { provider as attributes } from '@/provider/data/users/attributes'
+import { provider as attributeDefinitions } from '@/provider/data/attributes'
 import { generateId } from '@/utilities'
+import { logger, stringify } from '@/utilities/logger'
+import { findCycle, planRuns } from '@/utilities/dependencies'
+import type { ScriptDependencies } from '@/utilities/dependencies'
 import { runLua } from '@/utilities/lua'
+import { runJavaScript } from '@/utilities/javascript'
+import type { ScriptOutput } from '@/utilities/lua'
 import type { ServiceRequest, ServiceResponse, Query } from '@/types'
 
+/**
+ * The function that runs scripts written in each language.
+ */
+const runners: Record<ScriptLanguage, typeof runLua> = {
+	lua: runLua,
+	javascript: runJavaScript,
+}
+
 /**
  * The payload needed to make a request to list/find scripts.
  *
@@ -82,6 +108,8 @@ const find = async (
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the script.
  * @property {array<DependentAttribute>} input.required - The list of attributes required to run the script.
  * @property {array<ComputedAttribute>} computed.required - The list of attributes computed and set by this script.
+ * @property {array<ScriptTestCase>} tests - The test cases the script must pass whenever its code is updated.
+ * @property {string} language - The language the script is written in. Defaults to `lua`. - enum:lua,javascript
  */
 export type CreateScriptPayload = {
 	name: string
@@ -90,6 +118,8 @@ export type CreateScriptPayload = {
 	input: DependentAttribute[]
 	computed: ComputedAttribute[]
 	content: string
+	tests?: ScriptTestCase[]
+	language?: ScriptLanguage
 }
 
 /**
@@ -102,6 +132,33 @@ export type CreateScriptResponse = {
 	script: Script
 }
 
+/**
+ * Makes sure saving a script does not create a cycle in the script dependency
+ * graph, i.e., a set of scripts that would keep re-running each other when
+ * the attributes they use change.
+ *
+ * @param {ScriptDependencies} script - The script to save.
+ *
+ * @returns {void}
+ * @throws {ServerError} - 'precondition-failed'
+ */
+const checkForCycles = async (script: ScriptDependencies): Promise<void> => {
+	const existing = await scripts.find([])
+	const others = existing.filter(({ id }) => id !== script.id)
+	const cycle = findCycle([script, ...others])
+	if (!cycle?.includes(script.id)) return
+
+	const names = cycle.map(
+		(id) => others.find((other) => other.id === id)?.name ?? 'this script',
+	)
+	throw new ServerError(
+		'precondition-failed',
+		`The script would be part of a cycle of scripts that re-run each other whenever they compute an attribute: ${names.join(
+			' → ',
+		)}. Please remove one of the attributes that links them.`,
+	)
+}
+
 /**
  * Method to create a script.
  *
@@ -113,7 +170,9 @@ const create = async (
 	request: ServiceRequest<CreateScriptPayload>,
 ): Promise<ServiceResponse<CreateScriptResponse>> => {
 	try {
-		const script = await scripts.create({ ...request.data, id: generateId() })
+		const id = generateId()
+		await checkForCycles({ ...request.data, id })
+		const script = await scripts.create({ ...request.data, id })
 
 		const data = { script }
 		return {
@@ -164,6 +223,126 @@ const get = async (
 	}
 }
 
+/**
+ * The (fake) user to run a script for when testing it. Any details left out
+ * are filled in with placeholder values.
+ *
+ * @typedef {object} ScriptTestUser
+ * @property {string} id - The user's ID.
+ * @property {string} name - The user's name.
+ * @property {string} email - The user's email address.
+ * @property {string} phone - The user's phone number.
+ * @property {string} lastSignedIn - When the user last signed in. - date
+ */
+export type ScriptTestUser = Partial<Omit<User, 'lastSignedIn'>> & {
+	lastSignedIn?: string
+}
+
+/**
+ * The response from the test script endpoints.
+ *
+ * @typedef {object} TestScriptResponse
+ * @property {object} output - The values the script returned, if it ran successfully.
+ * @property {ScriptError} error - The error the script raised or the limit it exceeded, if it failed.
+ * @property {array<string>} logs.required - The messages the script passed to `log()`, in order.
+ * @property {number} time.required - How long the script ran for, in milliseconds.
+ */
+export type TestScriptResponse = {
+	output?: ScriptOutput
+	error?: ScriptExecutionError
+	logs: string[]
+	time: number
+}
+
+/**
+ * Runs a script with made up input, without storing what it computes.
+ *
+ * @param {string} content - The base64 encoded code to run.
+ * @param {ScriptLanguage} language - The language the code is written in.
+ * @param {ScriptTestUser | undefined} fakeUser - The user to run the script for.
+ * @param {Record<string, string | number | boolean>} values - The values of the input attributes, keyed by attribute ID.
+ *
+ * @returns {TestScriptResponse} - The script's output and logs, or the error it raised.
+ */
+const dryRun = async (
+	content: string,
+	language: ScriptLanguage,
+	fakeUser: ScriptTestUser | undefined,
+	values: Record<string, string | number | boolean>,
+): Promise<TestScriptResponse> => {
+	// Build the context the script would get, from the made up user and input
+	const user: User = {
+		id: fakeUser?.id ?? 'test-user',
+		name: fakeUser?.name ?? 'Test User',
+		email: fakeUser?.email,
+		phone: fakeUser?.phone,
+		lastSignedIn: new Date(fakeUser?.lastSignedIn ?? Date.now()),
+	}
+	const input: Record<string, UserAttribute> = {}
+	for (const [id, value] of Object.entries(values))
+		input[id] = new UserAttribute(id, value, [], user.id)
+
+	// Run the script, and note down what it logs and how long it takes
+	const logs: string[] = []
+	const started = Date.now()
+	let output
+	let scriptError
+	try {
+		output = await runners[language](
+			Buffer.from(content, 'base64').toString('utf8'),
+			{ user, input },
+			{ log: (message) => logs.push(message) },
+		)
+	} catch (error: unknown) {
+		if (!(error instanceof ScriptExecutionError)) throw error
+		scriptError = error
+	}
+
+	return {
+		output,
+		error: scriptError,
+		logs,
+		time: Date.now() - started,
+	}
+}
+
+/**
+ * Runs a script's test cases, and describes the ones that fail.
+ *
+ * @param {string} content - The base64 encoded code to test.
+ * @param {ScriptLanguage} language - The language the code is written in.
+ * @param {ScriptTestCase[]} tests - The test cases to run.
+ *
+ * @returns {string[]} - Why each failing test case failed.
+ */
+const findFailingTests = async (
+	content: string,
+	language: ScriptLanguage,
+	tests: ScriptTestCase[],
+): Promise<string[]> => {
+	const failures = []
+	for (const { name, input, expected } of tests) {
+		const { output, error } = await dryRun(content, language, undefined, input)
+		if (error) {
+			failures.push(`'${name}' - ${error.message}`)
+			continue
+		}
+
+		const mismatches = Object.entries(expected)
+			.filter(([id, value]) => output?.attributes?.[id]?.value !== value)
+			.map(
+				([id, value]) =>
+					`expected ${id} to be ${JSON.stringify(value)}, but it was ${
+						JSON.stringify(output?.attributes?.[id]?.value) ?? 'not computed'
+					}`,
+			)
+		if (mismatches.length > 0)
+			failures.push(`'${name}' - ${mismatches.join(', ')}`)
+	}
+
+	return failures
+}
+
 /**
  * The payload needed to update a script.
  *
@@ -173,6 +352,9 @@ const get = async (
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the script.
  * @property {array<DependentAttribute>} input.required - The list of attributes required to run the script.
  * @property {array<ComputedAttribute>} computed.required - The list of attributes computed and set by this script.
+ * @property {array<ScriptTestCase>} tests - The test cases the script must pass whenever its code is updated. Defaults to the existing test cases.
+ * @property {boolean} force - Whether to save the script even if it fails some of its test cases.
+ * @property {string} language - The language the script is written in. Defaults to the existing language. - enum:lua,javascript
  */
 export type UpdateScriptPayload = {
 	name: string
@@ -181,6 +363,9 @@ export type UpdateScriptPayload = {
 	input: DependentAttribute[]
 	computed: ComputedAttribute[]
 	content: string
+	tests?: ScriptTestCase[]
+	force?: boolean
+	language?: ScriptLanguage
 }
 
 /**
@@ -204,9 +389,36 @@ const update = async (
 	request: ServiceRequest<UpdateScriptPayload & { scriptId: string }>,
 ): Promise<ServiceResponse<UpdateScriptResponse>> => {
 	try {
+		const { scriptId, force, ...details } = request.data
+		const existing = await scripts.get(scriptId)
+		const tests = details.tests ?? existing.tests ?? []
+		const language = details.language ?? existing.language ?? 'lua'
+
+		// If the code, its language or the test cases changed, make sure the
+		// script still passes all its test cases, unless told to save it anyway
+		if (
+			!force &&
+			(details.content !== existing.content ||
+				language !== (existing.language ?? 'lua') ||
+				details.tests) &&
+			tests.length > 0
+		) {
+			const failures = await findFailingTests(details.content, language, tests)
+			if (failures.length > 0) {
+				const reasons = failures.join('; ')
+				throw new ServerError(
+					'precondition-failed',
+					`The script failed ${failures.length} of its test cases: ${reasons}. Please fix the script or its test cases, or pass \`force: true\` to save it anyway.`,
+				)
+			}
+		}
+
+		await checkForCycles({ ...details, id: scriptId })
 		const script = await scripts.update({
-			...request.data,
-			id: request.data.scriptId,
+			...details,
+			tests,
+			language,
+			id: scriptId,
 		})
 
 		const data = { script }
@@ -258,13 +470,148 @@ export type RunScriptPayload = {
 	users?: string[]
 }
 
+/**
+ * Stores the record of a script being run. A failure to do so is logged, but
+ * does not fail the run itself.
+ *
+ * @param {ScriptRun} run - The record to store.
+ *
+ * @returns {void}
+ */
+const recordRun = async (run: ScriptRun): Promise<void> => {
+	try {
+		await runs.create(run)
+	} catch (error: unknown) {
+		logger.warn(
+			'[scripts/run] received error while recording run %s - %s',
+			run.id,
+			stringify(error),
+		)
+	}
+}
+
+/**
+ * Converts a set of attributes or computed snapshots into a map of their
+ * values, to store in the record of a run.
+ *
+ * @param {Record<string, { value: string | number | boolean }>} attributes - The attributes to convert.
+ *
+ * @returns {Record<string, string | number | boolean>} - The values, keyed by attribute ID.
+ */
+const toValues = (
+	attributes: Record<string, { value: string | number | boolean }>,
+): Record<string, string | number | boolean> =>
+	Object.fromEntries(
+		Object.entries(attributes).map(([id, { value }]) => [id, value]),
+	)
+
+/**
+ * Converts an error thrown while running a script into the error stored in
+ * the record of the run.
+ *
+ * @param {unknown} error - The error that was thrown.
+ *
+ * @returns {ScriptRunError} - The error to store.
+ */
+const toRunError = (error: unknown): ScriptRunError => {
+	const { code, message } =
+		error instanceof ServerError ? error : new ServerError('server-crash')
+	const line = error instanceof ScriptExecutionError ? error.line : undefined
+
+	return typeof line === 'undefined'
+		? { code, message }
+		: { code, message, line }
+}
+
+/**
+ * A problem with the values a script computed for a user.
+ *
+ * @typedef {object} ScriptOutputViolation
+ * @property {string} attribute.required - The ID of the attribute.
+ * @property {string} problem.required - Whether the attribute is not one the script declares it computes, is a required attribute that was not computed, or has a value of the wrong type. - enum:undeclared,missing,wrong-type
+ * @property {string} message.required - A description of the problem.
+ */
+export type ScriptOutputViolation = {
+	attribute: string
+	problem: 'undeclared' | 'missing' | 'wrong-type'
+	message: string
+}
+
+/**
+ * The result of running a script for a user.
+ *
+ * @typedef {object} UserScriptResult
+ * @property {array<UserAttribute>} attributes.required - The attributes computed by the script and stored for the user.
+ * @property {array<ScriptOutputViolation>} violations.required - The problems with the values the script computed. If there are any, none of the values are stored.
+ * @property {ScriptRunError} error - The error the run ended with for the user, e.g., a required input attribute was not found or the script raised an error. Not set if the script ran.
+ */
+export type UserScriptResult = {
+	attributes: UserAttribute[]
+	violations: ScriptOutputViolation[]
+	error?: ScriptRunError
+}
+
 /**
  * The response from the run script endpoint.
  *
  * @typedef {object} RunScriptResponse
- * @property {array<UserAttribute>} userId - The attributes computed by the script for the given user.
+ * @property {UserScriptResult} userId - The result of running the script for the given user.
  */
-export type RunScriptResponse = Record<string, UserAttribute[]>
+export type RunScriptResponse = Record<string, UserScriptResult>
+
+/**
+ * Checks the values a script computed against the attributes it declares it
+ * computes, and the types of those attributes.
+ *
+ * @param {ComputedAttribute[]} declared - The attributes the script declares it computes.
+ * @param {Attribute[]} definitions - The definitions of those attributes.
+ * @param {ScriptOutput['attributes']} computed - The values the script computed.
+ *
+ * @returns {ScriptOutputViolation[]} - The problems with the computed values.
+ */
+const checkOutput = (
+	declared: ComputedAttribute[],
+	definitions: Attribute[],
+	computed: ScriptOutput['attributes'] = {},
+): ScriptOutputViolation[] => {
+	const violations: ScriptOutputViolation[] = []
+	for (const [id, snapshot] of Object.entries(computed)) {
+		if (!declared.some((attribute) => attribute.id === id)) {
+			violations.push({
+				attribute: id,
+				problem: 'undeclared',
+				message: `The script computed the attribute ${id}, which is not in its list of computed attributes.`,
+			})
+			continue
+		}
+
+		// Values must be strings, numbers or booleans, and of the type of the
+		// attribute if it has one
+		const type = definitions.find((attribute) => attribute.id === id)?.type
+		const actual = typeof snapshot?.value
+		if (
+			!['string', 'number', 'boolean'].includes(actual) ||
+			(type && actual !== type)
+		)
+			violations.push({
+				attribute: id,
+				problem: 'wrong-type',
+				message: `The script computed a value of type ${actual} for the attribute ${id}, which must be ${
+					type ? `a ${type}` : 'a string, number or boolean'
+				}.`,
+			})
+	}
+
+	for (const { id, optional } of declared)
+		if (!optional && !(id in computed))
+			violations.push({
+				attribute: id,
+				problem: 'missing',
+				message: `The script did not compute the required attribute ${id}.`,
+			})
+
+	return violations
+}
 
 /**
  * Method to run a script for the specified user.
@@ -274,7 +621,13 @@ export type RunScriptResponse = Record<string, UserAttribute[]>
  * @returns {ServiceResponse} - If the script runs sucessfully, nothing will be returned.
  */
 const run = async (
-	request: ServiceRequest<RunScriptPayload & { scriptId: string }>,
+	request: ServiceRequest<
+		RunScriptPayload & {
+			scriptId: string
+			trigger?: Omit<ScriptRunTrigger, 'user'>
+			cascade?: boolean
+		}
+	>,
 ): Promise<ServiceResponse<RunScriptResponse>> => {
 	try {
 		// Fetch the script
@@ -290,102 +643,373 @@ const run = async (
 			)
 		const userQueue = request.data.users ?? [request.context!.user.id]
 
+		// Decode the script (it is stored in base64), and fetch the definitions of
+		// the attributes it computes to check its output against
+		const content = Buffer.from(script.content, 'base64').toString('utf8')
+		const hash = createHash('sha256').update(content).digest('hex')
+		const trigger: ScriptRunTrigger = {
+			...request.data.trigger,
+			user: request.context?.user.id ?? 'bot',
+		}
+		const definitions = await attributeDefinitions.getMany(
+			script.computed.map(({ id }) => id),
+		)
+
 		// Loop through the users
 		const data: RunScriptResponse = {}
 		for (const userId of userQueue) {
-			// Get the current user so the script can access it, but do not let the
-			// script get their access token
-			const user = await users.get(userId)
-			// @ts-expect-error Lua doesn't have a Date equivalent, so make it easier for
-			// the interpreter by giving it a string
-			user.lastSignedIn = user.lastSignedIn.toISOString()
-			// Decode the script (it is stored in base64)
-			script.content = Buffer.from(script.content, 'base64').toString('ascii')
-
-			// The attributes that we set and get are for this user now
-			attributes.userId = user.id
-
-			// Retrieve all the attributes the script needs to run
+			// Keep a record of every run, so it is possible to work out later why a
+			// user's attributes have the values they do
+			const started = new Date()
 			const input: Record<string, UserAttribute> = {}
-			for (const { id, optional } of script.input) {
-				try {
-					const attribute = await attributes.get(id)
-					input[id] = attribute
-				} catch (error: unknown) {
-					// If we can't find the attribute for the user, and it is a required attribute,
-					// throw a Precondition Failed error.
-					if ((error as ServerError).code === 'entity-not-found') {
-						if (optional) continue
-						else
-							throw new ServerError(
-								'precondition-failed',
-								`Could not find the required attribute ${id} for user ${user.id}.`,
-							)
-					}
-				}
-			}
+			let computed: ScriptOutput['attributes']
+			const record = async (error?: ScriptRunError) =>
+				recordRun(
+					new ScriptRun(
+						generateId(),
+						script.id,
+						hash,
+						userId,
+						trigger,
+						toValues(input),
+						computed && toValues(computed),
+						started,
+						Date.now() - started.getTime(),
+						error,
+					),
+				)
 
-			const computedAttributes = []
 			try {
-				// TODO: This should be able to handle groups, reports, etc too.
-				// Run the lua script
-				let { attributes: computed } = await runLua(script.content, {
-					input,
-					user,
-				})
-				if (!computed) computed = {}
+				// Get the current user so the script can access it, but do not let the
+				// script get their access token
+				const user = await users.get(userId)
+
+				// The attributes that we set and get are for this user now
+				const userAttributes = attributes(user.id)
 
-				// Store the computed attribute(s)
-				for (const [id, snapshot] of Object.entries(computed)) {
+				// Retrieve all the attributes the script needs to run
+				for (const { id, optional } of script.input) {
 					try {
-						// Retrieve the attribute and update it if it exists
-						const attribute = await attributes.get(id)
-						attribute.value = snapshot.value
-						attribute.history.push({
-							value: snapshot.value,
-							observer: 'bot',
-							timestamp: new Date(),
-							message: {
-								in: 'script',
-								id: script.id,
-							},
-						})
-						await attributes.update(attribute)
-						computedAttributes.push(attribute)
+						const attribute = await userAttributes.get(id)
+						input[id] = attribute
 					} catch (error: unknown) {
-						// If it does not exist, then create it
+						// If we can't find the attribute for the user, and it is a required attribute,
+						// throw a Precondition Failed error.
 						if ((error as ServerError).code === 'entity-not-found') {
-							const attribute = await attributes.create({
-								id,
+							if (optional) continue
+							else
+								throw new ServerError(
+									'precondition-failed',
+									`Could not find the required attribute ${id} for user ${user.id}.`,
+								)
+						}
+					}
+				}
+
+				const computedAttributes = []
+				let violations: ScriptOutputViolation[] = []
+				try {
+					// TODO: This should be able to handle groups, reports, etc too.
+					// Run the script with the runner for the language it is written in
+					;({ attributes: computed = {} } = await runners[
+						script.language ?? 'lua'
+					](content, {
+						input,
+						user,
+					}))
+
+					// Make sure the script computed what it said it would, and store
+					// nothing for this user if it did not
+					violations = checkOutput(script.computed, definitions, computed)
+					if (violations.length > 0) {
+						await record({
+							code: 'script-output-invalid',
+							message: violations.map(({ message }) => message).join(' '),
+						})
+						data[userId] = { attributes: [], violations }
+						continue
+					}
+
+					// Store the computed attribute(s)
+					for (const [id, snapshot] of Object.entries(computed)) {
+						try {
+							// Retrieve the attribute and update it if it exists
+							const attribute = await userAttributes.get(id)
+							attribute.value = snapshot.value
+							attribute.history.push({
 								value: snapshot.value,
-								history: [
-									{
-										value: snapshot.value,
-										observer: 'bot',
-										timestamp: new Date(),
-										message: {
-											in: 'script',
-											id: script.id,
-										},
-									},
-								],
-								_userId: user.id,
+								observer: 'bot',
+								timestamp: new Date(),
+								message: {
+									in: 'script',
+									id: script.id,
+								},
 							})
+							await userAttributes.update(attribute)
 							computedAttributes.push(attribute)
-						} else {
-							throw error
+						} catch (error: unknown) {
+							// If it does not exist, then create it
+							if ((error as ServerError).code === 'entity-not-found') {
+								const attribute = await userAttributes.create({
+									id,
+									value: snapshot.value,
+									history: [
+										{
+											value: snapshot.value,
+											observer: 'bot',
+											timestamp: new Date(),
+											message: {
+												in: 'script',
+												id: script.id,
+											},
+										},
+									],
+									_userId: user.id,
+								})
+								computedAttributes.push(attribute)
+							} else {
+								throw error
+							}
 						}
 					}
+				} catch (error: unknown) {
+					// Pass on errors raised by the script itself, so the caller knows what
+					// went wrong and where
+					if (error instanceof ScriptExecutionError) throw error
+
+					console.trace(error)
+					throw new ServerError('backend-error')
 				}
+
+				// Save the attributes
+				await record()
+				data[userId] = { attributes: computedAttributes, violations }
 			} catch (error: unknown) {
-				console.trace(error)
-				throw new ServerError('backend-error')
+				// Note the failure and carry on with the rest of the users, so one
+				// user's missing attributes do not stop the script running for others
+				const failure = toRunError(error)
+				await record(failure)
+				data[userId] = { attributes: [], violations: [], error: failure }
 			}
+		}
+
+		// Re-run the scripts that use the attributes just computed, unless this
+		// run is itself one of a planned set of re-runs
+		if (request.data.cascade !== false)
+			for (const [userId, result] of Object.entries(data)) {
+				if (result.attributes.length === 0) continue
+
+				await runDependents({
+					context: request.context,
+					data: {
+						userId,
+						attributes: result.attributes.map(({ id }) => id),
+						script: script.id,
+						trigger: request.data.trigger,
+					},
+				})
+			}
+
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The payload needed to re-run the scripts that use attributes that changed
+ * for a user.
+ */
+export type RunDependentScriptsPayload = {
+	// The user whose attributes changed.
+	userId: string
+	// The IDs of the attributes that changed.
+	attributes: string[]
+	// The script that computed the attributes, if any. It is not re-run.
+	script?: string
+	// What caused the attributes to change.
+	trigger?: Omit<ScriptRunTrigger, 'user' | 'attributes'>
+}
+
+/**
+ * The response from re-running the scripts that use attributes that changed.
+ */
+export type RunDependentScriptsResponse = {
+	// The IDs of the scripts that were run, in the order they were run in.
+	scripts: string[]
+}
+
+/**
+ * Method to re-run the scripts that use certain attributes when they change
+ * for a user, and in turn the scripts that use the attributes those compute.
+ * Each script is run once, after the scripts it depends on. A script failing
+ * to run is noted in the record of its run, but does not stop the rest.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The IDs of the scripts that were run.
+ */
+const runDependents = async (
+	request: ServiceRequest<RunDependentScriptsPayload>,
+): Promise<ServiceResponse<RunDependentScriptsResponse>> => {
+	try {
+		// The script that computed the attributes is not its own dependent
+		const existing = await scripts.find([])
+		const plan = planRuns(
+			existing.filter(({ id }) => id !== request.data.script),
+			request.data.attributes,
+		)
+
+		for (const { id } of plan)
+			await run({
+				context: request.context,
+				data: {
+					scriptId: id,
+					users: [request.data.userId],
+					trigger: {
+						...request.data.trigger,
+						attributes: request.data.attributes,
+					},
+					cascade: false,
+				},
+			})
+
+		const data = { scripts: plan.map(({ id }) => id) }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The payload needed to test a script.
+ *
+ * @typedef {object} TestScriptPayload
+ * @property {string} content - The base64 encoded code to run. Required when testing code that has not been saved as a script, otherwise it defaults to the saved script's code.
+ * @property {string} language - The language the code is written in. Defaults to the saved script's language, or `lua`. - enum:lua,javascript
+ * @property {ScriptTestUser} user - The user to run the script for.
+ * @property {object} input - The values of the input attributes to run the script with, keyed by attribute ID.
+ */
+export type TestScriptPayload = {
+	content?: string
+	language?: ScriptLanguage
+	user?: ScriptTestUser
+	input?: Record<string, string | number | boolean>
+}
+
+/**
+ * Method to test a script by running it with made up input, without storing
+ * what it computes. Tests either a saved script (optionally with new code) or
+ * code that has not been saved yet.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the script's output and logs, or the error it raised.
+ */
+const test = async (
+	request: ServiceRequest<TestScriptPayload & { scriptId?: string }>,
+): Promise<ServiceResponse<TestScriptResponse>> => {
+	try {
+		// Figure out the code to run, and make sure we have all the input it needs
+		let { content, language } = request.data
+		const values = request.data.input ?? {}
+		if (request.data.scriptId) {
+			const script = await scripts.get(request.data.scriptId)
+			content ??= script.content
+			language ??= script.language
+
+			for (const { id, optional } of script.input)
+				if (!optional && typeof values[id] === 'undefined')
+					throw new ServerError(
+						'improper-payload',
+						`Please specify a value for the required input attribute ${id}.`,
+					)
+		}
+
+		if (!content)
+			throw new ServerError(
+				'improper-payload',
+				'Please specify the code to test.',
+			)
+
+		const data = await dryRun(
+			content,
+			language ?? 'lua',
+			request.data.user,
+			values,
+		)
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The payload needed to make a request to list/find the runs of a script.
+ *
+ * @typedef {object} ListOrFindScriptRunsPayload
+ * @property {string} user - The script should have been run for this user.
+ * @property {boolean} failed - Whether the run should have failed or not.
+ */
+export type ListOrFindScriptRunsPayload = {
+	user?: string
+	failed?: boolean
+}
+
+/**
+ * The response from the list/find script runs endpoint.
+ *
+ * @typedef {object} ListOrFindScriptRunsResponse
+ * @property {array<ScriptRun>} runs.required - The runs returned from the query, latest first.
+ */
+export type ListOrFindScriptRunsResponse = {
+	runs: ScriptRun[]
+}
+
+/**
+ * Method to list/find the records of a script being run.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the runs that match the query.
+ */
+const listRuns = async (
+	request: ServiceRequest<ListOrFindScriptRunsPayload & { scriptId: string }>,
+): Promise<ServiceResponse<ListOrFindScriptRunsResponse>> => {
+	try {
+		const query: Array<Query<ScriptRun>> = [
+			{ field: 'script', operator: '==', value: request.data.scriptId },
+		]
+		if (request.data.user)
+			query.push({ field: 'user', operator: '==', value: request.data.user })
 
-			// Save the attributes
-			data[userId] = computedAttributes
+		let foundRuns = await runs.find(query)
+		// Successful runs do not have the `error` field set at all, so filter
+		// them here instead of in the query
+		if (typeof request.data.failed !== 'undefined') {
+			const failed = String(request.data.failed) === 'true'
+			foundRuns = foundRuns.filter((run) => Boolean(run.error) === failed)
 		}
 
+		const data = { runs: foundRuns }
 		return {
 			status: 200,
 			data,
@@ -406,4 +1030,7 @@ export const service = {
 	update,
 	delete: _delete,
 	run,
+	runDependents,
+	test,
+	listRuns,
 }
@@ -6,6 +6,7 @@ import type { ServiceRequest, ServiceResponse } from '@/types'
 import { ServerError } from '@/errors'
 import { UserAttribute, SnapshotBlame } from '@/models/attribute'
 import { provider as attributes } from '@/provider/data/users/attributes'
+import { service as scripts } from '@/services/scripts'
 
 /**
  * The payload needed to make a request to list/find a user's attributes.
@@ -38,8 +39,7 @@ const find = async (
 	request: ServiceRequest<ListOrFindUserAttributesPayload & { userId: string }>,
 ): Promise<ServiceResponse<ListOrFindUserAttributesResponse>> => {
 	try {
-		attributes.userId = request.data.userId
-		const foundUserAttributes = await attributes.find(
+		const foundUserAttributes = await attributes(request.data.userId).find(
 			request.data.value
 				? [
 						{
@@ -99,8 +99,7 @@ const create = async (
 	request: ServiceRequest<CreateUserAttributePayload & { userId: string }>,
 ): Promise<ServiceResponse<CreateUserAttributeResponse>> => {
 	try {
-		attributes.userId = request.data.userId
-		const attribute = await attributes.create(
+		const attribute = await attributes(request.data.userId).create(
 			new UserAttribute(
 				request.data.id,
 				request.data.value,
@@ -115,6 +114,11 @@ const create = async (
 				request.data.userId,
 			),
 		)
+		// Re-run the scripts that use the attribute
+		await scripts.runDependents({
+			context: request.context,
+			data: { userId: request.data.userId, attributes: [attribute.id] },
+		})
 
 		const data = { attribute }
 		return {
@@ -150,8 +154,9 @@ const get = async (
 	request: ServiceRequest<{ userId: string; attributeId: string }>,
 ): Promise<ServiceResponse<RetrieveUserAttributeResponse>> => {
 	try {
-		attributes.userId = request.data.userId
-		const attribute = await attributes.get(request.data.attributeId)
+		const attribute = await attributes(request.data.userId).get(
+			request.data.attributeId,
+		)
 
 		const data = { attribute }
 		return {
@@ -201,8 +206,9 @@ const update = async (
 	>,
 ): Promise<ServiceResponse<UpdateUserAttributeResponse>> => {
 	try {
-		attributes.userId = request.data.userId
-		const attribute = await attributes.get(request.data.attributeId)
+		const attribute = await attributes(request.data.userId).get(
+			request.data.attributeId,
+		)
 
 		attribute.value = request.data.value
 		attribute.history.push({
@@ -211,7 +217,12 @@ const update = async (
 			timestamp: new Date(),
 			message: request.data.message ?? null, // Firebase doesn't like `undefined`
 		})
-		await attributes.update(attribute)
+		await attributes(request.data.userId).update(attribute)
+		// Re-run the scripts that use the attribute
+		await scripts.runDependents({
+			context: request.context,
+			data: { userId: request.data.userId, attributes: [attribute.id] },
+		})
 
 		const data = { attribute }
 		return {
@@ -237,8 +248,7 @@ const _delete = async (
 	request: ServiceRequest<{ userId: string; attributeId: string }>,
 ): Promise<ServiceResponse<unknown>> => {
 	try {
-		attributes.userId = request.data.userId
-		await attributes.delete(request.data.attributeId)
+		await attributes(request.data.userId).delete(request.data.attributeId)
 
 		const data = {}
 		return {
@@ -150,9 +150,11 @@ const create = authService.signUp
  *
  * @typedef {object} UpdateUserPayload
  * @property {string} name.required - The user's name.
+ * @property {string} locale - The locale the user would like to see conversations and reports in (e.g. `hi` or `pt-BR`).
  */
 export type UpdateUserPayload = {
 	name: string
+	locale?: string
 }
 
 /**
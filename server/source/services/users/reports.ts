@@ -1,86 +1,331 @@
 // @/services/users/reports.ts
-// Service that handles user report search, creation, modification, deletion operations.
+// Service that renders reports for a user, and saves snapshots of them.
 
 import { Buffer } from 'node:buffer'
 
-import { render } from 'ejs'
-
 import type { ServiceRequest, ServiceResponse } from '@/types'
 
 import { ServerError } from '@/errors'
-import { Attribute } from '@/models/attribute'
-import { provider as users } from '@/provider/data/users'
-import { provider as attributes } from '@/provider/data/attributes'
-import { provider as userAttributes } from '@/provider/data/users/attributes'
+import { ReportSnapshot } from '@/models/report'
 import { provider as reports } from '@/provider/data/reports'
+import { provider as snapshots } from '@/provider/data/users/snapshots'
+import { generateId } from '@/utilities'
+import { parseLocales, translate } from '@/utilities/locale'
+import { renderPdf } from '@/utilities/pdf'
+import {
+	inputAsOf,
+	renderTemplate,
+	TemplateContextBuilder,
+} from '@/utilities/templates'
+
+import type { Report } from '@/models/report'
+import type { User } from '@/models/user'
+import type { TemplateInput } from '@/utilities/templates'
+
+/**
+ * Parses the time to render a report as of, if one was passed.
+ *
+ * @param {string | undefined} asOf - The time passed by the client.
+ *
+ * @returns {Date | undefined} - The parsed time.
+ * @throws {ServerError} - 'improper-payload'
+ */
+const parseAsOf = (asOf?: string): Date | undefined => {
+	if (typeof asOf === 'undefined') return undefined
+
+	const time = new Date(asOf)
+	if (Number.isNaN(time.getTime()))
+		throw new ServerError(
+			'improper-payload',
+			`Could not parse ${asOf} as a time to render the report as of.`,
+		)
+	if (time.getTime() > Date.now())
+		throw new ServerError(
+			'improper-payload',
+			'Reports cannot be rendered as of a time in the future.',
+		)
+
+	return time
+}
+
+/**
+ * Renders a report for a user, with the user's attributes as they are now, or
+ * as they were at a certain time. The user's details (such as their name) are
+ * always the current ones, as their history is not recorded.
+ *
+ * @param {string} reportId - The ID of the report to render.
+ * @param {string} userId - The ID of the user to render the report for.
+ * @param {Date | undefined} asOf - The time to render the user's attributes as of.
+ * @param {string[]} locales - The languages to render the report in, most preferred first.
+ *
+ * @returns {object} - The report, the user, the attributes the report was rendered with and the rendered HTML.
+ * @throws {ServerError} - 'entity-not-found' | 'precondition-failed' | 'backend-error'
+ */
+const renderReport = async (
+	reportId: string,
+	userId: string,
+	asOf: Date | undefined,
+	locales: string[],
+): Promise<{
+	report: Report
+	user: User
+	input: TemplateInput
+	html: string
+}> => {
+	// Fetch the report to render
+	const report = await reports.get(reportId)
+	if (report.kind === 'group')
+		throw new ServerError(
+			'precondition-failed',
+			'This report can only be rendered for a group.',
+		)
+
+	// Fetch the user's details and the attributes the report needs, all at
+	// once, winding the attributes back to the given time if needed, and check
+	// that the required ones exist
+	const templates = new TemplateContextBuilder(userId)
+	const user = await templates.user()
+	const currentInput = await templates.input(report.input.map(({ id }) => id))
+	const input = asOf ? inputAsOf(currentInput, asOf) : currentInput
+	for (const { id, optional } of report.input)
+		if (!input[id] && !optional)
+			throw new ServerError(
+				'precondition-failed',
+				asOf
+					? `The user did not have the required attribute ${id} at ${asOf.toISOString()}.`
+					: `Could not find the required attribute ${id} for the user.`,
+			)
+
+	// Pick the template in the language the requesting user would like to
+	// read the report in, and decode it (it is stored in base64)
+	const template = translate(report.template, report.translations, locales)
+	report.template = Buffer.from(template, 'base64').toString('utf8')
+
+	// Render the report HTML
+	const html = await renderTemplate(report.template, report.engine, {
+		input,
+		user,
+	})
+
+	return { report, user, input, html }
+}
 
 /**
- * The HTML report rendered by the retrieve report endpoint.
+ * The payload needed to render a report for a user.
+ *
+ * @typedef {object} RetrieveUserReportPayload
+ * @property {string} format - The format to render the report in. Defaults to `html`, unless the `Accept` header asks for `application/pdf`. - enum:html,pdf
+ * @property {string} asOf - Render the report with the user's attributes as they were at this time, instead of as they are now. - date-time
+ */
+export type RetrieveUserReportPayload = {
+	format?: 'html' | 'pdf'
+	asOf?: string
+}
+
+/**
+ * The report rendered by the retrieve report endpoint, as HTML or a PDF
+ * document.
  *
  * @typedef {string} RetrieveUserReportResponse
  */
-export type RetrieveUserReportResponse = string
+export type RetrieveUserReportResponse = string | Buffer
 
 /**
  * Method to retrieve an report for a user.
  *
  * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
  *
- * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the rendered report as HTML.
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the rendered report as HTML, or as a PDF document if asked for.
  */
 const get = async (
-	request: ServiceRequest<{ userId: string; reportId: string }>,
+	request: ServiceRequest<
+		RetrieveUserReportPayload & { userId: string; reportId: string }
+	>,
 ): Promise<ServiceResponse<RetrieveUserReportResponse>> => {
 	try {
-		// Fetch the report to render
-		const report = await reports.get(request.data.reportId)
-		// Fetch the user's details
-		const user = await users.get(request.data.userId)
-
-		userAttributes.userId = request.data.userId
-
-		// Go through the input attributes and check if they exist
-		const input: Record<
-			string,
-			Attribute & { value: string | number | boolean }
-		> = {}
-		for (const { id, optional } of report.input) {
-			try {
-				const { value } = await userAttributes.get(id)
-				const attribute = await attributes.get(id)
-				input[id] = {
-					...attribute,
-					value,
-				}
-			} catch (error: unknown) {
-				// If we can't find the attribute for the user, and it is a required attribute,
-				// throw a Precondition Failed error.
-				if ((error as ServerError).code === 'entity-not-found') {
-					if (optional) continue
-					else
-						throw new ServerError(
-							'precondition-failed',
-							`Could not find the required attribute ${id} for the user.`,
-						)
-				}
-			}
+		const asOf = parseAsOf(request.data.asOf)
+		const { report, user, html } = await renderReport(
+			request.data.reportId,
+			request.data.userId,
+			asOf,
+			parseLocales(request.context?.locale, request.context?.user.locale),
+		)
+
+		// Print the report to a PDF if asked to, with the report's name and the
+		// user's name on every page
+		const generated = `Generated on ${new Date().toUTCString()}`
+		const data =
+			request.data.format === 'pdf'
+				? await renderPdf(html, {
+						title: report.name,
+						subtitle: user.name,
+						footer: asOf
+							? `${generated}, as of ${asOf.toUTCString()}`
+							: generated,
+				  })
+				: html
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		console.trace(error)
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The payload needed to save a snapshot of a report.
+ *
+ * @typedef {object} CreateReportSnapshotPayload
+ * @property {string} asOf - Render the report with the user's attributes as they were at this time. Defaults to now. - date-time
+ */
+export type CreateReportSnapshotPayload = {
+	asOf?: string
+}
+
+/**
+ * The response from the create report snapshot endpoint.
+ *
+ * @typedef {object} CreateReportSnapshotResponse
+ * @property {ReportSnapshot} snapshot.required - The saved snapshot.
+ */
+export type CreateReportSnapshotResponse = {
+	snapshot: ReportSnapshot
+}
+
+/**
+ * Method to render a report for a user, and save it as a snapshot.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the saved snapshot.
+ */
+const createSnapshot = async (
+	request: ServiceRequest<
+		CreateReportSnapshotPayload & { userId: string; reportId: string }
+	>,
+): Promise<ServiceResponse<CreateReportSnapshotResponse>> => {
+	try {
+		const created = new Date()
+		const asOf = parseAsOf(request.data.asOf)
+		const { report, input, html } = await renderReport(
+			request.data.reportId,
+			request.data.userId,
+			asOf,
+			parseLocales(request.context?.locale, request.context?.user.locale),
+		)
+
+		// Store the values the report was rendered with along with the HTML, so
+		// that snapshots can be compared value by value
+		const values: ReportSnapshot['input'] = {}
+		for (const [id, { value }] of Object.entries(input)) values[id] = value
+
+		const snapshot = await snapshots(request.data.userId).create(
+			new ReportSnapshot(
+				generateId(),
+				report.id,
+				report.name,
+				asOf ?? created,
+				created,
+				request.context!.user.id,
+				values,
+				html,
+				request.data.userId,
+			),
+		)
+
+		const data = { snapshot }
+		return {
+			status: 201,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+/**
+ * The response from the list report snapshots endpoint.
+ *
+ * @typedef {object} ListReportSnapshotsResponse
+ * @property {array<ReportSnapshot>} snapshots.required - The snapshots saved of the report for the user, latest first.
+ */
+export type ListReportSnapshotsResponse = {
+	snapshots: ReportSnapshot[]
+}
+
+/**
+ * Method to list the snapshots saved of a report for a user.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the snapshots of the report.
+ */
+const findSnapshots = async (
+	request: ServiceRequest<{ userId: string; reportId: string }>,
+): Promise<ServiceResponse<ListReportSnapshotsResponse>> => {
+	try {
+		const foundSnapshots = await snapshots(request.data.userId).find([
+			{ field: 'report', operator: '==', value: request.data.reportId },
+		])
+
+		const data = { snapshots: foundSnapshots }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
 		}
+	}
+}
 
-		// Decode the script (it is stored in base64)
-		report.template = Buffer.from(report.template, 'base64').toString('ascii')
+/**
+ * The response from the retrieve report snapshot endpoint.
+ *
+ * @typedef {object} RetrieveReportSnapshotResponse
+ * @property {ReportSnapshot} snapshot.required - The requested snapshot.
+ */
+export type RetrieveReportSnapshotResponse = {
+	snapshot: ReportSnapshot
+}
 
-		// Render the report HTML
-		const html = render(report.template, {
-			context: { input, user },
-		})
+/**
+ * Method to retrieve a snapshot saved of a report for a user.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the requested snapshot.
+ */
+const getSnapshot = async (
+	request: ServiceRequest<{
+		userId: string
+		reportId: string
+		snapshotId: string
+	}>,
+): Promise<ServiceResponse<RetrieveReportSnapshotResponse>> => {
+	try {
+		const snapshot = await snapshots(request.data.userId).get(
+			request.data.snapshotId,
+		)
+		if (snapshot.report !== request.data.reportId)
+			throw new ServerError('entity-not-found')
 
-		const data = html
+		const data = { snapshot }
 		return {
 			status: 200,
 			data,
 		}
 	} catch (error: unknown) {
-		console.trace(error)
 		return {
 			error:
 				error instanceof ServerError ? error : new ServerError('server-crash'),
@@ -91,4 +336,7 @@ const get = async (
 // Export the functions
 export const service = {
 	get,
+	createSnapshot,
+	findSnapshots,
+	getSnapshot,
 }
@@ -0,0 +1,77 @@
+// @/services/users/runs.ts
+// Service that handles searching through the scripts run for a user.
+
+import type { ServiceRequest, ServiceResponse, Query } from '@/types'
+
+import { ServerError } from '@/errors'
+import { ScriptRun } from '@/models/script'
+import { provider as runs } from '@/provider/data/scripts/runs'
+
+/**
+ * The payload needed to make a request to list/find the scripts run for a user.
+ *
+ * @typedef {object} ListOrFindUserScriptRunsPayload
+ * @property {string} script - The run should be of this script.
+ * @property {boolean} failed - Whether the run should have failed or not.
+ */
+export type ListOrFindUserScriptRunsPayload = {
+	script?: string
+	failed?: boolean
+}
+
+/**
+ * The response from the list/find user script runs endpoint.
+ *
+ * @typedef {object} ListOrFindUserScriptRunsResponse
+ * @property {array<ScriptRun>} runs.required - The runs returned from the query, latest first.
+ */
+export type ListOrFindUserScriptRunsResponse = {
+	runs: ScriptRun[]
+}
+
+/**
+ * Method to list/find the scripts run for a user.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the runs that match the query.
+ */
+const find = async (
+	request: ServiceRequest<ListOrFindUserScriptRunsPayload & { userId: string }>,
+): Promise<ServiceResponse<ListOrFindUserScriptRunsResponse>> => {
+	try {
+		const query: Array<Query<ScriptRun>> = [
+			{ field: 'user', operator: '==', value: request.data.userId },
+		]
+		if (request.data.script)
+			query.push({
+				field: 'script',
+				operator: '==',
+				value: request.data.script,
+			})
+
+		let foundRuns = await runs.find(query)
+		// Successful runs do not have the `error` field set at all, so filter
+		// them here instead of in the query
+		if (typeof request.data.failed !== 'undefined') {
+			const failed = String(request.data.failed) === 'true'
+			foundRuns = foundRuns.filter((run) => Boolean(run.error) === failed)
+		}
+
+		const data = { runs: foundRuns }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	find,
+}
@@ -0,0 +1,77 @@
+// @/services/users/sessions.ts
+// Service that handles user conversation session search operations.
+
+import type { ServiceRequest, ServiceResponse, Query } from '@/types'
+
+import { ServerError } from '@/errors'
+import { ConversationSession } from '@/models/session'
+import { provider as sessions } from '@/provider/data/users/sessions'
+
+/**
+ * The payload needed to make a request to list/find a user's sessions.
+ *
+ * @typedef {object} ListOrFindUserSessionsPayload
+ * @property {string} conversation - The session should have been started in this conversation.
+ * @property {boolean} finished - Whether the session should be finished or not.
+ */
+export type ListOrFindUserSessionsPayload = {
+	conversation?: string
+	finished?: boolean
+}
+
+/**
+ * The response from the list/find user sessions endpoint.
+ *
+ * @typedef {object} ListOrFindUserSessionsResponse
+ * @property {array<ConversationSession>} sessions.required - The sessions returned from the query.
+ */
+export type ListOrFindUserSessionsResponse = {
+	sessions: ConversationSession[]
+}
+
+/**
+ * Method to list/find a user's conversation sessions.
+ *
+ * @param {ServiceRequest} request - The request consisting of payload required to perform this operation.
+ *
+ * @returns {ServiceResponse} - The response from the data provider. If successful, the service will return the sessions that match the query.
+ */
+const find = async (
+	request: ServiceRequest<ListOrFindUserSessionsPayload & { userId: string }>,
+): Promise<ServiceResponse<ListOrFindUserSessionsResponse>> => {
+	try {
+		const query: Array<Query<ConversationSession>> = []
+		if (request.data.conversation)
+			query.push({
+				field: 'conversation',
+				operator: '==',
+				value: request.data.conversation,
+			})
+
+		let foundSessions = await sessions(request.data.userId).find(query)
+		// Unfinished sessions do not have the `finished` field set at all, so
+		// filter them here instead of in the query
+		if (typeof request.data.finished !== 'undefined') {
+			const finished = String(request.data.finished) === 'true'
+			foundSessions = foundSessions.filter(
+				(session) => Boolean(session.finished) === finished,
+			)
+		}
+
+		const data = { sessions: foundSessions }
+		return {
+			status: 200,
+			data,
+		}
+	} catch (error: unknown) {
+		return {
+			error:
+				error instanceof ServerError ? error : new ServerError('server-crash'),
+		}
+	}
+}
+
+// Export the functions
+export const service = {
+	find,
+}
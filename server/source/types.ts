@@ -125,8 +125,9 @@ export declare type CustomClaims = {
  */
 export declare type ServiceRequest<D> = {
 	/**
-	 * The metadata of the request, i.e., who is making the request, and their
-	 * rate limit data.
+	 * The metadata of the request, i.e., who is making the request, their rate
+	 * limit data, and the languages they would like the response in (the value
+	 * of the `Accept-Language` header).
 	 */
 	context?: {
 		user: User & {
@@ -134,6 +135,7 @@ export declare type ServiceRequest<D> = {
 			token: string
 		}
 		rate: RateLimitInfo
+		locale?: string
 	}
 
 	/**
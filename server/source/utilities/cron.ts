@@ -0,0 +1,172 @@
+// @/utilities/cron.ts
+// Parses cron expressions and works out when they are next due.
+
+/**
+ * The values each field of a cron expression can take, in order.
+ */
+const fields = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of the month', min: 1, max: 31 },
+	{ name: 'month', min: 1, max: 12 },
+	{ name: 'day of the week', min: 0, max: 6 },
+] as const
+
+/**
+ * Shorthands for common expressions, used as `@daily`, etc.
+ */
+const aliases: Record<string, string> = {
+	hourly: '0 * * * *',
+	daily: '0 0 * * *',
+	midnight: '0 0 * * *',
+	weekly: '0 0 * * 0',
+	monthly: '0 0 1 * *',
+	yearly: '0 0 1 1 *',
+	annually: '0 0 1 1 *',
+}
+
+/**
+ * A parsed cron expression: the minutes, hours, days of the month, months and
+ * days of the week it is due on.
+ */
+export type CronSchedule = {
+	minutes: Set<number>
+	hours: Set<number>
+	days: Set<number>
+	months: Set<number>
+	weekdays: Set<number>
+	// Whether the days of the month and week are unrestricted (`*`), as a time
+	// is due if it matches either of them when both are restricted.
+	anyDay: boolean
+	anyWeekday: boolean
+}
+
+/**
+ * Parses a single field of a cron expression, i.e., a comma-separated list of
+ * values (`5`), ranges (`1-5`) or wildcards (`*`), each optionally followed by
+ * a step (`*\/15`).
+ *
+ * @param {string} field - The field to parse.
+ * @param {typeof fields[number]} bounds - The values the field can take.
+ *
+ * @returns {Set<number>} - The values the field matches.
+ * @throws {Error} - If the field is invalid.
+ */
+const parseField = (
+	field: string,
+	bounds: typeof fields[number],
+): Set<number> => {
+	const values = new Set<number>()
+	for (const part of field.split(',')) {
+		const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+		if (!match)
+			throw new Error(`The ${bounds.name} field (${field}) is invalid.`)
+
+		const [, range, start, end, step] = match
+		const from = range === '*' ? bounds.min : Number(start)
+		const to =
+			range === '*'
+				? bounds.max
+				: typeof end === 'undefined'
+				? typeof step === 'undefined'
+					? from
+					: bounds.max
+				: Number(end)
+		const by = typeof step === 'undefined' ? 1 : Number(step)
+		if (from < bounds.min || to > bounds.max || from > to || by < 1)
+			throw new Error(
+				`The ${bounds.name} field (${field}) must be between ${bounds.min} and ${bounds.max}.`,
+			)
+
+		for (let value = from; value <= to; value += by) values.add(value)
+	}
+
+	return values
+}
+
+/**
+ * Parses a cron expression with five fields (minute, hour, day of the month,
+ * month and day of the week), or one of the `@daily`-style shorthands.
+ *
+ * @param {string} expression - The expression to parse.
+ *
+ * @returns {CronSchedule} - The parsed schedule.
+ * @throws {Error} - If the expression is invalid.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+	const alias = expression.trim().startsWith('@')
+		? aliases[expression.trim().slice(1)]
+		: undefined
+	const parts = (alias ?? expression).trim().split(/\s+/)
+	if (parts.length !== fields.length)
+		throw new Error(
+			`A cron expression must have ${fields.length} fields (minute, hour, day of the month, month and day of the week), but "${expression}" has ${parts.length}.`,
+		)
+
+	const [minutes, hours, days, months, weekdays] = parts.map((part, index) =>
+		parseField(part, fields[index]),
+	)
+	return {
+		minutes,
+		hours,
+		days,
+		months,
+		weekdays,
+		anyDay: parts[2] === '*',
+		anyWeekday: parts[4] === '*',
+	}
+}
+
+/**
+ * Works out when a schedule is next due after a certain time. Schedules are
+ * in UTC, and due at the start of the minute.
+ *
+ * @param {CronSchedule} schedule - The schedule.
+ * @param {Date} after - The time after which to find the next run.
+ *
+ * @returns {Date} - The time the schedule is next due.
+ * @throws {Error} - If the schedule is never due (e.g., on the 31st of February).
+ */
+export const nextRun = (schedule: CronSchedule, after: Date): Date => {
+	const time = new Date(after)
+	time.setUTCSeconds(0, 0)
+	time.setUTCMinutes(time.getUTCMinutes() + 1)
+
+	// Skip ahead a month, day, hour or minute at a time until every field
+	// matches. A schedule that matches nothing in eight years never will.
+	const limit = new Date(after)
+	limit.setUTCFullYear(limit.getUTCFullYear() + 8)
+	while (time.getTime() < limit.getTime()) {
+		if (!schedule.months.has(time.getUTCMonth() + 1)) {
+			time.setUTCMonth(time.getUTCMonth() + 1, 1)
+			time.setUTCHours(0, 0)
+			continue
+		}
+
+		const dayMatches = schedule.days.has(time.getUTCDate())
+		const weekdayMatches = schedule.weekdays.has(time.getUTCDay())
+		const matches =
+			schedule.anyDay || schedule.anyWeekday
+				? dayMatches && weekdayMatches
+				: dayMatches || weekdayMatches
+		if (!matches) {
+			time.setUTCDate(time.getUTCDate() + 1)
+			time.setUTCHours(0, 0)
+			continue
+		}
+
+		if (!schedule.hours.has(time.getUTCHours())) {
+			time.setUTCHours(time.getUTCHours() + 1, 0)
+			continue
+		}
+
+		if (!schedule.minutes.has(time.getUTCMinutes())) {
+			time.setUTCMinutes(time.getUTCMinutes() + 1)
+			continue
+		}
+
+		return time
+	}
+
+	throw new Error('The schedule is never due.')
+}
@@ -0,0 +1,118 @@
+// @/utilities/dependencies.ts
+// Works out which scripts depend on which, through the attributes they compute and use.
+
+import { Script } from '@/models/script'
+
+/**
+ * The parts of a script needed to work out what it depends on.
+ */
+export type ScriptDependencies = Pick<Script, 'id' | 'input' | 'computed'>
+
+/**
+ * Lists the scripts that use the attributes computed by a script, i.e., the
+ * scripts that must be re-run when it runs. A script that uses an attribute it
+ * computes itself (say, to count the number of times it has run) is not its
+ * own dependent, as it would otherwise re-run itself forever.
+ *
+ * @param {ScriptDependencies} script - The script whose dependents to find.
+ * @param {ScriptDependencies[]} scripts - All the scripts.
+ *
+ * @returns {ScriptDependencies[]} - The dependent scripts.
+ */
+const dependents = <T extends ScriptDependencies>(
+	script: ScriptDependencies,
+	scripts: T[],
+): T[] =>
+	scripts.filter(
+		(other) =>
+			other.id !== script.id &&
+			other.input.some(({ id }) =>
+				script.computed.some((attribute) => attribute.id === id),
+			),
+	)
+
+/**
+ * Finds a cycle in the script dependency graph, i.e., a set of scripts that
+ * would keep re-running each other whenever one of them runs.
+ *
+ * @param {ScriptDependencies[]} scripts - All the scripts.
+ *
+ * @returns {string[] | undefined} - The IDs of the scripts in the cycle, starting and ending with the same script, or `undefined` if there is none.
+ */
+export const findCycle = (
+	scripts: ScriptDependencies[],
+): string[] | undefined => {
+	// Walk the graph depth first, keeping track of the scripts on the current
+	// path. Coming across one of them again means there is a cycle.
+	const visited = new Set<string>()
+	const path: string[] = []
+	const visit = (script: ScriptDependencies): string[] | undefined => {
+		const index = path.indexOf(script.id)
+		if (index !== -1) return [...path.slice(index), script.id]
+		if (visited.has(script.id)) return undefined
+
+		visited.add(script.id)
+		path.push(script.id)
+		for (const dependent of dependents(script, scripts)) {
+			const cycle = visit(dependent)
+			if (cycle) return cycle
+		}
+
+		path.pop()
+		return undefined
+	}
+
+	for (const script of scripts) {
+		const cycle = visit(script)
+		if (cycle) return cycle
+	}
+
+	return undefined
+}
+
+/**
+ * Works out which scripts to run, and in what order, when certain attributes
+ * change for a user. Every script that uses one of the attributes, directly or
+ * through another script, is run exactly once, after all the scripts it
+ * depends on.
+ *
+ * @param {ScriptDependencies[]} scripts - All the scripts.
+ * @param {string[]} changed - The IDs of the attributes that changed.
+ *
+ * @returns {ScriptDependencies[]} - The scripts to run, in the order to run them in. Scripts caught in a cycle are left out.
+ */
+export const planRuns = <T extends ScriptDependencies>(
+	scripts: T[],
+	changed: string[],
+): T[] => {
+	// Find every script affected by the change
+	const affected = new Set<T>(
+		scripts.filter((script) =>
+			script.input.some(({ id }) => changed.includes(id)),
+		),
+	)
+	for (const script of affected)
+		for (const dependent of dependents(script, scripts)) affected.add(dependent)
+
+	// Then sort them so that scripts run only once all the affected scripts
+	// they depend on have
+	const waitingOn = new Map<T, number>(
+		[...affected].map((script) => [script, 0]),
+	)
+	for (const script of affected)
+		for (const dependent of dependents(script, [...affected]))
+			waitingOn.set(dependent, waitingOn.get(dependent)! + 1)
+
+	const plan: T[] = []
+	const ready = [...affected].filter((script) => waitingOn.get(script) === 0)
+	while (ready.length > 0) {
+		const script = ready.shift()!
+		plan.push(script)
+		for (const dependent of dependents(script, [...affected])) {
+			waitingOn.set(dependent, waitingOn.get(dependent)! - 1)
+			if (waitingOn.get(dependent) === 0) ready.push(dependent)
+		}
+	}
+
+	return plan
+}
@@ -0,0 +1,194 @@
+// @/utilities/javascript.ts
+// Helper functions to run javascript scripts.
+
+import { Worker } from 'node:worker_threads'
+
+import { ScriptExecutionError } from '@/errors'
+import { defaultLimits } from '@/utilities/lua'
+import { logger, stringify } from '@/utilities/logger'
+
+import type {
+	ScriptContext,
+	ScriptOptions,
+	ScriptOutput,
+} from '@/utilities/lua'
+
+/**
+ * The name of the file the script is loaded as, so stack traces read as
+ * `script:<line>:<column>`.
+ */
+const fileName = 'script'
+
+/**
+ * The code run in the worker thread. It runs the script in a fresh V8 context
+ * that cannot compile code from strings. Only strings (JSON) cross into and out
+ * of the context, so the script never holds an object from the worker's realm,
+ * through which it could reach `process` or `require`.
+ */
+const worker = `
+const { parentPort, workerData } = require('node:worker_threads')
+const { createContext, Script } = require('node:vm')
+
+const { code, context, fileName, time } = workerData
+const sandbox = createContext(Object.create(null), {
+	codeGeneration: { strings: false, wasm: false },
+	microtaskMode: 'afterEvaluate',
+})
+const options = { filename: fileName, timeout: time }
+const run = (source, filename = 'runtime') =>
+	new Script(source, { filename }).runInContext(sandbox, { timeout: time })
+
+const describe = (error) => {
+	const message = String(error?.message ?? error)
+	const stack = String(error?.stack ?? '')
+	const match = new RegExp(fileName + ':(\\\\d+)').exec(stack)
+	const line = match ? Number(match[1]) : undefined
+	return error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+		? { code: 'timeout', message: 'ran for longer than ' + time + ' ms', line }
+		: { code: 'error', message, line }
+}
+
+let result
+try {
+	run('globalThis.__logs = []; globalThis.log = (message) => { __logs.push(typeof message === "string" ? message : JSON.stringify(message)) }')
+	new Script(code, options).runInContext(sandbox, options)
+	// Only plain objects survive the trip back as JSON, so reject anything
+	// else (an async \`compute\` would otherwise quietly turn into \`{}\`)
+	result = {
+		output: run(
+			'(() => {' +
+				'if (typeof compute !== "function") throw new Error("The script does not define a \`compute\` function.");' +
+				'const output = compute(JSON.parse(' + JSON.stringify(context) + ')) ?? {};' +
+				'if (typeof output.then === "function") throw new Error("The \`compute\` function returned a promise, but it must return its output directly, so it cannot be async.");' +
+				'const prototype = typeof output === "object" ? Object.getPrototypeOf(output) : undefined;' +
+				'if (prototype !== Object.prototype && prototype !== null) throw new Error("The \`compute\` function must return an object, but it returned " + (Array.isArray(output) ? "an array" : "a " + typeof output) + ".");' +
+				'return JSON.stringify(output)' +
+			'})()',
+		),
+	}
+} catch (error) {
+	result = { error: describe(error) }
+}
+
+try {
+	result.logs = JSON.parse(run('JSON.stringify(__logs)'))
+} catch {
+	result.logs = []
+}
+
+parentPort.postMessage(result)
+`
+
+/**
+ * What the worker thread sends back once the script has run.
+ */
+type WorkerResult = {
+	output?: string
+	error?: {
+		code: 'error' | 'timeout' | 'memory'
+		message: string
+		line?: number
+	}
+	logs: string[]
+}
+
+/**
+ * Runs the javascript code passed to it for a certain user. The code must
+ * define a `compute(context)` function, which gets the same context and should
+ * return the same output as a lua script's, as a plain object (not a promise).
+ * The script runs in a worker thread
+ * with its own heap, in a context without access to node's APIs, and is
+ * stopped once it exceeds its time or memory limits. There is no equivalent of
+ * the instruction limit for javascript.
+ *
+ * @param code {string} - The code to run.
+ * @param context {ScriptContext} - Globals to pass to the script.
+ * @param options {ScriptOptions} - The limits to run the script with, and where to send its logs.
+ *
+ * @throws {ScriptExecutionError} - 'script-error' | 'script-timeout'
+ */
+export const runJavaScript = async (
+	code: string,
+	context: ScriptContext,
+	options: ScriptOptions = {},
+): Promise<ScriptOutput> => {
+	logger.info('[javascript/runner] running script with context')
+	const { limits = defaultLimits, log } = options
+
+	const result = await new Promise<WorkerResult>((resolve, reject) => {
+		const thread = new Worker(worker, {
+			eval: true,
+			// Pass the context as JSON, so dates become strings like they do for
+			// lua scripts
+			workerData: {
+				code,
+				context: JSON.stringify(context),
+				fileName,
+				time: limits.time,
+			},
+			env: {},
+			resourceLimits: {
+				maxOldGenerationSizeMb: Math.max(1, Math.ceil(limits.memory / 2 ** 20)),
+			},
+		})
+
+		// In case the script manages to hold up the worker beyond the time limit
+		// (say, in a long running built-in function), stop the thread itself
+		const timer = setTimeout(() => {
+			void thread.terminate()
+			resolve({
+				error: {
+					code: 'timeout',
+					message: `ran for longer than ${limits.time} ms`,
+				},
+				logs: [],
+			})
+		}, limits.time * 2)
+
+		thread.once('message', (message: WorkerResult) => {
+			clearTimeout(timer)
+			void thread.terminate()
+			resolve(message)
+		})
+		thread.once('error', (error: Error & { code?: string }) => {
+			clearTimeout(timer)
+			if (error.code === 'ERR_WORKER_OUT_OF_MEMORY')
+				resolve({
+					error: {
+						code: 'memory',
+						message: `used more than ${limits.memory} bytes of memory`,
+					},
+					logs: [],
+				})
+			else reject(error)
+		})
+	})
+
+	for (const message of result.logs) {
+		logger.silly('[javascript/script] %s', stringify(message))
+		log?.(message)
+	}
+
+	if (result.error) {
+		const { code, message, line } = result.error
+		if (code === 'timeout' || code === 'memory')
+			throw new ScriptExecutionError(
+				'script-timeout',
+				`The script was stopped${
+					line ? ` on line ${line}` : ''
+				} as it ${message}.`,
+				line,
+			)
+
+		throw new ScriptExecutionError(
+			'script-error',
+			line
+				? `The script failed on line ${line}: ${message}`
+				: `The script failed: ${message}`,
+			line,
+		)
+	}
+
+	logger.info('[javascript/runner] ran script successfully')
+	return JSON.parse(result.output ?? '{}') as ScriptOutput
+}
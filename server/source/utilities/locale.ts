@@ -0,0 +1,91 @@
+// @/utilities/locale.ts
+// Utility functions to pick the language to show text to a user in.
+
+import process from 'node:process'
+
+/**
+ * The locale that the untranslated text (such as `Question.text`) is written
+ * in. Translations are only needed for other locales.
+ */
+export const defaultLocale = process.env.DEFAULT_LOCALE ?? 'en'
+
+/**
+ * Works out the locales a user would like to see text in, most preferred
+ * first. The locale the user chose in their profile comes first, followed by
+ * the ones in the `Accept-Language` header sent by their client, and lastly
+ * the default locale.
+ *
+ * @param {string | undefined} header - The value of the `Accept-Language` header.
+ * @param {string | undefined} preference - The locale set in the user's profile.
+ *
+ * @returns {string[]} - The locales, most preferred first.
+ */
+export const parseLocales = (
+	header: string | undefined,
+	preference: string | undefined,
+): string[] => {
+	// Parse the header, e.g., `pt-BR,pt;q=0.9,en;q=0.8,*;q=0.5`
+	const requested = (header ?? '')
+		.split(',')
+		.map((part) => {
+			const [tag, ...parameters] = part.trim().split(';')
+			const quality = parameters
+				.map((parameter) => parameter.trim())
+				.find((parameter) => parameter.startsWith('q='))
+
+			return {
+				tag: tag.trim(),
+				quality: quality ? Number(quality.slice(2)) : 1,
+			}
+		})
+		.filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+		.sort((a, b) => b.quality - a.quality)
+		.map(({ tag }) => tag)
+
+	// If a regional locale (`pt-BR`) has no translation, the language (`pt`)
+	// might, so try that right after it
+	const locales: string[] = []
+	for (const locale of [preference, ...requested, defaultLocale]) {
+		if (!locale) continue
+
+		const [language] = locale.split('-')
+		for (const candidate of [locale, language])
+			if (!locales.includes(candidate.toLowerCase()))
+				locales.push(candidate.toLowerCase())
+	}
+
+	return locales
+}
+
+/**
+ * Picks the translation of a piece of text in the locale the user would most
+ * like to see it in, falling back to the untranslated text.
+ *
+ * @param {string} text - The untranslated text, written in the default locale.
+ * @param {Record<string, string> | undefined} translations - The text in other locales, keyed by locale.
+ * @param {string[]} locales - The locales the user would like to see the text in, most preferred first.
+ *
+ * @returns {string} - The text to show the user.
+ */
+export const translate = (
+	text: string,
+	translations: Record<string, string | undefined> | undefined,
+	locales: string[],
+): string => {
+	// Locales are not case sensitive
+	const available = new Map(
+		Object.entries(translations ?? {}).map(([locale, translation]) => [
+			locale.toLowerCase(),
+			translation,
+		]),
+	)
+
+	for (const locale of locales) {
+		if (locale === defaultLocale.toLowerCase()) return text
+
+		const translation = available.get(locale)
+		if (translation) return translation
+	}
+
+	return text
+}
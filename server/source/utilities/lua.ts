@@ -1,19 +1,19 @@
 // @/utilities/lua.ts
 // Helper functions to run lua scripts.
 
-// @ts-expect-error No type defs
-import { runWithGlobals } from 'flua'
-import redent from 'redent'
+import process from 'node:process'
+import { Worker } from 'node:worker_threads'
 
 import { User } from '@/models/user'
 import { UserAttribute } from '@/models/attribute'
 
+import { ScriptExecutionError } from '@/errors'
 import { logger, stringify } from '@/utilities/logger'
 
 /**
  * The context a script runs in.
  */
-interface ScriptContext {
+export interface ScriptContext {
 	// The user the script is running for.
 	user: User
 	// The input attributes required by the script.
@@ -23,7 +23,7 @@ interface ScriptContext {
 /**
  * The values the script has computed, that we need to store.
  */
-interface ScriptOutput {
+export interface ScriptOutput {
 	// The computed attributes
 	attributes?: Record<
 		string,
@@ -34,37 +34,481 @@ interface ScriptOutput {
 }
 
 /**
- * Runs the lua code passed to it for a certain user.
+ * The resources a script may use in a single run.
+ */
+export interface ScriptLimits {
+	// The number of Lua instructions the script may run.
+	instructions: number
+	// The time (in milliseconds) the script may run for.
+	time: number
+	// The memory (in bytes) the script may allocate.
+	memory: number
+}
+
+/**
+ * Options to run a script with.
+ */
+export interface ScriptOptions {
+	// The resources the script may use. Defaults to `defaultLimits`.
+	limits?: ScriptLimits
+	// Called with every message the script passes to `log()`, besides logging it.
+	log?: (message: string) => void
+}
+
+/**
+ * The limits scripts run with, unless overridden through the environment.
+ */
+export const defaultLimits: ScriptLimits = {
+	instructions: Number(process.env.SCRIPT_INSTRUCTION_LIMIT ?? 10_000_000),
+	time: Number(process.env.SCRIPT_TIME_LIMIT ?? 1000),
+	memory: Number(process.env.SCRIPT_MEMORY_LIMIT ?? 64 * 1024 * 1024),
+}
+
+/**
+ * The standard libraries (and the functions in them) that scripts may use. A
+ * library set to `true` is available in full. Anything that can reach outside
+ * the sandbox (`io`, `os.execute`, `require`, `load`, etc.) is left out.
+ */
+export const libraries: Record<string, string[] | true> = {
+	base: [
+		'_G',
+		'_VERSION',
+		'assert',
+		'error',
+		'getmetatable',
+		'ipairs',
+		'next',
+		'pairs',
+		'pcall',
+		'rawequal',
+		'rawget',
+		'rawlen',
+		'rawset',
+		'select',
+		'setmetatable',
+		'tonumber',
+		'tostring',
+		'type',
+		'xpcall',
+	],
+	math: true,
+	os: ['clock', 'date', 'difftime', 'time'],
+	string: [
+		'byte',
+		'char',
+		'find',
+		'format',
+		'gmatch',
+		'gsub',
+		'len',
+		'lower',
+		'match',
+		'pack',
+		'packsize',
+		'rep',
+		'reverse',
+		'sub',
+		'unpack',
+		'upper',
+	],
+	table: true,
+	utf8: true,
+}
+
+/**
+ * The name of the chunk the script is loaded as, so error messages read as
+ * `script:<line>: <message>`.
+ */
+const chunkName = 'script'
+
+/**
+ * The heap (in megabytes) the worker thread needs for fengari itself, on top
+ * of the memory the script may use.
+ */
+const runtimeHeap = 16
+
+/**
+ * The code run in the worker thread. It creates a Lua state with only the
+ * whitelisted standard libraries, and checks the script's limits every few
+ * instructions. A single call to a library function (say, `string.gsub` with
+ * a pathological pattern) can run for long or allocate a lot between two
+ * checks, which is why the script runs in a worker thread that is terminated
+ * once it runs past its time limit, and whose heap is capped.
+ */
+const worker = `
+const { parentPort, workerData } = require('node:worker_threads')
+const { lua, lauxlib, lualib, to_jsstring, to_luastring } = require('fengari')
+
+const { code, context, chunkName, libraries, limits } = workerData
+
+// How many instructions to run between checks of the script's limits
+const checkInterval = 1000
+// The deepest a table passed to or returned from a script may be nested
+const maximumDepth = 32
+
+const openers = {
+	base: lualib.luaopen_base,
+	math: lualib.luaopen_math,
+	os: lualib.luaopen_os,
+	string: lualib.luaopen_string,
+	table: lualib.luaopen_table,
+	utf8: lualib.luaopen_utf8,
+}
+
+// Converts a JS value into a Lua value and pushes it onto the stack
+const push = (state, value, depth = 0) => {
+	if (value === undefined || value === null || depth > maximumDepth) {
+		lua.lua_pushnil(state)
+	} else if (typeof value === 'boolean') {
+		lua.lua_pushboolean(state, value)
+	} else if (typeof value === 'number') {
+		lua.lua_pushnumber(state, value)
+	} else if (typeof value === 'string') {
+		lua.lua_pushstring(state, to_luastring(value))
+	} else if (Array.isArray(value)) {
+		lua.lua_createtable(state, value.length, 0)
+		for (const [index, item] of value.entries()) {
+			push(state, item, depth + 1)
+			lua.lua_rawseti(state, -2, index + 1)
+		}
+	} else if (typeof value === 'object') {
+		lua.lua_createtable(state, 0, 0)
+		for (const [key, item] of Object.entries(value)) {
+			push(state, item, depth + 1)
+			lua.lua_setfield(state, -2, to_luastring(key))
+		}
+	} else {
+		lua.lua_pushnil(state)
+	}
+}
+
+// Converts the Lua value at the given index of the stack into a JS value.
+// Tables whose keys are 1..n become arrays, other tables become objects.
+const pull = (state, index, depth = 0) => {
+	const absolute = lua.lua_absindex(state, index)
+	switch (lua.lua_type(state, absolute)) {
+		case lua.LUA_TBOOLEAN:
+			return lua.lua_toboolean(state, absolute)
+		case lua.LUA_TNUMBER:
+			return lua.lua_tonumber(state, absolute)
+		case lua.LUA_TSTRING:
+			return lua.lua_tojsstring(state, absolute)
+		case lua.LUA_TTABLE: {
+			if (depth >= maximumDepth)
+				throw {
+					code: 'error',
+					message: 'The script returned a table nested more than ' + maximumDepth + ' levels deep.',
+				}
+
+			const entries = []
+			lua.lua_pushnil(state)
+			while (lua.lua_next(state, absolute) !== 0) {
+				const key =
+					lua.lua_type(state, -2) === lua.LUA_TNUMBER
+						? lua.lua_tonumber(state, -2)
+						: lua.lua_tojsstring(state, -2)
+				entries.push([key, pull(state, -1, depth + 1)])
+				lua.lua_pop(state, 1)
+			}
+
+			const isArray =
+				entries.length > 0 &&
+				entries.every(([key]) => typeof key === 'number') &&
+				entries.every((_entry, position) =>
+					entries.some(([key]) => key === position + 1),
+				)
+			if (isArray)
+				return entries.sort(([a], [b]) => a - b).map(([_key, value]) => value)
+
+			return Object.fromEntries(entries)
+		}
+
+		default:
+			// Functions, userdata and threads cannot leave the sandbox
+			return undefined
+	}
+}
+
+const state = lauxlib.luaL_newstate()
+for (const [name, allowed] of Object.entries(libraries)) {
+	// The base library's functions are globals
+	lauxlib.luaL_requiref(
+		state,
+		to_luastring(name === 'base' ? '_G' : name),
+		openers[name],
+		1,
+	)
+
+	// Remove everything from the library that is not whitelisted
+	if (allowed !== true) {
+		const disallowed = []
+		lua.lua_pushnil(state)
+		while (lua.lua_next(state, -2) !== 0) {
+			lua.lua_pop(state, 1)
+			const key = lua.lua_tojsstring(state, -1)
+			if (!allowed.includes(key)) disallowed.push(key)
+		}
+
+		for (const key of disallowed) {
+			lua.lua_pushnil(state)
+			lua.lua_setfield(state, -2, to_luastring(key))
+		}
+	}
+
+	lua.lua_pop(state, 1)
+}
+
+// string.rep can build a huge string in a single instruction, before we get a
+// chance to check the script's memory usage, so check the size first
+lua.lua_getglobal(state, to_luastring('string'))
+lua.lua_getfield(state, -1, to_luastring('rep'))
+lua.lua_pushcclosure(
+	state,
+	(state) => {
+		const { length } = lauxlib.luaL_checklstring(state, 1)
+		const count = lauxlib.luaL_checkinteger(state, 2)
+		const separator = lauxlib.luaL_optlstring(state, 3, to_luastring(''))
+		if ((length + separator.length) * count > limits.memory)
+			return lauxlib.luaL_error(state, to_luastring('resulting string too large'))
+
+		lua.lua_pushvalue(state, lua.lua_upvalueindex(1))
+		lua.lua_insert(state, 1)
+		lua.lua_call(state, lua.lua_gettop(state) - 1, 1)
+		return 1
+	},
+	1,
+)
+lua.lua_setfield(state, -2, to_luastring('rep'))
+lua.lua_pop(state, 1)
+
+// Send every message the script logs back as it is logged, so they are not
+// lost if the script is stopped
+lua.lua_pushjsfunction(state, (state) => {
+	const message = pull(state, 1)
+	parentPort.postMessage({
+		log: typeof message === 'string' ? message : JSON.stringify(message),
+	})
+	return 0
+})
+lua.lua_setglobal(state, to_luastring('log'))
+
+// Check the script's limits every few instructions. Lua strings are typed
+// arrays, so count the memory held by array buffers along with the heap.
+const memory = () => {
+	const { heapUsed, arrayBuffers } = process.memoryUsage()
+	return heapUsed + arrayBuffers
+}
+const started = Date.now()
+const memoryBefore = memory()
+let instructions = 0
+let exceeded
+const hook = (state, ar) => {
+	if (!exceeded) {
+		instructions += checkInterval
+		const limit =
+			instructions > limits.instructions
+				? { code: 'timeout', message: 'ran more than ' + limits.instructions + ' instructions' }
+				: Date.now() - started > limits.time
+				? { code: 'timeout', message: 'ran for longer than ' + limits.time + ' ms' }
+				: memory() - memoryBefore > limits.memory
+				? { code: 'memory', message: 'used more than ' + limits.memory + ' bytes of memory' }
+				: undefined
+		if (!limit) return
+
+		lua.lua_getinfo(state, to_luastring('l'), ar)
+		const line = ar.currentline > 0 ? ar.currentline : undefined
+		exceeded = { ...limit, line }
+
+		// Raise the error on every instruction from now on, so the script
+		// cannot carry on by catching it with pcall
+		lua.lua_sethook(state, hook, lua.LUA_MASKCOUNT, 1)
+	}
+
+	lauxlib.luaL_error(state, to_luastring('The script was stopped as it ' + exceeded.message + '.'))
+}
+lua.lua_sethook(state, hook, lua.LUA_MASKCOUNT, checkInterval)
+
+const run = () => {
+	// Load and run the script, which should define a compute function
+	if (
+		lauxlib.luaL_loadbufferx(
+			state,
+			to_luastring(code),
+			null,
+			to_luastring('=' + chunkName),
+			to_luastring('t'),
+		) !== lua.LUA_OK ||
+		lua.lua_pcall(state, 0, 0, 0) !== lua.LUA_OK
+	)
+		throw exceeded ?? { code: 'lua', message: pull(state, -1) }
+
+	// Call the compute function with the context
+	if (lua.lua_getglobal(state, to_luastring('compute')) !== lua.LUA_TFUNCTION)
+		throw {
+			code: 'error',
+			message: 'The script does not define a \`compute\` function.',
+		}
+	push(state, context)
+	if (lua.lua_pcall(state, 1, 1, 0) !== lua.LUA_OK)
+		throw exceeded ?? { code: 'lua', message: pull(state, -1) }
+
+	// Only a table can be the output (returning nothing is the same as
+	// returning an empty one)
+	const type = lua.lua_type(state, -1)
+	if (type === lua.LUA_TNIL) return {}
+	const output = type === lua.LUA_TTABLE ? pull(state, -1) : undefined
+	if (typeof output !== 'object' || Array.isArray(output))
+		throw {
+			code: 'error',
+			message:
+				'The \`compute\` function must return a table with named fields, but it returned ' +
+				(Array.isArray(output) ? 'a list' : 'a ' + to_jsstring(lua.lua_typename(state, type))) +
+				'.',
+		}
+
+	return output
+}
+
+let result
+try {
+	result = { output: run() }
+} catch (error) {
+	result = { error }
+}
+
+parentPort.postMessage(result)
+`
+
+/**
+ * What the worker thread sends back: a message the script logged, or the
+ * outcome of the run once it is done.
+ */
+type WorkerMessage = {
+	log?: string
+	output?: ScriptOutput
+	error?: {
+		code: 'lua' | 'error' | 'timeout' | 'memory'
+		message: unknown
+		line?: number
+	}
+}
+
+/**
+ * Converts an error raised while loading or running a script into an error we
+ * can return to the client, with the line number the error occurred on.
+ *
+ * @param {unknown} error - The error value raised by the script.
+ *
+ * @returns {ScriptExecutionError} - The error to return.
+ */
+const toScriptError = (error: unknown): ScriptExecutionError => {
+	const message = typeof error === 'string' ? error : JSON.stringify(error)
+	const match = new RegExp(`^${chunkName}:(\\d+): (.*)$`, 's').exec(message)
+	if (!match)
+		return new ScriptExecutionError(
+			'script-error',
+			`The script failed: ${message}`,
+		)
+
+	const [_message, line, reason] = match
+	return new ScriptExecutionError(
+		'script-error',
+		`The script failed on line ${line}: ${reason}`,
+		Number(line),
+	)
+}
+
+/**
+ * Runs the lua code passed to it for a certain user, in a sandbox that only
+ * has access to the whitelisted standard libraries and is stopped once it
+ * exceeds its limits.
  *
  * @param code {string} - The code to run.
  * @param context {ScriptContext} - Globals to pass to the script.
+ * @param options {ScriptOptions} - The limits to run the script with, and where to send its logs.
+ *
+ * @throws {ScriptExecutionError} - 'script-error' | 'script-timeout'
  */
 export const runLua = async (
 	code: string,
 	context: ScriptContext,
+	options: ScriptOptions = {},
 ): Promise<ScriptOutput> => {
 	logger.info('[lua/runner] running script with context')
-	// The script will have a `compute` function defined; which we call with the
-	// context.
-	const script = redent(`
-		${code}
-
-		-- Run the lua function with the given context
-		__computed = compute(__context)
-	`)
-
-	// Define a logger function for the script.
-	const scriptLogger = (message: any) =>
-		logger.silly('[lua/script] %s', stringify(message))
-
-	// Run the script
-	const { __computed: computed } = await runWithGlobals(
-		{ __context: context, log: scriptLogger },
-		script,
-		['__computed'],
-	)
+	const { limits = defaultLimits, log } = options
+
+	const result = await new Promise<WorkerMessage>((resolve, reject) => {
+		const thread = new Worker(worker, {
+			eval: true,
+			// Pass the context as JSON, since Lua doesn't have a Date equivalent
+			// and should get a string instead
+			workerData: {
+				code,
+				context: JSON.parse(JSON.stringify(context)) as unknown,
+				chunkName,
+				libraries,
+				limits,
+			},
+			env: {},
+			resourceLimits: {
+				maxOldGenerationSizeMb:
+					runtimeHeap + Math.max(1, Math.ceil(limits.memory / 2 ** 20)),
+			},
+		})
+
+		// The script is checked against its time limit between instructions, so
+		// stop the thread itself if a long running library function holds it up
+		const timer = setTimeout(() => {
+			void thread.terminate()
+			resolve({
+				error: {
+					code: 'timeout',
+					message: `ran for longer than ${limits.time} ms`,
+				},
+			})
+		}, limits.time * 2)
+
+		thread.on('message', (message: WorkerMessage) => {
+			if (typeof message.log === 'string') {
+				logger.silly('[lua/script] %s', stringify(message.log))
+				log?.(message.log)
+				return
+			}
+
+			clearTimeout(timer)
+			void thread.terminate()
+			resolve(message)
+		})
+		thread.once('error', (error: Error & { code?: string }) => {
+			clearTimeout(timer)
+			if (error.code === 'ERR_WORKER_OUT_OF_MEMORY')
+				resolve({
+					error: {
+						code: 'memory',
+						message: `used more than ${limits.memory} bytes of memory`,
+					},
+				})
+			else reject(error)
+		})
+	})
+
+	if (result.error) {
+		const { code, message, line } = result.error
+		if (code === 'timeout' || code === 'memory')
+			throw new ScriptExecutionError(
+				'script-timeout',
+				`The script was stopped on line ${line ?? '?'} as it ${
+					message as string
+				}.`,
+				line,
+			)
+		if (code === 'error')
+			throw new ScriptExecutionError('script-error', message as string)
+
+		throw toScriptError(message)
+	}
 
 	logger.info('[lua/runner] ran script successfully')
 	// We're done!
-	return computed as ScriptOutput
+	return result.output ?? {}
 }
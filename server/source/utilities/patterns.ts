@@ -0,0 +1,96 @@
+// @/utilities/patterns.ts
+// Compiles the patterns that the input users enter must match.
+
+import process from 'node:process'
+import vm from 'node:vm'
+
+/**
+ * The longest a pattern can be, unless overridden through the environment.
+ */
+const maxLength = Number(process.env.MAX_INPUT_PATTERN_LENGTH ?? 200)
+
+/**
+ * The longest input that is matched against a pattern, unless overridden
+ * through the environment.
+ */
+const maxInputLength = Number(process.env.MAX_PATTERN_INPUT_LENGTH ?? 1000)
+
+/**
+ * How long (in milliseconds) matching input against a pattern may take, unless
+ * overridden through the environment.
+ */
+const matchTimeout = Number(process.env.PATTERN_MATCH_TIMEOUT ?? 50)
+
+/**
+ * Matches a repeated group that itself contains a repetition, e.g., `(a+)+` or
+ * `(\w*,)*`. Matching input against such a group can take exponentially long
+ * when the input almost matches. This only catches the obvious cases, so input
+ * is still matched with a time limit by `matchPattern`.
+ */
+const nestedRepetition =
+	/\((?:[^()\\]|\\.)*(?:[*+]|{\d+,\d*})(?:[^()\\]|\\.)*\)(?:[*+]|{\d+,\d*})/
+
+/**
+ * The patterns compiled so far, keyed by their source, so each one is only
+ * compiled once.
+ */
+const compiled = new Map<string, RegExp>()
+
+/**
+ * Compiles a pattern, making sure it is valid and cannot take too long to
+ * match.
+ *
+ * @param {string} pattern - The pattern, as a regular expression without slashes or flags.
+ *
+ * @returns {RegExp} - The compiled pattern.
+ * @throws {Error} - If the pattern is invalid, too long, or repeats a repetition.
+ */
+export const compilePattern = (pattern: string): RegExp => {
+	const cached = compiled.get(pattern)
+	if (cached) return cached
+
+	if (pattern.length > maxLength)
+		throw new Error(`it must be at most ${maxLength} characters long`)
+	if (nestedRepetition.test(pattern))
+		throw new Error(
+			'it must not repeat a group that contains a repetition, e.g., `(a+)+`',
+		)
+
+	const regex = new RegExp(pattern)
+	compiled.set(pattern, regex)
+	return regex
+}
+
+/**
+ * The context patterns are matched in, so that matching can be stopped once it
+ * takes too long.
+ */
+const context = vm.createContext({})
+const match = new vm.Script('pattern.test(input)')
+
+/**
+ * Matches input against a compiled pattern, giving up if it takes too long.
+ *
+ * @param {RegExp} pattern - The pattern, compiled by `compilePattern`.
+ * @param {string} input - The input to match, at most `maxInputLength` characters long.
+ *
+ * @returns {boolean} - Whether the input matches the pattern.
+ * @throws {Error} - If the input is too long, or matching it takes too long.
+ */
+export const matchPattern = (pattern: RegExp, input: string): boolean => {
+	if (input.length > maxInputLength)
+		throw new Error(
+			`it must be at most ${maxInputLength} characters long to be matched against a pattern`,
+		)
+
+	context.pattern = pattern
+	context.input = input
+	try {
+		return match.runInContext(context, { timeout: matchTimeout }) as boolean
+	} catch {
+		throw new Error('it took too long to match against the pattern')
+	} finally {
+		context.pattern = undefined
+		context.input = undefined
+	}
+}
@@ -0,0 +1,150 @@
+// @/utilities/pdf.ts
+// Helper functions to render HTML as PDF documents.
+
+import type { Buffer } from 'node:buffer'
+import process from 'node:process'
+
+import type { Request } from 'express'
+import puppeteer from 'puppeteer'
+import type { PuppeteerNode } from 'puppeteer'
+
+import { ServerError } from '@/errors'
+import { logger } from '@/utilities/logger'
+
+/**
+ * The text to show at the top and bottom of each page of the document.
+ */
+export type PdfOptions = {
+	// Shown on the left of the header, e.g., the name of the report.
+	title: string
+	// Shown on the right of the header, e.g., who the report is about.
+	subtitle?: string
+	// Shown on the left of the footer, next to the page numbers.
+	footer?: string
+}
+
+/**
+ * Works out the format to render a report in from the `Accept` header of a
+ * request: a PDF document if the client prefers one over HTML, else HTML.
+ *
+ * @param {Pick<Request, 'accepts'>} request - The request for the report.
+ *
+ * @returns {'html' | 'pdf'} - The format to render the report in.
+ */
+export const negotiateFormat = (
+	request: Pick<Request, 'accepts'>,
+): 'html' | 'pdf' =>
+	request.accepts(['text/html', 'application/pdf']) === 'application/pdf'
+		? 'pdf'
+		: 'html'
+
+/**
+ * Escapes text so it can be placed in the header or footer template.
+ *
+ * @param {string} text - The text to escape.
+ *
+ * @returns {string} - The escaped text.
+ */
+const escape = (text: string): string =>
+	text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+
+/**
+ * Creates the template for the header or footer of each page. Chrome fills in
+ * elements with the `pageNumber` and `totalPages` classes when printing.
+ *
+ * @param {string} left - The HTML to show on the left.
+ * @param {string} right - The HTML to show on the right.
+ *
+ * @returns {string} - The template.
+ */
+const margin = (left: string, right: string): string => `
+	<div style="display: flex; justify-content: space-between; width: 100%; margin: 0 1.5cm; font-size: 8px; font-family: sans-serif; color: #6b7280;">
+		<span>${left}</span>
+		<span>${right}</span>
+	</div>
+`
+
+/**
+ * Whether a page may load a resource. Reports contain values users typed in,
+ * so the page must not make requests to other hosts or to the server's own
+ * network; only resources embedded in the document itself are loaded.
+ *
+ * @param {string} url - The URL of the resource.
+ *
+ * @returns {boolean} - Whether to load the resource.
+ */
+export const isAllowedResource = (url: string): boolean =>
+	url.startsWith('data:') || url.startsWith('about:')
+
+/**
+ * Renders an HTML document as an A4 PDF, with a header and a footer on every
+ * page. Uses the Chrome installed by puppeteer, unless the path to another one
+ * is set in the `PUPPETEER_EXECUTABLE_PATH` environment variable. Scripts in
+ * the document do not run, and it cannot load anything that is not embedded
+ * in it. Chrome runs in its sandbox unless `PUPPETEER_DISABLE_SANDBOX` is set
+ * to `true`, for runtimes that do not give it the privileges it needs.
+ *
+ * @param {string} html - The HTML document to render.
+ * @param {PdfOptions} options - The text to show in the header and footer.
+ * @param {Pick<PuppeteerNode, 'launch'>} browsers - Where to launch the browser from. Defaults to puppeteer.
+ *
+ * @returns {Buffer} - The PDF document.
+ * @throws {ServerError} - 'server-crash'
+ */
+export const renderPdf = async (
+	html: string,
+	options: PdfOptions,
+	browsers: Pick<PuppeteerNode, 'launch'> = puppeteer,
+): Promise<Buffer> => {
+	logger.info('[pdf/render] rendering html as pdf')
+
+	let browser
+	try {
+		browser = await browsers.launch({
+			executablePath: process.env.PUPPETEER_EXECUTABLE_PATH,
+			args: [
+				'--disable-dev-shm-usage',
+				...(process.env.PUPPETEER_DISABLE_SANDBOX === 'true'
+					? ['--no-sandbox']
+					: []),
+			],
+		})
+		const page = await browser.newPage()
+		await page.setJavaScriptEnabled(false)
+		await page.setRequestInterception(true)
+		page.on('request', (request) => {
+			if (isAllowedResource(request.url())) void request.continue()
+			else void request.abort()
+		})
+		await page.setContent(html, { waitUntil: 'load', timeout: 10_000 })
+		const pdf = await page.pdf({
+			format: 'A4',
+			printBackground: true,
+			displayHeaderFooter: true,
+			headerTemplate: margin(
+				escape(options.title),
+				escape(options.subtitle ?? ''),
+			),
+			footerTemplate: margin(
+				escape(options.footer ?? ''),
+				'Page <span class="pageNumber"></span> of <span class="totalPages"></span>',
+			),
+			margin: { top: '2cm', bottom: '2cm', left: '1.5cm', right: '1.5cm' },
+		})
+
+		logger.info('[pdf/render] rendered pdf successfully')
+		return pdf
+	} catch (error: unknown) {
+		logger.warn('[pdf/render] could not render pdf - %s', error)
+		throw new ServerError(
+			'server-crash',
+			'An unexpected error occurred while rendering the report as a PDF. Please try again in a few seconds or report this issue.',
+		)
+	} finally {
+		await browser?.close()
+	}
+}
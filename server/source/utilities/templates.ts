@@ -0,0 +1,496 @@
+// @/utilities/templates.ts
+// Builds the context that question and report templates are rendered with,
+// and renders them.
+
+import { Buffer } from 'node:buffer'
+import process from 'node:process'
+
+import { render as renderEjs } from 'ejs'
+import { Liquid } from 'liquidjs'
+
+import { ServerError } from '@/errors'
+import { Attribute, UserAttribute } from '@/models/attribute'
+import { Group } from '@/models/group'
+import { TemplateEngine } from '@/models/report'
+import { User } from '@/models/user'
+import { provider as users } from '@/provider/data/users'
+import { provider as attributes } from '@/provider/data/attributes'
+import { provider as userAttributes } from '@/provider/data/users/attributes'
+
+/**
+ * The attributes a template can use, keyed by their ID.
+ */
+export type TemplateInput = Record<string, Attribute & UserAttribute>
+
+/**
+ * The context a template is rendered with, available as `context` in the
+ * template.
+ */
+export type TemplateContext = {
+	// The attributes of the user the template is rendered for.
+	input: TemplateInput
+	// The user the template is rendered for.
+	user: User
+}
+
+/**
+ * A participant of a group, as seen by a group report's template.
+ */
+export type GroupTemplateParticipant = {
+	// The participant.
+	user: User
+	// Their role in the group.
+	role: Group['participants'][string]
+	// Their attributes that the report uses.
+	input: TemplateInput
+}
+
+/**
+ * An attribute's values across the participants of a group.
+ */
+export type AttributeAggregate = {
+	// The number of participants that have the attribute.
+	count: number
+	// The number of participants that do not have the attribute.
+	missing: number
+	// The total, average, lowest and highest values, if every value is a
+	// number.
+	sum?: number
+	average?: number
+	min?: number
+	max?: number
+	// The number of participants with each value.
+	distribution: Record<string, number>
+}
+
+/**
+ * The context a group report is rendered with, available as `context` in the
+ * template.
+ */
+export type GroupTemplateContext = {
+	// The group the report is rendered for.
+	group: Pick<Group, 'id' | 'name'>
+	// The participants the report covers, along with their attributes.
+	participants: GroupTemplateParticipant[]
+	// The values of each attribute the report uses, aggregated across the
+	// participants, keyed by the attribute's ID.
+	aggregates: Record<string, AttributeAggregate>
+}
+
+/**
+ * Aggregates the values of the given attributes across the participants of a
+ * group.
+ *
+ * @param {Array<Pick<GroupTemplateParticipant, 'input'>>} participants - The participants and their attributes.
+ * @param {string[]} ids - The IDs of the attributes to aggregate.
+ *
+ * @returns {Record<string, AttributeAggregate>} - The aggregated values, keyed by the attribute's ID.
+ */
+export const aggregate = (
+	participants: Array<Pick<GroupTemplateParticipant, 'input'>>,
+	ids: string[],
+): Record<string, AttributeAggregate> => {
+	const aggregates: Record<string, AttributeAggregate> = {}
+	for (const id of new Set(ids)) {
+		const values = participants
+			.map(({ input }) => input[id]?.value)
+			.filter((value) => typeof value !== 'undefined')
+
+		const distribution: Record<string, number> = {}
+		for (const value of values)
+			distribution[String(value)] = (distribution[String(value)] ?? 0) + 1
+
+		aggregates[id] = {
+			count: values.length,
+			missing: participants.length - values.length,
+			distribution,
+		}
+
+		// Only work out the numerical aggregates if there are numbers to work
+		// them out from
+		const numbers = values.filter(
+			(value): value is number => typeof value === 'number',
+		)
+		if (numbers.length > 0 && numbers.length === values.length) {
+			const sum = numbers.reduce((total, value) => total + value, 0)
+			aggregates[id] = {
+				...aggregates[id],
+				sum,
+				average: sum / numbers.length,
+				min: Math.min(...numbers),
+				max: Math.max(...numbers),
+			}
+		}
+	}
+
+	return aggregates
+}
+
+/**
+ * Where the builder reads users and attributes from. Defaults to the data
+ * providers.
+ */
+export type TemplateSources = {
+	users: { get(id: string): Promise<User> }
+	attributes: { getMany(ids: string[]): Promise<Attribute[]> }
+	userAttributes: (userId: string) => {
+		getMany(ids: string[]): Promise<UserAttribute[]>
+	}
+}
+
+/**
+ * Matches an attribute being read from a template's input or aggregates, i.e.,
+ * `input.<id>`, `input["<id>"]`, `input['<id>']` or `input[`<id>`]`.
+ */
+const attributeAccess =
+	/\b(?:input|aggregates)\s*(?:\.\s*([A-Za-z_$][\w$]*)|\[\s*(?:"([^"]*)"|'([^']*)'|`([^`]*)`)\s*])/g
+
+/**
+ * Checks whether a string can be the ID of a document in Firestore, so that
+ * looking it up does not fail.
+ *
+ * @param {string} id - The string.
+ *
+ * @returns {boolean} - Whether it can be a document ID.
+ */
+const isDocumentId = (id: string): boolean =>
+	id.length > 0 &&
+	id !== '.' &&
+	id !== '..' &&
+	!id.includes('/') &&
+	!/^__.*__$/.test(id) &&
+	Buffer.byteLength(id) <= 1500
+
+/**
+ * Finds the IDs of the attributes a template refers to, i.e., the ones it reads
+ * from `context.input` (or a participant's input, or the group's aggregates) by
+ * name. Attributes read any other way are missing from the rendered template.
+ *
+ * @param {string} template - The template.
+ *
+ * @returns {string[]} - The IDs of the attributes referenced.
+ */
+export const referencedAttributes = (template: string): string[] => {
+	const ids = new Set<string>()
+	for (const [_match, ...names] of template.matchAll(attributeAccess)) {
+		const id = names.find((name) => typeof name === 'string')!
+		if (isDocumentId(id)) ids.add(id)
+	}
+
+	return [...ids]
+}
+
+/**
+ * Builds the context templates are rendered with for a certain user. Only the
+ * attributes a template refers to are loaded, in one batched read, and they
+ * are cached so that rendering several templates in the same request reads
+ * each attribute only once. Create one builder per request.
+ */
+export class TemplateContextBuilder {
+	/**
+	 * The attributes loaded so far. Attributes the user does not have are
+	 * stored as `undefined`, so we do not look them up again.
+	 */
+	private readonly cache = new Map<
+		string,
+		(Attribute & UserAttribute) | undefined
+	>()
+
+	/**
+	 * The user the templates are rendered for, once loaded.
+	 */
+	private cachedUser?: User
+
+	/**
+	 * @param {string} userId - The ID of the user the templates are rendered for.
+	 * @param {TemplateSources} sources - Where to read the user and attributes from.
+	 */
+	constructor(
+		readonly userId: string,
+		private readonly sources: TemplateSources = {
+			users,
+			attributes,
+			userAttributes,
+		},
+	) {}
+
+	/**
+	 * Retrieves the user the templates are rendered for.
+	 *
+	 * @returns {User} - The user.
+	 * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+	 */
+	async user(): Promise<User> {
+		this.cachedUser ??= await this.sources.users.get(this.userId)
+
+		return this.cachedUser
+	}
+
+	/**
+	 * Retrieves the given attributes of the user, along with their definitions.
+	 * Attributes the user does not have are left out.
+	 *
+	 * @param {string[]} ids - The IDs of the attributes to retrieve.
+	 *
+	 * @returns {TemplateInput} - The attributes, keyed by their ID.
+	 * @throws {ServerError} - 'backend-error'
+	 */
+	async input(ids: string[]): Promise<TemplateInput> {
+		// Load the attributes we have not loaded yet, all at once
+		const missing = [...new Set(ids)].filter((id) => !this.cache.has(id))
+		if (missing.length > 0) {
+			const foundUserAttributes = await this.sources
+				.userAttributes(this.userId)
+				.getMany(missing)
+			const definitions = await this.sources.attributes.getMany(
+				foundUserAttributes.map(({ id }) => id),
+			)
+
+			for (const id of missing) this.cache.set(id, undefined)
+			for (const userAttribute of foundUserAttributes) {
+				const definition = definitions.find(({ id }) => id === userAttribute.id)
+				if (definition)
+					this.cache.set(userAttribute.id, { ...definition, ...userAttribute })
+			}
+		}
+
+		const input: TemplateInput = {}
+		for (const id of ids) {
+			const attribute = this.cache.get(id)
+			if (attribute) input[id] = attribute
+		}
+
+		return input
+	}
+
+	/**
+	 * Builds the context to render one or more templates with, containing the
+	 * user and the attributes the templates refer to.
+	 *
+	 * @param {string[]} templates - The EJS templates to render.
+	 *
+	 * @returns {TemplateContext} - The context to render the templates with.
+	 * @throws {ServerError} - 'entity-not-found' | 'backend-error'
+	 */
+	async context(...templates: string[]): Promise<TemplateContext> {
+		const input = await this.input(
+			templates.flatMap((template) => referencedAttributes(template)),
+		)
+		const user = await this.user()
+
+		return { input, user }
+	}
+}
+
+/**
+ * Loads the participants of a group that a group report covers, along with
+ * the given attributes of each. Participants that no longer exist are left
+ * out.
+ *
+ * @param {Group['participants']} participants - The participants of the group, along with their roles.
+ * @param {string[]} ids - The IDs of the attributes the report uses.
+ * @param {Group['participants'][string] | undefined} role - Only load participants with this role, if set.
+ *
+ * @returns {GroupTemplateParticipant[]} - The participants and their attributes.
+ * @throws {ServerError} - 'backend-error'
+ */
+export const loadParticipants = async (
+	participants: Group['participants'],
+	ids: string[],
+	role?: Group['participants'][string],
+): Promise<GroupTemplateParticipant[]> => {
+	const found = await Promise.all(
+		Object.entries(participants ?? {})
+			.filter(([, participantRole]) => !role || participantRole === role)
+			.map(async ([userId, participantRole]) => {
+				const templates = new TemplateContextBuilder(userId)
+				try {
+					const user = await templates.user()
+					const input = await templates.input(ids)
+
+					return { user, role: participantRole, input }
+				} catch (error: unknown) {
+					if ((error as ServerError).code === 'entity-not-found')
+						return undefined
+
+					throw error
+				}
+			}),
+	)
+
+	return found.filter(
+		(participant): participant is GroupTemplateParticipant =>
+			typeof participant !== 'undefined',
+	)
+}
+
+/**
+ * Reconstructs the attributes a template can use as they were at a certain
+ * time, from the history of changes made to each attribute's value. The
+ * history of each attribute is cut off at that time, and attributes that had
+ * not been set by then (or have no history to go by) are left out.
+ *
+ * @param {TemplateInput} input - The attributes, as they are now.
+ * @param {Date} time - The time to reconstruct the attributes as of.
+ *
+ * @returns {TemplateInput} - The attributes as they were at that time, keyed by their ID.
+ */
+export const inputAsOf = (input: TemplateInput, time: Date): TemplateInput => {
+	const past: TemplateInput = {}
+	for (const [id, attribute] of Object.entries(input)) {
+		const history = (attribute.history ?? []).filter(
+			({ timestamp }) => new Date(timestamp).getTime() <= time.getTime(),
+		)
+		if (history.length === 0) continue
+
+		past[id] = {
+			...attribute,
+			value: history[history.length - 1].value,
+			history,
+		}
+	}
+
+	return past
+}
+
+/**
+ * The limits liquid templates are rendered with, unless overridden through
+ * the environment: the number of characters a template can have, the time
+ * (in milliseconds) it can take to render, and roughly how many characters
+ * worth of strings and arrays it can create while rendering.
+ */
+const liquidLimits = {
+	length: Number(process.env.TEMPLATE_LENGTH_LIMIT ?? 1_000_000),
+	time: Number(process.env.TEMPLATE_TIME_LIMIT ?? 1000),
+	memory: Number(process.env.TEMPLATE_MEMORY_LIMIT ?? 10_000_000),
+}
+
+/**
+ * The engine liquid templates are rendered with. Templates can only read
+ * their context's own properties, cannot include other files, and can only
+ * use the filters built into liquid, along with the following:
+ *
+ * - `number: <digits>` formats a number with the given number of decimal
+ *   places, e.g., `{{ 1234.5 | number: 2 }}` renders `1,234.50`.
+ * - `pluralize: <singular>, <plural>` picks the word to use for a count, e.g.,
+ *   `{{ count }} {{ count | pluralize: 'mentee' }}`. The plural defaults to
+ *   the singular with an `s` at the end.
+ *
+ * Everything printed with `{{ ... }}` is HTML-escaped, since attributes can
+ * hold text the user typed in. Templates can print HTML they trust with the
+ * `raw` filter, e.g., `{{ context.input.bio.value | raw }}`.
+ */
+const liquid = new Liquid({
+	outputEscape: 'escape',
+	ownPropertyOnly: true,
+	strictFilters: true,
+	parseLimit: liquidLimits.length,
+	renderLimit: liquidLimits.time,
+	memoryLimit: liquidLimits.memory,
+	relativeReference: false,
+	// Pretend there are no files, so `include`, `render` and `layout` tags
+	// cannot read files on the server
+	fs: {
+		exists: async () => false,
+		existsSync: () => false,
+		async readFile(file) {
+			throw new Error(`Cannot include ${file} in a template.`)
+		},
+		readFileSync(file) {
+			throw new Error(`Cannot include ${file} in a template.`)
+		},
+		resolve: (_directory, file) => file,
+		contains: () => false,
+	},
+})
+liquid.registerFilter('number', (value: unknown, digits = 0) =>
+	Number(value).toLocaleString('en', {
+		minimumFractionDigits: Number(digits),
+		maximumFractionDigits: Number(digits),
+	}),
+)
+liquid.registerFilter(
+	'pluralize',
+	(count: unknown, singular: string, plural = `${singular}s`) =>
+		Number(count) === 1 ? singular : plural,
+)
+
+/**
+ * Renders a template with the given context, available as `context` in the
+ * template.
+ *
+ * @param {string} template - The template to render.
+ * @param {TemplateEngine | undefined} engine - The language the template is written in. Templates saved without one are written in EJS.
+ * @param {object} context - The context to render the template with.
+ *
+ * @returns {string} - The rendered template.
+ * @throws {Error} - If the template is invalid, or fails to render.
+ */
+export const renderTemplate = async (
+	template: string,
+	engine: TemplateEngine | undefined,
+	context: TemplateContext | GroupTemplateContext,
+): Promise<string> => {
+	if (engine === 'liquid')
+		return liquid.parseAndRender(template, { context }) as Promise<string>
+
+	return renderEjs(template, { context })
+}
+
+/**
+ * Works out the language to save a template in. New templates must be written
+ * in liquid, while templates written in EJS before sandboxing was introduced
+ * can stay in EJS (or move to liquid), but cannot move back once they do.
+ *
+ * @param {TemplateEngine | undefined} requested - The language the client asked for, if any.
+ * @param {object | undefined} existing - The report or question being updated, if it exists.
+ *
+ * @returns {TemplateEngine} - The language to save the template in.
+ * @throws {ServerError} - 'improper-payload'
+ */
+export const resolveEngine = (
+	requested: TemplateEngine | undefined,
+	existing?: { engine?: TemplateEngine },
+): TemplateEngine => {
+	const current = existing ? existing.engine ?? 'ejs' : 'liquid'
+	if (requested === 'ejs' && current !== 'ejs')
+		throw new ServerError(
+			'improper-payload',
+			'EJS is only supported for templates written in it before liquid was introduced. Please write the template in liquid instead.',
+		)
+
+	return requested ?? current
+}
+
+/**
+ * An error raised while rendering a template, with the line of the template
+ * the error occurred on, if known.
+ */
+export type TemplateError = {
+	message: string
+	line?: number
+}
+
+/**
+ * Extracts the message and line number from an error raised while rendering a
+ * template. Liquid errors end with `, line:<line>, col:<column>`. EJS errors
+ * raised while rendering look like `ejs:<line>\n<excerpt>\n\n<message>`,
+ * while EJS syntax errors have no line number and end with a tip about
+ * EJS-Lint.
+ *
+ * @param {unknown} error - The error raised by liquid or EJS.
+ *
+ * @returns {TemplateError} - The error's message and line number.
+ */
+export const describeTemplateError = (error: unknown): TemplateError => {
+	const text = String((error as Error)?.message ?? error)
+	const liquidMatch = /^([\s\S]*), line:(\d+), col:\d+$/.exec(text)
+	if (liquidMatch)
+		return { message: liquidMatch[1].trim(), line: Number(liquidMatch[2]) }
+
+	const ejsMatch = /^[^\n:]*:(\d+)\n[\s\S]*?\n\n([\s\S]*)$/.exec(text)
+	if (ejsMatch)
+		return { message: ejsMatch[2].trim(), line: Number(ejsMatch[1]) }
+
+	return { message: text.split('\n\n')[0].trim() }
+}
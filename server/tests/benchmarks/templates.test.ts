@@ -0,0 +1,108 @@
+// @/tests/benchmarks/templates.test.ts
+// Compares the number of database reads made to build a template's context.
+
+import type { TemplateSources } from '@/utilities/templates'
+
+import { Attribute, UserAttribute } from '@/models/attribute'
+import { User } from '@/models/user'
+import { TemplateContextBuilder } from '@/utilities/templates'
+
+// The number of attributes the user has, and the templates to render (e.g.,
+// the text and options of the questions shown to the user)
+const attributeCount = 50
+const templates = [
+	'<%= context.input.name.value %>, how many coffees did you have today?',
+	'More than <%= context.input["coffee-limit"].value %>',
+	'Less than <%= context.input["coffee-limit"].value %>',
+	'None at all, <%= context.user.name %>',
+]
+
+/**
+ * Creates an in-memory copy of the database, which counts the number of
+ * documents read from it. As with Firestore, reading a document that does not
+ * exist still counts as a read.
+ *
+ * @returns The sources to build the template context from, the number of reads made, and a way to list all the user's attributes.
+ */
+const createDatabase = () => {
+	const ids = [
+		'name',
+		'coffee-limit',
+		...Array.from({ length: attributeCount - 2 }, (_, i) => `attribute-${i}`),
+	]
+	const definitions = ids.map((id) => new Attribute(id, id, '', [], []))
+	const values = ids.map((id) => new UserAttribute(id, id, [], 'bofh'))
+	const user = new User('bofh', 'BOFH', undefined, undefined, new Date())
+
+	const reads = { count: 0 }
+	const read = <T>(documents: T[], requested = documents.length): T[] => {
+		reads.count += requested
+		return documents
+	}
+
+	const sources: TemplateSources = {
+		users: {
+			get: async () => read([user])[0],
+		},
+		attributes: {
+			getMany: async (many) =>
+				read(
+					definitions.filter(({ id }) => many.includes(id)),
+					many.length,
+				),
+		},
+		userAttributes: () => ({
+			getMany: async (many) =>
+				read(
+					values.filter(({ id }) => many.includes(id)),
+					many.length,
+				),
+		}),
+	}
+
+	return {
+		sources,
+		reads,
+		listUserAttributes: async () => read(values),
+		getAttribute: async (id: string) =>
+			read(
+				definitions.filter((definition) => definition.id === id),
+				1,
+			)[0],
+	}
+}
+
+describe('template context', () => {
+	it('reads fewer documents than loading every attribute', async () => {
+		// Before, rendering the questions for a request fetched the user, listed
+		// every attribute they have, and fetched the definition of each of those
+		// one at a time
+		const everything = createDatabase()
+		await everything.sources.users.get('bofh')
+		for (const { id } of await everything.listUserAttributes())
+			await everything.getAttribute(id)
+
+		// Now only the user, and the values and definitions of `name` and
+		// `coffee-limit` are read, out of the user's many attributes
+		const batched = createDatabase()
+		const builder = new TemplateContextBuilder('bofh', batched.sources)
+		const context = await builder.context(...templates)
+
+		expect(Object.keys(context.input).sort()).toEqual(['coffee-limit', 'name'])
+		expect(context.user.name).toBe('BOFH')
+		expect(everything.reads.count).toBe(1 + 2 * attributeCount)
+		expect(batched.reads.count).toBe(5)
+	})
+
+	it('reads each attribute only once per request', async () => {
+		const { sources, reads } = createDatabase()
+		const builder = new TemplateContextBuilder('bofh', sources)
+
+		await builder.context(templates[0])
+		const afterFirst = reads.count
+		await builder.context(...templates)
+
+		// Only `coffee-limit` is new, so it and its definition are read
+		expect(reads.count - afterFirst).toBe(2)
+	})
+})
@@ -2038,6 +2038,20 @@ describe('questions', () => {
 			expect(error?.status).toEqual(403)
 			expect(error?.code).toEqual('not-allowed')
 		})
+
+		it('should ignore `raw` and return a `not-allowed` error if the requesting user is not groot and not allowed to take the conversation', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.updates.id}/questions`,
+				searchParams: { raw: true },
+				headers: {
+					authorization: tokens.pfy.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
 	})
 
 	describe('get /conversations/{conversationId}/questions/{questionId}', () => {
@@ -2132,6 +2146,20 @@ describe('questions', () => {
 			expect(error?.code).toEqual('entity-not-found')
 		})
 
+		it('should return a `improper-payload` error when several options that are not `multi-select` are chosen', async () => {
+			const error = await fetchError({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/questions/${questions.capital.id}/answer`,
+				json: { positions: [1, 2] },
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(400)
+			expect(error?.code).toEqual('improper-payload')
+		})
+
 		it('should set the specified attribute and return the next question when requesting user is allowed to take the conversation', async () => {
 			let { body, status } = await fetch({
 				method: 'put',
@@ -2189,6 +2217,1081 @@ describe('questions', () => {
 		})
 	})
 
+	describe('put /conversations/{conversationId}/sessions/current/back', () => {
+		it('should return a `not-allowed` error if the requesting user is not allowed to take the conversation', async () => {
+			const error = await fetchError({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/sessions/current/back`,
+				headers: {
+					authorization: tokens.ceo.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should undo the last answer and return the question answered when the requesting user has answered a question', async () => {
+			let { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/sessions/current/back`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.question.id).toEqual(questions.capital.id)
+			expect(body.session.path.length).toEqual(0)
+			expect(body.session.next.question).toEqual(questions.capital.id)
+
+			// Answer the question again, so the session is as it was
+			;({ body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/questions/${questions.capital.id}/answer`,
+				json: { position: 1 },
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.session.path.length).toEqual(1)
+		})
+	})
+
+	describe('get /conversations/{conversationId}/sessions/current', () => {
+		it('should return a `not-allowed` error if the requesting user is not allowed to take the conversation', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/sessions/current`,
+				headers: {
+					authorization: tokens.ceo.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should return the unfinished session when the requesting user has answered a question', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/sessions/current`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.session).toMatchShapeOf({
+				id: 'string',
+				conversation: 'string',
+				started: 'string',
+				path: [
+					{
+						conversation: 'string',
+						question: 'string',
+						position: 1,
+						timestamp: 'string',
+					},
+				],
+				next: {
+					conversation: 'string',
+					question: 'string',
+				},
+			})
+			expect(body.session.next.question).toEqual(questions.cleanest.id)
+		})
+
+		it('should return a `entity-not-found` error once the requesting user has finished the conversation', async () => {
+			const { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/questions/${questions.cleanest.id}/answer`,
+				json: { position: 1 },
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.next).toBeUndefined()
+			expect(body.session.finished).toBeDefined()
+			expect(body.session.path.length).toEqual(2)
+
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/sessions/current`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(404)
+			expect(error?.code).toEqual('entity-not-found')
+		})
+	})
+
+	describe('get /users/{userId}/sessions', () => {
+		it('should return a `not-allowed` error when the requesting user is not the user themselves or their mentor/supermentor', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `users/${users.bofh.id}/sessions`,
+				headers: {
+					authorization: tokens.pfy.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should return the sessions of a user when requesting user is the user themselves', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `users/${users.bofh.id}/sessions`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.sessions.length).toEqual(1)
+			expect(body.sessions[0].conversation).toEqual(conversations.quiz.id)
+			expect(body.sessions[0].finished).toBeDefined()
+		})
+	})
+
+	describe('put /conversations/{conversationId}/sessions/reset', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/sessions/reset`,
+				json: { user: users.bofh.id },
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it("should delete the user's sessions in the conversation when requesting user is groot", async () => {
+			let { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/sessions/reset`,
+				json: { user: users.bofh.id },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(204)
+			;({ body, status } = await fetch({
+				method: 'get',
+				url: `users/${users.bofh.id}/sessions`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.sessions.length).toEqual(0)
+		})
+	})
+
+	describe('get /conversations/{conversationId}/validate', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/validate`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should return no errors for a conversation whose questions all lead to the last question', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/validate`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.valid).toEqual(true)
+			expect(body.errors).toEqual([])
+			expect(body.warnings).toEqual([])
+		})
+	})
+
+	describe('get /conversations/{conversationId}/export', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/export`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should return the conversation, its questions and the attributes they set when requesting user is groot', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/export`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.bundle.version).toEqual(1)
+			expect(body.bundle.conversation.id).toEqual(conversations.quiz.id)
+			expect(body.bundle.questions.length).toEqual(2)
+			expect(body.bundle.attributes.length).toEqual(2)
+		})
+	})
+
+	describe('post /conversations/import', () => {
+		it('should return a `improper-payload` error when the bundle cannot be parsed', async () => {
+			const error = await fetchError({
+				method: 'post',
+				url: `conversations/import`,
+				json: { content: '{ "version": 1', dryRun: true },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(400)
+			expect(error?.code).toEqual('improper-payload')
+		})
+
+		it('should report what would be imported without saving anything when doing a dry run', async () => {
+			let { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/export`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			;({ body, status } = await fetch({
+				method: 'post',
+				url: `conversations/import`,
+				json: { content: JSON.stringify(body.bundle), dryRun: true },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.dryRun).toEqual(true)
+			expect(body.conflicts).toEqual([])
+			expect(body.conversation.id).not.toEqual(conversations.quiz.id)
+			// The versions are not part of the bundle, so none is published yet
+			expect(body.conversation.version).toBeUndefined()
+			// The attributes already exist, so they are reused
+			expect(body.ids[questions.capital.options[0].attribute.id]).toEqual(
+				questions.capital.options[0].attribute.id,
+			)
+		})
+
+		it('should report that questions not in the bundle are deleted when overwriting a conversation', async () => {
+			let { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/export`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			const { bundle } = body
+			const [removed] = bundle.questions.splice(0, 1)
+			;({ body, status } = await fetch({
+				method: 'post',
+				url: `conversations/import`,
+				json: {
+					content: JSON.stringify(bundle),
+					mode: 'upsert',
+					dryRun: true,
+				},
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.conversation.id).toEqual(conversations.quiz.id)
+			expect(body.conflicts).toContainEqual({
+				entity: 'question',
+				id: removed.id,
+				message:
+					'A question in the conversation is not in the bundle, and is deleted by the import.',
+			})
+		})
+
+		it.each([
+			[
+				'an attribute has no list of conversations',
+				(bundle: any) => {
+					delete bundle.attributes[0].conversations
+				},
+			],
+			[
+				'a script has no list of input attributes',
+				(bundle: any) => {
+					bundle.scripts.push({
+						id: 'incomplete',
+						name: 'Incomplete',
+						description: 'Has no input attributes.',
+						tags: [],
+						computed: [],
+						content: '',
+					})
+				},
+			],
+			[
+				'a question has no options',
+				(bundle: any) => {
+					delete bundle.questions[0].options
+				},
+			],
+			[
+				'an option has an input pattern that could take too long to match',
+				(bundle: any) => {
+					bundle.questions[0].options[0].rules = { pattern: '(a+)+' }
+				},
+			],
+		])(
+			'should return a `improper-payload` error and save nothing when %s',
+			async (_, change) => {
+				let { body, status } = await fetch({
+					method: 'get',
+					url: `conversations/${conversations.quiz.id}/export`,
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(status).toEqual(200)
+				const { bundle } = body
+				change(bundle)
+				;({ body } = await fetch({
+					method: 'get',
+					url: `conversations`,
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				}))
+				const existing = body.conversations.length
+
+				const error = await fetchError({
+					method: 'post',
+					url: `conversations/import`,
+					json: { content: JSON.stringify(bundle) },
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(error?.status).toEqual(400)
+				expect(error?.code).toEqual('improper-payload')
+				;({ body } = await fetch({
+					method: 'get',
+					url: `conversations`,
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				}))
+
+				expect(body.conversations.length).toEqual(existing)
+			},
+		)
+	})
+
+	describe('post /conversations/{conversationId}/versions', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'post',
+				url: `conversations/${conversations.quiz.id}/versions`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should publish the draft questions as a new version when requesting user is groot', async () => {
+			let { body, status } = await fetch({
+				method: 'post',
+				url: `conversations/${conversations.quiz.id}/versions`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(201)
+			expect(body.version.version).toEqual(1)
+			expect(body.version.questions.length).toEqual(2)
+			;({ body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.conversation.version).toEqual(1)
+		})
+	})
+
+	describe('get /conversations/{conversationId}/versions', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/versions`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should return the published versions when requesting user is groot', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/versions`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.versions.map((version: any) => version.version)).toEqual([1])
+		})
+	})
+
+	describe('put /conversations/{conversationId}/versions/{versionId}/rollback', () => {
+		it('should return a `entity-not-found` error when the version does not exist', async () => {
+			const error = await fetchError({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/versions/42/rollback`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(404)
+			expect(error?.code).toEqual('entity-not-found')
+		})
+
+		it('should publish the old version again when requesting user is groot', async () => {
+			const { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/versions/1/rollback`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.version.version).toEqual(2)
+			expect(body.version.restored).toEqual(1)
+			expect(body.version.questions.length).toEqual(2)
+		})
+	})
+
+	describe('get /conversations/{conversationId}/translations', () => {
+		it('should return a `not-allowed` error when the requesting user is not groot', async () => {
+			const error = await fetchError({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/translations`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(403)
+			expect(error?.code).toEqual('not-allowed')
+		})
+
+		it('should show the question in the language the user asked for', async () => {
+			const data = await testData('questions/update/capital')
+			const translation = 'भारत की राजधानी क्या है?'
+			let { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${conversations.quiz.id}/questions/${questions.capital.id}`,
+				json: { ...data, translations: { hi: translation } },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			;({ status } = await fetch({
+				method: 'post',
+				url: `conversations/${conversations.quiz.id}/versions`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(201)
+			;({ body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/questions/${questions.capital.id}`,
+				headers: {
+					authorization: tokens.bofh.bearer,
+					'accept-language': 'hi-IN, en;q=0.5',
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.question.text).toEqual(translation)
+		})
+
+		it('should list the text that has not been translated into the locales used in the conversation', async () => {
+			const { body, status } = await fetch({
+				method: 'get',
+				url: `conversations/${conversations.quiz.id}/translations`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.locales).toEqual(['hi'])
+			expect(body.complete).toEqual(false)
+			expect(body.missing).toContainEqual({ locale: 'hi', field: 'name' })
+			expect(body.missing).toContainEqual({
+				locale: 'hi',
+				field: 'question',
+				question: questions.cleanest.id,
+			})
+			expect(body.missing).not.toContainEqual({
+				locale: 'hi',
+				field: 'question',
+				question: questions.capital.id,
+			})
+		})
+	})
+
+	describe('concurrent answers', () => {
+		it('should keep the attributes and sessions of users answering at the same time apart', async () => {
+			const answer = async (user: 'bofh' | 'pfy', position: number) =>
+				fetch({
+					method: 'put',
+					url: `conversations/${conversations.quiz.id}/questions/${questions.capital.id}/answer`,
+					json: { position },
+					headers: {
+						authorization: tokens[user].bearer,
+					},
+				})
+
+			// Fire the answers of both users at the same time, a few times over, so
+			// their requests interleave on the server
+			for (let round = 0; round < 5; round++) {
+				const responses = await Promise.all([
+					answer('bofh', 1),
+					answer('pfy', 2),
+				])
+				for (const { status } of responses) expect(status).toEqual(200)
+			}
+
+			// Each user should have only ever been given the value they chose
+			const attributeId = questions.capital.options[0].attribute.id
+			for (const [user, value] of [
+				['bofh', 1],
+				['pfy', 0],
+			] as const) {
+				let { body, status } = await fetch({
+					method: 'get',
+					url: `users/${users[user].id}/attributes/${attributeId}`,
+					headers: {
+						authorization: tokens[user].bearer,
+					},
+				})
+
+				expect(status).toEqual(200)
+				expect(body.attribute.value).toEqual(value)
+				for (const snapshot of body.attribute.history.slice(-5))
+					expect(snapshot.value).toEqual(value)
+
+					// And their session should hold only their own answers
+				;({ body, status } = await fetch({
+					method: 'get',
+					url: `conversations/${conversations.quiz.id}/sessions/current`,
+					headers: {
+						authorization: tokens[user].bearer,
+					},
+				}))
+
+				expect(status).toEqual(200)
+				for (const step of body.session.path)
+					expect(step.position).toEqual(user === 'bofh' ? 1 : 2)
+			}
+		})
+	})
+
+	describe('branches', () => {
+		const branching: {
+			conversation: any
+			start: any
+			target: any
+			fallback: any
+		} = { conversation: {}, start: {}, target: {}, fallback: {} }
+
+		beforeAll(async () => {
+			let { body } = await fetch({
+				method: 'post',
+				url: 'conversations',
+				json: await testData('conversations/create/updates'),
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+			branching.conversation = body.conversation
+			for (const name of ['target', 'fallback'] as const) {
+				;({ body } = await fetch({
+					method: 'post',
+					url: `conversations/${branching.conversation.id}/questions`,
+					json: await testData('questions/create/ending'),
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				}))
+				branching[name] = body.question
+			}
+
+			;({ body } = await fetch({
+				method: 'post',
+				url: `conversations/${branching.conversation.id}/questions`,
+				json: await testData('questions/create/branching', {
+					conversation: branching.conversation.id,
+					target: branching.target.id,
+					fallback: branching.fallback.id,
+					knowsCapital: attributes.knowsCapital.id,
+				}),
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+			branching.start = body.question
+		})
+
+		afterAll(async () => {
+			await fetch({
+				method: 'delete',
+				url: `conversations/${branching.conversation.id}`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+		})
+
+		/**
+		 * Changes the branches of the first question, and answers it.
+		 *
+		 * @param {object} branches - The branches of the option and the question.
+		 * @param {string} input - The number of mentees to answer with.
+		 * @param {string} format - The format of the input the option accepts.
+		 *
+		 * @returns {string} - The ID of the question the user is shown next.
+		 */
+		const answerWith = async (
+			branches: { option?: any[]; question?: any[] },
+			input: string,
+			format = 'number',
+		): Promise<string> => {
+			const [option] = branching.start.options
+			let { status, body } = await fetch({
+				method: 'put',
+				url: `conversations/${branching.conversation.id}/questions/${branching.start.id}`,
+				json: {
+					...branching.start,
+					id: undefined,
+					options: [{ ...option, format, branches: branches.option ?? [] }],
+					branches: branches.question ?? [],
+				},
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			;({ status, body } = await fetch({
+				method: 'put',
+				url: `conversations/${branching.conversation.id}/questions/${branching.start.id}/answer`,
+				json: { position: 1, input },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			return body.session.next.question
+		}
+
+		/**
+		 * Creates a branch to the target question, taken if the user's attribute
+		 * compares with the value as given.
+		 *
+		 * @param {string} operator - How to compare the attribute's value.
+		 * @param {string | number} value - The value to compare it with.
+		 * @param {string} to - Which question the branch leads to.
+		 *
+		 * @returns {object} - The branch.
+		 */
+		const branchTo = (
+			operator: string,
+			value: string | number,
+			to: 'target' | 'fallback' = 'target',
+		) => ({
+			conditions: [{ attribute: attributes.knowsCapital.id, operator, value }],
+			next: {
+				conversation: branching.conversation.id,
+				question: branching[to].id,
+			},
+		})
+
+		it('should take the branch whose conditions are satisfied', async () => {
+			const next = await answerWith(
+				{ option: [branchTo('==', 4), branchTo('==', 5)] },
+				'5',
+			)
+
+			expect(next).toEqual(branching.target.id)
+		})
+
+		it('should fall back to the `next` question when no branch is satisfied', async () => {
+			const next = await answerWith({ option: [branchTo('==', 5)] }, '6')
+
+			expect(next).toEqual(branching.fallback.id)
+		})
+
+		it('should not take a branch on an attribute the user does not have', async () => {
+			const next = await answerWith(
+				{
+					option: [
+						{
+							...branchTo('!=', 5),
+							conditions: [{ attribute: 'weird', operator: '!=', value: 5 }],
+						},
+					],
+				},
+				'6',
+			)
+
+			expect(next).toEqual(branching.fallback.id)
+		})
+
+		it("should check the question's branches after the option's", async () => {
+			let next = await answerWith({ question: [branchTo('>', 5)] }, '6')
+
+			expect(next).toEqual(branching.target.id)
+
+			next = await answerWith(
+				{
+					option: [branchTo('>', 5, 'fallback')],
+					question: [branchTo('>', 5)],
+				},
+				'6',
+			)
+
+			expect(next).toEqual(branching.fallback.id)
+		})
+
+		it.each([
+			['==', 5, '5', '6'],
+			['!=', 5, '6', '5'],
+			['>', 5, '6', '5'],
+			['<', 5, '4', '5'],
+			['>=', 5, '5', '4'],
+			['<=', 5, '5', '6'],
+			['includes', '5', '15', '16'],
+		])(
+			'should compare the attribute with the `%s` operator',
+			async (
+				operator: string,
+				value: string | number,
+				satisfied: string,
+				unsatisfied: string,
+			) => {
+				let next = await answerWith(
+					{ option: [branchTo(operator, value)] },
+					satisfied,
+				)
+
+				expect(next).toEqual(branching.target.id)
+
+				next = await answerWith(
+					{ option: [branchTo(operator, value)] },
+					unsatisfied,
+				)
+
+				expect(next).toEqual(branching.fallback.id)
+			},
+		)
+
+		it('should compare free-text input with a number as a number', async () => {
+			let next = await answerWith({ option: [branchTo('==', 5)] }, '5', 'text')
+
+			expect(next).toEqual(branching.target.id)
+
+			next = await answerWith({ option: [branchTo('>', 9)] }, '10', 'text')
+
+			expect(next).toEqual(branching.target.id)
+		})
+	})
+
+	describe('going back from a finished session', () => {
+		const ending: { conversation: any; question: any } = {
+			conversation: {},
+			question: {},
+		}
+
+		beforeAll(async () => {
+			let { body } = await fetch({
+				method: 'post',
+				url: 'conversations',
+				json: await testData('conversations/create/updates'),
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+			ending.conversation = body.conversation
+			;({ body } = await fetch({
+				method: 'post',
+				url: `conversations/${ending.conversation.id}/questions`,
+				json: { ...(await testData('questions/create/ending')), first: true },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+			ending.question = body.question
+		})
+
+		afterAll(async () => {
+			await fetch({
+				method: 'delete',
+				url: `conversations/${ending.conversation.id}`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+		})
+
+		it('should reopen the session and return the last question when the requesting user has just finished it', async () => {
+			let { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${ending.conversation.id}/questions/${ending.question.id}/answer`,
+				json: { position: 1 },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			expect(body.session.finished).toBeDefined()
+			;({ body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${ending.conversation.id}/sessions/current/back`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.question.id).toEqual(ending.question.id)
+			expect(body.session.finished).toBeUndefined()
+			expect(body.session.path.length).toEqual(0)
+			expect(body.session.next.question).toEqual(ending.question.id)
+		})
+
+		it('should return a `precondition-failed` error when going back again', async () => {
+			const error = await fetchError({
+				method: 'put',
+				url: `conversations/${ending.conversation.id}/sessions/current/back`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(error?.status).toEqual(412)
+			expect(error?.code).toEqual('precondition-failed')
+		})
+
+		it('should keep when the session was first finished when it is finished and reopened again', async () => {
+			let { body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${ending.conversation.id}/questions/${ending.question.id}/answer`,
+				json: { position: 1 },
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+
+			expect(status).toEqual(200)
+			const { firstFinished } = body.session
+			expect(firstFinished).toBeDefined()
+			expect(body.session.finished).not.toEqual(firstFinished)
+			;({ body, status } = await fetch({
+				method: 'put',
+				url: `conversations/${ending.conversation.id}/sessions/current/back`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+
+			expect(status).toEqual(200)
+			expect(body.session.finished).toBeUndefined()
+			expect(body.session.firstFinished).toEqual(firstFinished)
+		})
+	})
+
+	describe('input rules', () => {
+		const details: { conversation: any; question: any } = {
+			conversation: {},
+			question: {},
+		}
+
+		beforeAll(async () => {
+			let { body } = await fetch({
+				method: 'post',
+				url: 'conversations',
+				json: await testData('conversations/create/updates'),
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+			details.conversation = body.conversation
+			;({ body } = await fetch({
+				method: 'post',
+				url: `conversations/${details.conversation.id}/questions`,
+				json: await testData('questions/create/details'),
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			}))
+			details.question = body.question
+		})
+
+		afterAll(async () => {
+			await fetch({
+				method: 'delete',
+				url: `conversations/${details.conversation.id}`,
+				headers: {
+					authorization: tokens.groot.bearer,
+				},
+			})
+		})
+
+		it.each([
+			['is not a valid regular expression', '^[A-Z{2}\\d{4}$'],
+			['is too long', 'a'.repeat(201)],
+			['repeats a repetition', '^(a+)+$'],
+		])(
+			'should return a `improper-payload` error when a pattern %s',
+			async (_situation: string, pattern: string) => {
+				const data = await testData('questions/create/details')
+				const options = [
+					...(data.options as any[]),
+					{ position: 3, type: 'input', text: 'Code?', rules: { pattern } },
+				]
+
+				let error = await fetchError({
+					method: 'post',
+					url: `conversations/${details.conversation.id}/questions`,
+					json: { ...data, options },
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(error?.status).toEqual(400)
+				expect(error?.code).toEqual('improper-payload')
+
+				error = await fetchError({
+					method: 'put',
+					url: `conversations/${details.conversation.id}/questions/${details.question.id}`,
+					json: { ...data, options },
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(error?.status).toEqual(400)
+				expect(error?.code).toEqual('improper-payload')
+			},
+		)
+
+		it.each([
+			['required', 1, undefined],
+			['required', 1, ''],
+			['min', 1, '17'],
+			['min', 1, 'old'],
+			['max', 1, '100'],
+			['pattern', 2, 'ab1234'],
+			['pattern', 2, 'AB12345'],
+		])(
+			'should return a `improper-payload` error when the answer fails the `%s` rule (option %d, input %j)',
+			async (rule: string, position: number, input?: string) => {
+				const error = await fetchError({
+					method: 'put',
+					url: `conversations/${details.conversation.id}/questions/${details.question.id}/answer`,
+					json: { position, input },
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(error?.status).toEqual(400)
+				expect(error?.code).toEqual('improper-payload')
+				expect(error?.message).toContain(`\`${rule}\``)
+			},
+		)
+
+		it.each([
+			[1, '18'],
+			[1, '99'],
+			[2, 'AB1234'],
+			[2, ''],
+		])(
+			'should accept an answer that satisfies the rules (option %d, input %j)',
+			async (position: number, input: string) => {
+				const { body, status } = await fetch({
+					method: 'put',
+					url: `conversations/${details.conversation.id}/questions/${details.question.id}/answer`,
+					json: { position, input },
+					headers: {
+						authorization: tokens.groot.bearer,
+					},
+				})
+
+				expect(status).toEqual(200)
+				expect(body.session.path.at(-1).position).toEqual(position)
+			},
+		)
+	})
+
 	describe('delete /conversations/{conversationId}/questions/{questionId}', () => {
 		// FIXME: Known issue: even if the document does not exist, Firebase just returns a successful response
 		it.skip('should return a `entity-not-found` error when the requested question is not found', async () => {
@@ -0,0 +1,598 @@
+// @/tests/services/jobs.test.ts
+// Tests creating, running, failing and resuming background jobs, with the
+// database, the queue and the scripts they run kept in memory.
+
+import process from 'node:process'
+
+import type { ServiceResponse } from '@/types'
+import type { Job } from '@/models/job'
+
+import { ServerError } from '@/errors'
+
+// Jest does not inject the `jest` object into ES modules
+const { jest } = import.meta as unknown as {
+	jest: {
+		unstable_mockModule: (path: string, factory: () => unknown) => void
+	}
+}
+
+// Do not wait between attempts, and consider a run stale after a minute
+process.env.JOB_RETRY_DELAY = '0'
+process.env.JOB_STALE_AFTER = '60000'
+
+/**
+ * The jobs in the database, the users and groups jobs target, and the scripts
+ * they run.
+ */
+const database = {
+	jobs: new Map<string, Job>(),
+	users: ['bofh', 'pfy', 'ceo'],
+	groups: new Map<string, string[]>([['interns', ['pfy']]]),
+	scripts: ['compute-smartness'],
+}
+
+/**
+ * The jobs queued, and when to run them.
+ */
+const queued: Array<{ jobId: string; at?: Date }> = []
+
+/**
+ * What the script returns for each user, and how many times it was run for
+ * them. Users not listed here succeed.
+ */
+const outcomes = new Map<string, ServiceResponse<any>>()
+const runs = new Map<string, number>()
+
+/**
+ * What to do while the script runs for each user, e.g., let time pass or have
+ * another run take the job over.
+ */
+const effects = new Map<string, () => void>()
+
+/**
+ * Returns a copy of a job, so that changes made to it are only seen once it is
+ * saved, as with the real database.
+ *
+ * @param {Job} job - The job to copy.
+ *
+ * @returns {Job} - The copy.
+ */
+const copy = (job: Job): Job => structuredClone(job)
+
+jest.unstable_mockModule('@/provider/data/jobs', () => ({
+	provider: {
+		async find() {
+			return [...database.jobs.values()].map((job) => copy(job))
+		},
+		async get(id: string) {
+			const job = database.jobs.get(id)
+			if (!job) throw new ServerError('entity-not-found')
+			return copy(job)
+		},
+		async create(job: Job) {
+			database.jobs.set(job.id, copy(job))
+			return copy(job)
+		},
+		async update(job: Job) {
+			if (!database.jobs.has(job.id)) throw new ServerError('entity-not-found')
+			database.jobs.set(job.id, copy(job))
+			return copy(job)
+		},
+		async updateClaimed(job: Job, owner: string) {
+			const existing = database.jobs.get(job.id)
+			if (!existing) throw new ServerError('entity-not-found')
+			if (existing.owner !== owner)
+				throw new ServerError(
+					'precondition-failed',
+					'The job was taken over by another run.',
+				)
+
+			database.jobs.set(job.id, copy(job))
+			return copy(job)
+		},
+		async claim(id: string, owner: string, claimable: (job: Job) => boolean) {
+			const job = database.jobs.get(id)
+			if (!job) throw new ServerError('entity-not-found')
+			if (!claimable(copy(job))) return undefined
+
+			const now = new Date()
+			const claimed = { ...copy(job), status: 'running', owner }
+			const started =
+				typeof job.cursor === 'undefined' ? now : job.started ?? now
+			database.jobs.set(id, { ...claimed, started, heartbeat: now })
+			return copy(database.jobs.get(id)!)
+		},
+		async delete(id: string) {
+			database.jobs.delete(id)
+		},
+	},
+}))
+jest.unstable_mockModule('@/provider/data/users', () => ({
+	provider: {
+		find: async () => database.users.map((id) => ({ id })),
+	},
+}))
+jest.unstable_mockModule('@/provider/data/groups', () => ({
+	provider: {
+		async get(id: string) {
+			const participants = database.groups.get(id)
+			if (!participants) throw new ServerError('entity-not-found')
+			return {
+				id,
+				tags: [],
+				participants: Object.fromEntries(
+					participants.map((user) => [user, 'mentee']),
+				),
+			}
+		},
+		find: async () => [],
+	},
+}))
+jest.unstable_mockModule('@/provider/data/scripts', () => ({
+	provider: {
+		async get(id: string) {
+			if (!database.scripts.includes(id))
+				throw new ServerError('entity-not-found')
+			return { id }
+		},
+	},
+}))
+jest.unstable_mockModule('@/provider/queue', () => ({
+	queue: {
+		durable: false,
+		process() {},
+		async enqueue(jobId: string, at?: Date) {
+			queued.push({ jobId, at })
+		},
+		cancel() {},
+	},
+}))
+jest.unstable_mockModule('@/services/scripts', () => ({
+	service: {
+		async run(request: { data: { users: string[] } }) {
+			const [user] = request.data.users
+			runs.set(user, (runs.get(user) ?? 0) + 1)
+			effects.get(user)?.()
+
+			return outcomes.get(user) ?? { status: 200, data: { [user]: {} } }
+		},
+	},
+}))
+
+// The service has to be imported after its dependencies are mocked
+// eslint-disable-next-line node/no-unsupported-features/es-syntax
+const { service: jobs } = await import('@/services/jobs')
+
+/**
+ * Creates a job as the BOFH.
+ *
+ * @param {object} data - The script, target and schedule of the job.
+ *
+ * @returns {Job} - The created job.
+ */
+const create = async (
+	data: Parameters<typeof jobs.create>[0]['data'],
+): Promise<Job> => {
+	const result = await jobs.create({
+		data,
+		context: { user: { id: 'bofh' } as any },
+	})
+	if (result.error) throw result.error
+	return result.data!.job
+}
+
+/**
+ * Runs a job, as the queue would.
+ *
+ * @param {string} jobId - The ID of the job.
+ *
+ * @returns {ServiceResponse} - The result of running the job.
+ */
+const run = async (jobId: string) => jobs.run({ data: { jobId } })
+
+beforeEach(() => {
+	database.jobs.clear()
+	queued.length = 0
+	outcomes.clear()
+	runs.clear()
+	effects.clear()
+})
+
+describe('creating jobs', () => {
+	it('saves a one-off job and queues it to run right away', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { users: ['bofh', 'pfy'] },
+		})
+
+		expect(job.status).toBe('queued')
+		expect(database.jobs.get(job.id)?.status).toBe('queued')
+		expect(queued).toEqual([{ jobId: job.id, at: undefined }])
+	})
+
+	it('queues a scheduled job for its next run', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+			schedule: '0 2 * * *',
+		})
+
+		expect(job.status).toBe('scheduled')
+		expect(job.next!.getUTCHours()).toBe(2)
+		expect(queued).toEqual([{ jobId: job.id, at: job.next }])
+	})
+
+	it.each([
+		['no target', {}],
+		['two targets', { users: ['bofh'], all: true }],
+		['an empty list of users', { users: [] }],
+	])('rejects a job with %s', async (_, target) => {
+		const result = await jobs.create({
+			data: { script: 'compute-smartness', target },
+			context: { user: { id: 'bofh' } as any },
+		})
+
+		expect(result.error?.code).toBe('improper-payload')
+		expect(database.jobs.size).toBe(0)
+	})
+
+	it('rejects an invalid schedule or a missing script', async () => {
+		const context = { user: { id: 'bofh' } as any }
+		const invalid = await jobs.create({
+			data: {
+				script: 'compute-smartness',
+				target: { all: true },
+				schedule: 'every day',
+			},
+			context,
+		})
+		const missing = await jobs.create({
+			data: { script: 'compute-niceness', target: { all: true } },
+			context,
+		})
+
+		expect(invalid.error?.code).toBe('improper-payload')
+		expect(missing.error?.code).toBe('entity-not-found')
+		expect(queued).toEqual([])
+	})
+})
+
+describe('running jobs', () => {
+	it('runs the script for each user the job targets', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		const result = await run(job.id)
+
+		expect(result.error).toBeUndefined()
+		expect([...runs.keys()]).toEqual([...database.users].sort())
+
+		const saved = database.jobs.get(job.id)!
+		expect(saved.status).toBe('finished')
+		expect(saved.progress).toEqual({ total: 3, done: 3, failed: 0 })
+		expect(saved.finished!.getTime()).toBeLessThanOrEqual(Date.now())
+		expect(saved.owner).toBeUndefined()
+		expect(saved.heartbeat).toBeUndefined()
+	})
+
+	it('queues a scheduled job to run again once it finishes', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { group: 'interns' },
+			schedule: '*/5 * * * *',
+		})
+		database.jobs.set(job.id, { ...job, next: new Date(Date.now() - 1000) })
+		queued.length = 0
+		await run(job.id)
+
+		const saved = database.jobs.get(job.id)!
+		expect([...runs.keys()]).toEqual(['pfy'])
+		expect(saved.status).toBe('scheduled')
+		expect(saved.next!.getTime()).toBeGreaterThan(Date.now())
+		expect(queued).toEqual([{ jobId: job.id, at: saved.next }])
+	})
+
+	it('does not run a scheduled job before it is due', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+			schedule: '0 2 * * *',
+		})
+		const result = await run(job.id)
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect(runs.size).toBe(0)
+		expect(database.jobs.get(job.id)?.status).toBe('scheduled')
+	})
+
+	it('only runs a job queued twice once', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		const results = await Promise.all([run(job.id), run(job.id)])
+
+		expect(results.filter(({ error }) => error).length).toBe(1)
+		expect(results.find(({ error }) => error)?.error?.code).toBe(
+			'precondition-failed',
+		)
+		expect([...runs.values()]).toEqual([1, 1, 1])
+	})
+})
+
+describe('failing jobs', () => {
+	it('records the users the script failed for, and carries on', async () => {
+		outcomes.set('pfy', {
+			status: 200,
+			data: {
+				pfy: {
+					attributes: [],
+					violations: [],
+					error: {
+						code: 'script-error',
+						message: 'attempt to call a nil value',
+					},
+				},
+			},
+		})
+		outcomes.set('ceo', {
+			status: 200,
+			data: { ceo: { attributes: [], violations: [{ message: 'Nope.' }] } },
+		})
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		await run(job.id)
+
+		const saved = database.jobs.get(job.id)!
+		expect(saved.status).toBe('finished')
+		expect(saved.progress).toEqual({ total: 3, done: 1, failed: 2 })
+		expect(saved.failures).toEqual([
+			{
+				user: 'ceo',
+				attempts: 1,
+				code: 'script-output-invalid',
+				message: 'Nope.',
+			},
+			{
+				user: 'pfy',
+				attempts: 1,
+				code: 'script-error',
+				message: 'attempt to call a nil value',
+			},
+		])
+	})
+
+	it('retries errors that might go away on their own', async () => {
+		outcomes.set('pfy', {
+			status: 200,
+			data: {
+				pfy: {
+					attributes: [],
+					violations: [],
+					error: { code: 'backend-error', message: 'Try again later.' },
+				},
+			},
+		})
+		const job = await create({
+			script: 'compute-smartness',
+			target: { users: ['pfy'] },
+		})
+		await run(job.id)
+
+		expect(runs.get('pfy')).toBe(3)
+		expect(database.jobs.get(job.id)?.failures).toMatchObject([
+			{ user: 'pfy', attempts: 3, code: 'backend-error' },
+		])
+	})
+
+	it('fails the job if its target no longer exists', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { group: 'interns' },
+		})
+		database.groups.delete('interns')
+		await run(job.id)
+		database.groups.set('interns', ['pfy'])
+
+		const saved = database.jobs.get(job.id)!
+		expect(saved.status).toBe('failed')
+		expect(saved.error).toBeDefined()
+		expect(runs.size).toBe(0)
+	})
+
+	it('stops a job that is deleted while it runs', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		const running = run(job.id)
+		await jobs.delete({ data: { jobId: job.id } })
+		const result = await running
+
+		expect(result.error?.code).toBe('entity-not-found')
+		expect(runs.size).toBeLessThan(database.users.length)
+	})
+})
+
+describe('resuming jobs', () => {
+	it('queues unfinished jobs for when they can next run', async () => {
+		const now = Date.now()
+		const base = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		const job = (id: string, fields: Partial<Job>) =>
+			database.jobs.set(id, { ...base, id, ...fields })
+
+		database.jobs.clear()
+		queued.length = 0
+		job('queued', { status: 'queued' })
+		job('scheduled', { status: 'scheduled', next: new Date(now + 5000) })
+		job('running', { status: 'running', heartbeat: new Date(now - 1000) })
+		job('finished', { status: 'finished' })
+		job('failed', { status: 'failed' })
+
+		const result = await jobs.resume({ data: {} })
+
+		expect(result.data?.jobs).toEqual(['queued', 'scheduled', 'running'])
+		expect(queued).toEqual([
+			{ jobId: 'queued', at: new Date(0) },
+			{ jobId: 'scheduled', at: new Date(now + 5000) },
+			{ jobId: 'running', at: new Date(now - 1000 + 60_000) },
+		])
+	})
+
+	it('takes over a running job once its run goes stale', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { users: ['bofh'] },
+		})
+		const started = new Date(Date.now() - 30_000)
+		database.jobs.set(job.id, {
+			...job,
+			status: 'running',
+			owner: 'crashed',
+			started,
+			heartbeat: started,
+		})
+
+		const alive = await run(job.id)
+
+		expect(alive.error?.code).toBe('precondition-failed')
+
+		const stale = new Date(Date.now() - 120_000)
+		database.jobs.set(job.id, {
+			...database.jobs.get(job.id)!,
+			heartbeat: stale,
+		})
+
+		const takenOver = await run(job.id)
+
+		expect(takenOver.error).toBeUndefined()
+		expect(database.jobs.get(job.id)?.status).toBe('finished')
+		expect(runs.get('bofh')).toBe(1)
+	})
+	it('continues a job that runs out of time where it left off', async () => {
+		const { now } = Date
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		queued.length = 0
+		effects.set('ceo', () => {
+			const later = now() + 8 * 60 * 1000
+			Date.now = () => later
+		})
+
+		const first = await run(job.id).finally(() => {
+			Date.now = now
+		})
+
+		expect(first.error).toBeUndefined()
+		expect([...runs.keys()]).toEqual(['bofh', 'ceo'])
+		expect(queued).toEqual([{ jobId: job.id, at: undefined }])
+
+		const paused = database.jobs.get(job.id)!
+		expect(paused.status).toBe('queued')
+		expect(paused.cursor).toBe('ceo')
+		expect(paused.progress).toEqual({ total: 3, done: 2, failed: 0 })
+		expect(paused.owner).toBeUndefined()
+
+		effects.clear()
+		const second = await run(job.id)
+
+		expect(second.error).toBeUndefined()
+		expect([...runs.values()]).toEqual([1, 1, 1])
+
+		const saved = database.jobs.get(job.id)!
+		expect(saved.status).toBe('finished')
+		expect(saved.cursor).toBeUndefined()
+		expect(saved.started).toEqual(paused.started)
+		expect(saved.progress).toEqual({ total: 3, done: 3, failed: 0 })
+	})
+
+	it('neither skips nor repeats users when the target changes between runs', async () => {
+		const { now } = Date
+		database.groups.set('interns', ['pfy', 'ceo', 'bofh'])
+		const job = await create({
+			script: 'compute-smartness',
+			target: { group: 'interns' },
+		})
+		effects.set('bofh', () => {
+			const later = now() + 8 * 60 * 1000
+			Date.now = () => later
+		})
+
+		await run(job.id).finally(() => {
+			Date.now = now
+		})
+		database.groups.set('interns', ['pfy', 'ceo'])
+		effects.clear()
+		await run(job.id)
+		database.groups.set('interns', ['pfy'])
+
+		expect([...runs.entries()]).toEqual([
+			['bofh', 1],
+			['ceo', 1],
+			['pfy', 1],
+		])
+		expect(database.jobs.get(job.id)?.progress).toEqual({
+			total: 3,
+			done: 3,
+			failed: 0,
+		})
+	})
+
+	it('picks up a stale job from the user its run got to', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		const stale = new Date(Date.now() - 120_000)
+		database.jobs.set(job.id, {
+			...job,
+			status: 'running',
+			owner: 'crashed',
+			started: stale,
+			heartbeat: stale,
+			cursor: 'bofh',
+			progress: { total: 3, done: 1, failed: 0 },
+		})
+
+		const result = await run(job.id)
+
+		expect(result.error).toBeUndefined()
+		expect([...runs.keys()]).toEqual(['ceo', 'pfy'])
+		expect(database.jobs.get(job.id)?.progress).toEqual({
+			total: 3,
+			done: 3,
+			failed: 0,
+		})
+	})
+
+	it('stops a run once another run has taken its job over', async () => {
+		const job = await create({
+			script: 'compute-smartness',
+			target: { all: true },
+		})
+		effects.set('bofh', () => {
+			database.jobs.set(job.id, {
+				...database.jobs.get(job.id)!,
+				owner: 'taken-over',
+				progress: { total: 3, done: 2, failed: 0 },
+			})
+		})
+
+		const result = await run(job.id)
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect([...runs.keys()]).toEqual(['bofh'])
+
+		const saved = database.jobs.get(job.id)!
+		expect(saved.owner).toBe('taken-over')
+		expect(saved.progress).toEqual({ total: 3, done: 2, failed: 0 })
+	})
+})
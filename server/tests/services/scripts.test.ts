@@ -0,0 +1,524 @@
+// @/tests/services/scripts.test.ts
+// Tests updating scripts against their test cases, running them for users and
+// listing the records of those runs, with the database kept in memory.
+
+import { Buffer } from 'node:buffer'
+
+import type { Query } from '@/types'
+import type { Attribute, UserAttribute } from '@/models/attribute'
+import type { Script, ScriptRun } from '@/models/script'
+
+import { ServerError } from '@/errors'
+
+// Jest does not inject the `jest` object into ES modules
+const { jest } = import.meta as unknown as {
+	jest: {
+		unstable_mockModule: (path: string, factory: () => unknown) => void
+	}
+}
+
+/**
+ * The scripts, their runs, users, attributes and attribute definitions in the
+ * database.
+ */
+const database = {
+	scripts: new Map<string, Script>(),
+	runs: [] as ScriptRun[],
+	users: new Set(['bofh', 'pfy']),
+	attributes: new Map<string, Map<string, UserAttribute>>(),
+	definitions: new Map<string, Attribute>(),
+}
+
+jest.unstable_mockModule('@/provider/data/scripts', () => ({
+	provider: {
+		find: async () => [...database.scripts.values()],
+		async get(id: string) {
+			const script = database.scripts.get(id)
+			if (!script) throw new ServerError('entity-not-found')
+			return script
+		},
+		async update(script: Script) {
+			database.scripts.set(script.id, script)
+			return script
+		},
+	},
+}))
+jest.unstable_mockModule('@/provider/data/scripts/runs', () => ({
+	provider: {
+		async create(run: ScriptRun) {
+			database.runs.push(run)
+			return run
+		},
+		find: async (queries: Array<Query<ScriptRun>>) =>
+			database.runs
+				.filter((run) =>
+					queries.every(
+						({ field, value }) => run[field as keyof ScriptRun] === value,
+					),
+				)
+				.sort((a, b) => b.started.getTime() - a.started.getTime()),
+	},
+}))
+jest.unstable_mockModule('@/provider/data/users', () => ({
+	provider: {
+		async get(id: string) {
+			if (!database.users.has(id)) throw new ServerError('entity-not-found')
+			return { id, name: id.toUpperCase(), lastSignedIn: new Date() }
+		},
+	},
+}))
+jest.unstable_mockModule('@/provider/data/users/attributes', () => ({
+	provider(userId: string) {
+		if (!database.attributes.has(userId))
+			database.attributes.set(userId, new Map())
+		const attributes = database.attributes.get(userId)!
+
+		return {
+			async get(id: string) {
+				const attribute = attributes.get(id)
+				if (!attribute) throw new ServerError('entity-not-found')
+				return attribute
+			},
+			async create(attribute: UserAttribute) {
+				attributes.set(attribute.id, attribute)
+				return attribute
+			},
+			async update(attribute: UserAttribute) {
+				attributes.set(attribute.id, attribute)
+				return attribute
+			},
+		}
+	},
+}))
+jest.unstable_mockModule('@/provider/data/attributes', () => ({
+	provider: {
+		getMany: async (ids: string[]) =>
+			ids.flatMap((id) => database.definitions.get(id) ?? []),
+	},
+}))
+
+// The service has to be imported after its dependencies are mocked
+// eslint-disable-next-line node/no-unsupported-features/es-syntax
+const { service: scripts } = await import('@/services/scripts')
+// eslint-disable-next-line node/no-unsupported-features/es-syntax
+const { service: userRuns } = await import('@/services/users/runs')
+
+/**
+ * Encodes a lua script that computes `smartness` from `knowsCapital`.
+ *
+ * @param {string} expression - How to compute `smartness`, in lua.
+ *
+ * @returns {string} - The base64 encoded code.
+ */
+const compute = (expression: string): string =>
+	Buffer.from(
+		[
+			'function compute(context)',
+			'	local value = context.input.knowsCapital.value',
+			`	return { attributes = { smartness = { value = ${expression} } } }`,
+			'end',
+		].join('\n'),
+	).toString('base64')
+
+/**
+ * The script used in the tests, before each test changes it.
+ */
+const doubler: Script = {
+	id: 'doubler',
+	name: 'Doubler',
+	description: 'Works out how smart a user is.',
+	tags: [],
+	input: [{ id: 'knowsCapital', optional: false }],
+	computed: [{ id: 'smartness', optional: false }],
+	content: compute('value * 2'),
+	tests: [
+		{ name: 'doubles', input: { knowsCapital: 2 }, expected: { smartness: 4 } },
+	],
+	language: 'lua',
+}
+
+beforeEach(() => {
+	database.scripts.clear()
+	database.scripts.set(doubler.id, doubler)
+})
+
+describe('updating scripts', () => {
+	/**
+	 * Updates the script with the given changes.
+	 *
+	 * @param {Partial<Script> & { force?: boolean }} changes - The changes to make.
+	 *
+	 * @returns {ServiceResponse} - The result of the update.
+	 */
+	const update = async (changes: Partial<Script> & { force?: boolean }) =>
+		scripts.update({
+			data: { ...doubler, ...changes, scriptId: doubler.id },
+		})
+
+	it('saves new code that passes the test cases', async () => {
+		const result = await update({ content: compute('value + value') })
+
+		expect(result.error).toBeUndefined()
+		expect(database.scripts.get(doubler.id)?.content).toBe(
+			compute('value + value'),
+		)
+	})
+
+	it('rejects new code that fails the test cases', async () => {
+		const result = await update({ content: compute('value * 3') })
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect(result.error?.message).toContain(
+			"'doubles' - expected smartness to be 4, but it was 6",
+		)
+		expect(database.scripts.get(doubler.id)).toBe(doubler)
+	})
+
+	it('rejects new test cases the code fails', async () => {
+		const result = await update({
+			tests: [
+				{
+					name: 'triples',
+					input: { knowsCapital: 2 },
+					expected: { smartness: 6 },
+				},
+			],
+		})
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect(result.error?.message).toContain("'triples'")
+		expect(database.scripts.get(doubler.id)).toBe(doubler)
+	})
+
+	it('rejects new code that raises an error in a test case', async () => {
+		const result = await update({ content: compute('value.missing') })
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect(result.error?.message).toContain("'doubles' - ")
+	})
+
+	it('rejects a new language the code fails the test cases in', async () => {
+		const result = await update({ language: 'javascript' })
+
+		expect(result.error?.code).toBe('precondition-failed')
+		expect(result.error?.message).toContain("'doubles' - ")
+		expect(database.scripts.get(doubler.id)).toBe(doubler)
+	})
+
+	it('saves failing code when forced to', async () => {
+		const result = await update({
+			content: compute('value * 3'),
+			force: true,
+		})
+
+		expect(result.error).toBeUndefined()
+		expect(database.scripts.get(doubler.id)?.content).toBe(compute('value * 3'))
+	})
+})
+
+describe('checking what scripts compute', () => {
+	/**
+	 * Encodes a lua script that returns the given attributes.
+	 *
+	 * @param {string} attributes - The attributes to return, as a lua table.
+	 *
+	 * @returns {string} - The base64 encoded code.
+	 */
+	const returning = (attributes: string): string =>
+		Buffer.from(
+			`function compute(context)\n\treturn { attributes = ${attributes} }\nend`,
+		).toString('base64')
+
+	/**
+	 * Runs the script with the given code for `bofh`.
+	 *
+	 * @param {string} content - The base64 encoded code to run.
+	 *
+	 * @returns {ServiceResponse} - The result of the run.
+	 */
+	const run = async (content: string) => {
+		database.scripts.set(doubler.id, { ...doubler, content })
+
+		return scripts.run({
+			data: { scriptId: doubler.id, users: ['bofh'], cascade: false },
+		})
+	}
+
+	beforeEach(() => {
+		database.attributes.clear()
+		database.attributes.set(
+			'bofh',
+			new Map([
+				[
+					'knowsCapital',
+					{ id: 'knowsCapital', value: 2, history: [], _userId: 'bofh' },
+				],
+			]),
+		)
+		database.definitions.clear()
+		database.definitions.set('smartness', {
+			id: 'smartness',
+			name: 'Smartness',
+			description: 'How smart the user is.',
+			tags: [],
+			conversations: [],
+			type: 'number',
+		})
+	})
+
+	it('stores the values when they are what the script declares', async () => {
+		const result = await run(compute('value * 2'))
+
+		expect(result.data?.bofh?.violations).toEqual([])
+		expect(database.attributes.get('bofh')?.get('smartness')?.value).toBe(4)
+	})
+
+	it('reports attributes the script does not declare it computes', async () => {
+		const result = await run(
+			returning('{ smartness = { value = 4 }, wisdom = { value = 1 } }'),
+		)
+
+		expect(result.data?.bofh?.violations).toEqual([
+			expect.objectContaining({ attribute: 'wisdom', problem: 'undeclared' }),
+		])
+		expect(database.attributes.get('bofh')?.has('smartness')).toBe(false)
+		expect(database.attributes.get('bofh')?.has('wisdom')).toBe(false)
+	})
+
+	it('reports required attributes the script does not compute', async () => {
+		const result = await run(returning('{}'))
+
+		expect(result.data?.bofh?.violations).toEqual([
+			expect.objectContaining({ attribute: 'smartness', problem: 'missing' }),
+		])
+	})
+
+	it('does not require optional attributes', async () => {
+		database.scripts.set(doubler.id, {
+			...doubler,
+			computed: [{ id: 'smartness', optional: true }],
+			content: returning('{}'),
+		})
+		const result = await scripts.run({
+			data: { scriptId: doubler.id, users: ['bofh'], cascade: false },
+		})
+
+		expect(result.data?.bofh?.violations).toEqual([])
+	})
+
+	it.each([
+		['a string', "'4'", 'string'],
+		['a table', '{ 4 }', 'object'],
+	])(
+		'reports values of the wrong type, e.g., %s for a number',
+		async (_, value, actual) => {
+			const result = await run(
+				returning(`{ smartness = { value = ${value} } }`),
+			)
+
+			expect(result.data?.bofh?.violations).toEqual([
+				{
+					attribute: 'smartness',
+					problem: 'wrong-type',
+					message: `The script computed a value of type ${actual} for the attribute smartness, which must be a number.`,
+				},
+			])
+			expect(database.attributes.get('bofh')?.has('smartness')).toBe(false)
+		},
+	)
+
+	it('only allows strings, numbers and booleans for untyped attributes', async () => {
+		database.definitions.get('smartness')!.type = undefined
+		const result = await run(returning('{ smartness = { value = { 4 } } }'))
+
+		expect(result.data?.bofh?.violations).toEqual([
+			expect.objectContaining({
+				problem: 'wrong-type',
+				message: expect.stringContaining('a string, number or boolean'),
+			}),
+		])
+	})
+})
+
+describe('recording runs', () => {
+	/**
+	 * Runs the doubler script for the given users.
+	 *
+	 * @param {string[]} users - The users to run the script for.
+	 *
+	 * @returns {ServiceResponse} - The result of the run.
+	 */
+	const run = async (users: string[]) =>
+		scripts.run({
+			context: {
+				user: { id: 'groot', name: 'Groot', lastSignedIn: new Date() },
+			},
+			data: { scriptId: doubler.id, users, cascade: false },
+		})
+
+	beforeEach(() => {
+		database.runs.length = 0
+		database.attributes.clear()
+		database.attributes.set(
+			'bofh',
+			new Map([
+				[
+					'knowsCapital',
+					{ id: 'knowsCapital', value: 2, history: [], _userId: 'bofh' },
+				],
+			]),
+		)
+		database.definitions.clear()
+	})
+
+	it('records what a successful run used and computed', async () => {
+		await run(['bofh'])
+
+		expect(database.runs).toEqual([
+			expect.objectContaining({
+				script: doubler.id,
+				user: 'bofh',
+				trigger: { user: 'groot' },
+				input: { knowsCapital: 2 },
+				output: { smartness: 4 },
+				error: undefined,
+			}),
+		])
+	})
+
+	it('records the error a failed run ended with', async () => {
+		database.scripts.set(doubler.id, {
+			...doubler,
+			content: compute('value.missing'),
+		})
+		await run(['bofh'])
+
+		expect(database.runs).toEqual([
+			expect.objectContaining({
+				user: 'bofh',
+				input: { knowsCapital: 2 },
+				output: undefined,
+				error: expect.objectContaining({ code: 'script-error', line: 3 }),
+			}),
+		])
+	})
+
+	it('carries on with the rest of the users when it fails for one', async () => {
+		const result = await run(['pfy', 'bofh'])
+
+		expect(result.status).toBe(200)
+		expect(result.data?.pfy?.error?.code).toBe('precondition-failed')
+		expect(result.data?.bofh?.error).toBeUndefined()
+		expect(result.data?.bofh?.attributes).toMatchObject([
+			{ id: 'smartness', value: 4 },
+		])
+		expect(database.runs.map(({ user, error }) => [user, error?.code])).toEqual(
+			[
+				['pfy', 'precondition-failed'],
+				['bofh', undefined],
+			],
+		)
+	})
+})
+
+describe('listing runs', () => {
+	/**
+	 * Creates the record of a run.
+	 *
+	 * @param {string} script - The script that was run.
+	 * @param {string} user - The user it was run for.
+	 * @param {number} started - When it started, in milliseconds.
+	 * @param {boolean} failed - Whether it failed.
+	 *
+	 * @returns {ScriptRun} - The record of the run.
+	 */
+	const record = (
+		script: string,
+		user: string,
+		started: number,
+		failed = false,
+	): ScriptRun => ({
+		id: `${script}-${user}-${started}`,
+		script,
+		hash: 'hash',
+		user,
+		trigger: { user: 'groot' },
+		input: {},
+		output: failed ? undefined : { smartness: 4 },
+		started: new Date(started),
+		duration: 1,
+		...(failed ? { error: { code: 'script-error', message: 'Oops.' } } : {}),
+	})
+
+	beforeEach(() => {
+		database.runs.length = 0
+		database.runs.push(
+			record('doubler', 'bofh', 1),
+			record('doubler', 'pfy', 2, true),
+			record('doubler', 'bofh', 3, true),
+			record('tripler', 'bofh', 4),
+		)
+	})
+
+	/**
+	 * Lists the IDs of the runs in a response.
+	 *
+	 * @param {ServiceResponse} result - The response from the service.
+	 *
+	 * @returns {string[]} - The IDs of the runs.
+	 */
+	const ids = (result: { data?: { runs: ScriptRun[] } }) =>
+		result.data?.runs.map(({ id }) => id)
+
+	it('lists the runs of a script, latest first', async () => {
+		const result = await scripts.listRuns({ data: { scriptId: 'doubler' } })
+
+		expect(ids(result)).toEqual([
+			'doubler-bofh-3',
+			'doubler-pfy-2',
+			'doubler-bofh-1',
+		])
+	})
+
+	it('lists the runs of a script for a user', async () => {
+		const result = await scripts.listRuns({
+			data: { scriptId: 'doubler', user: 'bofh' },
+		})
+
+		expect(ids(result)).toEqual(['doubler-bofh-3', 'doubler-bofh-1'])
+	})
+
+	it.each([
+		[true, ['doubler-bofh-3', 'doubler-pfy-2']],
+		[false, ['doubler-bofh-1']],
+		// Query parameters arrive as strings
+		['true', ['doubler-bofh-3', 'doubler-pfy-2']],
+	])(
+		'lists the runs of a script when `failed` is %p',
+		async (failed, expected) => {
+			const result = await scripts.listRuns({
+				data: { scriptId: 'doubler', failed: failed as boolean },
+			})
+
+			expect(ids(result)).toEqual(expected)
+		},
+	)
+
+	it('lists the scripts run for a user', async () => {
+		const result = await userRuns.find({ data: { userId: 'bofh' } })
+
+		expect(ids(result)).toEqual([
+			'tripler-bofh-4',
+			'doubler-bofh-3',
+			'doubler-bofh-1',
+		])
+	})
+
+	it('lists the runs of a script for a user that failed', async () => {
+		const result = await userRuns.find({
+			data: { userId: 'bofh', script: 'doubler', failed: true },
+		})
+
+		expect(ids(result)).toEqual(['doubler-bofh-3'])
+	})
+})
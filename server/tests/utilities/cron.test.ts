@@ -0,0 +1,45 @@
+// @/tests/utilities/cron.test.ts
+// Tests parsing cron expressions and working out when they are next due.
+
+import { nextRun, parseCron } from '@/utilities/cron'
+
+// A Wednesday
+const now = new Date('2023-03-15T10:30:45Z')
+
+describe('cron schedules', () => {
+	it.each([
+		['* * * * *', '2023-03-15T10:31:00.000Z'],
+		['0 2 * * *', '2023-03-16T02:00:00.000Z'],
+		['*/20 * * * *', '2023-03-15T10:40:00.000Z'],
+		['15,45 9-17 * * 1-5', '2023-03-15T10:45:00.000Z'],
+		['0 0 * * 0', '2023-03-19T00:00:00.000Z'],
+		['0 0 1 * *', '2023-04-01T00:00:00.000Z'],
+		['0 0 29 2 *', '2024-02-29T00:00:00.000Z'],
+		['@daily', '2023-03-16T00:00:00.000Z'],
+		['@yearly', '2024-01-01T00:00:00.000Z'],
+	])('works out when `%s` is next due', (expression, expected) => {
+		expect(nextRun(parseCron(expression), now).toISOString()).toBe(expected)
+	})
+
+	it('runs on either the day of the month or the week if both are set', () => {
+		// The 20th of March 2023 is a Monday, and comes after the Friday
+		const schedule = parseCron('0 0 20 * 5')
+
+		expect(nextRun(schedule, now).toISOString()).toBe(
+			'2023-03-17T00:00:00.000Z',
+		)
+	})
+
+	it.each(['* * * *', '60 * * * *', '* * * * mon', '5-1 * * * *', '@often'])(
+		'does not accept `%s`',
+		(expression) => {
+			expect(() => parseCron(expression)).toThrow()
+		},
+	)
+
+	it('does not accept schedules that are never due', () => {
+		expect(() => nextRun(parseCron('0 0 31 2 *'), now)).toThrow(
+			'The schedule is never due.',
+		)
+	})
+})
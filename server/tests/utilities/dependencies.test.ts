@@ -0,0 +1,61 @@
+// @/tests/utilities/dependencies.test.ts
+// Tests working out which scripts depend on which.
+
+import type { ScriptDependencies } from '@/utilities/dependencies'
+
+import { findCycle, planRuns } from '@/utilities/dependencies'
+
+/**
+ * Creates a script that uses and computes the given attributes.
+ *
+ * @param {string} id - The script ID.
+ * @param {string[]} input - The IDs of the attributes the script uses.
+ * @param {string[]} computed - The IDs of the attributes the script computes.
+ *
+ * @returns {ScriptDependencies} - The script.
+ */
+const script = (
+	id: string,
+	input: string[],
+	computed: string[],
+): ScriptDependencies => ({
+	id,
+	input: input.map((id) => ({ id, optional: false })),
+	computed: computed.map((id) => ({ id, optional: false })),
+})
+
+// The score is computed from the answers, the level from the score and the
+// answers, and the badge from the level
+const scripts = [
+	script('badge', ['level'], ['badge']),
+	script('level', ['score', 'answers'], ['level']),
+	script('score', ['answers'], ['score']),
+	script('greeting', ['name'], ['greeting']),
+]
+
+describe('script dependencies', () => {
+	it('runs every affected script once, after the scripts it depends on', () => {
+		const plan = planRuns(scripts, ['answers']).map(({ id }) => id)
+
+		expect(plan).toEqual(['score', 'level', 'badge'])
+	})
+
+	it('does not run scripts that are not affected', () => {
+		expect(planRuns(scripts, ['level']).map(({ id }) => id)).toEqual(['badge'])
+		expect(planRuns(scripts, ['unused'])).toEqual([])
+	})
+
+	it('finds cycles between scripts', () => {
+		expect(findCycle(scripts)).toBeUndefined()
+		expect(
+			findCycle([...scripts, script('demote', ['badge'], ['score'])]),
+		).toEqual(['badge', 'demote', 'level', 'badge'])
+	})
+
+	it('does not treat a script that uses its own output as a cycle', () => {
+		const counter = script('counter', ['answers', 'count'], ['count'])
+
+		expect(findCycle([...scripts, counter])).toBeUndefined()
+		expect(planRuns([counter], ['count'])).toEqual([counter])
+	})
+})
@@ -0,0 +1,162 @@
+// @/tests/utilities/javascript.test.ts
+// Tests the sandbox that javascript scripts run in.
+
+import { User } from '@/models/user'
+import { UserAttribute } from '@/models/attribute'
+import { runJavaScript } from '@/utilities/javascript'
+
+// The context to run the scripts with
+const context = {
+	user: new User('bofh', 'BOFH', undefined, undefined, new Date()),
+	input: {
+		knowsCapital: new UserAttribute('knowsCapital', 1, [], 'bofh'),
+	},
+}
+
+// Tighter limits, so the tests do not take long
+const limits = { instructions: 1_000_000, time: 500, memory: 16 * 1024 * 1024 }
+
+describe('javascript sandbox', () => {
+	it('runs the `compute` function with the context', async () => {
+		const output = await runJavaScript(
+			[
+				'function compute(context) {',
+				'	const { value } = context.input.knowsCapital',
+				'	return { attributes: { smartness: { value: value * 2 } } }',
+				'}',
+			].join('\n'),
+			context,
+			{ limits },
+		)
+
+		expect(output).toEqual({ attributes: { smartness: { value: 2 } } })
+	})
+
+	it.each([
+		['a syntax error', 'function compute(context) {\n\treturn =\n}', 2],
+		[
+			'a runtime error',
+			'function compute(context) {\n\n\treturn context.missing.value\n}',
+			3,
+		],
+		[
+			'an explicit error',
+			'function compute(context) {\n\tthrow new Error("oops")\n}',
+			2,
+		],
+	])(
+		'returns a `script-error` with the line number for %s',
+		async (_, code, line) => {
+			await expect(
+				runJavaScript(code, context, { limits }),
+			).rejects.toMatchObject({
+				code: 'script-error',
+				line,
+			})
+		},
+	)
+
+	it.each([
+		['loops forever', 'function compute(context) {\n\twhile (true) {}\n}'],
+		[
+			'catches the timeout and carries on',
+			'function compute(context) {\n\twhile (true) { try { while (true) {} } catch {} }\n}',
+		],
+	])('returns a `script-timeout` when the script %s', async (_, code) => {
+		await expect(
+			runJavaScript(code, context, { limits }),
+		).rejects.toMatchObject({
+			code: 'script-timeout',
+			message: expect.stringContaining(`ran for longer than ${limits.time} ms`),
+		})
+	})
+
+	it('says the script ran out of memory when it allocates too much', async () => {
+		await expect(
+			runJavaScript(
+				'function compute(context) {\n\tconst list = []\n\twhile (true) list.push({ list })\n}',
+				context,
+				{ limits },
+			),
+		).rejects.toMatchObject({
+			code: 'script-timeout',
+			message: `The script was stopped as it used more than ${limits.memory} bytes of memory.`,
+		})
+	})
+
+	it.each([
+		[
+			'is async',
+			'async function compute(context) {\n\treturn { attributes: {} }\n}',
+			'returned a promise',
+		],
+		[
+			'returns a promise',
+			'function compute(context) {\n\treturn new Promise(() => {})\n}',
+			'returned a promise',
+		],
+		[
+			'returns a number',
+			'function compute(context) {\n\treturn 42\n}',
+			'returned a number',
+		],
+		[
+			'returns an array',
+			'function compute(context) {\n\treturn [{ attributes: {} }]\n}',
+			'returned an array',
+		],
+	])(
+		'returns a `script-error` when the `compute` function %s',
+		async (_, code, message) => {
+			await expect(
+				runJavaScript(code, context, { limits }),
+			).rejects.toMatchObject({
+				code: 'script-error',
+				message: expect.stringContaining(message),
+			})
+		},
+	)
+
+	it('passes the messages the script logs to the caller', async () => {
+		const logs: string[] = []
+		await runJavaScript(
+			[
+				'function compute(context) {',
+				'	log("computing")',
+				'	log({ value: context.input.knowsCapital.value })',
+				'	return {}',
+				'}',
+			].join('\n'),
+			context,
+			{ limits, log: (message) => logs.push(message) },
+		)
+
+		expect(logs).toEqual(['computing', '{"value":1}'])
+	})
+
+	it('does not expose node or let the script escape the sandbox', async () => {
+		const output = await runJavaScript(
+			[
+				'function compute(context) {',
+				'	const attempt = (escape) => { try { return typeof escape() } catch { return "blocked" } }',
+				'	return {',
+				'		process: typeof process, require: typeof require,',
+				'		eval: attempt(() => eval("1")),',
+				'		constructor: attempt(() => context.constructor.constructor("return process")()),',
+				'		log: attempt(() => log.constructor("return process")()),',
+				'	}',
+				'}',
+			].join('\n'),
+			context,
+			{ limits },
+		)
+
+		expect(output).toEqual({
+			process: 'undefined',
+			require: 'undefined',
+			eval: 'blocked',
+			constructor: 'blocked',
+			log: 'blocked',
+		})
+	})
+})
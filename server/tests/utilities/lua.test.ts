@@ -0,0 +1,149 @@
+// @/tests/utilities/lua.test.ts
+// Tests the sandbox that lua scripts run in.
+
+import { User } from '@/models/user'
+import { UserAttribute } from '@/models/attribute'
+import { runLua } from '@/utilities/lua'
+
+// The context to run the scripts with
+const context = {
+	user: new User('bofh', 'BOFH', undefined, undefined, new Date()),
+	input: {
+		knowsCapital: new UserAttribute('knowsCapital', 1, [], 'bofh'),
+	},
+}
+
+// Tighter limits, so the tests do not take long
+const limits = { instructions: 1_000_000, time: 500, memory: 16 * 1024 * 1024 }
+
+describe('lua sandbox', () => {
+	it('runs the `compute` function with the context', async () => {
+		const output = await runLua(
+			[
+				'function compute(context)',
+				'	local value = context.input.knowsCapital.value',
+				'	return { attributes = { smartness = { value = value * 2 } } }',
+				'end',
+			].join('\n'),
+			context,
+			{ limits },
+		)
+
+		expect(output).toEqual({ attributes: { smartness: { value: 2 } } })
+	})
+
+	it.each([
+		['a syntax error', 'function compute(context)\n\treturn =\nend', 2],
+		[
+			'a runtime error',
+			'function compute(context)\n\n\treturn nil + 1\nend',
+			3,
+		],
+		['an explicit error', 'function compute(context)\n\terror("oops")\nend', 2],
+	])(
+		'returns a `script-error` with the line number for %s',
+		async (_, code, line) => {
+			await expect(runLua(code, context, { limits })).rejects.toMatchObject({
+				code: 'script-error',
+				line,
+			})
+		},
+	)
+
+	it.each([
+		['loops forever', 'function compute(context)\n\twhile true do end\nend'],
+		[
+			'catches the timeout and carries on',
+			'function compute(context)\n\twhile true do pcall(function() while true do end end) end\nend',
+		],
+		[
+			'allocates too much memory',
+			'function compute(context)\n\tlocal t = {}\n\tfor i = 1, 1e9 do t[i] = { i } end\nend',
+		],
+		[
+			'builds a huge string in a few library calls',
+			'function compute(context)\n\tlocal s = ("a"):rep(100000)\n\tfor i = 1, 10 do s = s:gsub("a", "aa") end\nend',
+		],
+		[
+			'matches a pathological pattern',
+			'function compute(context)\n\treturn { found = ("a"):rep(5000):find(".-.-.-.-.-b") }\nend',
+		],
+	])('returns a `script-timeout` when the script %s', async (_, code) => {
+		const started = Date.now()
+		await expect(runLua(code, context, { limits })).rejects.toMatchObject({
+			code: 'script-timeout',
+		})
+		expect(Date.now() - started).toBeLessThan(limits.time * 4)
+	})
+
+	it('says the script ran out of memory when it allocates too much', async () => {
+		await expect(
+			runLua(
+				'function compute(context)\n\tlocal t = {}\n\tfor i = 1, 1e9 do t[i] = { i } end\nend',
+				context,
+				{ limits },
+			),
+		).rejects.toMatchObject({
+			code: 'script-timeout',
+			message: expect.stringContaining(
+				`as it used more than ${limits.memory} bytes of memory.`,
+			),
+		})
+	})
+
+	it.each([
+		['a string', 'return "smart"', 'a string'],
+		['a number', 'return 42', 'a number'],
+		['a boolean', 'return true', 'a boolean'],
+		['a list', 'return { 1, 2 }', 'a list'],
+	])('rejects a `compute` function that returns %s', async (_, body, kind) => {
+		await expect(
+			runLua(`function compute(context)\n\t${body}\nend`, context),
+		).rejects.toMatchObject({
+			code: 'script-error',
+			message: `The \`compute\` function must return a table with named fields, but it returned ${kind}.`,
+		})
+	})
+
+	it('passes the messages the script logs to the caller', async () => {
+		const logs: string[] = []
+		await runLua(
+			[
+				'function compute(context)',
+				'	log("computing")',
+				'	log({ value = context.input.knowsCapital.value })',
+				'	return {}',
+				'end',
+			].join('\n'),
+			context,
+			{ limits, log: (message) => logs.push(message) },
+		)
+
+		expect(logs).toEqual(['computing', '{"value":1}'])
+	})
+
+	it('only exposes the whitelisted standard library', async () => {
+		const output = await runLua(
+			[
+				'function compute(context)',
+				'	return {',
+				'		io = type(io), load = type(load), require = type(require),',
+				'		execute = type(os.execute), time = type(os.time),',
+				'		format = type(string.format),',
+				'	}',
+				'end',
+			].join('\n'),
+			context,
+			{ limits },
+		)
+
+		expect(output).toEqual({
+			io: 'nil',
+			load: 'nil',
+			require: 'nil',
+			execute: 'nil',
+			time: 'function',
+			format: 'function',
+		})
+	})
+})
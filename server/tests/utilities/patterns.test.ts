@@ -0,0 +1,55 @@
+// @/tests/utilities/patterns.test.ts
+// Tests compiling the patterns that the input users enter must match.
+
+import { compilePattern, matchPattern } from '@/utilities/patterns'
+
+describe('input patterns', () => {
+	it('compiles valid patterns', () => {
+		const pattern = compilePattern('^[A-Z]{2}\\d{4}$')
+
+		expect(pattern.test('AB1234')).toBe(true)
+		expect(pattern.test('ab1234')).toBe(false)
+		expect(compilePattern('^[A-Z]{2}\\d{4}$')).toBe(pattern)
+	})
+
+	it.each([
+		['are invalid', '[a-z'],
+		['are too long', 'a'.repeat(201)],
+		['repeat a repetition', '^(a+)+$'],
+		['repeat a bounded repetition', '^(\\w{2,},)*$'],
+	])('rejects patterns that %s', (_, pattern) => {
+		expect(() => compilePattern(pattern)).toThrow()
+	})
+
+	it('allows repeated groups without a repetition in them', () => {
+		expect(compilePattern('^(ab|cd)+$').test('abcdab')).toBe(true)
+		expect(compilePattern('^\\(\\d+\\)+$').test('(12)')).toBe(true)
+	})
+})
+
+describe('matching input', () => {
+	it('matches input against a pattern', () => {
+		const pattern = compilePattern('^[A-Z]{2}\\d{4}$')
+
+		expect(matchPattern(pattern, 'AB1234')).toBe(true)
+		expect(matchPattern(pattern, 'AB123')).toBe(false)
+	})
+
+	it.each([['^((a+))+$'], ['^(a|a)+$'], ['^(a|aa)+$']])(
+		'gives up on input that takes too long to match against `%s`',
+		(source) => {
+			const started = Date.now()
+
+			expect(() =>
+				matchPattern(compilePattern(source), `${'a'.repeat(40)}b`),
+			).toThrow('too long to match')
+			expect(Date.now() - started).toBeLessThan(1000)
+		},
+	)
+
+	it('does not match input that is too long', () => {
+		expect(() =>
+			matchPattern(compilePattern('^a*$'), 'a'.repeat(1001)),
+		).toThrow('at most 1000 characters')
+	})
+})
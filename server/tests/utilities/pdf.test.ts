@@ -0,0 +1,151 @@
+// @/tests/utilities/pdf.test.ts
+// Tests picking the format to render a report in, and rendering reports as
+// PDF documents in a locked down browser.
+
+import { Buffer } from 'node:buffer'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import express from 'express'
+import got from 'got'
+
+import type { PuppeteerNode } from 'puppeteer'
+
+import { negotiateFormat, renderPdf } from '@/utilities/pdf'
+
+/**
+ * A request the fake browser makes while loading the report.
+ */
+type FakeRequest = {
+	url: string
+	outcome?: 'continued' | 'aborted'
+}
+
+/**
+ * Creates a fake browser that records what the page was set up with, and
+ * makes a request for each of the given URLs when the report is loaded, as a
+ * real browser would for the images and stylesheets in it.
+ *
+ * @param {string[]} urls - The URLs the report loads.
+ *
+ * @returns {object} - The fake browser, and what happened to it.
+ */
+const fakeBrowser = (urls: string[]) => {
+	const seen = {
+		args: [] as string[],
+		javascript: true,
+		interception: false,
+		requests: [] as FakeRequest[],
+		closed: false,
+	}
+
+	let listener: (request: any) => void = () => {}
+	const page = {
+		async setJavaScriptEnabled(enabled: boolean) {
+			seen.javascript = enabled
+		},
+		async setRequestInterception(enabled: boolean) {
+			seen.interception = enabled
+		},
+		on(_event: string, handler: (request: any) => void) {
+			listener = handler
+		},
+		async setContent() {
+			for (const url of urls) {
+				const request: FakeRequest = { url }
+				seen.requests.push(request)
+				listener({
+					url: () => url,
+					async continue() {
+						request.outcome = 'continued'
+					},
+					async abort() {
+						request.outcome = 'aborted'
+					},
+				})
+			}
+		},
+		pdf: async () => Buffer.from('%PDF-1.4'),
+	}
+	const browsers = {
+		async launch(options: { args: string[] }) {
+			seen.args = options.args
+
+			return {
+				newPage: async () => page,
+				async close() {
+					seen.closed = true
+				},
+			}
+		},
+	} as unknown as Pick<PuppeteerNode, 'launch'>
+
+	return { browsers, seen }
+}
+
+describe('report format negotiation', () => {
+	let server: Server
+	let url: string
+
+	beforeAll((done) => {
+		const app = express()
+		app.get('/', (request, response) => {
+			response.send(negotiateFormat(request))
+		})
+		server = app.listen(0, () => {
+			url = `http://localhost:${(server.address() as AddressInfo).port}/`
+			done()
+		})
+	})
+
+	afterAll((done) => {
+		server.close(() => done())
+	})
+
+	it.each([
+		['pdf', 'application/pdf'],
+		['pdf', 'application/pdf, text/html;q=0.5'],
+		['html', 'text/html'],
+		['html', 'text/html, application/pdf;q=0.5'],
+		['html', '*/*'],
+	])(
+		'renders the report as %s when the `Accept` header is `%s`',
+		async (format: string, accept: string) => {
+			const body = await got(url, { headers: { accept } }).text()
+
+			expect(body).toBe(format)
+		},
+	)
+})
+
+describe('pdf rendering', () => {
+	it('renders the report with scripts disabled and the sandbox on', async () => {
+		const { browsers, seen } = fakeBrowser([])
+		const pdf = await renderPdf('<h1>Report</h1>', { title: 'Quiz' }, browsers)
+
+		expect(pdf.toString()).toBe('%PDF-1.4')
+		expect(seen.javascript).toBe(false)
+		expect(seen.args).not.toContain('--no-sandbox')
+		expect(seen.closed).toBe(true)
+	})
+
+	it('only loads resources embedded in the report', async () => {
+		const { browsers, seen } = fakeBrowser([
+			'about:blank',
+			'data:image/png;base64,iVBORw0KGgo=',
+			'http://169.254.169.254/computeMetadata/v1/',
+			'https://example.com/track.png',
+			'file:///etc/passwd',
+		])
+		await renderPdf('<h1>Report</h1>', { title: 'Quiz' }, browsers)
+
+		expect(seen.interception).toBe(true)
+		expect(seen.requests.map(({ outcome }) => outcome)).toEqual([
+			'continued',
+			'continued',
+			'aborted',
+			'aborted',
+			'aborted',
+		])
+	})
+})
@@ -0,0 +1,282 @@
+// @/tests/utilities/templates.test.ts
+// Tests rendering templates, aggregating attributes across the participants
+// of a group, winding attributes back in time, and reporting errors in
+// templates.
+
+import { render } from 'ejs'
+
+import type { TemplateInput } from '@/utilities/templates'
+
+import { Attribute, UserAttribute } from '@/models/attribute'
+import { User } from '@/models/user'
+import {
+	aggregate,
+	describeTemplateError,
+	inputAsOf,
+	referencedAttributes,
+	renderTemplate,
+	resolveEngine,
+} from '@/utilities/templates'
+
+/**
+ * Creates a participant with the given attribute values.
+ *
+ * @param {Record<string, string | number | boolean>} values - The participant's attributes, keyed by their ID.
+ *
+ * @returns {{ input: TemplateInput }} - The participant.
+ */
+const participant = (
+	values: Record<string, string | number | boolean>,
+): { input: TemplateInput } => {
+	const input: TemplateInput = {}
+	for (const [id, value] of Object.entries(values))
+		input[id] = {
+			...new Attribute(id, id, '', [], []),
+			...new UserAttribute(id, value, [], 'bofh'),
+		}
+
+	return { input }
+}
+
+const user = new User('bofh', 'BOFH', undefined, undefined, new Date())
+const { input } = participant({ score: 1234.5, mentees: 1 })
+
+describe('rendering templates', () => {
+	it('renders liquid templates with the helper filters', async () => {
+		const template = [
+			'{{ context.user.name }} scored {{ context.input.score.value | number: 2 }}',
+			'{% if context.input.score.value > 1000 %}Well done!{% endif %}',
+			'{{ context.input.mentees.value }} {{ context.input.mentees.value | pluralize: "mentee" }}',
+			'{% for i in (1..3) %}{{ i }}{% endfor %}',
+		].join('\n')
+
+		await expect(
+			renderTemplate(template, 'liquid', { input, user }),
+		).resolves.toBe('BOFH scored 1,234.50\nWell done!\n1 mentee\n123')
+	})
+
+	it('renders legacy templates with EJS', async () => {
+		await expect(
+			renderTemplate('<%= context.user.name.toLowerCase() %>', undefined, {
+				input,
+				user,
+			}),
+		).resolves.toBe('bofh')
+	})
+
+	it('does not let liquid templates read files or inherited properties', async () => {
+		await expect(
+			renderTemplate('{% include "/etc/passwd" %}', 'liquid', { input, user }),
+		).rejects.toThrow()
+		await expect(
+			renderTemplate(
+				'{{ context.constructor }}{{ context.user.constructor }}',
+				'liquid',
+				{
+					input,
+					user,
+				},
+			),
+		).resolves.toBe('')
+	})
+
+	it('escapes HTML in values printed by liquid templates', async () => {
+		const { input: answers } = participant({
+			bio: '<img src=x onerror=alert(1)>',
+		})
+
+		await expect(
+			renderTemplate('<p>{{ context.input.bio.value }}</p>', 'liquid', {
+				input: answers,
+				user,
+			}),
+		).resolves.toBe('<p>&lt;img src=x onerror=alert(1)&gt;</p>')
+		await expect(
+			renderTemplate('{{ context.input.bio.value | raw }}', 'liquid', {
+				input: answers,
+				user,
+			}),
+		).resolves.toBe('<img src=x onerror=alert(1)>')
+	})
+
+	it('stops liquid templates that exceed their limits', async () => {
+		await expect(
+			renderTemplate(
+				'{% for i in (1..100000000) %}{{ i }}{% endfor %}',
+				'liquid',
+				{ input, user },
+			),
+		).rejects.toThrow()
+	})
+
+	it('only allows EJS for templates already written in it', () => {
+		expect(resolveEngine(undefined)).toBe('liquid')
+		expect(() => resolveEngine('ejs')).toThrow()
+		expect(resolveEngine(undefined, {})).toBe('ejs')
+		expect(resolveEngine('liquid', { engine: 'ejs' })).toBe('liquid')
+		expect(() => resolveEngine('ejs', { engine: 'liquid' })).toThrow()
+	})
+})
+
+const participants = [
+	participant({ score: 40, level: 'beginner', done: true }),
+	participant({ score: 80, level: 'expert', done: true }),
+	participant({ score: 60, level: 'beginner' }),
+	participant({ level: 'beginner', done: false }),
+]
+
+describe('group report aggregates', () => {
+	it('works out the count, sum, average, range and distribution of numbers', () => {
+		expect(aggregate(participants, ['score']).score).toEqual({
+			count: 3,
+			missing: 1,
+			sum: 180,
+			average: 60,
+			min: 40,
+			max: 80,
+			distribution: Object.fromEntries([
+				['40', 1],
+				['60', 1],
+				['80', 1],
+			]),
+		})
+	})
+
+	it('only works out the distribution of other values', () => {
+		const { level, done } = aggregate(participants, ['level', 'done'])
+
+		expect(level).toEqual({
+			count: 4,
+			missing: 0,
+			distribution: { beginner: 3, expert: 1 },
+		})
+		expect(done).toEqual({
+			count: 3,
+			missing: 1,
+			distribution: { true: 2, false: 1 },
+		})
+	})
+
+	it('counts attributes no participant has as missing', () => {
+		expect(aggregate(participants, ['unused']).unused).toEqual({
+			count: 0,
+			missing: 4,
+			distribution: {},
+		})
+		expect(aggregate([], ['score']).score).toEqual({
+			count: 0,
+			missing: 0,
+			distribution: {},
+		})
+	})
+})
+
+describe('attributes as of a past time', () => {
+	const history = [
+		{ value: 1, observer: 'bofh', timestamp: new Date('2026-01-01') },
+		{ value: 2, observer: 'bofh', timestamp: new Date('2026-02-01') },
+		{ value: 3, observer: 'bofh', timestamp: new Date('2026-03-01') },
+	]
+	const current: TemplateInput = {
+		level: {
+			...new Attribute('level', 'Level', '', [], []),
+			...new UserAttribute('level', 3, history, 'bofh'),
+		},
+	}
+
+	it('uses the last value set at or before the time', () => {
+		const past = inputAsOf(current, new Date('2026-02-15'))
+
+		expect(past.level.value).toBe(2)
+		expect(past.level.history).toEqual(history.slice(0, 2))
+		expect(inputAsOf(current, new Date('2026-02-01')).level.value).toBe(2)
+	})
+
+	it('leaves out attributes that were not set yet', () => {
+		expect(inputAsOf(current, new Date('2025-12-31'))).toEqual({})
+		expect(inputAsOf(participant({ score: 1 }).input, new Date())).toEqual({})
+	})
+
+	it('does not change the current attributes', () => {
+		inputAsOf(current, new Date('2026-01-15'))
+
+		expect(current.level.value).toBe(3)
+		expect(current.level.history.length).toBe(3)
+	})
+})
+
+describe('attributes referenced by templates', () => {
+	it('finds the attributes read by name, in any notation', () => {
+		const template = [
+			'<%= context.input.name.value %> has',
+			`<%= context.input["coffee-limit"].value %> and {{ context.input['tea-limit'].value }}`,
+			'{% for p in context.participants %}{{ p.input.score.value }}{% endfor %}',
+			'{{ context.aggregates["score"].average }}',
+		].join('\n')
+
+		expect(referencedAttributes(template)).toEqual([
+			'name',
+			'coffee-limit',
+			'tea-limit',
+			'score',
+		])
+	})
+
+	it('leaves out quoted strings that are not read from the input', () => {
+		const template = [
+			'<a href="https://example.com/help">Help</a>',
+			'<img src="/logo.png" alt=\'logo\'>',
+			'<%= "a/b" %> <%= context.input["../secrets"].value %>',
+			'<%= context.input.name.value %>',
+		].join('\n')
+
+		expect(referencedAttributes(template)).toEqual(['name'])
+	})
+})
+
+describe('template errors', () => {
+	/**
+	 * Renders a template, and returns the error it raises.
+	 *
+	 * @param {string} template - The EJS template.
+	 *
+	 * @returns {unknown} - The error raised.
+	 */
+	const fail = (template: string): unknown => {
+		try {
+			render(template, { context: { input: {} } })
+		} catch (error: unknown) {
+			return error
+		}
+
+		throw new Error('The template rendered without an error.')
+	}
+
+	it('finds the line an error occurred on while rendering', () => {
+		const error = fail('Hello,\n<%= context.input.name.value %>!')
+
+		expect(describeTemplateError(error)).toEqual({
+			message: "Cannot read properties of undefined (reading 'value')",
+			line: 2,
+		})
+	})
+
+	it('finds the line an error occurred on in liquid templates', async () => {
+		const error = await renderTemplate('Hello,\n{{ name | shout }}', 'liquid', {
+			input,
+			user,
+		}).catch((error: unknown) => error)
+
+		expect(describeTemplateError(error)).toEqual({
+			message: 'undefined filter: shout',
+			line: 2,
+		})
+	})
+
+	it('describes syntax errors without a line number', () => {
+		const { message, line } = describeTemplateError(fail('<% if (x { %>'))
+
+		expect(message).toBe("Unexpected token '{' while compiling ejs")
+		expect(line).toBeUndefined()
+	})
+})
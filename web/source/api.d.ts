@@ -23,6 +23,7 @@ export declare interface Tokens {
  * @property {string} email - The user's email address. - email
  * @property {string} phone - The user's phone number.
  * @property {string} lastSignedIn.required - The time the user last signed in to their account. - date
+ * @property {string} locale - The locale the user would like to see conversations and reports in (e.g. `hi` or `pt-BR`).
  */
 export declare interface User {
 	id: string
@@ -30,6 +31,7 @@ export declare interface User {
 	email?: string
 	phone?: string
 	lastSignedIn: Date
+	locale?: string
 }
 
 /**
@@ -96,6 +98,7 @@ export declare interface Group {
  * @property {string} description.required - The attribute's description.
  * @property {array<string>} tags.required - Tags to enhance the attribute's searchability.
  * @property {array<string>} conversations.required - A list of conversations that might set this attribute.
+ * @property {string} type - The type of values the attribute holds. Values of any type are allowed if not specified. - enum:string,number,boolean
  */
 export declare interface Attribute {
 	id: string
@@ -103,6 +106,7 @@ export declare interface Attribute {
 	description: string
 	tags: string[]
 	conversations: string[]
+	type?: 'string' | 'number' | 'boolean'
 }
 
 /**
@@ -150,6 +154,18 @@ export declare interface UserAttribute {
 	history: AttributeSnapshot[]
 }
 
+/**
+ * The name and description of a conversation in another language.
+ *
+ * @typedef {object} ConversationTranslation
+ * @property {string} name - The conversation's name.
+ * @property {string} description - The conversation's description.
+ */
+export declare interface ConversationTranslation {
+	name?: string
+	description?: string
+}
+
 /**
  * An interface representing a conversation.
  *
@@ -159,6 +175,8 @@ export declare interface UserAttribute {
  * @property {string} description.required - The conversation's description.
  * @property {boolean} once.required - Whether a user can go through the conversation again.
  * @property {array<string>} tags.required - Tags to enhance searchability of the conversation.
+ * @property {number} version - The version of the conversation's questions shown to users. Not set until the conversation is published, until which users are shown the draft questions.
+ * @property {object} translations - The conversation's name and description in other languages, keyed by locale (e.g. `hi` or `pt-BR`). Each value is a `ConversationTranslation`.
  */
 export declare interface Conversation {
 	id: string
@@ -166,6 +184,8 @@ export declare interface Conversation {
 	description: string
 	once: boolean
 	tags: string[]
+	version?: number
+	translations?: Record<string, ConversationTranslation>
 }
 
 /**
@@ -194,24 +214,98 @@ export declare interface NextQuestion {
 	question: string
 }
 
+/**
+ * A condition on the value of one of the user's attributes.
+ *
+ * @typedef {object} BranchCondition
+ * @property {string} attribute.required - The ID of the attribute whose value to check.
+ * @property {string} operator.required - How to compare the attribute's value with the given value. - enum:==,!=,>,<,>=,<=,includes
+ * @property {string | number | boolean} value.required - The value to compare the attribute's value with.
+ */
+export declare interface BranchCondition {
+	attribute: string
+	operator: '==' | '!=' | '>' | '<' | '>=' | '<=' | 'includes'
+	value: string | number | boolean
+}
+
+/**
+ * A question to show the user next, provided the user's attributes satisfy all
+ * the given conditions.
+ *
+ * @typedef {object} Branch
+ * @property {array<BranchCondition>} conditions.required - The conditions that must all be satisfied for this branch to be taken.
+ * @property {NextQuestion} next.required - The next question to show the user if this branch is taken.
+ */
+export declare interface Branch {
+	conditions: BranchCondition[]
+	next: NextQuestion
+}
+
+/**
+ * The range of values a user can pick from if the option is a scale.
+ *
+ * @typedef {object} Scale
+ * @property {number} min.required - The smallest value the user can pick.
+ * @property {number} max.required - The largest value the user can pick.
+ * @property {number} step.required - The difference between two consecutive values on the scale.
+ */
+export declare interface Scale {
+	min: number
+	max: number
+	step: number
+}
+
+/**
+ * The rules the input entered by a user must satisfy if the option is of type
+ * `input`.
+ *
+ * @typedef {object} InputRules
+ * @property {boolean} required - Whether the user must enter something.
+ * @property {number} minLength - The minimum number of characters the input must have.
+ * @property {number} maxLength - The maximum number of characters the input can have.
+ * @property {string} pattern - A regular expression the input must match. It can be at most 200 characters long, and cannot repeat a group that contains a repetition (e.g., `(a+)+`), as such patterns can take too long to match. Input longer than 1000 characters, or that takes too long to match, fails the rule.
+ * @property {number} min - The smallest number the input can be.
+ * @property {number} max - The largest number the input can be.
+ * @property {array<string>} values - The only values the input can be.
+ */
+export declare interface InputRules {
+	required?: boolean
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	min?: number
+	max?: number
+	values?: string[]
+}
+
 /**
  * An option a user can select to answer a question.
  *
  * @typedef {object} Option
  * @property {number} position.required - The position to show the option in if `randomizeOptionOrder` is `false`.
- * @property {string} type.required - The type of option. If it is `input`, the user can enter text as their answer - enum:select,input
+ * @property {string} type.required - The type of option. If it is `multi-select`, the user can select it along with other `multi-select` options. If it is `scale`, the user can pick a number on the `scale`. If it is `input`, the user can enter text as their answer - enum:select,multi-select,scale,input
  * @property {string} text.required - The question text. Should be shown as a hint for the textbox if `type` is `input`.
+ * @property {object} translations - The option text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} format - The kind of value the user must enter if `type` is `input`. Defaults to `text`. - enum:text,number,date,email
+ * @property {Scale} scale - The range of values the user can pick from if `type` is `scale`.
+ * @property {InputRules} rules - The rules the user's input must satisfy if `type` is `input`.
  * @property {AttributeToSet} attribute - The attribute to set when a user answers the question with this option.
  * @property {string} script - The script to run if they select this option.
  * @property {NextQuestion} next - The next question to show the user if they select this option.
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes. The first branch whose conditions are satisfied is taken; if none are, the user is shown the `next` question.
  */
 export declare interface Option {
 	position: number
-	type: 'select' | 'input'
+	type: 'select' | 'multi-select' | 'scale' | 'input'
 	text: string
+	translations?: Record<string, string>
+	format?: 'text' | 'number' | 'date' | 'email'
+	scale?: Scale
+	rules?: InputRules
 	attribute?: AttributeToSet
 	script?: string
 	next?: NextQuestion
+	branches?: Branch[]
 }
 
 /**
@@ -220,11 +314,14 @@ export declare interface Option {
  * @typedef {object} Question
  * @property {string} id.required - The question ID.
  * @property {string} text.required - The question text.
+ * @property {object} translations - The question text in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
  * @property {array<Option>} options.required - The options to the question.
  * @property {boolean} first.required - Whether this is the first question in the conversation.
  * @property {boolean} last.required - Whether this is the last question in the conversation.
  * @property {boolean} randomizeOptionOrder.required - Whether to randomize the order of the options.
  * @property {array<string>} tags.required - Tags to enhance searchability of the conversation.
+ * @property {string} engine - The language the question's text template is written in. Questions saved without one use `ejs`. - enum:liquid,ejs
+ * @property {array<Branch>} branches - The next question to show the user based on their attributes, whichever option they select. These are checked after the selected option's own branches; if none are satisfied, the user is shown the option's `next` question.
  */
 export declare interface Question {
 	id: string
@@ -234,6 +331,116 @@ export declare interface Question {
 	last: boolean
 	randomizeOptionOrder: boolean
 	tags: string[]
+	translations?: Record<string, string>
+	engine?: 'liquid' | 'ejs'
+	branches?: Branch[]
+}
+
+/**
+ * A piece of text in a conversation that has not been translated into a locale.
+ *
+ * @typedef {object} MissingTranslation
+ * @property {string} locale.required - The locale the text has not been translated into.
+ * @property {string} field.required - The text that has not been translated. - enum:name,description,question,option
+ * @property {string} question - The ID of the question whose text or option has not been translated.
+ * @property {number} option - The position of the option that has not been translated.
+ */
+export declare interface MissingTranslation {
+	locale: string
+	field: 'name' | 'description' | 'question' | 'option'
+	question?: string
+	option?: number
+}
+
+/**
+ * A problem found in a conversation's question graph.
+ *
+ * @typedef {object} ValidationIssue
+ * @property {string} code.required - The type of problem. - enum:no-first-question,several-first-questions,no-options,dangling-next,attribute-not-found,script-not-found,unreachable-question,no-exit
+ * @property {string} message.required - A human-readable description of the problem.
+ * @property {string} question - The ID of the question with the problem.
+ * @property {number} option - The position of the option with the problem.
+ */
+export declare interface ValidationIssue {
+	code:
+		| 'no-first-question'
+		| 'several-first-questions'
+		| 'no-options'
+		| 'dangling-next'
+		| 'attribute-not-found'
+		| 'script-not-found'
+		| 'unreachable-question'
+		| 'no-exit'
+	message: string
+	question?: string
+	option?: number
+}
+
+/**
+ * A question answered by the user during a session, and the option they chose
+ * to answer it with.
+ *
+ * @typedef {object} SessionStep
+ * @property {string} conversation.required - The ID of the conversation the question is a part of.
+ * @property {string} question.required - The ID of the question that was answered.
+ * @property {number} position.required - The position of the option chosen by the user.
+ * @property {array<number>} positions - The positions of all the options chosen by the user, if they chose several `multi-select` options.
+ * @property {array<string>} attributes - The IDs of the attributes set by the user's answer.
+ * @property {number} version - The published version of the conversation the question was answered in. Not set if the conversation had not been published.
+ * @property {string} timestamp.required - When the user answered the question. - date
+ */
+export declare interface SessionStep {
+	conversation: string
+	question: string
+	position: number
+	positions?: number[]
+	attributes?: string[]
+	version?: number
+	timestamp: Date
+}
+
+/**
+ * An interface representing a user's progress through a conversation.
+ *
+ * @typedef {object} ConversationSession
+ * @property {string} id.required - The session ID.
+ * @property {string} conversation.required - The ID of the conversation the session was started in.
+ * @property {string} started.required - When the user started taking the conversation. - date
+ * @property {string} finished - When the user finished taking the conversation. Not set while the user is still taking it. - date
+ * @property {array<SessionStep>} path.required - The questions answered by the user, in the order they were answered.
+ * @property {NextQuestion} next - The question the user should answer to continue the conversation. Not set once the session has finished.
+ * @property {number} version - The published version of the conversation the session was started on. Not set if the conversation had not been published.
+ * @property {string} firstFinished - When the user first finished taking the conversation. Kept when a finished session is reopened, as a conversation that can be taken only once can be reopened only for a short while after it. - date
+ */
+export declare interface ConversationSession {
+	id: string
+	conversation: string
+	started: Date
+	finished?: Date
+	path: SessionStep[]
+	next?: NextQuestion
+	version?: number
+	firstFinished?: Date
+}
+
+/**
+ * A published version of a conversation's questions.
+ *
+ * @typedef {object} ConversationVersion
+ * @property {string} id.required - The version ID. The same as the version number.
+ * @property {number} version.required - The version number, starting from 1.
+ * @property {string} published.required - When the version was published. - date
+ * @property {string} publisher.required - The ID of the user who published the version.
+ * @property {array<Question>} questions.required - The questions in the conversation, as they were when the version was published.
+ * @property {number} restored - The version that was rolled back to, if this version was published by rolling back.
+ */
+export declare interface ConversationVersion {
+	id: string
+	version: number
+	published: Date
+	publisher: string
+	questions: Question[]
+	restored?: number
 }
 
 /**
@@ -260,6 +467,26 @@ export declare interface ComputedAttribute {
 	optional: boolean
 }
 
+/**
+ * A test case for a script: the input to run it with, and the values it
+ * should compute.
+ *
+ * @typedef {object} ScriptTestCase
+ * @property {string} name.required - What the test case checks.
+ * @property {object} input.required - The values of the input attributes to run the script with, keyed by attribute ID.
+ * @property {object} expected.required - The values the script should compute, keyed by attribute ID.
+ */
+export declare interface ScriptTestCase {
+	name: string
+	input: Record<string, string | number | boolean>
+	expected: Record<string, string | number | boolean>
+}
+
+/**
+ * The languages a script can be written in.
+ */
+export declare type ScriptLanguage = 'lua' | 'javascript'
+
 /**
  * An interface representing a script.
  *
@@ -270,7 +497,9 @@ export declare interface ComputedAttribute {
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the script.
  * @property {array<DependentAttribute>} input.required - The list of attributes required to run the script.
  * @property {array<ComputedAttribute>} computed.required - The list of attributes computed and set by this script.
- * @property {string} content.required - The base64 encoded lua code to run.
+ * @property {string} content.required - The base64 encoded code to run.
+ * @property {array<ScriptTestCase>} tests - The test cases the script must pass whenever its code is updated.
+ * @property {string} language - The language the script is written in. Defaults to `lua`. - enum:lua,javascript
  */
 export declare interface Script {
 	id: string
@@ -280,6 +509,62 @@ export declare interface Script {
 	input: DependentAttribute[]
 	computed: ComputedAttribute[]
 	content: string
+	tests?: ScriptTestCase[]
+	language?: ScriptLanguage
+}
+
+/**
+ * The result of test running a script.
+ *
+ * @typedef {object} ScriptTestResult
+ * @property {object} output - The values the script returned, if it ran successfully.
+ * @property {object} error - The error the script raised or the limit it exceeded, if it failed.
+ * @property {array<string>} logs.required - The messages the script passed to `log()`, in order.
+ * @property {number} time.required - How long the script ran for, in milliseconds.
+ */
+export declare interface ScriptTestResult {
+	output?: {
+		attributes?: Record<string, { value: string | number | boolean }>
+	}
+	error?: {
+		code: 'script-error' | 'script-timeout'
+		message: string
+		line?: number
+	}
+	logs: string[]
+	time: number
+}
+
+/**
+ * A problem with the values a script computed for a user.
+ *
+ * @typedef {object} ScriptOutputViolation
+ * @property {string} attribute.required - The ID of the attribute.
+ * @property {string} problem.required - Whether the attribute is not one the script declares it computes, is a required attribute that was not computed, or has a value of the wrong type. - enum:undeclared,missing,wrong-type
+ * @property {string} message.required - A description of the problem.
+ */
+export declare interface ScriptOutputViolation {
+	attribute: string
+	problem: 'undeclared' | 'missing' | 'wrong-type'
+	message: string
+}
+
+/**
+ * The result of running a script for a user.
+ *
+ * @typedef {object} UserScriptResult
+ * @property {array<UserAttribute>} attributes.required - The attributes computed by the script and stored for the user.
+ * @property {array<ScriptOutputViolation>} violations.required - The problems with the values the script computed. If there are any, none of the values are stored.
+ * @property {object} error - The error the run ended with for the user, e.g., a required input attribute was not found or the script raised an error. Not set if the script ran.
+ */
+export declare interface UserScriptResult {
+	attributes: UserAttribute[]
+	violations: ScriptOutputViolation[]
+	error?: {
+		code: string
+		message: string
+		line?: number
+	}
 }
 
 /**
@@ -292,6 +577,9 @@ export declare interface Script {
  * @property {array<string>} tags.required - The list of tags to enhance searchability of the report.
  * @property {string} template.required - The EJS template used to generate the report.
  * @property {array<DependentAttribute>} input.required - The list of attribute IDs required to generate the report.
+ * @property {object} translations - The EJS template in other languages, keyed by locale (e.g. `hi` or `pt-BR`).
+ * @property {string} kind - Whether the report is rendered for a single user, or for all the participants of a group. Defaults to `user`. - enum:user,group
+ * @property {string} engine - The language the template is written in. Reports saved without one use `ejs`. - enum:liquid,ejs
  */
 export declare interface Report {
 	id: string
@@ -300,4 +588,47 @@ export declare interface Report {
 	tags: string[]
 	template: string
 	input: DependentAttribute[]
+	translations?: Record<string, string>
+	kind?: 'user' | 'group'
+	engine?: 'liquid' | 'ejs'
+}
+
+/**
+ * A report as it was rendered for a user, saved so that it can be read and
+ * compared with other snapshots later.
+ *
+ * @typedef {object} ReportSnapshot
+ * @property {string} id.required - The snapshot ID.
+ * @property {string} report.required - The ID of the report that was rendered.
+ * @property {string} name.required - The name of the report when the snapshot was saved.
+ * @property {string} asOf.required - The time the user's attributes were rendered as of. - date
+ * @property {string} created.required - When the snapshot was saved. - date
+ * @property {string} creator.required - The ID of the user who saved the snapshot.
+ * @property {object} input.required - The values of the attributes the report was rendered with, keyed by attribute ID.
+ * @property {string} html.required - The rendered report.
+ */
+export declare interface ReportSnapshot {
+	id: string
+	report: string
+	name: string
+	asOf: Date
+	created: Date
+	creator: string
+	input: Record<string, string | number | boolean>
+	html: string
+}
+
+/**
+ * The result of previewing a report template.
+ *
+ * @typedef {object} ReportPreview
+ * @property {string} html - The rendered report, if the template rendered successfully.
+ * @property {object} error - The error the template raised, if it failed to render.
+ */
+export declare interface ReportPreview {
+	html?: string
+	error?: {
+		message: string
+		line?: number
+	}
 }
@@ -15,7 +15,7 @@ setupShiki('https://unpkg.com/shiki/')
  *
  * @prop {string} id - An ID to refer to the input in tests.
  * @prop {string} code - The code to render.
- * @prop {'lua' | 'html'} language - The language of the code to highlight.
+ * @prop {'lua' | 'javascript' | 'html'} language - The language of the code to highlight.
  * @prop {Function?} update - The function to call when the text in the element changes.
  *
  * @component
@@ -23,7 +23,7 @@ setupShiki('https://unpkg.com/shiki/')
 export const CodeEditor = (props: {
 	id: string
 	code: string
-	language: 'lua' | 'html'
+	language: 'lua' | 'javascript' | 'html'
 	update?: (value: string) => void
 }) => {
 	// Get the current theme.
@@ -34,7 +34,7 @@ export const CodeEditor = (props: {
 	// Instantiate the highlighter.
 	const highlighter = getHighlighter({
 		theme: `github-${theme}`,
-		langs: ['lua', 'html'],
+		langs: ['lua', 'javascript', 'html'],
 		themes: ['github-dark', 'github-light'],
 	})
 
@@ -14,6 +14,8 @@ import { Label } from './label'
  * @prop {boolean?} required - Whether the field is required or not.
  * @prop {boolean?} disabled - Whether the field can be edited by the user or not.
  * @prop {number?} minimum - The minimum value of the field when the input accepts only numbers.
+ * @prop {number?} maximum - The maximum value of the field when the input accepts only numbers.
+ * @prop {number?} step - The difference between two consecutive values when the input accepts only numbers.
  * @prop {Function?} update - The function to call when the text in the element changes.
  * @prop {Function?} focus - The function to call when the user focuses the element.
  *
@@ -28,6 +30,8 @@ export const TextInput = (props: {
 	required?: boolean
 	disabled?: boolean
 	minimum?: number
+	maximum?: number
+	step?: number
 	update?: (value: string) => void
 	focus?: () => void
 }) => (
@@ -45,6 +49,8 @@ export const TextInput = (props: {
 			value={props.value}
 			disabled={props.disabled ?? false}
 			min={props.minimum}
+			max={props.maximum}
+			step={props.step}
 			class="appearance-none rounded-lg relative block w-full my-2 px-3 py-2 border border-gray-300 dark:border-background-dark bg-surface dark:bg-surface-dark text-on-surface dark:text-on-surface-dark focus:outline-none focus:ring-primary dark:focus:ring-primary-dark focus:border-primary dark:focus:border-primary-dark focus:z-10 sm:text-sm font-mono"
 			onChange={(event: any) => {
 				if (typeof props.update === 'function') props.update(event.target.value)
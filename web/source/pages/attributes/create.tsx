@@ -5,6 +5,7 @@ import { useState, useEffect, useReducer } from 'preact/hooks'
 import { route } from 'preact-router'
 
 import {
+	Label,
 	Button,
 	IconButton,
 	TextInput,
@@ -115,7 +116,8 @@ export const AttributeCreatePage = () => {
 		const response = await fetch<{ attribute: Attribute }>({
 			url: '/attributes',
 			method: 'post',
-			json: attribute,
+			// An attribute without a type can hold values of any type.
+			json: { ...attribute, type: attribute.type ? attribute.type : undefined },
 		})
 
 		// Stop loading.
@@ -175,7 +177,7 @@ export const AttributeCreatePage = () => {
 									}
 								/>
 							</div>
-							<div class="col-span-6">
+							<div class="col-span-6 sm:col-span-4">
 								<TextInput
 									id="description-input"
 									label="Description"
@@ -191,6 +193,26 @@ export const AttributeCreatePage = () => {
 									}
 								/>
 							</div>
+							<div class="col-span-6 sm:col-span-2">
+								<Label for="type-input" text="Type" required={false} />
+								<SelectInput
+									id="type-input"
+									options={[
+										{ text: 'Any', value: '' },
+										{ text: 'Text', value: 'string' },
+										{ text: 'Number', value: 'number' },
+										{ text: 'Yes/No', value: 'boolean' },
+									]}
+									selected={attribute?.type ?? ''}
+									update={(selected: string) =>
+										dispatch({
+											type: 'update-field',
+											field: 'type',
+											payload: selected,
+										})
+									}
+								/>
+							</div>
 							<table class="col-span-6">
 								<thead>
 									<tr class="text-sm text-gray-700 dark:text-gray-300">
@@ -5,6 +5,7 @@ import { useState, useEffect, useReducer } from 'preact/hooks'
 import { route } from 'preact-router'
 
 import {
+	Label,
 	Button,
 	TextInput,
 	SelectInput,
@@ -175,7 +176,8 @@ export const AttributeEditPage = (props: { attributeId: string }) => {
 		const response = await fetch<{ attribute: Attribute }>({
 			url: `/attributes/${attribute.id}`,
 			method: 'put',
-			json: attribute,
+			// An attribute without a type can hold values of any type.
+			json: { ...attribute, type: attribute.type ? attribute.type : undefined },
 		})
 
 		// Handle any errors that might arise.
@@ -249,7 +251,7 @@ export const AttributeEditPage = (props: { attributeId: string }) => {
 									}
 								/>
 							</div>
-							<div class="col-span-6">
+							<div class="col-span-6 sm:col-span-4">
 								<TextInput
 									id="description-input"
 									label="Description"
@@ -265,6 +267,26 @@ export const AttributeEditPage = (props: { attributeId: string }) => {
 									}
 								/>
 							</div>
+							<div class="col-span-6 sm:col-span-2">
+								<Label for="type-input" text="Type" required={false} />
+								<SelectInput
+									id="type-input"
+									options={[
+										{ text: 'Any', value: '' },
+										{ text: 'Text', value: 'string' },
+										{ text: 'Number', value: 'number' },
+										{ text: 'Yes/No', value: 'boolean' },
+									]}
+									selected={attribute?.type ?? ''}
+									update={(selected: string) =>
+										dispatch({
+											type: 'update-field',
+											field: 'type',
+											payload: selected,
+										})
+									}
+								/>
+							</div>
 							<table class="col-span-6">
 								<thead>
 									<tr class="text-sm text-gray-700 dark:text-gray-300">
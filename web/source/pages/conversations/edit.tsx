@@ -18,7 +18,17 @@ import {
 import { fetch, isErrorResponse } from '@/utilities/http'
 import { errors, messages } from '@/utilities/text'
 
-import type { Attribute, Conversation, Question, Option, Script } from '@/api'
+import type {
+	Attribute,
+	Branch,
+	BranchCondition,
+	Conversation,
+	ConversationVersion,
+	Question,
+	Option,
+	Script,
+	ValidationIssue,
+} from '@/api'
 
 /**
  * The form's state.
@@ -41,6 +51,29 @@ type ConversationEditFormAction =
  * A question form's state.
  */
 type QuestionFormState = Question | Omit<Question, 'id'>
+/**
+ * The problems found in the saved conversation's question graph.
+ */
+type ConversationValidation = {
+	errors: ValidationIssue[]
+	warnings: ValidationIssue[]
+}
+
+/**
+ * Leaves out the branches that do not lead to a question yet, and the
+ * conditions that do not check an attribute yet.
+ *
+ * @param {Branch[] | undefined} branches - The branches to clean up.
+ *
+ * @returns {Branch[]} - The complete branches.
+ */
+const completeBranches = (branches?: Branch[]): Branch[] =>
+	(branches ?? [])
+		.filter((branch) => branch.next.conversation && branch.next.question)
+		.map((branch) => ({
+			...branch,
+			conditions: branch.conditions.filter((condition) => condition.attribute),
+		}))
 
 /**
  * The conversation edit page.
@@ -102,6 +135,13 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 	const [attributes, setAttributes] = useState<Attribute[]>([])
 	const [scripts, setScripts] = useState<Script[]>([])
 	const [conversations, setConversations] = useState<Conversation[]>([])
+	// The errors and warnings in the saved version of the conversation, shown to
+	// Groot so they can fix them before saving again.
+	const [validation, setValidation] = useState<
+		ConversationValidation | undefined
+	>(undefined)
+	// The versions of the conversation published so far, newest first.
+	const [versions, setVersions] = useState<ConversationVersion[]>([])
 
 	// Fetch the conversation and the attributes using the API.
 	useEffect(() => {
@@ -167,24 +207,62 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 			return response.scripts
 		}
 
+		const fetchValidation = async (): Promise<ConversationValidation> => {
+			const response = await fetch<ConversationValidation>({
+				url: `/conversations/${props.conversationId}/validate`,
+				method: 'get',
+			})
+
+			// Handle any errors that might arise...
+			if (isErrorResponse(response)) throw new Error(response.error.message)
+			// ...and if there are none, return the data.
+			return response
+		}
+
+		const fetchVersions = async (): Promise<ConversationVersion[]> => {
+			const response = await fetch<{ versions: ConversationVersion[] }>({
+				url: `/conversations/${props.conversationId}/versions`,
+				method: 'get',
+			})
+
+			// Handle any errors that might arise...
+			if (isErrorResponse(response)) throw new Error(response.error.message)
+			// ...and if there are none, return the data.
+			return response.versions
+		}
+
 		Promise.all([
 			fetchConversation(),
 			fetchConversations(),
 			fetchQuestions(),
 			fetchAttributes(),
 			fetchScripts(),
+			fetchValidation(),
+			fetchVersions(),
 		])
-			.then(([conversation, conversations, questions, attributes, scripts]) => {
-				handleConversationEdit({
-					type: 'set-conversation',
-					payload: conversation,
-				})
-
-				setConversations(conversations)
-				setQuestions(questions)
-				setAttributes(attributes)
-				setScripts(scripts)
-			})
+			.then(
+				([
+					conversation,
+					conversations,
+					questions,
+					attributes,
+					scripts,
+					validation,
+					versions,
+				]) => {
+					handleConversationEdit({
+						type: 'set-conversation',
+						payload: conversation,
+					})
+
+					setConversations(conversations)
+					setQuestions(questions)
+					setAttributes(attributes)
+					setScripts(scripts)
+					setValidation(validation)
+					setVersions(versions.reverse())
+				},
+			)
 			.catch((error) => setErrorMessage(error.message))
 	}, [currentSuccess]) // Refresh these lists when the save button is pressed.
 
@@ -224,6 +302,75 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 		route('/conversations')
 	}
 
+	/**
+	 * Publish the saved questions as a new version of the conversation using
+	 * the API.
+	 */
+	const publishConversation = async (): Promise<void> => {
+		// Clear the error message.
+		setErrorMessage(undefined)
+		setIsLoading(true)
+
+		// Make the API call to publish the conversation.
+		const response = await fetch({
+			url: `/conversations/${conversation.id}/versions`,
+			method: 'post',
+		})
+
+		// Stop loading.
+		setIsLoading(false)
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response)) {
+			const { error } = response
+
+			switch (error.code) {
+				case 'entity-not-found':
+					setErrorMessage(errors.get('conversation-does-not-exist'))
+					break
+				default:
+					setErrorMessage(error.message)
+			}
+
+			return
+		}
+
+		// Show a success message, and refresh the version history.
+		setSuccessMessage(messages.get('published-conversation'))
+		setTimeout(() => setSuccessMessage(undefined), 2500)
+	}
+
+	/**
+	 * Roll the conversation back to a previously published version using the
+	 * API.
+	 */
+	const rollbackConversation = async (
+		version: ConversationVersion,
+	): Promise<void> => {
+		// Clear the error message.
+		setErrorMessage(undefined)
+		setIsLoading(true)
+
+		// Make the API call to roll the conversation back.
+		const response = await fetch({
+			url: `/conversations/${conversation.id}/versions/${version.id}/rollback`,
+			method: 'put',
+		})
+
+		// Stop loading.
+		setIsLoading(false)
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response)) {
+			setErrorMessage(response.error.message)
+			return
+		}
+
+		// Show a success message, and refresh the questions and version history.
+		setSuccessMessage(messages.get('rolled-back-conversation'))
+		setTimeout(() => setSuccessMessage(undefined), 2500)
+	}
+
 	/**
 	 * Delete a question using the API.
 	 */
@@ -303,13 +450,16 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 			for (const option of question.options) {
 				if (
 					(option.attribute?.id === '' || option.attribute?.value === '') &&
-					option.type === 'select'
+					(option.type === 'select' || option.type === 'multi-select')
 				)
 					delete option.attribute
 				if (option.next?.conversation === '' || option.next?.question === '')
 					delete option.next
+				option.branches = completeBranches(option.branches)
 			}
 
+			question.branches = completeBranches(question.branches)
+
 			// Replace all attribute names with actual IDs in the question.
 			const attributeNameMatches = [...question.text.matchAll(/"{(.*?)}"/g)]
 			// Keep a copy of the original incase an error is detected and we need to
@@ -367,6 +517,9 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 
 		// Re-set the questions so they all have IDs (if they were newly created).
 		setQuestions(updatedQuestions)
+		// Clear the old problems, they will be fetched again once the success
+		// message is shown.
+		setValidation(undefined)
 
 		// Stop loading.
 		setIsLoading(false)
@@ -376,6 +529,308 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 		setTimeout(() => setSuccessMessage(undefined), 2500)
 	}
 
+	/**
+	 * Fetch a list of questions that are a part of a conversation, that could
+	 * be the next question.
+	 *
+	 * @param {string} conversationId - The ID of the conversation.
+	 * @param {boolean} useCache - Whether or not to use cache.
+	 *
+	 * @returns {Question[]}
+	 */
+	const fetchPossibleNextQuestions = async (
+		conversationId: string,
+		useCache = false,
+	): Promise<Question[]> => {
+		// Return a blank array if the conversation chosen is 'None'.
+		if (conversationId === '') return []
+		// If the conversation chosen is the current one, just return the questions list.
+		if (conversationId === conversation.id)
+			return questions.filter(
+				(form) => typeof (form as Question).id !== 'undefined',
+			) as Question[]
+
+		const response = await fetch<{ questions: Question[] }>({
+			url: `/conversations/${conversationId}/questions`,
+			method: 'get',
+			query: { raw: 'true' },
+			cache: useCache,
+		})
+
+		// Handle any errors that might arise...
+		if (isErrorResponse(response)) throw new Error(response.error.message)
+		// ...and if there are none, return the data.
+		return response.questions
+	}
+
+	/**
+	 * The operators a branch condition can compare an attribute's value with.
+	 */
+	const operators: Array<{ text: string; value: BranchCondition['operator'] }> =
+		[
+			{ text: 'is', value: '==' },
+			{ text: 'is not', value: '!=' },
+			{ text: 'is more than', value: '>' },
+			{ text: 'is less than', value: '<' },
+			{ text: 'is at least', value: '>=' },
+			{ text: 'is at most', value: '<=' },
+			{ text: 'includes', value: 'includes' },
+		]
+
+	/**
+	 * A branch that leads the user to a question if their attributes satisfy
+	 * all of its conditions.
+	 *
+	 * @prop {Branch} branch - The branch.
+	 * @prop {number} number - The branch number.
+	 * @prop {Function} save - The callback fired when the branch is updated.
+	 * @prop {Function} delete - The callback fired when the branch is to be deleted.
+	 *
+	 * @component
+	 */
+	const Branch = (props: {
+		branch: Branch
+		number: number
+		save: (branch: Branch) => void
+		delete: () => void
+	}) => {
+		const { branch } = props
+
+		// Define a state for the list of possible next questions.
+		const [possibleNextQuestions, setPossibleNextQuestions] = useState<
+			Question[]
+		>([])
+
+		useEffect(() => {
+			// Fetch the list of possible questions for the currently selected
+			// conversation.
+			fetchPossibleNextQuestions(branch.next.conversation, true)
+				.then(setPossibleNextQuestions)
+				.catch((error) => setErrorMessage(error.message))
+		}, [branch.next.conversation])
+
+		/**
+		 * Saves a change to one of the branch's conditions.
+		 *
+		 * @param {number} index - The index of the condition.
+		 * @param {Partial<BranchCondition>} changes - The fields to change.
+		 */
+		const saveCondition = (
+			index: number,
+			changes: Partial<BranchCondition>,
+		): void => {
+			const conditions = [...branch.conditions]
+			conditions[index] = { ...conditions[index], ...changes }
+
+			props.save({ ...branch, conditions })
+		}
+
+		return (
+			<div class="col-span-4 grid grid-cols-4 rounded-lg border dark:border-gray-700 gap-2 p-2">
+				<span class="col-span-3 pt-1 text-sm text-gray-900 dark:text-white">
+					Branch {props.number}: if
+				</span>
+				<div class="col-span-1 text-right">
+					<IconButton
+						id="remove-branch-button"
+						action={() => props.delete()}
+						icon="remove"
+						class="w-fit text-gray-700 dark:text-gray-400"
+					/>
+				</div>
+				{branch.conditions.map((condition, index) => (
+					<>
+						<div class="col-span-4 sm:col-span-1">
+							<Label
+								for="condition-attribute-input"
+								text="Attribute"
+								required={true}
+							/>
+							<SelectInput
+								id="condition-attribute-input"
+								options={[
+									{ text: 'None', value: '' },
+									...attributes.map((attr) => ({
+										text: attr.name,
+										value: attr.id,
+									})),
+								]}
+								selected={condition.attribute}
+								update={(value: string) =>
+									saveCondition(index, { attribute: value })
+								}
+							/>
+						</div>
+						<div class="col-span-4 sm:col-span-1">
+							<Label
+								for="condition-operator-input"
+								text="Comparison"
+								required={true}
+							/>
+							<SelectInput
+								id="condition-operator-input"
+								options={operators}
+								selected={condition.operator}
+								update={(value: string) =>
+									saveCondition(index, {
+										operator: value as BranchCondition['operator'],
+									})
+								}
+							/>
+						</div>
+						<div class="col-span-3 sm:col-span-1">
+							<TextInput
+								id="condition-value-input"
+								label="Value"
+								type="text"
+								value={condition.value.toString()}
+								update={(value: string) => {
+									// Compare numbers and booleans as such, and the rest as text.
+									let castValue: string | number | boolean = value
+									if (value.trim() !== '' && !Number.isNaN(Number(value)))
+										castValue = Number(value)
+									else if (value === 'true' || value === 'false')
+										castValue = value === 'true'
+
+									saveCondition(index, { value: castValue })
+								}}
+							/>
+						</div>
+						<div class="col-span-1 text-right">
+							<IconButton
+								id="remove-condition-button"
+								action={() => {
+									const conditions = [...branch.conditions]
+									conditions.splice(index, 1)
+
+									props.save({ ...branch, conditions })
+								}}
+								icon="remove"
+								class="w-fit text-gray-700 dark:text-gray-400"
+							/>
+						</div>
+					</>
+				))}
+				<Button
+					id="add-condition-button"
+					text="Add Condition"
+					action={() =>
+						props.save({
+							...branch,
+							conditions: [
+								...branch.conditions,
+								{ attribute: '', operator: '==', value: '' },
+							],
+						})
+					}
+					type="text"
+					class="col-span-4 text-xs text-left"
+				/>
+				<div class="col-span-4 sm:col-span-2">
+					<Label
+						for="branch-conversation-input"
+						text="Then Go To Conversation"
+						required={true}
+					/>
+					<SelectInput
+						id="branch-conversation-input"
+						options={[
+							{ text: 'None', value: '' },
+							...(conversations?.map((convo) => ({
+								text: convo.name,
+								value: convo.id,
+							})) ?? []),
+						]}
+						selected={branch.next.conversation}
+						update={(value: string) =>
+							props.save({
+								...branch,
+								next: { conversation: value, question: '' },
+							})
+						}
+					/>
+				</div>
+				<div class="col-span-4 sm:col-span-2">
+					<Label
+						for="branch-question-input"
+						text="And Question"
+						required={true}
+					/>
+					<SelectInput
+						id="branch-question-input"
+						options={[
+							{ text: 'None', value: '' },
+							...(possibleNextQuestions?.map((ques) => ({
+								text: ques.text,
+								value: ques.id,
+							})) ?? []),
+						]}
+						selected={branch.next.question}
+						update={(value: string) =>
+							props.save({
+								...branch,
+								next: {
+									conversation: branch.next.conversation,
+									question: value,
+								},
+							})
+						}
+					/>
+				</div>
+			</div>
+		)
+	}
+
+	/**
+	 * The branches that pick the next question to show the user based on their
+	 * attributes. The first branch whose conditions are all satisfied is taken.
+	 *
+	 * @prop {Branch[]} branches - The branches.
+	 * @prop {Function} save - The callback fired when the branches are updated.
+	 *
+	 * @component
+	 */
+	const Branches = (props: {
+		branches: Branch[]
+		save: (branches: Branch[]) => void
+	}) => (
+		<>
+			{props.branches.map((branch, index) => (
+				<Branch
+					branch={branch}
+					number={index + 1}
+					save={(updatedBranch: Branch) => {
+						const branches = [...props.branches]
+						branches[index] = updatedBranch
+
+						props.save(branches)
+					}}
+					delete={() => {
+						const branches = [...props.branches]
+						branches.splice(index, 1)
+
+						props.save(branches)
+					}}
+				/>
+			))}
+			<Button
+				id="add-branch-button"
+				text="Add Branch"
+				action={() =>
+					props.save([
+						...props.branches,
+						{
+							conditions: [{ attribute: '', operator: '==', value: '' }],
+							next: { conversation: conversation.id ?? '', question: '' },
+						},
+					])
+				}
+				type="text"
+				class="col-span-4 text-xs text-left"
+			/>
+		</>
+	)
+
 	/**
 	 * An option presented as an answer to a question.
 	 *
@@ -398,40 +853,6 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 			Question[]
 		>([])
 
-		/**
-		 * Fetch a list of questions that are a part of a conversation, that could
-		 * be the next question.
-		 *
-		 * @param {string} conversationId - The ID of the conversation.
-		 * @param {boolean} useCache - Whether or not to use cache.
-		 *
-		 * @returns {Question[]}
-		 */
-		const fetchPossibleNextQuestions = async (
-			conversationId: string,
-			useCache = false,
-		): Promise<Question[]> => {
-			// Return a blank array if the conversation chosen is 'None'.
-			if (conversationId === '') return []
-			// If the conversation chosen is the current one, just return the questions list.
-			if (conversationId === conversation.id)
-				return questions.filter(
-					(form) => typeof (form as Question).id !== 'undefined',
-				) as Question[]
-
-			const response = await fetch<{ questions: Question[] }>({
-				url: `/conversations/${conversationId}/questions`,
-				method: 'get',
-				query: { raw: 'true' },
-				cache: useCache,
-			})
-
-			// Handle any errors that might arise...
-			if (isErrorResponse(response)) throw new Error(response.error.message)
-			// ...and if there are none, return the data.
-			return response.questions
-		}
-
 		useEffect(() => {
 			// Fetch the list of possible questions for the currently selected
 			// conversation.
@@ -480,13 +901,15 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 						id="type-input"
 						options={[
 							{ text: 'Radio button', value: 'select' },
+							{ text: 'Checkbox', value: 'multi-select' },
+							{ text: 'Scale', value: 'scale' },
 							{ text: 'User input', value: 'input' },
 						]}
 						selected={option.type}
 						update={(value: string) => {
 							props.save({
 								...option,
-								type: value as 'select' | 'input',
+								type: value as Option['type'],
 							})
 						}}
 					/>
@@ -507,6 +930,138 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 						}
 					/>
 				</div>
+				{option.type === 'input' && (
+					<div class="col-span-4">
+						<Label for="format-input" text="Format" required={false} />
+						<SelectInput
+							id="format-input"
+							options={[
+								{ text: 'Text', value: 'text' },
+								{ text: 'Number', value: 'number' },
+								{ text: 'Date', value: 'date' },
+								{ text: 'Email', value: 'email' },
+							]}
+							selected={option.format ?? 'text'}
+							update={(value: string) => {
+								props.save({
+									...option,
+									format: value as Option['format'],
+								})
+							}}
+						/>
+					</div>
+				)}
+				{option.type === 'input' && (
+					<div class="col-span-4 sm:col-span-2">
+						<Label for="required-input" text="Required" required={false} />
+						<SelectInput
+							id="required-input"
+							options={[
+								{ text: 'No', value: 'false' },
+								{ text: 'Yes', value: 'true' },
+							]}
+							selected={option.rules?.required ? 'true' : 'false'}
+							update={(value: string) => {
+								props.save({
+									...option,
+									rules: { ...option.rules, required: value !== 'false' },
+								})
+							}}
+						/>
+					</div>
+				)}
+				{option.type === 'input' && (
+					<div class="col-span-4 sm:col-span-2">
+						<TextInput
+							id="pattern-input"
+							label="Pattern"
+							type="text"
+							value={option.rules?.pattern}
+							update={(value: string) =>
+								props.save({
+									...option,
+									rules: { ...option.rules, pattern: value || undefined },
+								})
+							}
+						/>
+					</div>
+				)}
+				{option.type === 'input' &&
+					(
+						[
+							['minLength', 'Min Length'],
+							['maxLength', 'Max Length'],
+							['min', 'Minimum'],
+							['max', 'Maximum'],
+						] as const
+					).map(([field, label]) => (
+						<div class="col-span-4 sm:col-span-1">
+							<TextInput
+								id={`${field}-input`}
+								label={label}
+								type="number"
+								value={option.rules?.[field]?.toString()}
+								update={(value: string) =>
+									props.save({
+										...option,
+										rules: {
+											...option.rules,
+											[field]:
+												value === '' ? undefined : Number.parseFloat(value),
+										},
+									})
+								}
+							/>
+						</div>
+					))}
+				{option.type === 'input' && (
+					<div class="col-span-4">
+						<TextInput
+							id="values-input"
+							label="Allowed Values"
+							type="text"
+							value={option.rules?.values?.join(', ')}
+							update={(value: string) => {
+								const values = value
+									.split(',')
+									.map((element) => element.trim())
+									.filter(Boolean)
+
+								props.save({
+									...option,
+									rules: {
+										...option.rules,
+										values: values.length > 0 ? values : undefined,
+									},
+								})
+							}}
+						/>
+					</div>
+				)}
+				{option.type === 'scale' &&
+					(['min', 'max', 'step'] as const).map((field) => (
+						<div class="col-span-4 sm:col-span-1">
+							<TextInput
+								id={`scale-${field}-input`}
+								label={field[0].toUpperCase() + field.slice(1)}
+								type="number"
+								value={option.scale?.[field]?.toString()}
+								required={true}
+								update={(value: string) =>
+									props.save({
+										...option,
+										scale: {
+											min: 1,
+											max: 5,
+											step: 1,
+											...option.scale,
+											[field]: Number.parseFloat(value),
+										},
+									})
+								}
+							/>
+						</div>
+					))}
 				<div class="col-span-4 sm:col-span-2">
 					<Label for="attribute-id-input" text="Attribute" required={false} />
 					<SelectInput
@@ -530,7 +1085,7 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 					/>
 				</div>
 				<div class="col-span-4 sm:col-span-2">
-					{option.type === 'select' && (
+					{(option.type === 'select' || option.type === 'multi-select') && (
 						<TextInput
 							id="attribute-value-input"
 							label="Value"
@@ -631,6 +1186,95 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 						}}
 					/>
 				</div>
+				<Branches
+					branches={option.branches ?? []}
+					save={(branches: Branch[]) =>
+						props.save({
+							...option,
+							branches,
+						})
+					}
+				/>
+			</div>
+		)
+	}
+
+	/**
+	 * The list of versions of the conversation published so far, each with a
+	 * button to roll the conversation back to it.
+	 *
+	 * @component
+	 */
+	const VersionHistory = () => (
+		<div class="col-span-6">
+			<span class="font-medium text-sm text-gray-900 dark:text-white">
+				Versions
+			</span>
+			<ul class="text-sm text-gray-700 dark:text-gray-400">
+				{versions.map((version) => (
+					<li class="flex items-center justify-between">
+						<span>
+							Version {version.version}, published on{' '}
+							{new Date(version.published).toLocaleString()}
+							{version.restored &&
+								` (rolled back to version ${version.restored})`}
+							{version.version === conversation.version && ' - current'}
+						</span>
+						{version.version !== conversation.version && (
+							<Button
+								id={`rollback-${version.id}-button`}
+								text="Roll Back"
+								action={async () => rollbackConversation(version)}
+								type="text"
+							/>
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+
+	/**
+	 * A list of problems found in the conversation's question graph.
+	 *
+	 * @prop {string} title - The title of the list.
+	 * @prop {ValidationIssue[]} issues - The problems to show.
+	 *
+	 * @component
+	 */
+	const ValidationIssues = (props: {
+		title: string
+		issues: ValidationIssue[]
+	}) => {
+		// Describe where the problem is, using the question and option numbers
+		// shown on the page.
+		const locate = (issue: ValidationIssue): string => {
+			if (!issue.question) return ''
+
+			const index = questions.findIndex(
+				(question) => (question as Question).id === issue.question,
+			)
+			const location =
+				typeof issue.option === 'undefined'
+					? `Question ${index + 1}`
+					: `Question ${index + 1}, Option ${issue.option}`
+
+			return `${location}: `
+		}
+
+		return (
+			<div class="col-span-6">
+				<span class="font-medium text-sm text-gray-900 dark:text-white">
+					{props.title}
+				</span>
+				<ul class="list-disc list-inside text-sm text-gray-700 dark:text-gray-400">
+					{props.issues.map((issue) => (
+						<li>
+							{locate(issue)}
+							{issue.message}
+						</li>
+					))}
+				</ul>
 			</div>
 		)
 	}
@@ -789,6 +1433,21 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 						}}
 					/>
 				</div>
+				<div class="col-span-6 grid grid-cols-4 gap-2">
+					<span class="col-span-4 text-sm text-gray-700 dark:text-gray-400">
+						Branches checked after the chosen option's own branches, whichever
+						option is chosen:
+					</span>
+					<Branches
+						branches={question.branches ?? []}
+						save={(branches: Branch[]) =>
+							props.save({
+								...question,
+								branches,
+							})
+						}
+					/>
+				</div>
 				<div class="block contents">
 					{question.options
 						.sort((a, b) => a.position - b.position)
@@ -968,6 +1627,16 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 								/>
 							))}
 							<hr class="col-span-6 dark:border-gray-700" />
+							{validation && validation.errors.length > 0 && (
+								<ValidationIssues title="Errors" issues={validation.errors} />
+							)}
+							{validation && validation.warnings.length > 0 && (
+								<ValidationIssues
+									title="Warnings"
+									issues={validation.warnings}
+								/>
+							)}
+							{versions.length > 0 && <VersionHistory />}
 						</div>
 					</div>
 					<div class="mt-4 grid grid-cols-6 gap-6">
@@ -978,7 +1647,7 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 							type="text"
 							class="col-span-2 md:col-span-1 text-left"
 						/>
-						<div class="hidden md:block md:col-span-2"></div>
+						<div class="hidden md:block md:col-span-1"></div>
 						<Button
 							id="add-question-button"
 							text="Add Question"
@@ -1012,6 +1681,13 @@ export const ConversationEditPage = (props: { conversationId: string }) => {
 							type="filled"
 							class={isSaving ? 'hidden' : 'col-span-2 md:col-span-1'}
 						/>
+						<Button
+							id="publish-button"
+							text="Publish"
+							action={async () => publishConversation()}
+							type="filled"
+							class={isSaving ? 'hidden' : 'col-span-2 md:col-span-1'}
+						/>
 						<LoadingIndicator
 							isLoading={isSaving}
 							class="col-span-2 md:col-span-1"
@@ -9,6 +9,8 @@ import { sanitize } from 'dompurify'
 import {
 	Button,
 	RadioButton,
+	Checkbox,
+	TextInput,
 	ExpandableTextInput,
 	Toast,
 	LoadingIndicator,
@@ -17,7 +19,14 @@ import {
 import { fetch, isErrorResponse } from '@/utilities/http'
 import { errors } from '@/utilities/text'
 
-import type { Option, Question, Conversation } from '@/api'
+import type {
+	InputRules,
+	Option,
+	Question,
+	Conversation,
+	ConversationSession,
+	NextQuestion,
+} from '@/api'
 
 /**
  * Render Markdown text as HTML.
@@ -34,24 +43,60 @@ const renderMarkdown = (text: string): string => {
 	return html
 }
 
+/**
+ * Check that the input entered by the user satisfies the rules declared on an
+ * option. Mirrors the checks made by the server, so the user gets feedback
+ * before they submit their answer.
+ *
+ * @param {InputRules} rules - The rules to check.
+ * @param {string | undefined} input - The input entered by the user, if any.
+ *
+ * @returns {string | undefined} - The reason the input is invalid, if it is.
+ */
+const checkRules = (rules: InputRules, input?: string): string | undefined => {
+	if (typeof input === 'undefined' || input === '')
+		return rules.required ? 'An answer must be entered.' : undefined
+
+	if (typeof rules.minLength === 'number' && input.length < rules.minLength)
+		return `The answer must be at least ${rules.minLength} characters long.`
+	if (typeof rules.maxLength === 'number' && input.length > rules.maxLength)
+		return `The answer must be at most ${rules.maxLength} characters long.`
+	if (
+		typeof rules.pattern === 'string' &&
+		!new RegExp(rules.pattern).test(input)
+	)
+		return `The answer must match the pattern ${rules.pattern}.`
+	if (typeof rules.min === 'number' && !(Number(input) >= rules.min))
+		return `The answer must be a number no smaller than ${rules.min}.`
+	if (typeof rules.max === 'number' && !(Number(input) <= rules.max))
+		return `The answer must be a number no larger than ${rules.max}.`
+	if (rules.values && !rules.values.includes(input))
+		return `The answer must be one of ${rules.values.join(', ')}.`
+
+	return undefined
+}
+
 /**
  * An option for a question.
  *
  * @prop {Option} option - The option to render.
- * @prop {Function} update - The callback to call when the option is selected.
+ * @prop {boolean} selected - Whether the option is currently selected.
+ * @prop {string} input - The input entered by the user, if the option is currently selected.
+ * @prop {Function} update - The callback to call when the option is selected, or the user's input changes.
  *
  * @component
  */
 const OptionItem = (props: {
 	option: Option
 	selected: boolean
-	update: (option: Option) => void
+	input?: string
+	update: (option: Option, input?: string) => void
 }) => {
 	const { option } = props
 
 	return (
 		<div class="col-span-6 my-1 p-3 rounded-lg border dark:bg-background-dark dark:border-gray-700 text-sm">
-			{option.type === 'select' ? (
+			{option.type === 'select' && (
 				<RadioButton
 					id={`option-${option.position}`}
 					text={renderMarkdown(option.text)}
@@ -59,27 +104,71 @@ const OptionItem = (props: {
 					action={() => props.update(option)}
 					class="leading-none text-md text-gray-800 dark:text-gray-300 font-bold"
 				/>
-			) : (
+			)}
+			{option.type === 'multi-select' && (
+				<Checkbox
+					id={`option-${option.position}`}
+					text={option.text}
+					selected={props.selected}
+					action={() => props.update(option)}
+					class="leading-none text-md text-gray-800 dark:text-gray-300 font-bold"
+				/>
+			)}
+			{option.type === 'scale' && (
 				<>
 					<RadioButton
 						id={`option-${option.position}`}
-						text={option.text}
+						text={renderMarkdown(option.text)}
 						selected={props.selected}
-						action={() => {
-							props.update(option)
-						}}
+						action={() => props.update(option)}
 						class="leading-none text-gray-800 dark:text-gray-400"
 					/>
-					<ExpandableTextInput
+					<TextInput
+						id={`option-${option.position}-scale`}
+						label={props.selected ? props.input ?? '' : ''}
+						type="range"
+						value={props.selected ? props.input : option.scale?.min.toString()}
+						minimum={option.scale?.min}
+						maximum={option.scale?.max}
+						step={option.scale?.step}
+						update={(value: string) => props.update(option, value)}
+						focus={() => props.update(option)}
+					/>
+				</>
+			)}
+			{option.type === 'input' && (
+				<>
+					<RadioButton
 						id={`option-${option.position}`}
-						type="user-answer-text"
-						rows={3}
-						update={(value: string) => {
-							if (option.attribute) option.attribute.value = value
+						text={option.text}
+						selected={props.selected}
+						action={() => {
 							props.update(option)
 						}}
-						focus={() => props.update(option)}
+						class="leading-none text-gray-800 dark:text-gray-400"
 					/>
+					{(option.format ?? 'text') === 'text' ? (
+						<ExpandableTextInput
+							id={`option-${option.position}`}
+							type="user-answer-text"
+							rows={3}
+							update={(value: string) => props.update(option, value)}
+							focus={() => props.update(option)}
+						/>
+					) : (
+						<TextInput
+							id={`option-${option.position}-input`}
+							label=""
+							type={option.format!}
+							update={(value: string) => props.update(option, value)}
+							focus={() => props.update(option)}
+						/>
+					)}
+					{props.selected && option.rules && (
+						<span class="text-xs text-error dark:text-error-dark">
+							{checkRules(option.rules, props.input)}
+						</span>
+					)}
 				</>
 			)}
 		</div>
@@ -104,9 +193,19 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 	const [currentQuestion, setCurrentQuestion] = useState<Question | undefined>(
 		undefined,
 	)
-	const [selectedOption, setSelectedOption] = useState<Option | undefined>(
+	// The options chosen by the user, and the input they entered (if they chose
+	// a scale or an input option).
+	const [selectedOptions, setSelectedOptions] = useState<Option[]>([])
+	const [input, setInput] = useState<string | undefined>(undefined)
+	// The user's progress through the conversation, and the conversation the
+	// current question is a part of (a question can lead to a question in
+	// another conversation).
+	const [session, setSession] = useState<ConversationSession | undefined>(
 		undefined,
 	)
+	const [currentConversationId, setCurrentConversationId] = useState<string>(
+		props.conversationId,
+	)
 
 	// Fetch the conversation and questions using the API.
 	useEffect(() => {
@@ -142,6 +241,8 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 				switch (response.error.code) {
 					case 'not-allowed':
 						throw new Error(errors.get('not-allowed-to-take-conversation'))
+					case 'precondition-failed':
+						throw new Error(errors.get('conversation-already-taken'))
 					default:
 						throw new Error(response.error.message)
 				}
@@ -151,21 +252,110 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 			return response.questions.find((question) => question.first)
 		}
 
+		const fetchCurrentSession = async (): Promise<
+			ConversationSession | undefined
+		> => {
+			const response = await fetch<{ session: ConversationSession }>({
+				url: `/conversations/${props.conversationId}/sessions/current`,
+				method: 'get',
+			})
+
+			// Handle any errors that might arise...
+			if (isErrorResponse(response)) {
+				switch (response.error.code) {
+					// The user has not started the conversation yet, so there is nothing
+					// to resume.
+					case 'entity-not-found':
+						return undefined
+					case 'not-allowed':
+						throw new Error(errors.get('not-allowed-to-take-conversation'))
+					default:
+						throw new Error(response.error.message)
+				}
+			}
+
+			// ...and if there are none, return the data.
+			return response.session
+		}
+
+		const fetchQuestion = async (next: NextQuestion): Promise<Question> => {
+			const response = await fetch<{ question: Question }>({
+				url: `/conversations/${next.conversation}/questions/${next.question}`,
+				method: 'get',
+			})
+
+			// Handle any errors that might arise...
+			if (isErrorResponse(response)) {
+				switch (response.error.code) {
+					case 'not-allowed':
+						throw new Error(errors.get('not-allowed-to-take-conversation'))
+					default:
+						throw new Error(response.error.message)
+				}
+			}
+
+			// ...and if there are none, return the data.
+			return response.question
+		}
+
 		fetchConversation()
 			.then(setConversation)
 			.catch((error) => setErrorMessage(error.message))
 
-		fetchFirstQuestion()
-			.then((firstQuestion?: Question) => {
+		fetchCurrentSession()
+			.then(async (currentSession?: ConversationSession) => {
+				setSession(currentSession)
+
+				// If the user had left the conversation midway, resume from where they
+				// left off. Else start from the first question.
+				if (currentSession?.next) {
+					setCurrentConversationId(currentSession.next.conversation)
+					return fetchQuestion(currentSession.next)
+				}
+
+				return fetchFirstQuestion()
+			})
+			.then((question?: Question) => {
 				// If no first question exists, show an error.
-				if (!firstQuestion)
-					setErrorMessage(errors.get('first-question-not-found'))
+				if (!question) setErrorMessage(errors.get('first-question-not-found'))
 				// Else render the question.
-				setCurrentQuestion(firstQuestion)
+				setCurrentQuestion(question)
 			})
 			.catch((error) => setErrorMessage(error.message))
 	}, [])
 
+	/**
+	 * Select an option, or update the input entered for it. Several options can
+	 * be selected only if they are all `multi-select` options.
+	 *
+	 * @param {Option} option - The option chosen by the user.
+	 * @param {string | undefined} value - The input entered by the user, if any.
+	 */
+	const selectOption = (option: Option, value?: string) => {
+		const isSelected = selectedOptions.some(
+			(selected) => selected.position === option.position,
+		)
+
+		if (option.type === 'multi-select') {
+			const otherOptions = selectedOptions.filter(
+				(selected) =>
+					selected.type === 'multi-select' &&
+					selected.position !== option.position,
+			)
+
+			setSelectedOptions(isSelected ? otherOptions : [...otherOptions, option])
+			setInput(undefined)
+
+			return
+		}
+
+		setSelectedOptions([option])
+		// Keep the user's input if they are just focusing the option again. A
+		// scale starts at its smallest value.
+		if (typeof value !== 'undefined') setInput(value)
+		else if (!isSelected) setInput(option.scale?.min.toString())
+	}
+
 	/**
 	 * Save the user's answer, and retrieve the next question.
 	 */
@@ -174,25 +364,41 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 		setErrorMessage(undefined)
 
 		// If there is no option selected, return an error.
-		if (!selectedOption)
+		if (selectedOptions.length === 0)
 			return setErrorMessage(errors.get('option-was-not-selected'))
 
+		const [selectedOption] = selectedOptions
+		// Make sure the user's input satisfies the rules set for the option.
+		const invalidInputReason =
+			selectedOption.type === 'input' && selectedOption.rules
+				? checkRules(selectedOption.rules, input)
+				: undefined
+		if (invalidInputReason) return setErrorMessage(invalidInputReason)
+
 		setCurrentQuestion(undefined)
-		setSelectedOption(undefined)
+		setSelectedOptions([])
+		setInput(undefined)
 
 		// Make the API call to answer the question and retrieve the next one.
-		const response = await fetch<{ next?: Question }>({
-			url: `/conversations/${conversation!.id}/questions/${
+		const response = await fetch<{
+			next?: Question
+			session: ConversationSession
+		}>({
+			url: `/conversations/${currentConversationId}/questions/${
 				currentQuestion!.id
 			}/answer`,
 			method: 'put',
-			json: {
-				position: selectedOption.position,
-				input:
-					selectedOption.type === 'select'
-						? undefined
-						: selectedOption.attribute!.value,
-			},
+			json:
+				selectedOptions.length > 1
+					? { positions: selectedOptions.map((option) => option.position) }
+					: {
+							position: selectedOption.position,
+							input:
+								selectedOption.type === 'scale' ||
+								selectedOption.type === 'input'
+									? input
+									: undefined,
+					  },
 		})
 
 		// Handle any errors that might arise.
@@ -200,8 +406,42 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 			return setErrorMessage(response.error.message)
 
 		// Set the next question.
-		if (response.next) setCurrentQuestion(response.next)
-		else route('/')
+		setSession(response.session)
+		if (response.next) {
+			setCurrentConversationId(response.session.next!.conversation)
+			setCurrentQuestion(response.next)
+		} else {
+			route('/')
+		}
+	}
+
+	/**
+	 * Undo the user's last answer, and show them the question again.
+	 */
+	const goBack = async () => {
+		// Clear the error message, the current question and the current option.
+		setErrorMessage(undefined)
+		setCurrentQuestion(undefined)
+		setSelectedOptions([])
+		setInput(undefined)
+
+		// Make the API call to undo the answer and retrieve the question.
+		const response = await fetch<{
+			question: Question
+			session: ConversationSession
+		}>({
+			url: `/conversations/${props.conversationId}/sessions/current/back`,
+			method: 'put',
+		})
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response))
+			return setErrorMessage(response.error.message)
+
+		// Show the question again.
+		setSession(response.session)
+		setCurrentConversationId(response.session.next!.conversation)
+		setCurrentQuestion(response.question)
 	}
 
 	return (
@@ -211,6 +451,11 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 					<h5 class="pb-1 leading-none text-xl text-gray-900 dark:text-white font-bold">
 						{conversation?.name ?? 'Conversation'}
 					</h5>
+					{typeof session !== 'undefined' && (
+						<span class="text-sm text-gray-500 dark:text-gray-400">
+							{`${session.path.length} answered`}
+						</span>
+					)}
 				</div>
 				<LoadingIndicator
 					isLoading={
@@ -237,11 +482,25 @@ export const TakeConversationPage = (props: { conversationId: string }) => {
 								{currentQuestion.options.map((option) => (
 									<OptionItem
 										option={option}
-										selected={option.position === selectedOption?.position}
-										update={setSelectedOption}
+										selected={selectedOptions.some(
+											(selected) => selected.position === option.position,
+										)}
+										input={input}
+										update={selectOption}
 									/>
 								))}
-								<div class="block col-span-5"></div>
+								{(session?.path.length ?? 0) > 0 ? (
+									<Button
+										id="back-button"
+										text="Back"
+										action={async () => goBack()}
+										type="text"
+										class="col-span-1 mt-4 text-left"
+									/>
+								) : (
+									<div class="block col-span-1"></div>
+								)}
+								<div class="block col-span-4"></div>
 								<Button
 									id="next-button"
 									text={currentQuestion.last ? 'Finish' : 'Next'}
@@ -5,6 +5,7 @@ import { useState, useEffect, useReducer } from 'preact/hooks'
 import { route } from 'preact-router'
 
 import {
+	Label,
 	Button,
 	IconButton,
 	TextInput,
@@ -56,9 +57,9 @@ const exampleTemplate = `
 -->
 
 <!-- Declare the variables we are going to use -->
-<% const quizScore = context.input["{Quiz Score}"].value %>
-<% const knowsCapitalCity = context.input["{Knows Capital City}"]%>
-<% const knowsCleanestCity = context.input["{Knows Cleanest City}"] %>
+{% assign quizScore = context.input["{Quiz Score}"].value %}
+{% assign knowsCapitalCity = context.input["{Knows Capital City}"] %}
+{% assign knowsCleanestCity = context.input["{Knows Cleanest City}"] %}
 
 <!DOCTYPE html>
 <html lang="en">
@@ -111,15 +112,15 @@ const exampleTemplate = `
           </h5>
           <br />
           <span class="pt-4 text-gray-900 dark:text-white">
-            Thanks for taking the quiz! Your final score is <strong><%= quizScore %>%</strong>.
+            Thanks for taking the quiz! Your final score is <strong>{{ quizScore | number: 0 }}%</strong>.
           </span>
           <br />
           <span class="pt-4 text-gray-900 dark:text-white">
-            <% if (quizScore > 80) { %>
+            {% if quizScore > 80 %}
               Well done!
-            <% } else { %>
+            {% else %}
               Keep working hard!
-            <% } %>
+            {% endif %}
           </span>
         </div>
       </div>
@@ -245,6 +246,7 @@ export const ReportCreatePage = () => {
 		// Set the default template for the report while creating it, and
 		// let Groot change it on the edit page.
 		report.template = btoa(exampleTemplate)
+		report.engine = 'liquid'
 
 		// Make the API call to create the report.
 		const response = await fetch<{ report: Report }>({
@@ -327,6 +329,24 @@ export const ReportCreatePage = () => {
 									}
 								/>
 							</div>
+							<div class="col-span-6 sm:col-span-3">
+								<Label for="kind-input" text="Rendered For" required={true} />
+								<SelectInput
+									id="kind-input"
+									options={[
+										{ text: 'A single user', value: 'user' },
+										{ text: 'All participants of a group', value: 'group' },
+									]}
+									selected={report?.kind ?? 'user'}
+									update={(value: string) =>
+										dispatch({
+											type: 'update-field',
+											field: 'kind',
+											payload: value,
+										})
+									}
+								/>
+							</div>
 							<table class="col-span-6">
 								<thead>
 									<tr class="text-sm text-gray-700 dark:text-gray-300">
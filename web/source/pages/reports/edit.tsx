@@ -18,7 +18,13 @@ import {
 import { fetch, isErrorResponse } from '@/utilities/http'
 import { errors, messages } from '@/utilities/text'
 
-import { Attribute, Report, DependentAttribute, User } from '@/api'
+import {
+	Attribute,
+	Report,
+	ReportPreview,
+	DependentAttribute,
+	User,
+} from '@/api'
 import { storage } from '@/utilities/storage'
 
 /**
@@ -142,6 +148,16 @@ export const ReportEditPage = (props: { reportId: string }) => {
 	)
 	// This list of attributes used to fill the dropdown, so Groot can choose.
 	const [attributes, setAttributes] = useState<Attribute[]>([])
+	// Define a state for the user or group to preview the report for, the
+	// sample values to preview it with, and the rendered preview.
+	const [previewUser, setPreviewUser] = useState<string>(
+		storage.get<User>('user')?.id ?? '',
+	)
+	const [previewGroup, setPreviewGroup] = useState<string>('')
+	const [previewInput, setPreviewInput] = useState<Record<string, string>>({})
+	const [preview, setPreview] = useState<ReportPreview | undefined>(undefined)
+	// Whether the saved template is written in EJS, and so can stay in it.
+	const [isLegacy, setIsLegacy] = useState<boolean>(false)
 
 	// Fetch the attributes using the API.
 	useEffect(() => {
@@ -209,6 +225,7 @@ export const ReportEditPage = (props: { reportId: string }) => {
 					fetchedAttributes,
 				)
 				dispatch({ type: 'set-report', payload: decodedReport })
+				setIsLegacy(decodedReport.engine !== 'liquid')
 
 				setAttributes(fetchedAttributes)
 			})
@@ -216,55 +233,131 @@ export const ReportEditPage = (props: { reportId: string }) => {
 	}, [])
 
 	/**
-	 * Update the report using the API.
+	 * Replace all attribute names with actual IDs in the report's template, and
+	 * base64 encode it, so it can be sent to the API.
+	 *
+	 * @param {string} template - The template in the editor.
+	 *
+	 * @returns {string} - The encoded template.
 	 */
-	const saveReport = async () => {
-		// Clear the error message.
-		setErrorMessage(undefined)
-		// Delete any blank attribute IDs from the report.
-		report.input = report.input
-			? report.input.filter((attr) => Boolean(attr.id))
-			: []
-		// Replace all attribute names with actual IDs in the report.
-		const attributeNameMatches = [...report.template!.matchAll(/"{(.*?)}"/g)]
-		// Keep a copy of the original incase an error is detected and we need to
-		// abort.
-		const originalContents = report.template
-		for (const [_match, attributeName] of attributeNameMatches) {
+	const encodeTemplate = (template: string): string => {
+		for (const [_match, attributeName] of template.matchAll(/"{(.*?)}"/g)) {
 			// Find the attribute.
 			const attribute = attributes.find((attr) => attr.name === attributeName)
-			// If it does not exist, error out and restore the report.
-			if (!attribute) {
-				report.template = originalContents
-				return setErrorMessage(
+			// If it does not exist, error out.
+			if (!attribute)
+				throw new Error(
 					errors.get('report-attribute-not-found') + attributeName,
 				)
-			}
 
 			// Else replace the attribute name with the ID.
-			report.template = report.template!.replace(
+			template = template.replace(
 				new RegExp(`"{${attribute.name}}"`, 'g'),
 				`"${attribute.id}"`,
 			)
 		}
 
-		// Base64 encode the report's templates.
-		report.template = btoa(report.template!)
+		return btoa(template)
+	}
+
+	/**
+	 * Convert the sample values typed in into numbers and booleans where
+	 * possible.
+	 *
+	 * @returns {Record<string, string | number | boolean>} - The values, keyed by attribute ID.
+	 */
+	const parsePreviewInput = (): Record<string, string | number | boolean> => {
+		const input: Record<string, string | number | boolean> = {}
+		for (const [id, value] of Object.entries(previewInput)) {
+			if (value === '') continue
+			input[id] =
+				value === 'true' || value === 'false'
+					? value === 'true'
+					: Number.isNaN(Number(value))
+					? value
+					: Number(value)
+		}
+
+		return input
+	}
+
+	// Render a preview of the report whenever the template or the sample data
+	// changes, waiting for Groot to stop typing first.
+	useEffect(() => {
+		if (typeof report.template === 'undefined') return
+
+		const timer = setTimeout(async () => {
+			// Encode the report's template.
+			let template
+			try {
+				template = encodeTemplate(report.template!)
+			} catch (error: unknown) {
+				return setPreview({ error: { message: (error as Error).message } })
+			}
+
+			// Make the API call to render the preview.
+			const response = await fetch<ReportPreview>({
+				url: '/reports/preview',
+				method: 'post',
+				json: {
+					template,
+					engine: report.engine ?? 'ejs',
+					kind: report.kind ?? 'user',
+					userId: previewUser === '' ? undefined : previewUser,
+					groupId: previewGroup === '' ? undefined : previewGroup,
+					input: parsePreviewInput(),
+				},
+			})
+
+			// Show any errors that might arise in place of the preview.
+			if (isErrorResponse(response))
+				return setPreview({ error: { message: response.error.message } })
+
+			setPreview(response)
+		}, 500)
+
+		return () => clearTimeout(timer)
+	}, [
+		report.template,
+		report.engine,
+		report.kind,
+		attributes,
+		previewUser,
+		previewGroup,
+		previewInput,
+	])
+
+	/**
+	 * Update the report using the API.
+	 */
+	const saveReport = async () => {
+		// Clear the error message.
+		setErrorMessage(undefined)
+		// Delete any blank attribute IDs from the report.
+		report.input = report.input
+			? report.input.filter((attr) => Boolean(attr.id))
+			: []
+		// Encode the report's template.
+		let template
+		try {
+			template = encodeTemplate(report.template!)
+		} catch (error: unknown) {
+			return setErrorMessage((error as Error).message)
+		}
 
 		// Make the API call to edit the report.
 		const response = await fetch<{ report: Report }>({
 			url: `/reports/${report.id}`,
 			method: 'put',
-			json: report,
+			json: { ...report, template },
 		})
 
 		// Handle any errors that might arise.
 		if (isErrorResponse(response))
 			return setErrorMessage(response.error.message)
 
-		// Un-encode the template.
-		report.template = atob(report.template)
-
+		// Once the template is saved in liquid, it cannot go back to EJS.
+		setIsLegacy(response.report.engine !== 'liquid')
 		// Display a success message and make it disappear after 2.5 seconds.
 		setSuccessMessage(messages.get('saved-report'))
 		setTimeout(() => setSuccessMessage(undefined), 2500)
@@ -337,6 +430,49 @@ export const ReportEditPage = (props: { reportId: string }) => {
 									}
 								/>
 							</div>
+							<div class="col-span-6 sm:col-span-3">
+								<Label for="kind-input" text="Rendered For" required={true} />
+								<SelectInput
+									id="kind-input"
+									options={[
+										{ text: 'A single user', value: 'user' },
+										{ text: 'All participants of a group', value: 'group' },
+									]}
+									selected={report?.kind ?? 'user'}
+									update={(value: string) =>
+										dispatch({
+											type: 'update-field',
+											field: 'kind',
+											payload: value,
+										})
+									}
+								/>
+							</div>
+							<div class="col-span-6 sm:col-span-3">
+								<Label
+									for="engine-input"
+									text="Template Language"
+									required={true}
+								/>
+								<SelectInput
+									id="engine-input"
+									options={[
+										{ text: 'Liquid', value: 'liquid' },
+										// Only templates already written in EJS can stay in it.
+										...(isLegacy
+											? [{ text: 'EJS (legacy)', value: 'ejs' }]
+											: []),
+									]}
+									selected={report?.engine ?? 'ejs'}
+									update={(value: string) =>
+										dispatch({
+											type: 'update-field',
+											field: 'engine',
+											payload: value,
+										})
+									}
+								/>
+							</div>
 							<table class="col-span-6">
 								<thead>
 									<tr class="text-sm text-gray-700 dark:text-gray-300">
@@ -422,7 +558,47 @@ export const ReportEditPage = (props: { reportId: string }) => {
 									})}
 								</tbody>
 							</table>
-							<div class="col-span-6">
+							<div class="col-span-6 sm:col-span-2">
+								{report?.kind === 'group' ? (
+									<TextInput
+										id="preview-group-input"
+										label="Preview For Group (ID)"
+										type="text"
+										value={previewGroup}
+										required={false}
+										update={setPreviewGroup}
+									/>
+								) : (
+									<TextInput
+										id="preview-user-input"
+										label="Preview For User (ID)"
+										type="text"
+										value={previewUser}
+										required={false}
+										update={setPreviewUser}
+									/>
+								)}
+							</div>
+							{(report?.input ?? [])
+								.filter(({ id }) => Boolean(id))
+								.map(({ id }) => (
+									<div class="col-span-6 sm:col-span-2">
+										<TextInput
+											id={`preview-input-${id}`}
+											label={`Sample value for ${
+												attributes.find((attribute) => attribute.id === id)
+													?.name ?? id
+											}`}
+											type="text"
+											value={previewInput[id]}
+											required={false}
+											update={(value: string) =>
+												setPreviewInput({ ...previewInput, [id]: value })
+											}
+										/>
+									</div>
+								))}
+							<div class="col-span-6 lg:col-span-3">
 								<Label for="code-input" text="Code" required={true} />
 								<CodeEditor
 									id="code-input"
@@ -437,6 +613,27 @@ export const ReportEditPage = (props: { reportId: string }) => {
 									}}
 								/>
 							</div>
+							<div class="col-span-6 lg:col-span-3">
+								<Label for="preview" text="Preview" required={false} />
+								{preview?.error ? (
+									<p
+										id="preview-error"
+										class="my-2 p-2 rounded-lg border border-red-300 text-sm font-mono text-red-700 dark:text-red-400"
+									>
+										{preview.error.line
+											? `Line ${preview.error.line}: ${preview.error.message}`
+											: preview.error.message}
+									</p>
+								) : (
+									<iframe
+										id="preview"
+										title="Preview"
+										srcDoc={preview?.html ?? ''}
+										sandbox=""
+										class="my-2 w-full h-[80vh] rounded-lg border border-gray-300 dark:border-background-dark bg-white"
+									/>
+								)}
+							</div>
 						</div>
 					</div>
 					<div class="mt-4 grid grid-cols-6">
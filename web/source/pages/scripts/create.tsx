@@ -21,6 +21,7 @@ import { errors } from '@/utilities/text'
 import type {
 	Attribute,
 	Script,
+	ScriptLanguage,
 	DependentAttribute,
 	ComputedAttribute,
 } from '@/api'
@@ -70,9 +71,9 @@ type ScriptCreateFormAction =
 	  }
 
 /**
- * An example script that Groot can edit.
+ * Example scripts that Groot can edit, in each language.
  */
-const exampleScript = `
+const exampleLuaScript = `
 -- scripts/example
 -- An example script that calculates the score of a user in a quiz.
 
@@ -116,6 +117,35 @@ function compute(context)
   }
 end
 `.trim()
+const exampleJavaScriptScript = `
+// scripts/example
+// An example script that calculates the score of a user in a quiz.
+
+// The computation of the attribute must be done in a \`compute\` function, that
+// is called with the same context as a lua script: \`context.input\` contains
+// the attributes requested as input, and \`context.user\` the current user.
+// Instead of specifying the attribute ID, you could specify the name in curly
+// brackets instead, and we will replace it with the ID of the attribute.
+function compute(context) {
+	const knowsCleanestCity = context.input["{Knows Cleanest City}"].value
+	const knowsCapitalCity = context.input["{Knows Capital City}"].value
+	const quizScore = (knowsCapitalCity + knowsCleanestCity) / 2
+
+	// The returned object contains the user attributes to set on the user
+	// passed in as \`context.user\`.
+	return {
+		attributes: {
+			"{Quiz Score}": {
+				value: quizScore * 100,
+			},
+		},
+	}
+}
+`.trim()
+const exampleScripts: Record<ScriptLanguage, string> = {
+	lua: exampleLuaScript,
+	javascript: exampleJavaScriptScript,
+}
 
 /**
  * The script create page.
@@ -226,7 +256,8 @@ export const ScriptCreatePage = () => {
 		ScriptFormState,
 		ScriptCreateFormAction
 	>(reducer, {
-		content: exampleScript,
+		content: exampleScripts.lua,
+		language: 'lua',
 	})
 
 	// Define a state for error messages, loading indicators and the list of attributes.
@@ -551,12 +582,38 @@ export const ScriptCreatePage = () => {
 									})}
 								</tbody>
 							</table>
+							<div class="col-span-6 sm:col-span-3">
+								<Label for="language-input" text="Language" required={true} />
+								<SelectInput
+									id="language-input"
+									options={[
+										{ text: 'Lua', value: 'lua' },
+										{ text: 'JavaScript', value: 'javascript' },
+									]}
+									selected={script.language ?? 'lua'}
+									update={(value: string) => {
+										// Swap the example for one in the chosen language, unless it
+										// has been edited.
+										if (Object.values(exampleScripts).includes(script.content!))
+											dispatch({
+												type: 'update-field',
+												field: 'content',
+												payload: exampleScripts[value as ScriptLanguage],
+											})
+										dispatch({
+											type: 'update-field',
+											field: 'language',
+											payload: value,
+										})
+									}}
+								/>
+							</div>
 							<div class="col-span-6">
 								<Label for="code-input" text="Code" required={true} />
 								<CodeEditor
 									id="code-input"
 									code={script.content!}
-									language="lua"
+									language={script.language ?? 'lua'}
 									update={(value: string) => {
 										dispatch({
 											type: 'update-field',
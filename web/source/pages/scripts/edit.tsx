@@ -21,6 +21,7 @@ import { errors } from '@/utilities/text'
 import type {
 	Attribute,
 	Script,
+	ScriptTestResult,
 	DependentAttribute,
 	ComputedAttribute,
 } from '@/api'
@@ -193,6 +194,12 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 	)
 	// This list of attributes used to fill the dropdown, so Groot can choose.
 	const [attributes, setAttributes] = useState<Attribute[]>([])
+	// The values of the input attributes to test the script with, and the
+	// result of the last test run.
+	const [testInput, setTestInput] = useState<Record<string, string>>({})
+	const [testResult, setTestResult] = useState<ScriptTestResult | undefined>(
+		undefined,
+	)
 
 	// Fetch the attributes using the API.
 	useEffect(() => {
@@ -266,6 +273,34 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 			.catch((error) => setErrorMessage(error.message))
 	}, [])
 
+	/**
+	 * Replace all attribute names with actual IDs in the script's code, and
+	 * base64 encode it, so it can be sent to the API.
+	 *
+	 * @param {string} content - The code in the editor.
+	 *
+	 * @returns {string} - The encoded code.
+	 */
+	const encodeContent = (content: string): string => {
+		for (const [_match, attributeName] of content.matchAll(/"{(.*?)}"/g)) {
+			// Find the attribute.
+			const attribute = attributes.find((attr) => attr.name === attributeName)
+			// If it does not exist, error out.
+			if (!attribute)
+				throw new Error(
+					errors.get('script-attribute-not-found') + attributeName,
+				)
+
+			// Else replace the attribute name with the ID.
+			content = content.replace(
+				new RegExp(`"{${attribute.name}}"`, 'g'),
+				`"${attribute.id}"`,
+			)
+		}
+
+		return btoa(content)
+	}
+
 	/**
 	 * Update the script using the API.
 	 */
@@ -279,37 +314,20 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 		script.computed = script.computed
 			? script.computed.filter((attr) => Boolean(attr.id))
 			: []
-		// Replace all attribute names with actual IDs in the script.
-		const attributeNameMatches = [...script.content!.matchAll(/"{(.*?)}"/g)]
-		// Keep a copy of the original incase an error is detected and we need to
-		// abort.
-		const originalContents = script.content
-		for (const [_match, attributeName] of attributeNameMatches) {
-			// Find the attribute.
-			const attribute = attributes.find((attr) => attr.name === attributeName)
-			// If it does not exist, error out and restore the script.
-			if (!attribute) {
-				script.content = originalContents
-				return setErrorMessage(
-					errors.get('script-attribute-not-found') + attributeName,
-				)
-			}
 
-			// Else replace the attribute name with the ID.
-			script.content = script.content!.replace(
-				new RegExp(`"{${attribute.name}}"`, 'g'),
-				`"${attribute.id}"`,
-			)
+		// Encode the script's contents.
+		let content
+		try {
+			content = encodeContent(script.content!)
+		} catch (error: unknown) {
+			return setErrorMessage((error as Error).message)
 		}
 
-		// Base64 encode the script's contents.
-		script.content = btoa(script.content!)
-
 		// Make the API call to edit the script.
 		const response = await fetch<{ script: Script }>({
 			url: `/scripts/${script.id}`,
 			method: 'put',
-			json: script,
+			json: { ...script, content },
 		})
 
 		// Handle any errors that might arise.
@@ -320,6 +338,163 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 		route('/scripts')
 	}
 
+	/**
+	 * Convert the test values typed in into numbers and booleans where possible.
+	 *
+	 * @returns {Record<string, string | number | boolean>} - The values, keyed by attribute ID.
+	 */
+	const parseTestInput = (): Record<string, string | number | boolean> => {
+		const input: Record<string, string | number | boolean> = {}
+		for (const [id, value] of Object.entries(testInput)) {
+			if (value === '') continue
+			input[id] =
+				value === 'true' || value === 'false'
+					? value === 'true'
+					: Number.isNaN(Number(value))
+					? value
+					: Number(value)
+		}
+
+		return input
+	}
+
+	/**
+	 * Run the code in the editor with the test input, without saving it or
+	 * storing what it computes.
+	 */
+	const testScript = async () => {
+		// Clear the error message and the previous result.
+		setErrorMessage(undefined)
+		setTestResult(undefined)
+
+		// Encode the script's contents.
+		let content
+		try {
+			content = encodeContent(script.content!)
+		} catch (error: unknown) {
+			return setErrorMessage((error as Error).message)
+		}
+
+		const input = parseTestInput()
+		// Make the API call to test the script.
+		const response = await fetch<ScriptTestResult>({
+			url: `/scripts/${script.id}/test`,
+			method: 'post',
+			json: { content, language: script.language, input },
+		})
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response))
+			return setErrorMessage(response.error.message)
+
+		setTestResult(response)
+	}
+
+	/**
+	 * Save the input and output of the last test run as a test case, that the
+	 * script must pass whenever its code is changed.
+	 */
+	const saveTestCase = () => {
+		const expected: Record<string, string | number | boolean> = {}
+		for (const [id, { value }] of Object.entries(
+			testResult?.output?.attributes ?? {},
+		))
+			expected[id] = value
+
+		const tests = script.tests ?? []
+		dispatch({
+			type: 'update-field',
+			field: 'tests',
+			payload: [
+				...tests,
+				{
+					name: `Test case ${tests.length + 1}`,
+					input: parseTestInput(),
+					expected,
+				},
+			],
+		})
+	}
+
+	/**
+	 * The output, logs and errors from the last test run.
+	 *
+	 * @prop {ScriptTestResult} result - The result of the test run.
+	 *
+	 * @component
+	 */
+	const TestResult = (props: { result: ScriptTestResult }) => (
+		<div class="col-span-6 text-sm text-gray-700 dark:text-gray-400">
+			<p>
+				{props.result.error
+					? `${
+							props.result.error.code === 'script-timeout'
+								? 'Stopped'
+								: 'Failed'
+					  }${
+							props.result.error.line
+								? ` on line ${props.result.error.line}`
+								: ''
+					  } after ${props.result.time} ms: ${props.result.error.message}`
+					: `Ran successfully in ${props.result.time} ms.`}
+			</p>
+			{props.result.output && (
+				<pre id="test-output" class="my-2 p-2 rounded-lg border font-mono">
+					{JSON.stringify(props.result.output, undefined, 2)}
+				</pre>
+			)}
+			{props.result.logs.length > 0 && (
+				<pre id="test-logs" class="my-2 p-2 rounded-lg border font-mono">
+					{props.result.logs.join('\n')}
+				</pre>
+			)}
+			{props.result.output && (
+				<Button
+					id="save-test-case-button"
+					text="Save as Test Case"
+					action={() => saveTestCase()}
+					type="text"
+				/>
+			)}
+		</div>
+	)
+
+	/**
+	 * The test cases the script must pass whenever its code is changed.
+	 *
+	 * @component
+	 */
+	const TestCases = () => (
+		<div class="col-span-6">
+			<span class="font-medium text-sm text-gray-900 dark:text-white">
+				Test Cases
+			</span>
+			<ul class="text-sm text-gray-700 dark:text-gray-400">
+				{(script.tests ?? []).map((test) => (
+					<li class="flex items-center justify-between">
+						<span>
+							{test.name}: {JSON.stringify(test.input)} →{' '}
+							{JSON.stringify(test.expected)}
+						</span>
+						<IconButton
+							id="remove-test-case-button"
+							action={() =>
+								dispatch({
+									type: 'update-field',
+									field: 'tests',
+									payload: (script.tests ?? []).filter(
+										(other) => other !== test,
+									),
+								})
+							}
+							icon="remove"
+						/>
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+
 	return (
 		<PageWrapper>
 			<div class="mx-auto p-8 max-w-7xl bg-white rounded-lg border dark:bg-background-dark dark:border-gray-700">
@@ -557,12 +732,30 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 									})}
 								</tbody>
 							</table>
+							<div class="col-span-6 sm:col-span-3">
+								<Label for="language-input" text="Language" required={true} />
+								<SelectInput
+									id="language-input"
+									options={[
+										{ text: 'Lua', value: 'lua' },
+										{ text: 'JavaScript', value: 'javascript' },
+									]}
+									selected={script.language ?? 'lua'}
+									update={(value: string) => {
+										dispatch({
+											type: 'update-field',
+											field: 'language',
+											payload: value,
+										})
+									}}
+								/>
+							</div>
 							<div class="col-span-6">
 								<Label for="code-input" text="Code" required={true} />
 								<CodeEditor
 									id="code-input"
 									code={script.content!}
-									language="lua"
+									language={script.language ?? 'lua'}
 									update={(value: string) => {
 										dispatch({
 											type: 'update-field',
@@ -572,6 +765,35 @@ export const ScriptEditPage = (props: { scriptId: string }) => {
 									}}
 								/>
 							</div>
+							{(script?.input ?? [])
+								.filter(({ id }) => Boolean(id))
+								.map(({ id, optional }) => (
+									<div class="col-span-6 sm:col-span-2">
+										<TextInput
+											id={`test-input-${id}`}
+											label={`Test value for ${
+												attributes.find((attribute) => attribute.id === id)
+													?.name ?? id
+											}`}
+											type="text"
+											value={testInput[id]}
+											required={!optional}
+											update={(value: string) =>
+												setTestInput({ ...testInput, [id]: value })
+											}
+										/>
+									</div>
+								))}
+							<div class="col-span-6">
+								<Button
+									id="test-button"
+									text="Test"
+									action={async () => testScript()}
+									type="text"
+								/>
+							</div>
+							{testResult && <TestResult result={testResult} />}
+							{(script?.tests ?? []).length > 0 && <TestCases />}
 						</div>
 					</div>
 					<div class="mt-4 grid grid-cols-4 gap-4 md:grid-cols-6 md:gap-6">
@@ -14,9 +14,9 @@ import {
 	PageWrapper,
 } from '@/components'
 import { fetch, isErrorResponse } from '@/utilities/http'
-import { messages } from '@/utilities/text'
+import { errors, messages } from '@/utilities/text'
 
-import type { Script, Attribute, User } from '@/api'
+import type { Script, Attribute, User, UserScriptResult } from '@/api'
 
 /**
  * A item that shows a script in the list.
@@ -104,7 +104,7 @@ const ScriptItem = (props: { script: Script; users: User[] }) => {
 		// Display the loading indicator.
 		setIsLoading(true)
 
-		const response = await fetch({
+		const response = await fetch<Record<string, UserScriptResult>>({
 			url: `/scripts/${script.id}/run`,
 			method: 'put',
 			json: {
@@ -118,6 +118,24 @@ const ScriptItem = (props: { script: Script; users: User[] }) => {
 		// If an error occurs, throw it.
 		if (isErrorResponse(response))
 			return setErrorMessage(response.error.message)
+		// If the script failed or its output was invalid for some users, list
+		// the problems.
+		const invalid = Object.entries(response).filter(
+			([_, result]) => Boolean(result.error) || result.violations.length > 0,
+		)
+		if (invalid.length > 0)
+			return setErrorMessage(
+				errors.get('script-output-invalid') +
+					invalid
+						.map(
+							([userId, { error, violations }]) =>
+								`${userId} (${
+									error?.message ??
+									violations.map(({ message }) => message).join(' ')
+								})`,
+						)
+						.join(', '),
+			)
 		// And if there are none, show a success message.
 		setSuccessMessage(
 			messages.get('script-ran-successfully') +
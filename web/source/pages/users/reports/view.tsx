@@ -3,10 +3,97 @@
 
 import { useState, useEffect } from 'preact/hooks'
 
-import { Toast, LoadingIndicator, PageWrapper } from '@/components'
+import {
+	Button,
+	Checkbox,
+	TextInput,
+	Toast,
+	LoadingIndicator,
+	PageWrapper,
+} from '@/components'
 import { fetch, isErrorResponse } from '@/utilities/http'
 import { errors } from '@/utilities/text'
 
+import type { ReportSnapshot } from '@/api'
+
+/**
+ * The number of snapshots that can be compared side by side.
+ */
+const comparable = 2
+
+/**
+ * A rendered report, shown in a frame so that its styles do not leak into the
+ * rest of the page. The frame is sandboxed, so scripts in the report cannot
+ * run or reach the app's storage.
+ *
+ * @prop {string} id - An ID to refer to the frame in tests.
+ * @prop {string} html - The rendered report.
+ *
+ * @component
+ */
+const ReportFrame = (props: { id: string; html: string }) => (
+	<iframe
+		id={props.id}
+		title="Report"
+		srcDoc={props.html}
+		sandbox=""
+		class="w-full h-[80vh] rounded-lg border dark:border-gray-700 bg-white"
+	/>
+)
+
+/**
+ * The values of the attributes that differ between two snapshots.
+ *
+ * @prop {ReportSnapshot} before - The older snapshot.
+ * @prop {ReportSnapshot} after - The newer snapshot.
+ *
+ * @component
+ */
+const SnapshotChanges = (props: {
+	before: ReportSnapshot
+	after: ReportSnapshot
+}) => {
+	const changed = [
+		...new Set([
+			...Object.keys(props.before.input),
+			...Object.keys(props.after.input),
+		]),
+	].filter((id) => props.before.input[id] !== props.after.input[id])
+
+	return (
+		<table class="w-full my-4 text-sm text-left text-gray-500 dark:text-gray-400">
+			<thead class="text-xs text-gray-700 uppercase dark:text-gray-400 text-left">
+				<tr>
+					<th class="p-2">Attribute</th>
+					<th class="p-2">
+						As of {new Date(props.before.asOf).toLocaleString()}
+					</th>
+					<th class="p-2">
+						As of {new Date(props.after.asOf).toLocaleString()}
+					</th>
+				</tr>
+			</thead>
+			<tbody class="p-4">
+				{changed.length === 0 ? (
+					<tr>
+						<td class="p-2" colSpan={3}>
+							No attributes changed between the snapshots.
+						</td>
+					</tr>
+				) : (
+					changed.map((id) => (
+						<tr>
+							<td class="p-2 font-mono">{id}</td>
+							<td class="p-2">{String(props.before.input[id] ?? '-')}</td>
+							<td class="p-2">{String(props.after.input[id] ?? '-')}</td>
+						</tr>
+					))
+				)}
+			</tbody>
+		</table>
+	)
+}
+
 /**
  * The view user report page.
  *
@@ -19,24 +106,44 @@ export const ViewUserReportPage = (props: {
 	userId: string
 	reportId: string
 }) => {
-	// Define a state for error messages and the list of users.
+	// Define a state for error messages, the rendered report, the time to
+	// render it as of, the saved snapshots and the ones picked to be viewed,
+	// and the download and save indicators.
 	const [currentError, setErrorMessage] = useState<string | undefined>(
 		undefined,
 	)
+	const [report, setReport] = useState<string | undefined>(undefined)
+	const [asOf, setAsOf] = useState<string>('')
+	const [snapshots, setSnapshots] = useState<ReportSnapshot[]>([])
+	const [selected, setSelected] = useState<string[]>([])
+	const [isDownloading, setIsDownloading] = useState<boolean>(false)
+	const [isSaving, setIsSaving] = useState<boolean>(false)
 
-	// Fetch the report to render using the API.
+	// The time picked by the user is in their timezone, so convert it to a
+	// timestamp the API understands.
+	const query: Record<string, string> = asOf
+		? { asOf: new Date(asOf).toISOString() }
+		: {}
+
+	// Fetch the report to render using the API, whenever the time to render it
+	// as of changes.
 	useEffect(() => {
 		const fetchReport = async (): Promise<string> => {
 			const response = await fetch<string>({
 				url: `/users/${props.userId}/reports/${props.reportId}`,
 				method: 'get',
+				query,
 			})
 
 			// Handle any errors that might arise...
 			if (isErrorResponse(response)) {
 				switch (response.error.code) {
 					case 'precondition-failed':
-						throw new Error(errors.get('report-not-generated'))
+						throw new Error(
+							asOf
+								? response.error.message
+								: errors.get('report-not-generated'),
+						)
 					default:
 						throw new Error(response.error.message)
 				}
@@ -46,20 +153,207 @@ export const ViewUserReportPage = (props: {
 			return response
 		}
 
+		setErrorMessage(undefined)
+		setReport(undefined)
 		fetchReport()
-			.then((report) => {
-				// Set the document's HTML to the decoded report.
-				document.open()
-				document.write(report)
-				document.close()
+			.then(setReport)
+			.catch((error) => setErrorMessage(error.message))
+	}, [asOf])
+
+	// Fetch the snapshots saved of the report using the API.
+	useEffect(() => {
+		const fetchSnapshots = async (): Promise<ReportSnapshot[]> => {
+			const response = await fetch<{ snapshots: ReportSnapshot[] }>({
+				url: `/users/${props.userId}/reports/${props.reportId}/snapshots`,
+				method: 'get',
 			})
+
+			// Handle any errors that might arise...
+			if (isErrorResponse(response)) throw new Error(response.error.message)
+			// ...and if there are none, return the data.
+			return response.snapshots
+		}
+
+		fetchSnapshots()
+			.then(setSnapshots)
 			.catch((error) => setErrorMessage(error.message))
 	}, [])
 
+	/**
+	 * Download the report as a PDF rendered by the API.
+	 */
+	const downloadReport = async () => {
+		// Clear the error message.
+		setErrorMessage(undefined)
+		setIsDownloading(true)
+
+		// Make the API call to render the report as a PDF.
+		const response = await fetch<Blob>({
+			url: `/users/${props.userId}/reports/${props.reportId}`,
+			method: 'get',
+			query,
+			headers: { accept: 'application/pdf' },
+			blob: true,
+		})
+
+		// Stop loading.
+		setIsDownloading(false)
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response))
+			return setErrorMessage(response.error.message)
+
+		// Save the file by clicking on a temporary link to it.
+		const url = URL.createObjectURL(response)
+		const link = document.createElement('a')
+		link.href = url
+		link.download = `${props.reportId}.pdf`
+		link.click()
+		URL.revokeObjectURL(url)
+	}
+
+	/**
+	 * Save the report, as of the picked time, as a snapshot.
+	 */
+	const saveSnapshot = async () => {
+		// Clear the error message.
+		setErrorMessage(undefined)
+		setIsSaving(true)
+
+		// Make the API call to save the snapshot.
+		const response = await fetch<{ snapshot: ReportSnapshot }>({
+			url: `/users/${props.userId}/reports/${props.reportId}/snapshots`,
+			method: 'post',
+			json: query,
+		})
+
+		// Stop loading.
+		setIsSaving(false)
+
+		// Handle any errors that might arise.
+		if (isErrorResponse(response))
+			return setErrorMessage(response.error.message)
+
+		// Show the snapshot at the top of the list, as it is the latest one.
+		setSnapshots([response.snapshot, ...snapshots])
+	}
+
+	/**
+	 * Pick a snapshot to view, or unpick it. Picking more than one snapshot
+	 * compares them, and picking one more than can be compared drops the one
+	 * picked first.
+	 *
+	 * @param {ReportSnapshot} snapshot - The snapshot to pick or unpick.
+	 */
+	const toggleSnapshot = (snapshot: ReportSnapshot) => {
+		setSelected(
+			selected.includes(snapshot.id)
+				? selected.filter((id) => id !== snapshot.id)
+				: [...selected, snapshot.id].slice(-comparable),
+		)
+	}
+
+	// The picked snapshots, oldest first.
+	const viewed = snapshots
+		.filter(({ id }) => selected.includes(id))
+		.sort((a, b) => new Date(a.asOf).valueOf() - new Date(b.asOf).valueOf())
+
 	return (
 		<PageWrapper>
 			<div class="mx-auto p-8 max-w-7xl bg-white rounded-lg border dark:bg-background-dark dark:border-gray-700">
-				<LoadingIndicator isLoading={typeof currentError === 'undefined'} />
+				<div class="flex justify-between items-center mb-4">
+					<h5 class="text-xl font-bold leading-none text-gray-900 dark:text-white">
+						Report
+					</h5>
+					<div class="flex items-center">
+						<Button
+							id="save-snapshot-button"
+							text="Save Snapshot"
+							action={async () => saveSnapshot()}
+							type="text"
+							class={typeof report === 'undefined' || isSaving ? 'hidden' : ''}
+						/>
+						<Button
+							id="download-button"
+							text="Download PDF"
+							action={async () => downloadReport()}
+							type="filled"
+							class={
+								typeof report === 'undefined' || isDownloading ? 'hidden' : ''
+							}
+						/>
+						<LoadingIndicator isLoading={isDownloading || isSaving} />
+					</div>
+				</div>
+				<div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+					<div class="lg:col-span-3">
+						{viewed.length === 0 ? (
+							<>
+								<LoadingIndicator
+									isLoading={
+										typeof report === 'undefined' &&
+										typeof currentError === 'undefined'
+									}
+								/>
+								{typeof report === 'undefined' ? (
+									<div />
+								) : (
+									<ReportFrame id="report" html={report} />
+								)}
+							</>
+						) : (
+							<>
+								{viewed.length === comparable && (
+									<SnapshotChanges before={viewed[0]} after={viewed[1]} />
+								)}
+								<div
+									class={`grid gap-4 ${
+										viewed.length === comparable ? 'grid-cols-2' : 'grid-cols-1'
+									}`}
+								>
+									{viewed.map((snapshot) => (
+										<ReportFrame
+											id={`snapshot-${snapshot.id}`}
+											html={snapshot.html}
+										/>
+									))}
+								</div>
+							</>
+						)}
+					</div>
+					<div>
+						<TextInput
+							id="as-of"
+							label="As Of"
+							type="datetime-local"
+							value={asOf}
+							update={setAsOf}
+						/>
+						<p class="text-xs text-gray-500 dark:text-gray-400">
+							Leave empty to render the report with the user's current
+							attributes.
+						</p>
+						<span class="block mt-6 font-medium text-sm text-gray-900 dark:text-white">
+							Snapshots
+						</span>
+						<p class="text-xs text-gray-500 dark:text-gray-400">
+							Pick a snapshot to view it, or two to compare them.
+						</p>
+						<ul class="my-2 text-sm text-gray-700 dark:text-gray-400">
+							{snapshots.length === 0 && <li>No snapshots saved yet.</li>}
+							{snapshots.map((snapshot) => (
+								<li class="my-1">
+									<Checkbox
+										id={`snapshot-${snapshot.id}-checkbox`}
+										text={`As of ${new Date(snapshot.asOf).toLocaleString()}`}
+										selected={selected.includes(snapshot.id)}
+										action={() => toggleSnapshot(snapshot)}
+									/>
+								</li>
+							))}
+						</ul>
+					</div>
+				</div>
 				<Toast id="error-message" type="error" text={currentError} />
 			</div>
 		</PageWrapper>
@@ -45,6 +45,12 @@ export interface FetchOptions {
 	 * Whether or not to cache the response.
 	 */
 	cache?: boolean
+
+	/**
+	 * Whether to return the response body as a `Blob` instead of text, when it
+	 * is not JSON (e.g., when downloading a file).
+	 */
+	blob?: boolean
 }
 
 /**
@@ -60,12 +66,15 @@ export interface MentoringApiError {
 		| 'route-not-found'
 		| 'entity-already-exists'
 		| 'precondition-failed'
+		| 'script-error'
+		| 'script-timeout'
 		| 'too-many-requests'
 		| 'backend-error'
 		| 'server-crash'
 		| 'network-error'
-	status: 400 | 401 | 403 | 404 | 405 | 409 | 412 | 429 | 500 | 503
+	status: 400 | 401 | 403 | 404 | 405 | 409 | 412 | 422 | 429 | 500 | 503
 	message: string
+	line?: number
 }
 
 /**
@@ -186,6 +195,8 @@ export const fetch = async <T>(
 			.get('content-type')
 			?.includes('application/json')
 			? ((await response.json()) as MentoringApiResponse<T>)
+			: options.blob
+			? ((await response.blob()) as unknown as MentoringApiResponse<T>)
 			: ((await response.text()) as unknown as MentoringApiResponse<T>)
 
 		// Cache it, if necessary, and then return it
@@ -26,10 +26,14 @@ const text = {
 		'option-was-not-selected': 'Please select an option to continue.',
 		'first-question-not-found': 'The conversation has no first question.',
 		'script-attribute-not-found': 'Could not find attribute with name ',
+		'script-output-invalid':
+			'The script failed or computed invalid attributes, so nothing was saved for these users: ',
 		'report-attribute-not-found': 'Could not find attribute with name ',
 		'question-attribute-not-found': 'Could not find attribute with name ',
 		'not-allowed-to-take-conversation':
 			'You are not allowed to take the conversation at this time.',
+		'conversation-already-taken':
+			'You have already taken this conversation, and it can be taken only once.',
 		'report-not-generated': 'This report is yet to be generated.',
 		'server-crash':
 			'An unexpected error occurred. Please try again in a few seconds or report this issue.',
@@ -43,6 +47,10 @@ const text = {
 		'signed-up': 'Welcome to the DoNew Mentoring Platform!',
 		'saved-conversation':
 			'Successfully saved the conversation and all its questions!',
+		'published-conversation':
+			'Successfully published the conversation! Users who start it from now on will see this version.',
+		'rolled-back-conversation':
+			'Successfully rolled the conversation back to the chosen version!',
 		'saved-report': 'Successfully saved the report!',
 		'script-ran-successfully': 'Successfully ran the script!',
 	},